@@ -0,0 +1,62 @@
+/**
+ * One-off migration that fills in `startedAt` and `completedAt` for tasks
+ * created before the fields existed.
+ *
+ * Without a status history the best available estimate is the task's last
+ * update, which for most tasks is the change that moved it into its current
+ * status. Completed tasks keep no start time, so they count towards lead time
+ * but not towards cycle time. Tasks that already have the fields are left
+ * untouched, so the script is safe to run more than once.
+ *
+ * Usage: npm run migrate:task-timestamps
+ */
+import mongoose from "mongoose";
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error("MONGODB_URI is not defined in environment variables");
+  process.exit(1);
+}
+
+async function backfill() {
+  await mongoose.connect(MONGODB_URI);
+
+  // Use the raw collection so that `updatedAt` is not bumped by the update
+  const tasks = mongoose.connection.collection("tasks");
+
+  const completed = await tasks.updateMany(
+    { status: "COMPLETED", completedAt: null },
+    [{ $set: { completedAt: "$updatedAt" } }]
+  );
+
+  const inProgress = await tasks.updateMany(
+    { status: "IN_PROGRESS", startedAt: null },
+    [{ $set: { startedAt: "$updatedAt", completedAt: null } }]
+  );
+
+  // Open tasks get explicit empty values so queries can rely on the fields
+  const todo = await tasks.updateMany(
+    {
+      status: "TODO",
+      $or: [
+        { startedAt: { $exists: false } },
+        { completedAt: { $exists: false } },
+      ],
+    },
+    { $set: { startedAt: null, completedAt: null } }
+  );
+
+  console.log(
+    `Backfilled completedAt on ${completed.modifiedCount} completed tasks, ` +
+      `startedAt on ${inProgress.modifiedCount} in-progress tasks and ` +
+      `${todo.modifiedCount} to-do tasks`
+  );
+}
+
+backfill()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
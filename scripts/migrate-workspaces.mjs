@@ -0,0 +1,120 @@
+/**
+ * One-off migration that moves data from before workspaces into them and
+ * replaces the per-user unique index on category names with the
+ * per-workspace one.
+ *
+ * The app moves a user's tasks and categories into their personal workspace
+ * on their first request, so until then legacy categories have no
+ * `workspaceId`. A unique index on `name` and `workspaceId` treats all of
+ * them as being in the same workspace, and two users with a "Work" category
+ * would make it fail to build. The script therefore first creates the
+ * personal workspace of every user with legacy data and moves the data in,
+ * then swaps the indexes. Mongoose never drops indexes that are no longer
+ * declared, so until the old one is removed, creating a category in a second
+ * workspace with the name of one of your categories fails with a duplicate
+ * key error.
+ *
+ * Everything that is already done is skipped, so the script is safe to run
+ * more than once.
+ *
+ * Usage: npm run migrate:workspaces
+ */
+import mongoose from "mongoose";
+
+const MONGODB_URI = process.env.MONGODB_URI;
+
+if (!MONGODB_URI) {
+  console.error("MONGODB_URI is not defined in environment variables");
+  process.exit(1);
+}
+
+const OLD_INDEXES = {
+  categories: "name_1_userId_1",
+  workspaces: "ownerId_1_isPersonal_1",
+};
+
+// Data created before workspaces existed
+const LEGACY = { workspaceId: { $exists: false } };
+
+async function dropIndex(collection, name) {
+  const indexes = await collection.indexes();
+
+  if (indexes.some((index) => index.name === name)) {
+    await collection.dropIndex(name);
+    console.log(`Dropped index ${name}`);
+  } else {
+    console.log(`Index ${name} does not exist`);
+  }
+}
+
+// Find or create the personal workspace of a user, as the app does
+async function ensurePersonalWorkspace(workspaces, userId) {
+  const now = new Date();
+
+  return workspaces.findOneAndUpdate(
+    { ownerId: userId, isPersonal: true },
+    {
+      $setOnInsert: {
+        name: "Personal",
+        members: [{ userId, role: "OWNER", joinedAt: now }],
+        wipLimits: {},
+        createdAt: now,
+        updatedAt: now,
+      },
+    },
+    { upsert: true, returnDocument: "after" }
+  );
+}
+
+async function migrate() {
+  await mongoose.connect(MONGODB_URI);
+
+  const { connection } = mongoose;
+  const workspaces = connection.collection("workspaces");
+  const categories = connection.collection("categories");
+  const tasks = connection.collection("tasks");
+
+  // Keeps the upserts below from racing the app into two personal
+  // workspaces. Fails when a user already has two, which then have to be
+  // merged by hand first.
+  await dropIndex(workspaces, OLD_INDEXES.workspaces);
+  await workspaces.createIndex(
+    { ownerId: 1 },
+    { unique: true, partialFilterExpression: { isPersonal: true } }
+  );
+
+  // Raw collections also reach trashed items, which the app's models hide
+  const userIds = new Set(
+    [
+      ...(await tasks.distinct("userId", LEGACY)),
+      ...(await categories.distinct("userId", LEGACY)),
+    ].map((id) => id.toString())
+  );
+
+  for (const userId of userIds) {
+    const ownerId = new mongoose.Types.ObjectId(userId);
+    const workspace = await ensurePersonalWorkspace(workspaces, ownerId);
+    const adopt = { $set: { workspaceId: workspace._id } };
+
+    await tasks.updateMany({ userId: ownerId, ...LEGACY }, adopt);
+    await categories.updateMany({ userId: ownerId, ...LEGACY }, adopt);
+  }
+  console.log(`Moved the legacy data of ${userIds.size} users`);
+
+  await dropIndex(categories, OLD_INDEXES.categories);
+
+  // Fails when a workspace has two categories with the same name, which
+  // then have to be renamed or merged by hand first
+  const created = await categories.createIndex(
+    { name: 1, workspaceId: 1 },
+    { unique: true }
+  );
+  console.log(`Index ${created} is in place`);
+}
+
+migrate()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CheckCheck, Hourglass, Timer } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ThroughputChart } from "@/components/dashboard/throughput-chart";
+import { DurationStats, TaskAnalytics } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toast } from "sonner";
+
+const PERIODS = [4, 12, 26, 52];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Show a duration in the largest unit that keeps it readable
+function formatDuration({ average }: DurationStats) {
+  if (average === null) return "—";
+  if (average < HOUR) return "< 1h";
+  if (average < DAY) return `${Math.round(average / HOUR)}h`;
+
+  return `${(average / DAY).toFixed(1)}d`;
+}
+
+export default function AnalyticsPage() {
+  const [weeks, setWeeks] = useState(12);
+  const [analytics, setAnalytics] = useState<TaskAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      try {
+        setIsLoading(true);
+        setAnalytics(await apiClient.getTaskAnalytics(weeks));
+      } catch (error) {
+        console.error("Error fetching analytics:", error);
+        toast.error("Failed to load analytics");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+  }, [weeks]);
+
+  const summaryCards = analytics
+    ? [
+        {
+          title: "Completed",
+          value: analytics.completed.toString(),
+          description: `Tasks finished in the last ${weeks} weeks`,
+          icon: CheckCheck,
+          iconColor: "text-green-500",
+          bgColor: "bg-green-50",
+        },
+        {
+          title: "Lead Time",
+          value: formatDuration(analytics.leadTime),
+          description: "Average time from creation to completion",
+          icon: Hourglass,
+          iconColor: "text-blue-500",
+          bgColor: "bg-blue-50",
+        },
+        {
+          title: "Cycle Time",
+          value: formatDuration(analytics.cycleTime),
+          description: `Average time from start to completion (${analytics.cycleTime.count} tasks)`,
+          icon: Timer,
+          iconColor: "text-purple-500",
+          bgColor: "bg-purple-50",
+        },
+      ]
+    : [];
+
+  return (
+    <div className="container mx-auto space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+          <p className="mt-2 text-gray-600">
+            How quickly tasks move from creation to completion
+          </p>
+        </div>
+        <Tabs
+          value={weeks.toString()}
+          onValueChange={(value) => setWeeks(Number(value))}
+        >
+          <TabsList>
+            {PERIODS.map((period) => (
+              <TabsTrigger key={period} value={period.toString()}>
+                {period}w
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading && !analytics ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="h-16 w-16 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+        </div>
+      ) : (
+        analytics && (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              {summaryCards.map((card) => (
+                <Card key={card.title}>
+                  <CardHeader className="flex flex-row items-center justify-between pb-2">
+                    <CardTitle className="text-sm font-medium text-gray-500">
+                      {card.title}
+                    </CardTitle>
+                    <div className={`${card.bgColor} p-2 rounded-full`}>
+                      <card.icon className={`h-5 w-5 ${card.iconColor}`} />
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-3xl font-bold">{card.value}</div>
+                    <p className="text-xs text-gray-500">{card.description}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Throughput</CardTitle>
+                <CardDescription>Tasks completed per week</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ThroughputChart throughput={analytics.throughput} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Category</CardTitle>
+                <CardDescription>
+                  Throughput and average durations per category
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Completed</TableHead>
+                      <TableHead className="text-right">Per Week</TableHead>
+                      <TableHead className="text-right">Lead Time</TableHead>
+                      <TableHead className="text-right">Cycle Time</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analytics.byCategory.length === 0 ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={5}
+                          className="py-6 text-center text-gray-500"
+                        >
+                          No tasks completed in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      analytics.byCategory.map((category) => (
+                        <TableRow key={category.id ?? "uncategorized"}>
+                          <TableCell className="font-medium">
+                            {category.name}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {category.completed}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(category.completed / analytics.weeks).toFixed(1)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatDuration(category.leadTime)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatDuration(category.cycleTime)}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { ApiReference } from "@/components/api-reference/api-reference";
+
+export default function ApiReferencePage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">API Reference</h1>
+        <p className="mt-2 text-gray-600">
+          Explore the REST API and try requests as yourself
+        </p>
+      </div>
+
+      <ApiReference />
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TaskCalendar } from "@/components/tasks/task-calendar";
+import { TaskForm, toTaskFormValues } from "@/components/tasks/task-form";
+import {
+  TaskPriority,
+  TaskRecurrence,
+  TaskStatus,
+  WorkspaceRole,
+} from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toastWithUndo } from "@/utils/undo-toast";
+import { toast } from "sonner";
+
+type CalendarView = "month" | "week";
+
+interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate?: string | Date;
+  category?: { id: string; name: string } | null;
+  recurrence?: TaskRecurrence | null;
+  isBlocked?: boolean;
+}
+
+export default function CalendarPage() {
+  const [view, setView] = useState<CalendarView>("month");
+  const [currentDate, setCurrentDate] = useState(() => new Date());
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [canEdit, setCanEdit] = useState(false);
+  const [dateToCreate, setDateToCreate] = useState<Date | null>(null);
+  const [taskToEdit, setTaskToEdit] = useState<Task | null>(null);
+
+  // Visible days always span whole weeks
+  const days = useMemo(() => {
+    const start =
+      view === "month"
+        ? startOfWeek(startOfMonth(currentDate))
+        : startOfWeek(currentDate);
+    const end =
+      view === "month"
+        ? endOfWeek(endOfMonth(currentDate))
+        : endOfWeek(currentDate);
+
+    return eachDayOfInterval({ start, end });
+  }, [view, currentDate]);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await apiClient.getTasksInRange(
+        days[0],
+        addDays(days[days.length - 1], 1)
+      );
+      setTasks(data);
+    } catch (error) {
+      console.error("Error fetching calendar tasks:", error);
+      toast.error("Failed to load tasks");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  useEffect(() => {
+    const fetchRole = async () => {
+      try {
+        const workspace = await apiClient.getCurrentWorkspace();
+        setCanEdit(workspace.role !== WorkspaceRole.VIEWER);
+      } catch (error) {
+        console.error("Error fetching workspace:", error);
+      }
+    };
+
+    fetchRole();
+  }, []);
+
+  const navigate = (direction: 1 | -1) => {
+    setCurrentDate((date) =>
+      view === "month" ? addMonths(date, direction) : addWeeks(date, direction)
+    );
+  };
+
+  // Reschedule a task to another day, keeping its time of day
+  const handleTaskMove = async (task: Task, day: Date) => {
+    const dueDate = new Date(day);
+    if (task.dueDate) {
+      const previous = new Date(task.dueDate);
+      dueDate.setHours(
+        previous.getHours(),
+        previous.getMinutes(),
+        previous.getSeconds(),
+        previous.getMilliseconds()
+      );
+    }
+
+    const previousTasks = tasks;
+    setTasks((prev) =>
+      prev.map((item) => (item.id === task.id ? { ...item, dueDate } : item))
+    );
+
+    try {
+      const { undoToken } = await apiClient.updateTask(task.id, {
+        title: task.title,
+        dueDate,
+      });
+      toastWithUndo(
+        `Rescheduled to ${format(dueDate, "MMM d, yyyy")}`,
+        [undoToken],
+        fetchTasks
+      );
+    } catch (error) {
+      console.error("Error rescheduling task:", error);
+      setTasks(previousTasks);
+      toast.error("Failed to reschedule task");
+    }
+  };
+
+  const handleTaskFormSuccess = () => {
+    setDateToCreate(null);
+    setTaskToEdit(null);
+    fetchTasks();
+  };
+
+  const handleCloseTaskForm = () => {
+    setDateToCreate(null);
+    setTaskToEdit(null);
+  };
+
+  const title =
+    view === "month"
+      ? format(currentDate, "MMMM yyyy")
+      : `${format(days[0], "MMM d")} – ${format(
+          days[days.length - 1],
+          "MMM d, yyyy"
+        )}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <h1 className="text-3xl font-bold">Calendar</h1>
+        <Tabs
+          value={view}
+          onValueChange={(value) => setView(value as CalendarView)}
+        >
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate(-1)}
+            title={view === "month" ? "Previous month" : "Previous week"}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setCurrentDate(new Date())}>
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => navigate(1)}
+            title={view === "month" ? "Next month" : "Next week"}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center space-x-2">
+          {isLoading && (
+            <div className="h-5 w-5 animate-spin rounded-full border-2 border-gray-200 border-t-primary"></div>
+          )}
+          <h2 className="text-lg font-semibold">{title}</h2>
+        </div>
+      </div>
+
+      <TaskCalendar
+        days={days}
+        month={view === "month" ? currentDate : undefined}
+        tasks={tasks}
+        readOnly={!canEdit}
+        onDayClick={setDateToCreate}
+        onTaskClick={(task) => canEdit && setTaskToEdit(task)}
+        onTaskMove={handleTaskMove}
+      />
+
+      {/* Create task dialog */}
+      <Dialog
+        open={!!dateToCreate}
+        onOpenChange={(open) => !open && setDateToCreate(null)}
+      >
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Create New Task</DialogTitle>
+            <DialogDescription>
+              {dateToCreate
+                ? `Due on ${format(dateToCreate, "EEEE, MMMM d")}`
+                : "Fill in the details to create a new task"}
+            </DialogDescription>
+          </DialogHeader>
+          {dateToCreate && (
+            <TaskForm
+              initialData={{ dueDate: dateToCreate }}
+              onSuccess={handleTaskFormSuccess}
+              onCancel={handleCloseTaskForm}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit task dialog */}
+      <Dialog
+        open={!!taskToEdit}
+        onOpenChange={(open) => !open && setTaskToEdit(null)}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Edit Task</DialogTitle>
+            <DialogDescription>
+              Update the details of your task
+            </DialogDescription>
+          </DialogHeader>
+          {taskToEdit && (
+            <TaskForm
+              initialData={toTaskFormValues(taskToEdit)}
+              taskId={taskToEdit.id}
+              onSuccess={handleTaskFormSuccess}
+              onCancel={handleCloseTaskForm}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -136,7 +136,7 @@ export default function CategoriesPage() {
     try {
       setDeleteError(null);
       await apiClient.deleteCategory(categoryToDelete);
-      toast.success("Category deleted successfully");
+      toast.success("Category moved to trash");
       fetchCategories();
       setCategoryToDelete(null);
     } catch (error: unknown) {
@@ -298,7 +298,8 @@ export default function CategoriesPage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this category?
+              Are you sure you want to delete this category? It will be moved to
+              the trash, where it can be restored.
             </DialogDescription>
           </DialogHeader>
 
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { Check, Users, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import { WorkspaceRole } from "@/types";
+import { apiClient } from "@/utils/api-client";
+
+interface InvitationDetails {
+  workspaceName: string;
+  inviterName: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  isForCurrentUser: boolean;
+}
+
+export default function InvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        setInvitation(await apiClient.getInvitation(token));
+      } catch (error) {
+        console.error("Error fetching invitation:", error);
+        setError(
+          error instanceof Error ? error.message : "Failed to load invitation"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    try {
+      setIsResponding(true);
+      await apiClient.acceptInvitation(token);
+      toast.success(`You joined ${invitation?.workspaceName}`);
+      // Full reload so the sidebar picks up the new workspace
+      window.location.href = "/dashboard";
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to accept invitation"
+      );
+      setIsResponding(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    try {
+      setIsResponding(true);
+      await apiClient.declineInvitation(token);
+      toast.success("Invitation declined");
+      router.push("/dashboard");
+    } catch (error) {
+      console.error("Error declining invitation:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to decline invitation"
+      );
+      setIsResponding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="h-10 w-10 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-md py-8">
+      <Card>
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Users className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>
+            {invitation
+              ? `Join ${invitation.workspaceName}`
+              : "Invitation unavailable"}
+          </CardTitle>
+          <CardDescription>
+            {invitation
+              ? `${invitation.inviterName} invited you to collaborate as ${
+                  invitation.role === WorkspaceRole.EDITOR
+                    ? "an editor"
+                    : "a viewer"
+                }.`
+              : error}
+          </CardDescription>
+        </CardHeader>
+
+        {invitation && (
+          <CardContent className="space-y-2 text-center text-sm text-gray-500">
+            <p>Sent to {invitation.email}</p>
+            <p>Expires {format(new Date(invitation.expiresAt), "PPP")}</p>
+            {!invitation.isForCurrentUser && (
+              <div className="rounded-md bg-red-50 p-4 text-red-500">
+                This invitation was sent to a different email address. Sign in
+                with {invitation.email} to accept it.
+              </div>
+            )}
+          </CardContent>
+        )}
+
+        <CardFooter className="justify-center gap-2">
+          {invitation?.isForCurrentUser ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={handleDecline}
+                disabled={isResponding}
+              >
+                <X className="mr-2 h-4 w-4" /> Decline
+              </Button>
+              <Button onClick={handleAccept} disabled={isResponding}>
+                <Check className="mr-2 h-4 w-4" /> Accept
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => router.push("/dashboard")}>
+              Back to dashboard
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -11,81 +11,66 @@ import {
   ClipboardList,
 } from "lucide-react";
 
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { TrendChart } from "@/components/dashboard/trend-chart";
+import { BreakdownChart } from "@/components/dashboard/breakdown-chart";
+import { ActivityTimeline } from "@/components/activity/activity-timeline";
 import { apiClient } from "@/utils/api-client";
-import { TaskStatus } from "@/types";
-
-interface DashboardStats {
-  totalTasks: number;
-  completedTasks: number;
-  inProgressTasks: number;
-  pendingTasks: number;
-  overdueTasksCount: number;
-  dueSoonTasksCount: number;
-}
+import { Activity, DashboardStats, TaskPriority, TaskStatus } from "@/types";
+import { DUE_SOON_DAYS } from "@/lib/utils/due-dates";
+
+// Number of entries in the recent activity feed
+const RECENT_ACTIVITY_LIMIT = 10;
+
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  [TaskPriority.LOW]: "bg-gray-400",
+  [TaskPriority.MEDIUM]: "bg-blue-500",
+  [TaskPriority.HIGH]: "bg-red-500",
+};
+
+const emptyStats: DashboardStats = {
+  total: 0,
+  byStatus: {
+    [TaskStatus.TODO]: 0,
+    [TaskStatus.IN_PROGRESS]: 0,
+    [TaskStatus.COMPLETED]: 0,
+  },
+  byPriority: {
+    [TaskPriority.LOW]: 0,
+    [TaskPriority.MEDIUM]: 0,
+    [TaskPriority.HIGH]: 0,
+  },
+  byCategory: [],
+  overdue: 0,
+  dueSoon: 0,
+  trend: [],
+};
 
 export default function DashboardPage() {
   const { data: session } = useSession();
   const [isLoading, setIsLoading] = useState(true);
-  const [stats, setStats] = useState<DashboardStats>({
-    totalTasks: 0,
-    completedTasks: 0,
-    inProgressTasks: 0,
-    pendingTasks: 0,
-    overdueTasksCount: 0,
-    dueSoonTasksCount: 0,
-  });
+  const [stats, setStats] = useState<DashboardStats>(emptyStats);
+  const [recentActivity, setRecentActivity] = useState<Activity[]>([]);
 
   useEffect(() => {
     async function fetchDashboardData() {
       try {
         setIsLoading(true);
 
-        // Get all tasks
-        const response = await apiClient.getTasks();
-
-        // Calculate stats
-        const tasks = response.tasks || [];
-        const completedTasks = tasks.filter(
-          (task) => task.status === TaskStatus.COMPLETED
-        ).length;
-        const inProgressTasks = tasks.filter(
-          (task) => task.status === TaskStatus.IN_PROGRESS
-        ).length;
-        const pendingTasks = tasks.filter(
-          (task) => task.status === TaskStatus.TODO
-        ).length;
-
-        // Calculate overdue and due soon tasks
-        const now = new Date();
-
-        // Tasks that are overdue (due date is in the past and not completed)
-        const overdueTasksCount = tasks.filter((task) => {
-          if (!task.dueDate || task.status === TaskStatus.COMPLETED)
-            return false;
-          const dueDate = new Date(task.dueDate);
-          return dueDate < now;
-        }).length;
-
-        // Tasks that are due in the next 3 days and not completed
-        const threeDaysFromNow = new Date();
-        threeDaysFromNow.setDate(now.getDate() + 3);
-
-        const dueSoonTasksCount = tasks.filter((task) => {
-          if (!task.dueDate || task.status === TaskStatus.COMPLETED)
-            return false;
-          const dueDate = new Date(task.dueDate);
-          return dueDate >= now && dueDate <= threeDaysFromNow;
-        }).length;
-
-        setStats({
-          totalTasks: tasks.length,
-          completedTasks,
-          inProgressTasks,
-          pendingTasks,
-          overdueTasksCount,
-          dueSoonTasksCount,
-        });
+        // Counts are computed on the server across all tasks
+        const [dashboardStats, activities] = await Promise.all([
+          apiClient.getDashboardStats(),
+          apiClient.getRecentActivity(RECENT_ACTIVITY_LIMIT),
+        ]);
+
+        setStats(dashboardStats);
+        setRecentActivity(activities);
       } catch (error) {
         console.error("Error fetching dashboard data:", error);
       } finally {
@@ -101,15 +86,15 @@ export default function DashboardPage() {
   const statCards = [
     {
       title: "Total Tasks",
-      value: stats.totalTasks,
-      description: "All tasks in the system",
+      value: stats.total,
+      description: "All tasks in this workspace",
       icon: ClipboardList,
       iconColor: "text-purple-500",
       bgColor: "bg-purple-50",
     },
     {
       title: "Completed",
-      value: stats.completedTasks,
+      value: stats.byStatus[TaskStatus.COMPLETED],
       description: "Tasks marked as completed",
       icon: CheckCheck,
       iconColor: "text-green-500",
@@ -117,7 +102,7 @@ export default function DashboardPage() {
     },
     {
       title: "In Progress",
-      value: stats.inProgressTasks,
+      value: stats.byStatus[TaskStatus.IN_PROGRESS],
       description: "Tasks currently in progress",
       icon: Hourglass,
       iconColor: "text-blue-500",
@@ -125,7 +110,7 @@ export default function DashboardPage() {
     },
     {
       title: "To Do",
-      value: stats.pendingTasks,
+      value: stats.byStatus[TaskStatus.TODO],
       description: "Tasks waiting to be started",
       icon: CheckCircle2,
       iconColor: "text-gray-500",
@@ -133,7 +118,7 @@ export default function DashboardPage() {
     },
     {
       title: "Overdue",
-      value: stats.overdueTasksCount,
+      value: stats.overdue,
       description: "Tasks past their due date",
       icon: AlertTriangle,
       iconColor: "text-red-500",
@@ -141,8 +126,8 @@ export default function DashboardPage() {
     },
     {
       title: "Due Soon",
-      value: stats.dueSoonTasksCount,
-      description: "Tasks due in the next 3 days",
+      value: stats.dueSoon,
+      description: `Tasks due in the next ${DUE_SOON_DAYS} days`,
       icon: Clock,
       iconColor: "text-amber-500",
       bgColor: "bg-amber-50",
@@ -192,7 +177,60 @@ export default function DashboardPage() {
         ))}
       </div>
 
-      {/* Additional dashboard content can be added here */}
+      {/* Trends */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Activity</CardTitle>
+          <CardDescription>
+            Tasks created and completed per day over the last 30 days
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TrendChart trend={stats.trend} />
+        </CardContent>
+      </Card>
+
+      {/* Breakdowns */}
+      <div className="mt-6 grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>By Priority</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BreakdownChart
+              items={Object.values(TaskPriority).map((priority) => ({
+                label: priority.charAt(0) + priority.slice(1).toLowerCase(),
+                count: stats.byPriority[priority],
+                color: PRIORITY_COLORS[priority],
+              }))}
+            />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>By Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BreakdownChart
+              items={stats.byCategory.map((category) => ({
+                label: category.name,
+                count: category.count,
+              }))}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Recent activity */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Recent Activity</CardTitle>
+          <CardDescription>Latest changes in this workspace</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ActivityTimeline activities={recentActivity} showEntity />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -26,7 +26,11 @@ import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
 import { useFormValidation } from "@/hooks/use-form-validation";
+import { AccessTokens } from "@/components/profile/access-tokens";
+import { AccountBackup } from "@/components/profile/account-backup";
+import { CalendarFeeds } from "@/components/profile/calendar-feeds";
 import { format } from "date-fns";
+import { getInitials } from "@/lib/utils/initials";
 
 // Form validation schema
 const profileSchema = z.object({
@@ -80,17 +84,6 @@ export default function ProfilePage() {
     }
   };
 
-  // Get user initials for avatar fallback
-  const getInitials = (name?: string) => {
-    if (!name) return "U";
-    return name
-      .split(" ")
-      .map((n) => n[0])
-      .join("")
-      .toUpperCase()
-      .substring(0, 2);
-  };
-
   if (!session) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -248,6 +241,12 @@ export default function ProfilePage() {
           </Form>
         </Card>
       </div>
+
+      <AccessTokens />
+
+      <CalendarFeeds />
+
+      <AccountBackup />
     </div>
   );
 }
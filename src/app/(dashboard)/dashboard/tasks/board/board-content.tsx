@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { List, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TaskBoard } from "@/components/tasks/task-board";
+import { TaskFilters } from "@/components/tasks/task-filters";
+import { TaskForm, toTaskFormValues } from "@/components/tasks/task-form";
+import { AssignableMember } from "@/components/tasks/task-assignees";
+import {
+  TaskPriority,
+  TaskRecurrence,
+  TaskStatus,
+  WipLimits,
+  WorkspaceRole,
+} from "@/types";
+import { useTasks } from "@/hooks/use-tasks";
+import { apiClient } from "@/utils/api-client";
+import { toast } from "sonner";
+
+// The board shows whole columns instead of paginating
+const BOARD_TASK_LIMIT = 200;
+
+interface EditableTask {
+  id: string;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate?: string | Date;
+  category?: { id: string; name: string } | null;
+  recurrence?: TaskRecurrence | null;
+}
+
+export default function BoardContent() {
+  const [isCreateDialogOpen, setCreateDialogOpen] = useState(false);
+  const [taskToEdit, setTaskToEdit] = useState<EditableTask | null>(null);
+  const [workspaceId, setWorkspaceId] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>(WorkspaceRole.VIEWER);
+  const [members, setMembers] = useState<AssignableMember[]>([]);
+  const [wipLimits, setWipLimits] = useState<WipLimits>({});
+
+  const { tasks, isLoading, pagination, updateFilters, refreshTasks } =
+    useTasks({
+      limit: BOARD_TASK_LIMIT,
+      sortBy: "position",
+      sortOrder: "asc",
+    });
+
+  // Load the board configuration of the current workspace
+  useEffect(() => {
+    const fetchWorkspace = async () => {
+      try {
+        const workspace = await apiClient.getCurrentWorkspace();
+        setWorkspaceId(workspace.id);
+        setRole(workspace.role);
+        setMembers(workspace.members);
+        setWipLimits(workspace.wipLimits || {});
+      } catch (error) {
+        console.error("Error fetching workspace:", error);
+      }
+    };
+
+    fetchWorkspace();
+  }, []);
+
+  const handleWipLimitChange = async (
+    status: TaskStatus,
+    limit: number | null
+  ) => {
+    try {
+      const { workspace } = await apiClient.updateWipLimits(workspaceId, {
+        [status]: limit,
+      });
+      setWipLimits(workspace.wipLimits);
+      toast.success("WIP limit updated");
+    } catch (error) {
+      console.error("Error updating WIP limit:", error);
+      toast.error("Failed to update WIP limit");
+    }
+  };
+
+  const handleTaskFormSuccess = () => {
+    setCreateDialogOpen(false);
+    setTaskToEdit(null);
+    refreshTasks();
+  };
+
+  const handleCloseTaskForm = () => {
+    setCreateDialogOpen(false);
+    setTaskToEdit(null);
+  };
+
+  const canEdit = role !== WorkspaceRole.VIEWER;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Board</h1>
+        <div className="flex space-x-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/tasks">
+              <List className="mr-2 h-4 w-4" /> List
+            </Link>
+          </Button>
+          {canEdit && (
+            <Button onClick={() => setCreateDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> Create Task
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Filters</CardTitle>
+          <CardDescription>
+            Drag cards between columns to change their status
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TaskFilters
+            updateFilters={updateFilters}
+            members={members}
+            showStatus={false}
+          />
+        </CardContent>
+      </Card>
+
+      {pagination.total > tasks.length && (
+        <p className="text-sm text-gray-500">
+          Showing {tasks.length} of {pagination.total} tasks. Use the filters to
+          narrow down the board.
+        </p>
+      )}
+
+      {isLoading && tasks.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="h-10 w-10 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+        </div>
+      ) : (
+        <TaskBoard
+          tasks={tasks}
+          wipLimits={wipLimits}
+          readOnly={!canEdit}
+          onEditTask={setTaskToEdit}
+          onTasksUpdated={refreshTasks}
+          onWipLimitChange={
+            role === WorkspaceRole.OWNER ? handleWipLimitChange : undefined
+          }
+        />
+      )}
+
+      {/* Create task dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Create New Task</DialogTitle>
+            <DialogDescription>
+              Fill in the details to create a new task
+            </DialogDescription>
+          </DialogHeader>
+          <TaskForm
+            onSuccess={handleTaskFormSuccess}
+            onCancel={handleCloseTaskForm}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit task dialog */}
+      <Dialog
+        open={!!taskToEdit}
+        onOpenChange={(open) => !open && setTaskToEdit(null)}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Edit Task</DialogTitle>
+            <DialogDescription>
+              Update the details of your task
+            </DialogDescription>
+          </DialogHeader>
+          {taskToEdit && (
+            <TaskForm
+              initialData={toTaskFormValues(taskToEdit)}
+              taskId={taskToEdit.id}
+              onSuccess={handleTaskFormSuccess}
+              onCancel={handleCloseTaskForm}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,17 +1,12 @@
 "use client";
 
-import { useState } from "react";
-import { Plus, Filter, RotateCcw } from "lucide-react";
+import { useState, useEffect } from "react";
+import Link from "next/link";
 import { useSearchParams } from "next/navigation";
+import { Plus, RotateCcw, Kanban, Download, Upload } from "lucide-react";
+import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import {
   Card,
   CardContent,
@@ -32,18 +27,42 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { Input } from "@/components/ui/input";
 import { TaskList } from "@/components/tasks/task-list";
-import { TaskForm } from "@/components/tasks/task-form";
-import { TaskPriority, TaskStatus } from "@/types";
+import { TaskFilters } from "@/components/tasks/task-filters";
+import { TaskForm, toTaskFormValues } from "@/components/tasks/task-form";
+import { TaskDependencies } from "@/components/tasks/task-dependencies";
+import { TaskActivity } from "@/components/tasks/task-activity";
+import { TaskComments } from "@/components/tasks/task-comments";
+import { TaskAttachments } from "@/components/tasks/task-attachments";
+import { TaskTimeEntries } from "@/components/tasks/task-time-entries";
+import { TaskImportDialog } from "@/components/tasks/task-import-dialog";
+import { AssignableMember } from "@/components/tasks/task-assignees";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  TaskPriority,
+  TaskRecurrence,
+  TaskStatus,
+  WorkspaceRole,
+} from "@/types";
 import { useTasks } from "@/hooks/use-tasks";
+import { apiClient } from "@/utils/api-client";
 import { Badge } from "@/components/ui/badge";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 
-export default function TasksContent() {
-  const searchParams = useSearchParams();
+interface TasksContentProps {
+  // Restricts the list to a fixed assignee ("me" for the current user)
+  assignee?: string;
+  title?: string;
+}
 
+export default function TasksContent({
+  assignee: fixedAssignee,
+  title = "Tasks",
+}: TasksContentProps = {}) {
+  const searchParams = useSearchParams();
   const [isCreateDialogOpen, setCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setImportDialogOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [taskToEdit, setTaskToEdit] = useState<{
     id: string;
     title: string;
@@ -52,14 +71,11 @@ export default function TasksContent() {
     priority: TaskPriority;
     dueDate?: string | Date;
     category?: { id: string; name: string } | null;
+    recurrence?: TaskRecurrence | null;
+    estimateMinutes?: number | null;
   } | null>(null);
-  const [searchTerm, setSearchTerm] = useState(
-    searchParams.get("search") || ""
-  );
-
-  // Get filter values from URL
-  const status = searchParams.get("status") || "all";
-  const priority = searchParams.get("priority") || "all";
+  const [members, setMembers] = useState<AssignableMember[]>([]);
+  const [canAssign, setCanAssign] = useState(false);
 
   // Use our new hook for tasks
   const {
@@ -70,22 +86,22 @@ export default function TasksContent() {
     refreshTasks,
     isClientSideFiltering,
     lastRefreshTimestamp,
-  } = useTasks();
+  } = useTasks({ assignee: fixedAssignee });
 
-  // Handle search submission
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    updateFilters({ search: searchTerm || null });
-  };
-
-  // Handle filter changes
-  const handleStatusChange = (value: string) => {
-    updateFilters({ status: value === "all" ? null : value });
-  };
+  // Load workspace members for the assignee filter and picker
+  useEffect(() => {
+    const fetchMembers = async () => {
+      try {
+        const workspace = await apiClient.getCurrentWorkspace();
+        setMembers(workspace.members);
+        setCanAssign(workspace.role !== WorkspaceRole.VIEWER);
+      } catch (error) {
+        console.error("Error fetching workspace members:", error);
+      }
+    };
 
-  const handlePriorityChange = (value: string) => {
-    updateFilters({ priority: value === "all" ? null : value });
-  };
+    fetchMembers();
+  }, []);
 
   // Task form handlers
   const handleCreateTask = () => {
@@ -100,6 +116,7 @@ export default function TasksContent() {
     priority: TaskPriority;
     dueDate?: string | Date;
     category?: { id: string; name: string } | null;
+    recurrence?: TaskRecurrence | null;
   }) => {
     setTaskToEdit(task);
   };
@@ -115,27 +132,72 @@ export default function TasksContent() {
     setTaskToEdit(null);
   };
 
-  // Map task data for edit form
-  const getInitialFormData = () => {
-    if (!taskToEdit) return undefined;
+  // Download every task matching the current filters, not just this page
+  const handleExportTasks = async () => {
+    try {
+      setIsExporting(true);
+      const sortOrder = searchParams.get("sortOrder");
 
-    return {
-      title: taskToEdit.title,
-      description: taskToEdit.description || "",
-      status: taskToEdit.status,
-      priority: taskToEdit.priority,
-      dueDate: taskToEdit.dueDate ? new Date(taskToEdit.dueDate) : null,
-      categoryId: taskToEdit.category?.id || null,
-    };
+      const { csv, count } = await apiClient.exportTasksCsv({
+        status: searchParams.get("status") || "",
+        priority: searchParams.get("priority") || "",
+        categoryId: searchParams.get("categoryId") || "",
+        assigneeId: fixedAssignee || searchParams.get("assignee") || "",
+        search: searchParams.get("search") || "",
+        sortBy: searchParams.get("sortBy") || undefined,
+        sortOrder:
+          sortOrder === "asc" || sortOrder === "desc" ? sortOrder : undefined,
+      });
+
+      // The byte order mark makes Excel read the file as UTF-8
+      const blob = new Blob(["\uFEFF" + csv], {
+        type: "text/csv;charset=utf-8",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `tasks-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success(`${count} task${count === 1 ? "" : "s"} exported`);
+    } catch (error) {
+      console.error("Error exporting tasks:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export tasks"
+      );
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <h1 className="text-3xl font-bold">Tasks</h1>
-        <Button onClick={handleCreateTask}>
-          <Plus className="mr-2 h-4 w-4" /> Create Task
-        </Button>
+        <h1 className="text-3xl font-bold">{title}</h1>
+        <div className="flex space-x-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/tasks/board">
+              <Kanban className="mr-2 h-4 w-4" /> Board
+            </Link>
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleExportTasks}
+            disabled={isExporting}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+          {canAssign && (
+            <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" /> Import
+            </Button>
+          )}
+          <Button onClick={handleCreateTask}>
+            <Plus className="mr-2 h-4 w-4" /> Create Task
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -186,57 +248,11 @@ export default function TasksContent() {
           </div>
         </CardHeader>
         <CardContent>
-          <div className="flex flex-col space-y-4 md:flex-row md:items-end md:space-x-4 md:space-y-0">
-            {/* Search */}
-            <div className="flex-1">
-              <form onSubmit={handleSearch} className="flex space-x-2">
-                <Input
-                  placeholder="Search tasks..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="flex-1"
-                />
-                <Button type="submit" variant="secondary">
-                  <Filter className="mr-2 h-4 w-4" />
-                  Filter
-                </Button>
-              </form>
-            </div>
-
-            {/* Status filter */}
-            <div className="w-full md:w-48">
-              <Select value={status} onValueChange={handleStatusChange}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Status: All" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value={TaskStatus.TODO}>To Do</SelectItem>
-                  <SelectItem value={TaskStatus.IN_PROGRESS}>
-                    In Progress
-                  </SelectItem>
-                  <SelectItem value={TaskStatus.COMPLETED}>
-                    Completed
-                  </SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            {/* Priority filter */}
-            <div className="w-full md:w-48">
-              <Select value={priority} onValueChange={handlePriorityChange}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Priority: All" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Priorities</SelectItem>
-                  <SelectItem value={TaskPriority.LOW}>Low</SelectItem>
-                  <SelectItem value={TaskPriority.MEDIUM}>Medium</SelectItem>
-                  <SelectItem value={TaskPriority.HIGH}>High</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+          <TaskFilters
+            updateFilters={updateFilters}
+            members={members}
+            showAssignee={!fixedAssignee}
+          />
         </CardContent>
       </Card>
 
@@ -245,6 +261,8 @@ export default function TasksContent() {
         tasks={tasks}
         isLoading={isLoading}
         pagination={pagination}
+        assignee={fixedAssignee}
+        members={canAssign ? members : undefined}
         onEditTask={handleEditTask}
         onTasksUpdated={refreshTasks}
       />
@@ -270,7 +288,7 @@ export default function TasksContent() {
         open={!!taskToEdit}
         onOpenChange={(open) => !open && setTaskToEdit(null)}
       >
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
           <DialogHeader>
             <DialogTitle>Edit Task</DialogTitle>
             <DialogDescription>
@@ -278,15 +296,56 @@ export default function TasksContent() {
             </DialogDescription>
           </DialogHeader>
           {taskToEdit && (
-            <TaskForm
-              initialData={getInitialFormData()}
-              taskId={taskToEdit.id}
-              onSuccess={handleTaskFormSuccess}
-              onCancel={handleCloseTaskForm}
-            />
+            <Tabs defaultValue="details">
+              <TabsList className="max-w-full justify-start overflow-x-auto">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="dependencies">Dependencies</TabsTrigger>
+                <TabsTrigger value="comments">Comments</TabsTrigger>
+                <TabsTrigger value="attachments">Attachments</TabsTrigger>
+                <TabsTrigger value="time">Time</TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details">
+                <TaskForm
+                  initialData={toTaskFormValues(taskToEdit)}
+                  taskId={taskToEdit.id}
+                  onSuccess={handleTaskFormSuccess}
+                  onCancel={handleCloseTaskForm}
+                />
+              </TabsContent>
+              <TabsContent value="dependencies">
+                <TaskDependencies
+                  taskId={taskToEdit.id}
+                  onChange={refreshTasks}
+                />
+              </TabsContent>
+              <TabsContent value="comments">
+                <TaskComments taskId={taskToEdit.id} onChange={refreshTasks} />
+              </TabsContent>
+              <TabsContent value="attachments">
+                <TaskAttachments taskId={taskToEdit.id} />
+              </TabsContent>
+              <TabsContent value="time">
+                <TaskTimeEntries
+                  taskId={taskToEdit.id}
+                  estimateMinutes={taskToEdit.estimateMinutes}
+                  onChange={refreshTasks}
+                />
+              </TabsContent>
+              <TabsContent value="activity">
+                <TaskActivity taskId={taskToEdit.id} />
+              </TabsContent>
+            </Tabs>
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Import tasks dialog */}
+      <TaskImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImported={refreshTasks}
+      />
     </div>
   );
 }
@@ -0,0 +1,224 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { addWeeks, format, parseISO, startOfWeek } from "date-fns";
+import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Timesheet } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { formatMinutes } from "@/lib/utils/durations";
+
+type Scope = "mine" | "all";
+
+// Monday of the week of a date, as YYYY-MM-DD
+const getWeekStart = (date: Date) =>
+  format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+
+// Empty cells stay blank so the tracked days stand out
+const formatCell = (minutes: number) => (minutes ? formatMinutes(minutes) : "");
+
+export default function TimesheetPage() {
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [scope, setScope] = useState<Scope>("mine");
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const fetchTimesheet = async () => {
+      try {
+        setIsLoading(true);
+        setTimesheet(await apiClient.getTimesheet(weekStart, scope));
+      } catch (error) {
+        console.error("Error fetching timesheet:", error);
+        toast.error("Failed to load timesheet");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTimesheet();
+  }, [weekStart, scope]);
+
+  const moveWeek = (amount: number) =>
+    setWeekStart((current) =>
+      getWeekStart(addWeeks(parseISO(current), amount))
+    );
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const { csv } = await apiClient.exportTimesheetCsv(weekStart, scope);
+
+      // The byte order mark makes Excel read the file as UTF-8
+      const blob = new Blob(["\uFEFF" + csv], {
+        type: "text/csv;charset=utf-8",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `timesheet-${weekStart}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting timesheet:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export timesheet"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const isCurrentWeek = weekStart === getWeekStart(new Date());
+
+  return (
+    <div className="container mx-auto space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Timesheet</h1>
+          <p className="mt-2 text-gray-600">
+            Time tracked per task and day of the week
+          </p>
+        </div>
+        <Tabs value={scope} onValueChange={(value) => setScope(value as Scope)}>
+          <TabsList>
+            <TabsTrigger value="mine">Mine</TabsTrigger>
+            <TabsTrigger value="all">Everyone</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => moveWeek(-1)}
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => moveWeek(1)}
+            aria-label="Next week"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="font-medium">
+            Week of {format(parseISO(weekStart), "MMM d, yyyy")}
+          </span>
+          {!isCurrentWeek && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWeekStart(getWeekStart(new Date()))}
+            >
+              This week
+            </Button>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={isExporting || !timesheet?.total}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          {isExporting ? "Exporting..." : "Export CSV"}
+        </Button>
+      </div>
+
+      {isLoading && !timesheet ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="h-16 w-16 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+        </div>
+      ) : (
+        timesheet && (
+          <Card>
+            <CardContent className="pt-6">
+              {timesheet.categories.length === 0 ? (
+                <p className="py-8 text-center text-sm text-gray-500">
+                  No time tracked this week.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Task</TableHead>
+                      {timesheet.days.map((day) => (
+                        <TableHead key={day} className="text-right">
+                          {format(parseISO(day), "EEE d")}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {timesheet.categories.map((category) => (
+                      <Fragment key={category.id ?? "none"}>
+                        <TableRow className="bg-muted/50 font-medium">
+                          <TableCell>{category.name}</TableCell>
+                          {category.minutes.map((minutes, index) => (
+                            <TableCell key={index} className="text-right">
+                              {formatCell(minutes)}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right">
+                            {formatMinutes(category.total)}
+                          </TableCell>
+                        </TableRow>
+                        {category.tasks.map((task) => (
+                          <TableRow key={task.id}>
+                            <TableCell className="max-w-xs truncate pl-6">
+                              {task.title}
+                            </TableCell>
+                            {task.minutes.map((minutes, index) => (
+                              <TableCell
+                                key={index}
+                                className="text-right tabular-nums"
+                              >
+                                {formatCell(minutes)}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right tabular-nums">
+                              {formatMinutes(task.total)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    ))}
+                    <TableRow className="font-bold">
+                      <TableCell>Total</TableCell>
+                      {timesheet.minutes.map((minutes, index) => (
+                        <TableCell key={index} className="text-right">
+                          {formatCell(minutes)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right">
+                        {formatMinutes(timesheet.total)}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  addDays,
+  differenceInCalendarDays,
+  formatDistanceToNow,
+} from "date-fns";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TrashedCategory, TrashedTask, WorkspaceRole } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toast } from "sonner";
+
+type TrashItem =
+  | { type: "task"; item: TrashedTask }
+  | { type: "category"; item: TrashedCategory };
+
+export default function TrashPage() {
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [categories, setCategories] = useState<TrashedCategory[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [role, setRole] = useState<WorkspaceRole>(WorkspaceRole.VIEWER);
+  const [isLoading, setIsLoading] = useState(true);
+  const [itemToDelete, setItemToDelete] = useState<TrashItem | null>(null);
+  const [isEmptyDialogOpen, setEmptyDialogOpen] = useState(false);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const trash = await apiClient.getTrash();
+      setTasks(trash.tasks);
+      setCategories(trash.categories);
+      setRetentionDays(trash.retentionDays);
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      toast.error("Failed to load trash");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  useEffect(() => {
+    const fetchRole = async () => {
+      try {
+        const workspace = await apiClient.getCurrentWorkspace();
+        setRole(workspace.role);
+      } catch (error) {
+        console.error("Error fetching workspace:", error);
+      }
+    };
+
+    fetchRole();
+  }, []);
+
+  const canEdit = role !== WorkspaceRole.VIEWER;
+
+  const restoreItem = async ({ type, item }: TrashItem) => {
+    try {
+      if (type === "task") {
+        await apiClient.restoreTask(item.id);
+      } else {
+        await apiClient.restoreCategory(item.id);
+      }
+      toast.success(`${type === "task" ? "Task" : "Category"} restored`);
+      fetchTrash();
+    } catch (error) {
+      console.error("Error restoring item:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to restore");
+    }
+  };
+
+  const deleteItem = async () => {
+    if (!itemToDelete) return;
+
+    const { type, item } = itemToDelete;
+    try {
+      if (type === "task") {
+        await apiClient.deleteTaskPermanently(item.id);
+      } else {
+        await apiClient.deleteCategoryPermanently(item.id);
+      }
+      toast.success(
+        `${type === "task" ? "Task" : "Category"} permanently deleted`
+      );
+      fetchTrash();
+    } catch (error) {
+      console.error("Error deleting item:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+    } finally {
+      setItemToDelete(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      await apiClient.emptyTrash();
+      toast.success("Trash emptied");
+      fetchTrash();
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      toast.error("Failed to empty trash");
+    } finally {
+      setEmptyDialogOpen(false);
+    }
+  };
+
+  // Days left before the retention period purges an item
+  const getDaysLeft = (deletedAt: Date) =>
+    Math.max(
+      0,
+      differenceInCalendarDays(
+        addDays(new Date(deletedAt), retentionDays),
+        new Date()
+      )
+    );
+
+  const renderRows = (items: TrashItem[]) =>
+    items.map((entry) => (
+      <TableRow key={entry.item.id}>
+        <TableCell className="font-medium">
+          {entry.type === "task" ? entry.item.title : entry.item.name}
+          {entry.type === "task" && entry.item.parentTaskId && (
+            <Badge variant="outline" className="ml-2">
+              Subtask
+            </Badge>
+          )}
+        </TableCell>
+        <TableCell className="text-gray-500">
+          {formatDistanceToNow(new Date(entry.item.deletedAt), {
+            addSuffix: true,
+          })}
+        </TableCell>
+        <TableCell className="text-gray-500">
+          {getDaysLeft(entry.item.deletedAt)} days
+        </TableCell>
+        {canEdit && (
+          <TableCell className="text-right">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => restoreItem(entry)}
+            >
+              <RotateCcw className="mr-1 h-4 w-4" /> Restore
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-500 hover:text-red-600"
+              onClick={() => setItemToDelete(entry)}
+            >
+              <Trash2 className="mr-1 h-4 w-4" /> Delete forever
+            </Button>
+          </TableCell>
+        )}
+      </TableRow>
+    ));
+
+  const sections = [
+    {
+      title: "Tasks",
+      items: tasks.map((item): TrashItem => ({ type: "task", item })),
+    },
+    {
+      title: "Categories",
+      items: categories.map((item): TrashItem => ({ type: "category", item })),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="mt-2 text-gray-600">
+            Deleted items are permanently removed after {retentionDays} days
+          </p>
+        </div>
+        {role === WorkspaceRole.OWNER &&
+          (tasks.length > 0 || categories.length > 0) && (
+            <Button
+              variant="destructive"
+              onClick={() => setEmptyDialogOpen(true)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" /> Empty Trash
+            </Button>
+          )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="h-12 w-12 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+        </div>
+      ) : (
+        sections.map((section) => (
+          <Card key={section.title}>
+            <CardHeader>
+              <CardTitle>{section.title}</CardTitle>
+              <CardDescription>
+                {section.items.length} item
+                {section.items.length === 1 ? "" : "s"} in the trash
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {section.items.length === 0 ? (
+                <p className="py-4 text-center text-sm text-gray-500">
+                  Nothing here
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Purged In</TableHead>
+                      {canEdit && (
+                        <TableHead className="text-right">Actions</TableHead>
+                      )}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>{renderRows(section.items)}</TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {/* Permanent deletion confirmation dialog */}
+      <Dialog
+        open={!!itemToDelete}
+        onOpenChange={(open) => !open && setItemToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Permanently</DialogTitle>
+            <DialogDescription>
+              {itemToDelete?.type === "task"
+                ? "This task and its subtasks will be deleted permanently."
+                : "This category will be deleted permanently and removed from its tasks."}{" "}
+              This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setItemToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={deleteItem}>
+              Delete forever
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Empty trash confirmation dialog */}
+      <Dialog open={isEmptyDialogOpen} onOpenChange={setEmptyDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Empty Trash</DialogTitle>
+            <DialogDescription>
+              Every task and category in the trash will be deleted permanently.
+              This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEmptyDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleEmptyTrash}>
+              Empty Trash
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
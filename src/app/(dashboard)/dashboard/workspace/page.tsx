@@ -0,0 +1,568 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Copy, LogOut, Mail, Pencil, Trash2, UserPlus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { toast } from "sonner";
+import { WorkspaceRole } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { useFormValidation } from "@/hooks/use-form-validation";
+import { Webhooks } from "@/components/workspace/webhooks";
+import { getInitials } from "@/lib/utils/initials";
+
+// Form validation schemas
+const renameSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Workspace name must be at least 2 characters long")
+    .max(50, "Workspace name cannot exceed 50 characters")
+    .trim(),
+});
+
+const inviteSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+  role: z.enum([WorkspaceRole.EDITOR, WorkspaceRole.VIEWER]),
+});
+
+type RenameFormValues = z.infer<typeof renameSchema>;
+type InviteFormValues = z.infer<typeof inviteSchema>;
+
+interface Member {
+  userId: string;
+  name: string;
+  email: string;
+  image?: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+interface Workspace {
+  id: string;
+  name: string;
+  isPersonal: boolean;
+  role: WorkspaceRole;
+  ownerId: string;
+  members: Member[];
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  [WorkspaceRole.OWNER]: "Owner",
+  [WorkspaceRole.EDITOR]: "Editor",
+  [WorkspaceRole.VIEWER]: "Viewer",
+};
+
+export default function WorkspacePage() {
+  const { data: session } = useSession();
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRenameOpen, setIsRenameOpen] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [memberToRemove, setMemberToRemove] = useState<Member | null>(null);
+
+  const renameForm = useFormValidation<RenameFormValues>({
+    schema: renameSchema,
+    defaultValues: { name: "" },
+  });
+
+  const inviteForm = useFormValidation<InviteFormValues>({
+    schema: inviteSchema,
+    defaultValues: { email: "", role: WorkspaceRole.EDITOR },
+  });
+
+  const isOwner = workspace?.role === WorkspaceRole.OWNER;
+
+  // Fetch workspace details and pending invitations
+  const fetchWorkspace = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await apiClient.getCurrentWorkspace();
+      setWorkspace(data);
+
+      if (data.role === WorkspaceRole.OWNER && !data.isPersonal) {
+        setInvitations(await apiClient.getWorkspaceInvitations(data.id));
+      } else {
+        setInvitations([]);
+      }
+    } catch (error) {
+      console.error("Error fetching workspace:", error);
+      toast.error("Failed to load workspace");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkspace();
+  }, [fetchWorkspace]);
+
+  const handleRename = async (data: RenameFormValues) => {
+    if (!workspace) return;
+
+    try {
+      await apiClient.renameWorkspace(workspace.id, data);
+      toast.success("Workspace renamed successfully");
+      setIsRenameOpen(false);
+      fetchWorkspace();
+    } catch (error) {
+      console.error("Error renaming workspace:", error);
+      toast.error("Failed to rename workspace");
+    }
+  };
+
+  const handleInvite = async (data: InviteFormValues) => {
+    if (!workspace) return;
+
+    try {
+      const { invitation } = await apiClient.inviteToWorkspace(
+        workspace.id,
+        data
+      );
+      setInviteLink(
+        `${window.location.origin}/dashboard/invitations/${invitation.token}`
+      );
+      inviteForm.form.reset({ email: "", role: data.role });
+      toast.success(`Invitation created for ${invitation.email}`);
+      fetchWorkspace();
+    } catch (error) {
+      console.error("Error inviting member:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create invitation"
+      );
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast.success("Invitation link copied");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, role: WorkspaceRole) => {
+    if (!workspace) return;
+
+    try {
+      await apiClient.updateMemberRole(workspace.id, memberId, role);
+      setWorkspace((prev) =>
+        prev
+          ? {
+              ...prev,
+              members: prev.members.map((member) =>
+                member.userId === memberId ? { ...member, role } : member
+              ),
+            }
+          : prev
+      );
+      toast.success("Member role updated");
+    } catch (error) {
+      console.error("Error updating role:", error);
+      toast.error("Failed to update member role");
+    }
+  };
+
+  const handleRemoveMember = async () => {
+    if (!workspace || !memberToRemove) return;
+
+    const isLeaving = memberToRemove.userId === session?.user?.id;
+
+    try {
+      await apiClient.removeMember(workspace.id, memberToRemove.userId);
+      setMemberToRemove(null);
+
+      if (isLeaving) {
+        // The personal workspace becomes active after leaving
+        window.location.href = "/dashboard";
+        return;
+      }
+
+      toast.success("Member removed");
+      fetchWorkspace();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      toast.error(
+        isLeaving ? "Failed to leave workspace" : "Failed to remove member"
+      );
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await apiClient.revokeInvitation(id);
+      setInvitations((prev) =>
+        prev.filter((invitation) => invitation.id !== id)
+      );
+      toast.success("Invitation revoked");
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      toast.error("Failed to revoke invitation");
+    }
+  };
+
+  const openRename = () => {
+    renameForm.form.reset({ name: workspace?.name || "" });
+    setIsRenameOpen(true);
+  };
+
+  if (isLoading && !workspace) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="h-10 w-10 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  if (!workspace) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{workspace.name}</h1>
+          <p className="text-gray-500">
+            {workspace.isPersonal
+              ? "Your personal workspace is only visible to you"
+              : "Manage who can access this workspace"}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {isOwner && (
+            <Button variant="outline" onClick={openRename}>
+              <Pencil className="mr-2 h-4 w-4" /> Rename
+            </Button>
+          )}
+          {!isOwner && (
+            <Button
+              variant="outline"
+              onClick={() =>
+                setMemberToRemove(
+                  workspace.members.find(
+                    (member) => member.userId === session?.user?.id
+                  ) || null
+                )
+              }
+            >
+              <LogOut className="mr-2 h-4 w-4" /> Leave
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>
+              Owners manage members, editors change tasks and viewers can only
+              read them
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-3">
+              {workspace.members.map((member) => (
+                <li key={member.userId} className="flex items-center gap-3">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={member.image || ""} alt={member.name} />
+                    <AvatarFallback>{getInitials(member.name)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">
+                      {member.name}
+                      {member.userId === session?.user?.id && " (you)"}
+                    </p>
+                    <p className="truncate text-xs text-gray-500">
+                      {member.email}
+                    </p>
+                  </div>
+                  {isOwner && member.userId !== workspace.ownerId ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) =>
+                          handleRoleChange(member.userId, role as WorkspaceRole)
+                        }
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={WorkspaceRole.EDITOR}>
+                            Editor
+                          </SelectItem>
+                          <SelectItem value={WorkspaceRole.VIEWER}>
+                            Viewer
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setMemberToRemove(member)}
+                        title="Remove member"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant="secondary">
+                      {ROLE_LABELS[member.role]}
+                    </Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        {isOwner && !workspace.isPersonal && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invite People</CardTitle>
+              <CardDescription>
+                Creating an invitation gives you a link to send to the invitee
+                yourself; no email is sent. Links expire after 7 days and can
+                only be accepted by the invited email address
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Form {...inviteForm.form}>
+                <form
+                  onSubmit={inviteForm.handleSubmit(handleInvite)}
+                  className="flex flex-col gap-2 sm:flex-row sm:items-start"
+                >
+                  <FormField
+                    control={inviteForm.form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <Input
+                            placeholder="colleague@example.com"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={inviteForm.form.control}
+                    name="role"
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger className="w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={WorkspaceRole.EDITOR}>
+                              Editor
+                            </SelectItem>
+                            <SelectItem value={WorkspaceRole.VIEWER}>
+                              Viewer
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={inviteForm.isSubmitting}>
+                    <UserPlus className="mr-2 h-4 w-4" /> Invite
+                  </Button>
+                </form>
+              </Form>
+
+              {inviteLink && (
+                <div className="rounded-md bg-muted p-3 text-sm">
+                  <p className="mb-2 text-gray-500">
+                    Share this link with the invitee:
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 truncate">{inviteLink}</code>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={copyInviteLink}
+                      title="Copy link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {invitations.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium">
+                    Pending invitations
+                  </h3>
+                  <ul className="space-y-2">
+                    {invitations.map((invitation) => (
+                      <li
+                        key={invitation.id}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <Mail className="h-4 w-4 shrink-0 text-gray-500" />
+                        <span className="flex-1 truncate">
+                          {invitation.email}
+                        </span>
+                        <Badge variant="outline">
+                          {ROLE_LABELS[invitation.role]}
+                        </Badge>
+                        <span className="text-xs text-gray-500">
+                          expires {format(new Date(invitation.expiresAt), "PP")}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleRevoke(invitation.id)}
+                          title="Revoke invitation"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {isOwner && <Webhooks key={workspace.id} />}
+
+      {/* Rename Workspace Dialog */}
+      <Dialog open={isRenameOpen} onOpenChange={setIsRenameOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Rename Workspace</DialogTitle>
+            <DialogDescription>
+              Enter a new name for this workspace
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...renameForm.form}>
+            <form
+              onSubmit={renameForm.handleSubmit(handleRename)}
+              className="space-y-4"
+            >
+              <FormField
+                control={renameForm.form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Workspace name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsRenameOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={renameForm.isSubmitting}>
+                  {renameForm.isSubmitting ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove Member / Leave Confirmation Dialog */}
+      <Dialog
+        open={!!memberToRemove}
+        onOpenChange={(open) => !open && setMemberToRemove(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {memberToRemove?.userId === session?.user?.id
+                ? "Leave Workspace"
+                : "Remove Member"}
+            </DialogTitle>
+            <DialogDescription>
+              {memberToRemove?.userId === session?.user?.id
+                ? "You will lose access to this workspace's tasks until you are invited again."
+                : `${memberToRemove?.name} will lose access to this workspace.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMemberToRemove(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRemoveMember}>
+              {memberToRemove?.userId === session?.user?.id
+                ? "Leave"
+                : "Remove"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
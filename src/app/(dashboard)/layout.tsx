@@ -15,6 +15,13 @@ import {
   Inbox,
   ChevronRight,
   ChevronLeft,
+  Users,
+  UserCheck,
+  CalendarDays,
+  ChartColumn,
+  Trash2,
+  BookOpen,
+  Timer,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -29,6 +36,8 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ThemeToggle } from "@/components/theme/theme-toggle";
 import { Footer } from "@/components/ui/footer";
+import { WorkspaceSwitcher } from "@/components/workspace/workspace-switcher";
+import { getInitials } from "@/lib/utils/initials";
 
 export default function DashboardLayout({ children }: { children: ReactNode }) {
   const { data: session } = useSession();
@@ -36,16 +45,6 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
-  const getInitials = (name?: string) => {
-    if (!name) return "U";
-    return name
-      .split(" ")
-      .map((n) => n[0])
-      .join("")
-      .toUpperCase()
-      .substring(0, 2);
-  };
-
   const getFirstName = (name?: string) => {
     if (!name) return "";
     return name.split(" ")[0];
@@ -54,7 +53,13 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
   const navigation = [
     { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
     { name: "All Tasks", href: "/dashboard/tasks", icon: Inbox },
+    { name: "Assigned to Me", href: "/dashboard/assigned", icon: UserCheck },
+    { name: "Calendar", href: "/dashboard/calendar", icon: CalendarDays },
+    { name: "Analytics", href: "/dashboard/analytics", icon: ChartColumn },
+    { name: "Timesheet", href: "/dashboard/timesheet", icon: Timer },
     { name: "Categories", href: "/dashboard/categories", icon: Tag },
+    { name: "Workspace", href: "/dashboard/workspace", icon: Users },
+    { name: "Trash", href: "/dashboard/trash", icon: Trash2 },
   ];
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
@@ -106,6 +111,11 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
           </button>
         </div>
 
+        {/* Workspace switcher */}
+        <div className={`mt-4 ${sidebarOpen ? "px-4" : "flex justify-center"}`}>
+          <WorkspaceSwitcher collapsed={!sidebarOpen} />
+        </div>
+
         <nav className="mt-5 flex-1 overflow-y-auto px-2">
           <div className="space-y-1">
             {navigation.map((item) => {
@@ -184,6 +194,15 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
                     Profile
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link
+                    href="/dashboard/api-reference"
+                    className="flex cursor-pointer items-center"
+                  >
+                    <BookOpen className="mr-2 h-4 w-4" />
+                    API Reference
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem
                   onClick={handleSignOut}
                   className="cursor-pointer"
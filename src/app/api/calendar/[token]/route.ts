@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findCalendarFeed, renderTaskCalendar } from "@/lib/calendar-feeds";
+import Task from "@/models/task.model";
+// Registers the model that populate resolves category names from
+import "@/models/category.model";
+import { calendarFeedQuerySchema } from "@/lib/validations/calendar-feed";
+
+// Most tasks a feed lists, the ones due last
+const MAX_FEED_TASKS = 2000;
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// GET /api/calendar/:token - iCalendar feed of the tasks with a due date in
+// the feed's workspace. The secret token in the URL is the only credential,
+// so calendar apps can subscribe without a session.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const result = await findCalendarFeed(token);
+
+    if (!result) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const { feed, workspace } = result;
+
+    const query = calendarFeedQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      const [issue] = query.error.issues;
+      return new NextResponse(
+        `Invalid ${issue.path.join(".")}: ${issue.message}`,
+        {
+          status: 400,
+        }
+      );
+    }
+
+    const { status, categoryId, type } = query.data;
+
+    const tasks = await Task.find({
+      workspaceId: feed.workspaceId,
+      dueDate: { $ne: null },
+      ...(status.length > 0 ? { status: { $in: status } } : {}),
+      ...(categoryId.length > 0 ? { categoryId: { $in: categoryId } } : {}),
+    })
+      .sort({ dueDate: -1 })
+      .limit(MAX_FEED_TASKS)
+      .populate("categoryId", "name")
+      .exec();
+
+    const calendar = renderTaskCalendar({
+      name: `${workspace.name} tasks`,
+      tasks,
+      type,
+      timeZone: feed.timeZone,
+      host: request.nextUrl.host,
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="tasks.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering calendar feed:", error);
+    return new NextResponse("Internal server error", { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/api/http";
+import { purgeExpiredTrash } from "@/lib/trash";
+
+// Compare secrets in constant time; hashing first evens out their lengths
+function isCronSecret(value: string, secret: string) {
+  const hash = (input: string) =>
+    crypto.createHash("sha256").update(input).digest();
+
+  return crypto.timingSafeEqual(hash(value), hash(secret));
+}
+
+// POST /api/cron/purge-trash - Permanently delete whatever has been in the
+// trash for longer than the retention period, in every workspace. Meant for
+// a scheduler, which authenticates with `Authorization: Bearer $CRON_SECRET`;
+// the route is disabled while CRON_SECRET is not set.
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return errorResponse(404, "Not found");
+  }
+
+  const authorization = request.headers.get("authorization") || "";
+  const [scheme, token] = authorization.split(" ");
+
+  if (scheme !== "Bearer" || !token || !isCronSecret(token, secret)) {
+    return errorResponse(401, "Unauthorized");
+  }
+
+  try {
+    const purged = await purgeExpiredTrash();
+
+    return NextResponse.json({ purged });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return errorResponse(500, "Internal server error");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readAttachment, removeAttachment } from "@/lib/attachments";
+import {
+  assertObjectId,
+  toErrorResponse,
+  toFileResponse,
+} from "@/lib/api/http";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/v1/attachments/:id - Download an attached file. It is shown in
+// the browser unless `?download=1` asks to save it.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Attachment");
+
+    const file = await readAttachment(id);
+
+    return toFileResponse(file, {
+      download: request.nextUrl.searchParams.get("download") === "1",
+    });
+  } catch (error) {
+    return toErrorResponse(error, "Error downloading attachment");
+  }
+}
+
+// DELETE /api/v1/attachments/:id - Delete an attached file
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Attachment");
+
+    await removeAttachment(id);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error, "Error deleting attachment");
+  }
+}
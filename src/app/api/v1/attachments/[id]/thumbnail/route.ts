@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { readAttachment } from "@/lib/attachments";
+import {
+  assertObjectId,
+  toErrorResponse,
+  toFileResponse,
+} from "@/lib/api/http";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/v1/attachments/:id/thumbnail - Download the thumbnail of an
+// attached image
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Attachment");
+
+    const file = await readAttachment(id, true);
+
+    return toFileResponse(file, { download: false });
+  } catch (error) {
+    return toErrorResponse(error, "Error downloading thumbnail");
+  }
+}
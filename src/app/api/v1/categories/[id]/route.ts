@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteCategory,
+  getCategoryById,
+  updateCategory,
+} from "@/lib/actions/category.actions";
+import { assertObjectId, parseJsonBody, toErrorResponse } from "@/lib/api/http";
+import { categoryCreateSchema } from "@/lib/validations/category";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/v1/categories/:id - Get a category
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Category");
+
+    const category = await getCategoryById(id);
+
+    return NextResponse.json(category);
+  } catch (error) {
+    return toErrorResponse(error, "Error fetching category");
+  }
+}
+
+// PATCH /api/v1/categories/:id - Rename a category
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Category");
+
+    const data = await parseJsonBody(request, categoryCreateSchema);
+
+    const category = await updateCategory(id, data);
+
+    return NextResponse.json(category);
+  } catch (error) {
+    return toErrorResponse(error, "Error updating category");
+  }
+}
+
+// DELETE /api/v1/categories/:id - Move a category to the trash
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Category");
+
+    await deleteCategory(id);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error, "Error deleting category");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCategory, getCategories } from "@/lib/actions/category.actions";
+import { parseJsonBody, toErrorResponse } from "@/lib/api/http";
+import { categoryCreateSchema } from "@/lib/validations/category";
+
+// GET /api/v1/categories - List the categories of the workspace
+export async function GET() {
+  try {
+    const categories = await getCategories();
+
+    return NextResponse.json({ categories });
+  } catch (error) {
+    return toErrorResponse(error, "Error listing categories");
+  }
+}
+
+// POST /api/v1/categories - Create a category
+export async function POST(request: NextRequest) {
+  try {
+    const data = await parseJsonBody(request, categoryCreateSchema);
+
+    const category = await createCategory(data);
+
+    return NextResponse.json(category, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, "Error creating category");
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { restoreBackup } from "@/lib/actions/backup.actions";
+import { parseJsonBody, toErrorResponse } from "@/lib/api/http";
+import {
+  MAX_BACKUP_SIZE,
+  backupRestoreRequestSchema,
+} from "@/lib/validations/backup";
+
+// POST /api/v1/me/backup - Restore a backup into the active workspace.
+// Backups can be far larger than the body size limit of server actions, so
+// they are uploaded here, with a limit of their own.
+export async function POST(request: NextRequest) {
+  try {
+    const { archive, options } = await parseJsonBody(
+      request,
+      backupRestoreRequestSchema,
+      { maxBytes: MAX_BACKUP_SIZE }
+    );
+
+    const result = await restoreBackup(archive, options);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return toErrorResponse(error, "Error restoring backup");
+  }
+}
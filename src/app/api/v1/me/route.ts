@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getWorkspaceContext } from "@/lib/workspace";
+import { toErrorResponse } from "@/lib/api/http";
+
+// GET /api/v1/me - The authenticated user and their active workspace
+export async function GET() {
+  try {
+    const { session, workspace, role } = await getWorkspaceContext();
+
+    return NextResponse.json({
+      id: session.user.id,
+      name: session.user.name,
+      email: session.user.email,
+      image: session.user.image ?? null,
+      workspace: {
+        id: workspace._id.toString(),
+        name: workspace.name,
+        isPersonal: workspace.isPersonal,
+        role,
+      },
+    });
+  } catch (error) {
+    return toErrorResponse(error, "Error fetching current user");
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getOpenApiDocument } from "@/lib/api/openapi";
+
+// The document only changes with the code, so it is built at build time
+export const dynamic = "force-static";
+
+// GET /api/v1/openapi.json - OpenAPI description of the REST API
+export async function GET() {
+  return NextResponse.json(getOpenApiDocument());
+}
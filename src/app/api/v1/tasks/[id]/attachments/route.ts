@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAttachments, saveAttachment } from "@/lib/attachments";
+import { HttpError, assertObjectId, toErrorResponse } from "@/lib/api/http";
+import {
+  MAX_ATTACHMENT_SIZE,
+  MAX_THUMBNAIL_SIZE,
+} from "@/lib/validations/attachment";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Room for the multipart boundaries and headers around the uploaded files
+const FORM_OVERHEAD = 64 * 1024;
+
+// GET /api/v1/tasks/:id/attachments - List the files attached to a task
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Task");
+
+    const attachments = await listAttachments(id);
+
+    return NextResponse.json(attachments);
+  } catch (error) {
+    return toErrorResponse(error, "Error fetching attachments");
+  }
+}
+
+// POST /api/v1/tasks/:id/attachments - Attach a file to a task. Takes
+// multipart form data with the file in `file` and, for images, an optional
+// scaled-down copy in `thumbnail`.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Task");
+
+    // Turn away oversized uploads before reading them
+    const length = Number(request.headers.get("content-length"));
+    if (length > MAX_ATTACHMENT_SIZE + MAX_THUMBNAIL_SIZE + FORM_OVERHEAD) {
+      throw new HttpError(413, "File is too large");
+    }
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      throw new HttpError(400, "Request body must be multipart form data");
+    }
+
+    const file = form.get("file");
+    const thumbnail = form.get("thumbnail");
+
+    if (!(file instanceof File)) {
+      throw new HttpError(400, "A file is required");
+    }
+
+    const attachment = await saveAttachment(
+      id,
+      file,
+      thumbnail instanceof File ? thumbnail : null
+    );
+
+    return NextResponse.json(attachment, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, "Error uploading attachment");
+  }
+}
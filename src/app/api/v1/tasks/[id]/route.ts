@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteTask,
+  getTaskById,
+  updateTask,
+} from "@/lib/actions/task.actions";
+import { assertObjectId, parseJsonBody, toErrorResponse } from "@/lib/api/http";
+import { taskUpdateSchema } from "@/lib/validations/task";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/v1/tasks/:id - Get a task with its subtasks
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Task");
+
+    const task = await getTaskById(id);
+
+    return NextResponse.json(task);
+  } catch (error) {
+    return toErrorResponse(error, "Error fetching task");
+  }
+}
+
+// PATCH /api/v1/tasks/:id - Update some fields of a task
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Task");
+
+    const data = await parseJsonBody(request, taskUpdateSchema);
+
+    const task = await updateTask(id, data);
+
+    // Undo tokens are only meaningful to the web app's toasts
+    return NextResponse.json({ ...task, undoToken: undefined });
+  } catch (error) {
+    return toErrorResponse(error, "Error updating task");
+  }
+}
+
+// DELETE /api/v1/tasks/:id - Move a task and its subtasks to the trash
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    assertObjectId(id, "Task");
+
+    await deleteTask(id);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error, "Error deleting task");
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createTask, getTaskById, getTasks } from "@/lib/actions/task.actions";
+import { parseInput, parseJsonBody, toErrorResponse } from "@/lib/api/http";
+import { taskCreateSchema, taskListQuerySchema } from "@/lib/validations/task";
+
+// GET /api/v1/tasks - List tasks with filtering, sorting and pagination
+export async function GET(request: NextRequest) {
+  try {
+    const { assignee, ...query } = parseInput(
+      Object.fromEntries(request.nextUrl.searchParams),
+      taskListQuerySchema
+    );
+
+    const result = await getTasks({ ...query, assigneeId: assignee });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return toErrorResponse(error, "Error listing tasks");
+  }
+}
+
+// POST /api/v1/tasks - Create a task
+export async function POST(request: NextRequest) {
+  try {
+    const data = await parseJsonBody(request, taskCreateSchema);
+
+    const { id } = await createTask(data);
+
+    // Answer with the same representation as GET /tasks/:id
+    const task = await getTaskById(id);
+
+    return NextResponse.json(task, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error, "Error creating task");
+  }
+}
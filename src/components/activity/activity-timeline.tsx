@@ -0,0 +1,159 @@
+"use client";
+
+import { format, formatDistanceToNow } from "date-fns";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Activity,
+  ActivityAction,
+  ActivityChange,
+  ActivityEntityType,
+  TaskStatus,
+} from "@/types";
+import { getInitials } from "@/lib/utils/initials";
+
+interface ActivityTimelineProps {
+  activities: Activity[];
+  // Name the changed task or category in each entry (for workspace-wide feeds)
+  showEntity?: boolean;
+  emptyMessage?: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  [TaskStatus.TODO]: "To Do",
+  [TaskStatus.IN_PROGRESS]: "In Progress",
+  [TaskStatus.COMPLETED]: "Completed",
+};
+
+const formatValue = (field: string, value: string | number | null) => {
+  if (value === null) return "none";
+
+  switch (field) {
+    case "status":
+      return STATUS_LABELS[value] || String(value);
+    case "priority":
+      return String(value).toLowerCase();
+    case "dueDate":
+      return format(new Date(value), "MMM d, yyyy");
+    default:
+      return `"${value}"`;
+  }
+};
+
+// Describe a single field change in plain words
+function describeChange({ field, from, to }: ActivityChange) {
+  switch (field) {
+    case "title":
+    case "name":
+      return `renamed it from ${formatValue(field, from)} to ${formatValue(
+        field,
+        to
+      )}`;
+    case "assigneeIds":
+      return to !== null ? `assigned ${to}` : `unassigned ${from}`;
+    case "blockedBy":
+      return to !== null
+        ? `marked it as blocked by ${formatValue(field, to)}`
+        : `removed the dependency on ${formatValue(field, from)}`;
+    case "position":
+      return "moved it on the board";
+    case "subtaskOrder":
+      return "reordered its subtasks";
+    case "dueDate":
+      if (to === null) return "removed the due date";
+      if (from === null) return `set the due date to ${formatValue(field, to)}`;
+      break;
+    case "categoryId":
+      if (to === null) return `removed it from ${formatValue(field, from)}`;
+      return `moved it to ${formatValue(field, to)}`;
+  }
+
+  const label = field === "dueDate" ? "due date" : field;
+  return `changed the ${label} from ${formatValue(
+    field,
+    from
+  )} to ${formatValue(field, to)}`;
+}
+
+function describeActivity(activity: Activity, showEntity: boolean) {
+  const entity = showEntity
+    ? `${
+        activity.entityType === ActivityEntityType.TASK ? "task" : "category"
+      } "${activity.entityName}"`
+    : "this task";
+
+  switch (activity.action) {
+    case ActivityAction.CREATED:
+      return [`created ${entity}`];
+    case ActivityAction.DELETED:
+      return [`moved ${entity} to the trash`];
+    case ActivityAction.RESTORED:
+      return [`restored ${entity} from the trash`];
+    case ActivityAction.PURGED:
+      return [`permanently deleted ${entity}`];
+  }
+
+  if (activity.changes.length === 0) return [`updated ${entity}`];
+
+  const changes = activity.changes.map(describeChange);
+  return showEntity ? [`updated ${entity}`, ...changes] : changes;
+}
+
+export function ActivityTimeline({
+  activities,
+  showEntity = false,
+  emptyMessage = "No activity yet",
+}: ActivityTimelineProps) {
+  if (activities.length === 0) {
+    return (
+      <p className="py-4 text-center text-sm text-gray-500">{emptyMessage}</p>
+    );
+  }
+
+  return (
+    <ol className="space-y-4">
+      {activities.map((activity) => {
+        const [summary, ...details] = describeActivity(activity, showEntity);
+
+        return (
+          <li key={activity.id} className="flex items-start space-x-3">
+            <Avatar className="h-8 w-8">
+              {activity.actor?.image && (
+                <AvatarImage
+                  src={activity.actor.image}
+                  alt={activity.actor.name}
+                />
+              )}
+              <AvatarFallback className="bg-primary text-xs text-white">
+                {getInitials(activity.actor?.name)}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1 text-sm">
+              <p>
+                <span className="font-medium">
+                  {activity.actor?.name || "Former member"}
+                </span>{" "}
+                {summary}
+              </p>
+              {details.length > 0 && (
+                <ul className="mt-1 list-disc space-y-0.5 pl-4 text-gray-600">
+                  {details.map((detail, index) => (
+                    <li key={index}>{detail}</li>
+                  ))}
+                </ul>
+              )}
+              <p
+                className="mt-0.5 text-xs text-gray-500"
+                title={format(new Date(activity.createdAt), "PPpp")}
+              >
+                {formatDistanceToNow(new Date(activity.createdAt), {
+                  addSuffix: true,
+                })}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,469 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Download, Send } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+
+// Where the REST API serves its OpenAPI document
+const OPENAPI_URL = "/api/v1/openapi.json";
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-blue-100 text-blue-800",
+  post: "bg-green-100 text-green-800",
+  put: "bg-amber-100 text-amber-800",
+  patch: "bg-amber-100 text-amber-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+// The parts of an OpenAPI 3.1 document the reference renders
+interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  items?: SchemaObject;
+  anyOf?: SchemaObject[];
+  allOf?: SchemaObject[];
+}
+
+interface Parameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: SchemaObject;
+}
+
+interface MediaContent {
+  content?: Record<string, { schema: SchemaObject }>;
+}
+
+interface Operation {
+  tags?: string[];
+  operationId: string;
+  summary?: string;
+  description?: string;
+  parameters?: Parameter[];
+  requestBody?: MediaContent & { required?: boolean };
+  responses: Record<string, MediaContent & { description: string }>;
+}
+
+type PathItem = Partial<Record<(typeof HTTP_METHODS)[number], Operation>> & {
+  parameters?: Parameter[];
+};
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string }[];
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, PathItem>;
+  components?: { schemas?: Record<string, SchemaObject> };
+}
+
+interface OperationEntry {
+  method: string;
+  path: string;
+  operation: Operation;
+  parameters: Parameter[];
+}
+
+// Follow a local `#/components/schemas/...` reference
+function resolveSchema(
+  schema: SchemaObject,
+  document: OpenApiDocument
+): SchemaObject {
+  if (!schema.$ref) return schema;
+
+  const name = schema.$ref.split("/").pop() || "";
+  return resolveSchema(document.components?.schemas?.[name] || {}, document);
+}
+
+// Replace every reference in a schema with its definition, for display
+function inlineSchema(
+  schema: SchemaObject,
+  document: OpenApiDocument
+): SchemaObject {
+  const resolved = resolveSchema(schema, document);
+
+  return JSON.parse(
+    JSON.stringify(resolved, (key, value) =>
+      value && typeof value === "object" && "$ref" in value
+        ? inlineSchema(value, document)
+        : value
+    )
+  );
+}
+
+// Build a minimal request value from a schema: required properties only,
+// using defaults and the first enum value where there are any
+function buildExample(
+  schema: SchemaObject,
+  document: OpenApiDocument
+): unknown {
+  const resolved = resolveSchema(schema, document);
+
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.enum) return resolved.enum[0];
+
+  if (resolved.anyOf) {
+    const option = resolved.anyOf.find((candidate) => {
+      const type = resolveSchema(candidate, document).type;
+      return type !== "null";
+    });
+    return option ? buildExample(option, document) : null;
+  }
+
+  if (resolved.allOf) {
+    return Object.assign(
+      {},
+      ...resolved.allOf.map((part) => buildExample(part, document))
+    );
+  }
+
+  const type = Array.isArray(resolved.type)
+    ? resolved.type.find((candidate) => candidate !== "null")
+    : resolved.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        (resolved.required || []).map((name) => [
+          name,
+          buildExample(resolved.properties?.[name] || {}, document),
+        ])
+      );
+    case "array":
+      return [];
+    case "string":
+      return resolved.format === "date-time"
+        ? new Date().toISOString()
+        : "string";
+    case "integer":
+    case "number":
+      return resolved.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+// Short description of a schema's type, e.g. "string" or "integer[]"
+function describeType(schema: SchemaObject | undefined): string {
+  if (!schema) return "";
+  if (schema.enum) return schema.enum.join(" | ");
+  if (schema.type === "array") return `${describeType(schema.items)}[]`;
+  if (Array.isArray(schema.type)) return schema.type.join(" | ");
+  return schema.type || "";
+}
+
+function OperationCard({
+  entry,
+  document,
+}: {
+  entry: OperationEntry;
+  document: OpenApiDocument;
+}) {
+  const { method, path, operation, parameters } = entry;
+  const bodySchema =
+    operation.requestBody?.content?.["application/json"]?.schema;
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(() =>
+    bodySchema
+      ? JSON.stringify(buildExample(bodySchema, document), null, 2)
+      : ""
+  );
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<{
+    status: number;
+    body: string;
+  } | null>(null);
+
+  const sendRequest = async () => {
+    const server = document.servers?.[0]?.url || "";
+    const url = new URL(
+      server +
+        path.replace(/\{(\w+)\}/g, (_, name) =>
+          encodeURIComponent(values[name] || "")
+        ),
+      window.location.origin
+    );
+
+    parameters
+      .filter((parameter) => parameter.in === "query")
+      .forEach((parameter) => {
+        if (values[parameter.name]) {
+          url.searchParams.set(parameter.name, values[parameter.name]);
+        }
+      });
+
+    try {
+      setIsSending(true);
+
+      const response = await fetch(url, {
+        method: method.toUpperCase(),
+        headers: bodySchema ? { "Content-Type": "application/json" } : {},
+        body: bodySchema ? body : undefined,
+      });
+      const text = await response.text();
+
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON, shown as is
+      }
+
+      setResult({ status: response.status, body: formatted });
+    } catch (error) {
+      console.error("Error sending request:", error);
+      toast.error("Failed to send request");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border">
+      <button
+        type="button"
+        className="flex w-full items-center gap-3 p-3 text-left hover:bg-accent"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+        ) : (
+          <ChevronRight className="h-4 w-4 shrink-0 text-gray-500" />
+        )}
+        <span
+          className={`w-16 shrink-0 rounded px-2 py-0.5 text-center text-xs font-semibold uppercase ${METHOD_STYLES[method]}`}
+        >
+          {method}
+        </span>
+        <code className="text-sm">{path}</code>
+        <span className="ml-auto truncate text-sm text-gray-500">
+          {operation.summary}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="space-y-4 border-t p-4 text-sm">
+          {operation.description && (
+            <p className="text-gray-600">{operation.description}</p>
+          )}
+
+          {parameters.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Parameters</h4>
+              {parameters.map((parameter) => (
+                <div
+                  key={`${parameter.in}-${parameter.name}`}
+                  className="grid items-center gap-2 sm:grid-cols-[200px_1fr]"
+                >
+                  <Label htmlFor={`${operation.operationId}-${parameter.name}`}>
+                    <code>{parameter.name}</code>
+                    {parameter.required && (
+                      <span className="text-red-500">*</span>
+                    )}
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {parameter.in} · {describeType(parameter.schema)}
+                    </span>
+                  </Label>
+                  <Input
+                    id={`${operation.operationId}-${parameter.name}`}
+                    placeholder={
+                      parameter.schema?.default !== undefined
+                        ? String(parameter.schema.default)
+                        : parameter.description
+                    }
+                    value={values[parameter.name] || ""}
+                    onChange={(event) =>
+                      setValues((prev) => ({
+                        ...prev,
+                        [parameter.name]: event.target.value,
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {bodySchema && (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="space-y-2">
+                <h4 className="font-medium">Request body</h4>
+                <textarea
+                  className="h-56 w-full rounded-md border bg-background p-2 font-mono text-xs"
+                  value={body}
+                  onChange={(event) => setBody(event.target.value)}
+                  spellCheck={false}
+                />
+              </div>
+              <div className="space-y-2">
+                <h4 className="font-medium">Schema</h4>
+                <pre className="h-56 overflow-auto rounded-md bg-muted p-2 text-xs">
+                  {JSON.stringify(inlineSchema(bodySchema, document), null, 2)}
+                </pre>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Responses</h4>
+            <ul className="space-y-1">
+              {Object.entries(operation.responses).map(([status, response]) => (
+                <li key={status} className="flex gap-3">
+                  <code className="w-10 shrink-0">{status}</code>
+                  <span className="text-gray-600">{response.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="space-y-2">
+            <Button size="sm" onClick={sendRequest} disabled={isSending}>
+              <Send className="mr-2 h-4 w-4" />
+              {isSending ? "Sending..." : "Try it"}
+            </Button>
+            {result && (
+              <div className="space-y-1">
+                <Badge variant={result.status < 400 ? "secondary" : "outline"}>
+                  {result.status}
+                </Badge>
+                {result.body && (
+                  <pre className="max-h-80 overflow-auto rounded-md bg-muted p-2 text-xs">
+                    {result.body}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Interactive reference of the REST API, rendered from its OpenAPI document.
+ * Requests sent from here use the signed-in session.
+ */
+export function ApiReference() {
+  const [document, setDocument] = useState<OpenApiDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchDocument() {
+      try {
+        const response = await fetch(OPENAPI_URL);
+        setDocument(await response.json());
+      } catch (error) {
+        console.error("Error fetching API description:", error);
+        toast.error("Failed to load the API reference");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchDocument();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="h-10 w-10 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  if (!document) return null;
+
+  const operations: OperationEntry[] = Object.entries(document.paths).flatMap(
+    ([path, pathItem]) =>
+      HTTP_METHODS.flatMap((method) => {
+        const operation = pathItem[method];
+        if (!operation) return [];
+
+        return [
+          {
+            method,
+            path,
+            operation,
+            parameters: [
+              ...(pathItem.parameters || []),
+              ...(operation.parameters || []),
+            ],
+          },
+        ];
+      })
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>
+              {document.info.title}{" "}
+              <span className="text-sm font-normal text-gray-500">
+                v{document.info.version}
+              </span>
+            </CardTitle>
+            <CardDescription>{document.info.description}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={OPENAPI_URL} download="openapi.json">
+              <Download className="mr-2 h-4 w-4" /> OpenAPI
+            </a>
+          </Button>
+        </CardHeader>
+        <CardContent className="text-sm text-gray-600">
+          Base URL: <code>{document.servers?.[0]?.url}</code>
+        </CardContent>
+      </Card>
+
+      {(document.tags || []).map((tag) => (
+        <Card key={tag.name}>
+          <CardHeader>
+            <CardTitle>{tag.name}</CardTitle>
+            {tag.description && (
+              <CardDescription>{tag.description}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {operations
+              .filter((entry) => entry.operation.tags?.includes(tag.name))
+              .map((entry) => (
+                <OperationCard
+                  key={entry.operation.operationId}
+                  entry={entry}
+                  document={document}
+                />
+              ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+export interface BreakdownItem {
+  label: string;
+  count: number;
+  color?: string;
+}
+
+interface BreakdownChartProps {
+  items: BreakdownItem[];
+  emptyMessage?: string;
+}
+
+export function BreakdownChart({
+  items,
+  emptyMessage = "No tasks yet",
+}: BreakdownChartProps) {
+  const total = items.reduce((sum, item) => sum + item.count, 0);
+
+  if (total === 0) {
+    return (
+      <p className="py-4 text-center text-sm text-gray-500">{emptyMessage}</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="truncate">{item.label}</span>
+            <span className="text-gray-500">
+              {item.count} ({Math.round((item.count / total) * 100)}%)
+            </span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-gray-100">
+            <div
+              className={`h-full rounded-full ${item.color || "bg-primary"}`}
+              style={{ width: `${(item.count / total) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
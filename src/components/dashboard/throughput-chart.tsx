@@ -0,0 +1,46 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+
+import { WeeklyThroughput } from "@/types";
+
+interface ThroughputChartProps {
+  throughput: WeeklyThroughput[];
+}
+
+export function ThroughputChart({ throughput }: ThroughputChartProps) {
+  const max = Math.max(1, ...throughput.map((week) => week.completed));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex h-40 items-end gap-1">
+        {throughput.map((week) => (
+          <div
+            key={week.weekStart}
+            className="flex h-full flex-1 items-end"
+            title={`Week of ${format(parseISO(week.weekStart), "MMM d")}: ${
+              week.completed
+            } completed`}
+          >
+            <div
+              className="w-full rounded-t-sm bg-green-500"
+              style={{ height: `${(week.completed / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+
+      {throughput.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{format(parseISO(throughput[0].weekStart), "MMM d")}</span>
+          <span>
+            {format(
+              parseISO(throughput[throughput.length - 1].weekStart),
+              "MMM d"
+            )}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
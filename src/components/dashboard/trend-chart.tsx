@@ -0,0 +1,61 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+
+import { DailyTaskTrend } from "@/types";
+
+interface TrendChartProps {
+  trend: DailyTaskTrend[];
+}
+
+const SERIES = [
+  { key: "created", label: "Created", color: "bg-blue-500" },
+  { key: "completed", label: "Completed", color: "bg-green-500" },
+] as const;
+
+export function TrendChart({ trend }: TrendChartProps) {
+  const max = Math.max(
+    1,
+    ...trend.map((day) => Math.max(day.created, day.completed))
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end space-x-4 text-xs text-gray-500">
+        {SERIES.map((series) => (
+          <div key={series.key} className="flex items-center">
+            <span className={`mr-1.5 h-2.5 w-2.5 rounded-sm ${series.color}`} />
+            {series.label}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex h-40 items-end gap-1">
+        {trend.map((day) => (
+          <div
+            key={day.date}
+            className="flex h-full flex-1 items-end justify-center gap-px"
+            title={`${format(parseISO(day.date), "MMM d")}: ${
+              day.created
+            } created, ${day.completed} completed`}
+          >
+            {SERIES.map((series) => (
+              <div
+                key={series.key}
+                className={`w-1/2 rounded-t-sm ${series.color}`}
+                style={{ height: `${(day[series.key] / max) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {trend.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{format(parseISO(trend[0].date), "MMM d")}</span>
+          <span>{format(parseISO(trend[trend.length - 1].date), "MMM d")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { z } from "zod";
+import { format, formatDistanceToNow } from "date-fns";
+import { Copy, KeyRound, Plus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { AccessToken, AccessTokenScope } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { useFormValidation } from "@/hooks/use-form-validation";
+import { ACCESS_TOKEN_EXPIRY_DAYS } from "@/lib/validations/access-token";
+
+// Form validation schema
+const accessTokenSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Token name is required")
+    .max(50, "Token name cannot exceed 50 characters"),
+  scope: z.nativeEnum(AccessTokenScope),
+  expiresInDays: z.string(),
+});
+
+type AccessTokenFormValues = z.infer<typeof accessTokenSchema>;
+
+const SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  [AccessTokenScope.READ]: "Read only",
+  [AccessTokenScope.WRITE]: "Read and write",
+};
+
+export function AccessTokens() {
+  const [accessTokens, setAccessTokens] = useState<AccessToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  // The token just created, shown once so it can be copied
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [tokenToRevoke, setTokenToRevoke] = useState<AccessToken | null>(null);
+
+  const { form, isSubmitting, handleSubmit } =
+    useFormValidation<AccessTokenFormValues>({
+      schema: accessTokenSchema,
+      defaultValues: {
+        name: "",
+        scope: AccessTokenScope.READ,
+        expiresInDays: "30",
+      },
+    });
+
+  // Fetch the user's access tokens
+  const fetchAccessTokens = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setAccessTokens(await apiClient.getAccessTokens());
+    } catch (error) {
+      console.error("Error fetching access tokens:", error);
+      toast.error("Failed to load access tokens");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccessTokens();
+  }, [fetchAccessTokens]);
+
+  const openCreate = () => {
+    form.reset({
+      name: "",
+      scope: AccessTokenScope.READ,
+      expiresInDays: "30",
+    });
+    setIsCreateOpen(true);
+  };
+
+  const handleCreate = async (data: AccessTokenFormValues) => {
+    try {
+      const { token } = await apiClient.createAccessToken({
+        name: data.name,
+        scope: data.scope,
+        expiresInDays: parseInt(data.expiresInDays, 10),
+      });
+      setNewToken(token);
+      setIsCreateOpen(false);
+      toast.success("Access token created");
+      fetchAccessTokens();
+    } catch (error) {
+      console.error("Error creating access token:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create access token"
+      );
+    }
+  };
+
+  const copyNewToken = async () => {
+    if (!newToken) return;
+
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success("Token copied");
+    } catch (error) {
+      console.error("Error copying token:", error);
+      toast.error("Failed to copy token");
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!tokenToRevoke) return;
+
+    try {
+      await apiClient.revokeAccessToken(tokenToRevoke.id);
+      setAccessTokens((prev) =>
+        prev.filter((accessToken) => accessToken.id !== tokenToRevoke.id)
+      );
+      toast.success("Access token revoked");
+    } catch (error) {
+      console.error("Error revoking access token:", error);
+      toast.error("Failed to revoke access token");
+    } finally {
+      setTokenToRevoke(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Access Tokens</CardTitle>
+          <CardDescription>
+            Personal access tokens let scripts and other services use the REST
+            API as you. Send them as an{" "}
+            <code>Authorization: Bearer &lt;token&gt;</code> header.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" /> New Token
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newToken && (
+          <div className="rounded-md bg-muted p-3 text-sm">
+            <p className="mb-2 text-gray-500">
+              Copy your new token now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate">{newToken}</code>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={copyNewToken}
+                title="Copy token"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-200 border-t-primary"></div>
+          </div>
+        ) : accessTokens.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            You have not created any access tokens yet.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {accessTokens.map((accessToken) => {
+              const isExpired = new Date(accessToken.expiresAt) <= new Date();
+
+              return (
+                <li
+                  key={accessToken.id}
+                  className="flex items-center gap-3 py-3 text-sm"
+                >
+                  <KeyRound className="h-4 w-4 shrink-0 text-gray-500" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{accessToken.name}</span>
+                      <code className="text-xs text-gray-500">
+                        {accessToken.prefix}_…
+                      </code>
+                      <Badge variant="outline">
+                        {SCOPE_LABELS[accessToken.scope]}
+                      </Badge>
+                      {isExpired && <Badge variant="secondary">Expired</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {isExpired ? "Expired" : "Expires"}{" "}
+                      {format(new Date(accessToken.expiresAt), "PP")} ·{" "}
+                      {accessToken.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(
+                            new Date(accessToken.lastUsedAt),
+                            { addSuffix: true }
+                          )}`
+                        : "Never used"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setTokenToRevoke(accessToken)}
+                    title="Revoke token"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Create Token Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>New Access Token</DialogTitle>
+            <DialogDescription>
+              Name the token after the script or service that will use it
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={handleSubmit(handleCreate)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Nightly report" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Access</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.values(AccessTokenScope).map((scope) => (
+                          <SelectItem key={scope} value={scope}>
+                            {SCOPE_LABELS[scope]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiresInDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires after</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ACCESS_TOKEN_EXPIRY_DAYS.map((days) => (
+                          <SelectItem key={days} value={String(days)}>
+                            {days} days
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsCreateOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  Create Token
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Token Dialog */}
+      <Dialog
+        open={!!tokenToRevoke}
+        onOpenChange={(open) => !open && setTokenToRevoke(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke Access Token</DialogTitle>
+            <DialogDescription>
+              Scripts using &quot;{tokenToRevoke?.name}&quot; will no longer be
+              able to access the API. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTokenToRevoke(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevoke}>
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import { useSession } from "next-auth/react";
+import { format } from "date-fns";
+import { Download, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { BackupArchive, BackupCategoryConflict } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { BACKUP_FORMAT, MAX_BACKUP_SIZE } from "@/lib/validations/backup";
+
+const CONFLICT_LABELS: Record<BackupCategoryConflict, string> = {
+  [BackupCategoryConflict.MERGE]: "Add the tasks to the existing category",
+  [BackupCategoryConflict.RENAME]: "Restore it as a new, numbered category",
+};
+
+/**
+ * Card for downloading a JSON backup of the account and restoring one into
+ * the current workspace
+ */
+export function AccountBackup() {
+  const { data: session, update } = useSession();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // The backup picked for restoring, awaiting confirmation
+  const [backup, setBackup] = useState<BackupArchive | null>(null);
+  const [categoryConflict, setCategoryConflict] = useState(
+    BackupCategoryConflict.MERGE
+  );
+  const [restoreProfile, setRestoreProfile] = useState(false);
+
+  const downloadBackup = async () => {
+    try {
+      setIsExporting(true);
+      const archive = await apiClient.exportBackup();
+
+      const blob = new Blob([JSON.stringify(archive, null, 2)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `backup-${format(new Date(), "yyyy-MM-dd")}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success("Backup downloaded");
+    } catch (error) {
+      console.error("Error downloading backup:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to download backup"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_BACKUP_SIZE) {
+      toast.error(`Backups can be up to ${MAX_BACKUP_SIZE / (1024 * 1024)} MB`);
+      return;
+    }
+
+    try {
+      const archive = JSON.parse(await file.text());
+
+      // The full archive is validated on the server
+      if (archive?.format !== BACKUP_FORMAT) {
+        toast.error("This file is not a backup");
+        return;
+      }
+
+      setCategoryConflict(BackupCategoryConflict.MERGE);
+      setRestoreProfile(false);
+      setBackup(archive);
+    } catch (error) {
+      console.error("Error reading backup file:", error);
+      toast.error("Failed to read the file");
+    }
+  };
+
+  const runRestore = async () => {
+    if (!backup) return;
+
+    try {
+      setIsRestoring(true);
+      const result = await apiClient.restoreBackup(backup, {
+        categoryConflict,
+        restoreProfile,
+      });
+
+      if (result.profileRestored) {
+        await update({
+          ...session,
+          user: {
+            ...session?.user,
+            name: backup.profile.name,
+            image: backup.profile.image || undefined,
+          },
+        });
+      }
+
+      toast.success(
+        `${result.tasks} task${result.tasks === 1 ? "" : "s"} and ${
+          result.createdCategories.length
+        } categor${
+          result.createdCategories.length === 1 ? "y" : "ies"
+        } restored`
+      );
+
+      if (result.renamedCategories.length > 0) {
+        toast.info(
+          `Renamed: ${result.renamedCategories
+            .map(({ from, to }) => `${from} → ${to}`)
+            .join(", ")}`
+        );
+      }
+
+      setBackup(null);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to restore backup"
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup &amp; Restore</CardTitle>
+        <CardDescription>
+          Download your profile and the categories and tasks of the current
+          workspace as a JSON file, or restore a backup into the current
+          workspace
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={downloadBackup}
+          disabled={isExporting}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          {isExporting ? "Preparing..." : "Download Backup"}
+        </Button>
+        <Button variant="outline" asChild>
+          <label className="cursor-pointer">
+            <Upload className="mr-2 h-4 w-4" /> Restore Backup
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </label>
+        </Button>
+      </CardContent>
+
+      <Dialog
+        open={!!backup}
+        onOpenChange={(open) => !open && !isRestoring && setBackup(null)}
+      >
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Restore Backup</DialogTitle>
+            <DialogDescription>
+              The backup is added to the current workspace. Nothing in it is
+              overwritten or deleted.
+            </DialogDescription>
+          </DialogHeader>
+
+          {backup && (
+            <div className="space-y-4 text-sm">
+              <ul className="space-y-1 rounded-md bg-muted p-3">
+                <li>
+                  Workspace{" "}
+                  <span className="font-medium">{backup.workspace?.name}</span>{" "}
+                  of {backup.profile?.email}
+                </li>
+                <li>
+                  {backup.categories?.length ?? 0} categories,{" "}
+                  {backup.tasks?.length ?? 0} tasks
+                </li>
+                {!isNaN(Date.parse(backup.exportedAt)) && (
+                  <li>
+                    Taken on {format(new Date(backup.exportedAt), "PP p")}
+                  </li>
+                )}
+              </ul>
+
+              <div className="space-y-2">
+                <Label>When a category with the same name exists</Label>
+                <Select
+                  value={categoryConflict}
+                  onValueChange={(value) =>
+                    setCategoryConflict(value as BackupCategoryConflict)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(BackupCategoryConflict).map((conflict) => (
+                      <SelectItem key={conflict} value={conflict}>
+                        {CONFLICT_LABELS[conflict]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="restore-profile"
+                  checked={restoreProfile}
+                  onCheckedChange={(checked) =>
+                    setRestoreProfile(checked === true)
+                  }
+                />
+                <Label htmlFor="restore-profile">
+                  Also restore my name and profile image
+                </Label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setBackup(null)}
+              disabled={isRestoring}
+            >
+              Cancel
+            </Button>
+            <Button onClick={runRestore} disabled={isRestoring}>
+              {isRestoring ? "Restoring..." : "Restore"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,371 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { CalendarDays, Copy, Plus, RotateCcw, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CalendarFeed, TaskStatus } from "@/types";
+import { apiClient } from "@/utils/api-client";
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: "To Do",
+  [TaskStatus.IN_PROGRESS]: "In Progress",
+  [TaskStatus.COMPLETED]: "Completed",
+};
+
+// Value of the category select when the feed is not limited to a category
+const ALL_CATEGORIES = "all";
+
+// Feed options turned into query parameters of the feed URL
+interface FeedUrlOptions {
+  type: "event" | "todo";
+  statuses: TaskStatus[];
+  categoryId: string;
+}
+
+const DEFAULT_URL_OPTIONS: FeedUrlOptions = {
+  type: "event",
+  statuses: [],
+  categoryId: ALL_CATEGORIES,
+};
+
+function buildFeedUrl(token: string, options: FeedUrlOptions) {
+  const url = new URL(`/api/calendar/${token}`, window.location.origin);
+
+  if (options.type !== "event") url.searchParams.set("type", options.type);
+  if (options.statuses.length > 0) {
+    url.searchParams.set("status", options.statuses.join(","));
+  }
+  if (options.categoryId !== ALL_CATEGORIES) {
+    url.searchParams.set("categoryId", options.categoryId);
+  }
+
+  return url.toString();
+}
+
+/**
+ * Card managing the secret-URL calendar feeds of the user, one per workspace
+ */
+export function CalendarFeeds() {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(
+    null
+  );
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>(
+    []
+  );
+  // The feed whose token was just created, shown once so it can be copied
+  const [newFeed, setNewFeed] = useState<
+    (CalendarFeed & { token: string }) | null
+  >(null);
+  const [urlOptions, setUrlOptions] =
+    useState<FeedUrlOptions>(DEFAULT_URL_OPTIONS);
+  const [feedToRevoke, setFeedToRevoke] = useState<CalendarFeed | null>(null);
+
+  // Fetch the user's feeds and the current workspace with its categories
+  const fetchFeeds = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [feedList, workspace, categoryList] = await Promise.all([
+        apiClient.getCalendarFeeds(),
+        apiClient.getCurrentWorkspace(),
+        apiClient.getCategories(),
+      ]);
+      setFeeds(feedList);
+      setCurrentWorkspaceId(workspace.id);
+      setCategories(categoryList);
+    } catch (error) {
+      console.error("Error fetching calendar feeds:", error);
+      toast.error("Failed to load calendar feeds");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFeeds();
+  }, [fetchFeeds]);
+
+  const showNewFeed = (feed: CalendarFeed & { token: string }) => {
+    setNewFeed(feed);
+    setUrlOptions(DEFAULT_URL_OPTIONS);
+    setFeeds((prev) => [feed, ...prev.filter((item) => item.id !== feed.id)]);
+  };
+
+  const handleCreate = async () => {
+    try {
+      showNewFeed(
+        await apiClient.createCalendarFeed({
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        })
+      );
+      toast.success("Calendar feed created");
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to create calendar feed"
+      );
+    }
+  };
+
+  const handleRegenerate = async (feed: CalendarFeed) => {
+    try {
+      showNewFeed(await apiClient.regenerateCalendarFeed(feed.id));
+      toast.success("Feed URL regenerated. The old URL no longer works");
+    } catch (error) {
+      console.error("Error regenerating calendar feed:", error);
+      toast.error("Failed to regenerate calendar feed");
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!feedToRevoke) return;
+
+    try {
+      await apiClient.revokeCalendarFeed(feedToRevoke.id);
+      setFeeds((prev) => prev.filter((feed) => feed.id !== feedToRevoke.id));
+      if (newFeed?.id === feedToRevoke.id) setNewFeed(null);
+      toast.success("Calendar feed revoked");
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      toast.error("Failed to revoke calendar feed");
+    } finally {
+      setFeedToRevoke(null);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!newFeed) return;
+
+    try {
+      await navigator.clipboard.writeText(
+        buildFeedUrl(newFeed.token, urlOptions)
+      );
+      toast.success("Feed URL copied");
+    } catch (error) {
+      console.error("Error copying feed URL:", error);
+      toast.error("Failed to copy feed URL");
+    }
+  };
+
+  const toggleStatus = (status: TaskStatus, checked: boolean) => {
+    setUrlOptions((prev) => ({
+      ...prev,
+      statuses: checked
+        ? [...prev.statuses, status]
+        : prev.statuses.filter((item) => item !== status),
+    }));
+  };
+
+  const hasCurrentWorkspaceFeed = feeds.some(
+    (feed) => feed.workspaceId === currentWorkspaceId
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Calendar Feeds</CardTitle>
+          <CardDescription>
+            Subscribe to the tasks with a due date of a workspace from Google
+            Calendar, Apple Calendar or Outlook. Anyone with the feed URL can
+            read those tasks.
+          </CardDescription>
+        </div>
+        {!isLoading && !hasCurrentWorkspaceFeed && (
+          <Button size="sm" onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" /> Current Workspace
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newFeed && (
+          <div className="space-y-3 rounded-md bg-muted p-3 text-sm">
+            <p className="text-gray-500">
+              Copy the feed URL of {newFeed.workspaceName} now. It will not be
+              shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate">
+                {buildFeedUrl(newFeed.token, urlOptions)}
+              </code>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={copyFeedUrl}
+                title="Copy feed URL"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <Select
+                value={urlOptions.type}
+                onValueChange={(value) =>
+                  setUrlOptions((prev) => ({
+                    ...prev,
+                    type: value as FeedUrlOptions["type"],
+                  }))
+                }
+              >
+                <SelectTrigger className="h-8 w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="event">As events</SelectItem>
+                  <SelectItem value="todo">As to-dos</SelectItem>
+                </SelectContent>
+              </Select>
+              {newFeed.workspaceId === currentWorkspaceId && (
+                <Select
+                  value={urlOptions.categoryId}
+                  onValueChange={(value) =>
+                    setUrlOptions((prev) => ({ ...prev, categoryId: value }))
+                  }
+                >
+                  <SelectTrigger className="h-8 w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CATEGORIES}>
+                      All categories
+                    </SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {Object.values(TaskStatus).map((status) => (
+                <div key={status} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`feed-status-${status}`}
+                    checked={urlOptions.statuses.includes(status)}
+                    onCheckedChange={(checked) =>
+                      toggleStatus(status, checked === true)
+                    }
+                  />
+                  <Label htmlFor={`feed-status-${status}`}>
+                    {STATUS_LABELS[status]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-200 border-t-primary"></div>
+          </div>
+        ) : feeds.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            You have not created any calendar feeds yet.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {feeds.map((feed) => (
+              <li
+                key={feed.id}
+                className="flex items-center gap-3 py-3 text-sm"
+              >
+                <CalendarDays className="h-4 w-4 shrink-0 text-gray-500" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{feed.workspaceName}</span>
+                    <code className="text-xs text-gray-500">
+                      {feed.prefix}_…
+                    </code>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Due dates in {feed.timeZone} ·{" "}
+                    {feed.lastUsedAt
+                      ? `Last fetched ${formatDistanceToNow(
+                          new Date(feed.lastUsedAt),
+                          { addSuffix: true }
+                        )}`
+                      : "Never fetched"}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleRegenerate(feed)}
+                  title="Regenerate feed URL"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setFeedToRevoke(feed)}
+                  title="Revoke feed"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Revoke Feed Dialog */}
+      <Dialog
+        open={!!feedToRevoke}
+        onOpenChange={(open) => !open && setFeedToRevoke(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke Calendar Feed</DialogTitle>
+            <DialogDescription>
+              Calendars subscribed to the feed of &quot;
+              {feedToRevoke?.workspaceName}&quot; will stop updating. This
+              cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFeedToRevoke(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRevoke}>
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
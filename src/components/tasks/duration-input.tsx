@@ -0,0 +1,52 @@
+"use client";
+
+import { ComponentProps, useEffect, useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import { formatMinutes, parseDuration } from "@/lib/utils/durations";
+
+interface DurationInputProps
+  extends Omit<ComponentProps<"input">, "value" | "onChange"> {
+  // Minutes, null when empty, or NaN while the text is not a duration
+  value: number | null | undefined;
+  onChange: (minutes: number | null) => void;
+}
+
+/**
+ * A text input for durations such as "1h 30m", "1:30" or "1.5" (hours)
+ */
+export function DurationInput({
+  value,
+  onChange,
+  ...props
+}: DurationInputProps) {
+  const [text, setText] = useState(value ? formatMinutes(value) : "");
+
+  // Follow changes made outside the input, such as a form reset
+  useEffect(() => {
+    setText((current) => {
+      if (Number.isNaN(value)) return current;
+
+      const parsed = current.trim() ? parseDuration(current) : null;
+      if (parsed === (value ?? null)) return current;
+
+      return value ? formatMinutes(value) : "";
+    });
+  }, [value]);
+
+  return (
+    <Input
+      placeholder="e.g. 1h 30m"
+      {...props}
+      value={text}
+      onChange={(event) => {
+        setText(event.target.value);
+        onChange(
+          event.target.value.trim()
+            ? parseDuration(event.target.value) ?? NaN
+            : null
+        );
+      }}
+    />
+  );
+}
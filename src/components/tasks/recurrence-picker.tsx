@@ -0,0 +1,255 @@
+"use client";
+
+import { format } from "date-fns";
+import { Calendar as CalendarIcon, Repeat } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RecurrenceFrequency } from "@/types";
+import { describeRecurrence } from "@/lib/utils/recurrence";
+
+export interface RecurrenceValue {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: number[];
+  monthDay?: number | null;
+  count?: number | null;
+  until?: Date | null;
+}
+
+interface RecurrencePickerProps {
+  value?: RecurrenceValue | null;
+  onChange: (value: RecurrenceValue | null) => void;
+  // Used to seed sensible defaults (weekday, day of month) when enabling
+  referenceDate?: Date | null;
+}
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, [string, string]> = {
+  [RecurrenceFrequency.DAILY]: ["day", "days"],
+  [RecurrenceFrequency.WEEKLY]: ["week", "weeks"],
+  [RecurrenceFrequency.MONTHLY]: ["month", "months"],
+};
+
+export function RecurrencePicker({
+  value,
+  onChange,
+  referenceDate,
+}: RecurrencePickerProps) {
+  const reference = referenceDate || new Date();
+  const endType = value?.count ? "count" : value?.until ? "until" : "never";
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === "none") {
+      onChange(null);
+      return;
+    }
+
+    const nextFrequency = frequency as RecurrenceFrequency;
+    onChange({
+      frequency: nextFrequency,
+      interval: value?.interval || 1,
+      weekdays:
+        nextFrequency === RecurrenceFrequency.WEEKLY
+          ? [reference.getDay()]
+          : undefined,
+      monthDay:
+        nextFrequency === RecurrenceFrequency.MONTHLY
+          ? reference.getDate()
+          : null,
+      count: value?.count || null,
+      until: value?.until || null,
+    });
+  };
+
+  const handleEndTypeChange = (type: string) => {
+    if (!value) return;
+
+    onChange({
+      ...value,
+      count: type === "count" ? value.count || 5 : null,
+      until: type === "until" ? value.until || reference : null,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+
+    const weekdays = value.weekdays || [];
+    const nextWeekdays = weekdays.includes(day)
+      ? weekdays.filter((weekday) => weekday !== day)
+      : [...weekdays, day].sort((a, b) => a - b);
+
+    // Keep at least one weekday selected
+    if (nextWeekdays.length === 0) return;
+
+    onChange({ ...value, weekdays: nextWeekdays });
+  };
+
+  const parseNumber = (raw: string, min: number, max: number) => {
+    const parsed = parseInt(raw, 10);
+    if (Number.isNaN(parsed)) return min;
+    return Math.min(max, Math.max(min, parsed));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={value?.frequency || "none"}
+          onValueChange={handleFrequencyChange}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Does not repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value={RecurrenceFrequency.DAILY}>Daily</SelectItem>
+            <SelectItem value={RecurrenceFrequency.WEEKLY}>Weekly</SelectItem>
+            <SelectItem value={RecurrenceFrequency.MONTHLY}>Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <div className="flex items-center gap-2 text-sm">
+            <span>every</span>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              className="h-9 w-16"
+              value={value.interval}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  interval: parseNumber(e.target.value, 1, 365),
+                })
+              }
+            />
+            <span>
+              {UNIT_LABELS[value.frequency][value.interval === 1 ? 0 : 1]}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === RecurrenceFrequency.WEEKLY && (
+        <div className="flex items-center gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Button
+              key={day}
+              type="button"
+              size="icon"
+              variant={value.weekdays?.includes(day) ? "default" : "outline"}
+              className="h-8 w-8 rounded-full text-xs"
+              onClick={() => toggleWeekday(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === RecurrenceFrequency.MONTHLY && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>on day</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            className="h-9 w-16"
+            value={value.monthDay || reference.getDate()}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                monthDay: parseNumber(e.target.value, 1, 31),
+              })
+            }
+          />
+          <span>of the month</span>
+        </div>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>Ends</span>
+          <Select value={endType} onValueChange={handleEndTypeChange}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="count">After</SelectItem>
+              <SelectItem value="until">On date</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {endType === "count" && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                max={1000}
+                className="h-9 w-20"
+                value={value.count || 1}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    count: parseNumber(e.target.value, 1, 1000),
+                  })
+                }
+              />
+              <span>occurrences</span>
+            </>
+          )}
+
+          {endType === "until" && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="pl-3 text-left font-normal"
+                >
+                  {value.until ? format(value.until, "PPP") : "Pick a date"}
+                  <CalendarIcon className="ml-2 h-4 w-4 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={value.until || undefined}
+                  onSelect={(date) =>
+                    onChange({ ...value, until: date || null })
+                  }
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="flex items-center text-sm text-gray-500">
+          <Repeat className="mr-1 h-4 w-4" />
+          Repeats {describeRecurrence(value)}
+        </p>
+      )}
+    </div>
+  );
+}
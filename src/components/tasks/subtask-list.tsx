@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { SubtaskProgress, TaskStatus } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toast } from "sonner";
+
+interface Subtask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  position?: number;
+}
+
+interface SubtaskListProps {
+  parentId: string;
+  onProgressChange?: (progress: SubtaskProgress) => void;
+}
+
+export function SubtaskList({ parentId, onProgressChange }: SubtaskListProps) {
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newTitle, setNewTitle] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  // Keep local state and the parent's progress roll-up in sync
+  const applySubtasks = useCallback(
+    (next: Subtask[]) => {
+      setSubtasks(next);
+      if (onProgressChange) {
+        onProgressChange({
+          completed: next.filter(
+            (subtask) => subtask.status === TaskStatus.COMPLETED
+          ).length,
+          total: next.length,
+        });
+      }
+    },
+    [onProgressChange]
+  );
+
+  useEffect(() => {
+    async function fetchSubtasks() {
+      try {
+        setIsLoading(true);
+        const data = await apiClient.getSubtasks(parentId);
+        setSubtasks(data);
+      } catch (error) {
+        console.error("Error fetching subtasks:", error);
+        toast.error("Failed to load subtasks");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchSubtasks();
+  }, [parentId]);
+
+  // Add a subtask to the end of the checklist
+  const addSubtask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newTitle.trim();
+    if (title.length < 3) {
+      toast.error("Title must be at least 3 characters long");
+      return;
+    }
+
+    try {
+      setIsAdding(true);
+      const { task } = await apiClient.createSubtask(parentId, { title });
+      applySubtasks([...subtasks, task]);
+      setNewTitle("");
+    } catch (error) {
+      console.error("Error creating subtask:", error);
+      toast.error("Failed to add subtask");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const toggleSubtask = async (id: string) => {
+    try {
+      const updated = await apiClient.toggleSubtask(id);
+      applySubtasks(
+        subtasks.map((subtask) =>
+          subtask.id === id ? { ...subtask, status: updated.status } : subtask
+        )
+      );
+    } catch (error) {
+      console.error("Error toggling subtask:", error);
+      toast.error("Failed to update subtask");
+    }
+  };
+
+  const moveSubtask = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= subtasks.length) return;
+
+    const previous = subtasks;
+    const reordered = [...subtasks];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    setSubtasks(reordered);
+
+    try {
+      await apiClient.reorderSubtasks(
+        parentId,
+        reordered.map((subtask) => subtask.id)
+      );
+    } catch (error) {
+      console.error("Error reordering subtasks:", error);
+      toast.error("Failed to reorder subtasks");
+      setSubtasks(previous);
+    }
+  };
+
+  const deleteSubtask = async (id: string) => {
+    try {
+      await apiClient.deleteTask(id);
+      applySubtasks(subtasks.filter((subtask) => subtask.id !== id));
+    } catch (error) {
+      console.error("Error deleting subtask:", error);
+      toast.error("Failed to delete subtask");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 py-2 pl-10">
+      {subtasks.length === 0 && (
+        <p className="text-sm text-gray-500">No subtasks yet</p>
+      )}
+
+      {subtasks.map((subtask, index) => (
+        <div key={subtask.id} className="flex items-center gap-2">
+          <Checkbox
+            checked={subtask.status === TaskStatus.COMPLETED}
+            onCheckedChange={() => toggleSubtask(subtask.id)}
+          />
+          <span
+            className={`flex-1 text-sm ${
+              subtask.status === TaskStatus.COMPLETED
+                ? "text-gray-500 line-through"
+                : ""
+            }`}
+          >
+            {subtask.title}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => moveSubtask(index, -1)}
+            disabled={index === 0}
+            title="Move up"
+          >
+            <ArrowUp className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => moveSubtask(index, 1)}
+            disabled={index === subtasks.length - 1}
+            title="Move down"
+          >
+            <ArrowDown className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => deleteSubtask(subtask.id)}
+            title="Delete subtask"
+          >
+            <Trash2 className="h-3 w-3 text-red-500" />
+          </Button>
+        </div>
+      ))}
+
+      <form onSubmit={addSubtask} className="flex items-center gap-2">
+        <Input
+          placeholder="Add a subtask..."
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          className="h-8 flex-1"
+        />
+        <Button type="submit" size="sm" variant="secondary" disabled={isAdding}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+import { ActivityTimeline } from "@/components/activity/activity-timeline";
+import { Activity } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toast } from "sonner";
+
+interface TaskActivityProps {
+  taskId: string;
+}
+
+export function TaskActivity({ taskId }: TaskActivityProps) {
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchActivity = async () => {
+      try {
+        setIsLoading(true);
+        setActivities(await apiClient.getTaskActivity(taskId));
+      } catch (error) {
+        console.error("Error fetching task activity:", error);
+        toast.error("Failed to load activity");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchActivity();
+  }, [taskId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-2">
+      <ActivityTimeline activities={activities} />
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { UserPlus } from "lucide-react";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TaskAssignee } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toast } from "sonner";
+import { getInitials } from "@/lib/utils/initials";
+
+export interface AssignableMember {
+  userId: string;
+  name: string;
+  image?: string;
+}
+
+interface TaskAssigneesProps {
+  taskId: string;
+  assignees: TaskAssignee[];
+  // Workspace members that can be assigned; omit to render read-only avatars
+  members?: AssignableMember[];
+  onChange?: () => void;
+}
+
+// Number of avatars shown before collapsing the rest into a counter
+const MAX_VISIBLE = 3;
+
+export function TaskAssignees({
+  taskId,
+  assignees,
+  members,
+  onChange,
+}: TaskAssigneesProps) {
+  const toggleAssignee = async (memberId: string, assigned: boolean) => {
+    try {
+      if (assigned) {
+        await apiClient.assignTask(taskId, memberId);
+      } else {
+        await apiClient.unassignTask(taskId, memberId);
+      }
+
+      if (onChange) {
+        onChange();
+      }
+    } catch (error) {
+      console.error("Error updating assignees:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update assignees"
+      );
+    }
+  };
+
+  const avatars = (
+    <div className="flex items-center">
+      {assignees.length === 0 ? (
+        <span className="flex items-center text-sm text-gray-500">
+          {members ? <UserPlus className="h-4 w-4" /> : "Unassigned"}
+        </span>
+      ) : (
+        <div className="flex -space-x-2">
+          {assignees.slice(0, MAX_VISIBLE).map((assignee) => (
+            <Avatar
+              key={assignee.id}
+              className="h-7 w-7 border-2 border-background"
+              title={assignee.name}
+            >
+              <AvatarImage src={assignee.image || ""} alt={assignee.name} />
+              <AvatarFallback className="text-xs">
+                {getInitials(assignee.name)}
+              </AvatarFallback>
+            </Avatar>
+          ))}
+          {assignees.length > MAX_VISIBLE && (
+            <Avatar className="h-7 w-7 border-2 border-background">
+              <AvatarFallback className="text-xs">
+                +{assignees.length - MAX_VISIBLE}
+              </AvatarFallback>
+            </Avatar>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  if (!members) {
+    return avatars;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="rounded-md p-1 hover:bg-accent"
+          title={
+            assignees.length > 0
+              ? `Assigned to ${assignees
+                  .map((assignee) => assignee.name)
+                  .join(", ")}`
+              : "Assign task"
+          }
+        >
+          {avatars}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel>Assignees</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {members.map((member) => (
+          <DropdownMenuCheckboxItem
+            key={member.userId}
+            checked={assignees.some(
+              (assignee) => assignee.id === member.userId
+            )}
+            onCheckedChange={(checked) =>
+              toggleAssignee(member.userId, !!checked)
+            }
+          >
+            <Avatar className="mr-2 h-5 w-5">
+              <AvatarImage src={member.image || ""} alt={member.name} />
+              <AvatarFallback className="text-[10px]">
+                {getInitials(member.name)}
+              </AvatarFallback>
+            </Avatar>
+            <span className="truncate">{member.name}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
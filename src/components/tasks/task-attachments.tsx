@@ -0,0 +1,355 @@
+"use client";
+
+import { DragEvent, useCallback, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { formatDistanceToNow } from "date-fns";
+import { Download, FileText, Paperclip, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TaskAttachment, WorkspaceRole } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { cn } from "@/lib/utils";
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_THUMBNAIL_SIZE,
+  THUMBNAIL_DIMENSION,
+  isImageType,
+} from "@/lib/validations/attachment";
+
+interface TaskAttachmentsProps {
+  taskId: string;
+}
+
+const ACCEPT = [
+  ...Object.keys(ATTACHMENT_TYPES),
+  ...Object.values(ATTACHMENT_TYPES).flat(),
+].join(",");
+
+// Show a size in bytes as B, KB or MB
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Scale an image down to a thumbnail, or resolve to null when the browser
+// cannot decode it; the attachment is then shown with an icon instead
+async function createThumbnail(file: File): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(
+      1,
+      THUMBNAIL_DIMENSION / Math.max(bitmap.width, bitmap.height)
+    );
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas
+      .getContext("2d")
+      ?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    // Browsers without WebP encoding fall back to PNG
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/webp", 0.8)
+    );
+
+    return blob && blob.size <= MAX_THUMBNAIL_SIZE ? blob : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files attached to a task, with thumbnails of images. Editors can upload
+ * files by picking or dropping them, and delete them.
+ */
+export function TaskAttachments({ taskId }: TaskAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [role, setRole] = useState<WorkspaceRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [uploadCount, setUploadCount] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [attachmentToDelete, setAttachmentToDelete] =
+    useState<TaskAttachment | null>(null);
+
+  const canEdit = role === WorkspaceRole.OWNER || role === WorkspaceRole.EDITOR;
+
+  const fetchAttachments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [attachmentList, workspace] = await Promise.all([
+        apiClient.getTaskAttachments(taskId),
+        apiClient.getCurrentWorkspace(),
+      ]);
+      setAttachments(attachmentList);
+      setRole(workspace.role);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      toast.error("Failed to load attachments");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  const uploadFiles = async (files: File[]) => {
+    // Check what the server would reject before uploading anything
+    const accepted = files.filter((file) => {
+      if (!(file.type in ATTACHMENT_TYPES)) {
+        toast.error(`${file.name}: this type of file cannot be attached`);
+        return false;
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        toast.error(
+          `${file.name}: files can be up to ${formatFileSize(
+            MAX_ATTACHMENT_SIZE
+          )}`
+        );
+        return false;
+      }
+      return true;
+    });
+
+    setUploadCount((count) => count + accepted.length);
+
+    // One at a time, so a large batch does not saturate the connection
+    for (const file of accepted) {
+      try {
+        const thumbnail = isImageType(file.type)
+          ? await createThumbnail(file)
+          : null;
+        const attachment = await apiClient.uploadAttachment(
+          taskId,
+          file,
+          thumbnail
+        );
+        setAttachments((prev) => [...prev, attachment]);
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        toast.error(
+          `${file.name}: ${
+            error instanceof Error ? error.message : "Failed to upload"
+          }`
+        );
+      } finally {
+        setUploadCount((count) => count - 1);
+      }
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (canEdit) {
+      uploadFiles(Array.from(event.dataTransfer.files));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!attachmentToDelete) return;
+
+    try {
+      await apiClient.deleteAttachment(attachmentToDelete.id);
+      setAttachments((prev) =>
+        prev.filter((attachment) => attachment.id !== attachmentToDelete.id)
+      );
+      toast.success("Attachment deleted");
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete attachment"
+      );
+    } finally {
+      setAttachmentToDelete(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "space-y-4 rounded-md py-2",
+        isDragging && "outline-dashed outline-2 outline-primary"
+      )}
+      onDragOver={(event) => {
+        if (!canEdit) return;
+        event.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {attachments.length === 0 ? (
+        <p className="text-center text-sm text-gray-500">
+          No files attached.
+          {canEdit && " Drop screenshots or PDFs here to attach them."}
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {attachments.map((attachment) => {
+            const url = `/api/v1/attachments/${attachment.id}`;
+
+            return (
+              <li
+                key={attachment.id}
+                className="overflow-hidden rounded-md border"
+              >
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="relative flex h-24 items-center justify-center bg-muted"
+                  title={`Open ${attachment.name}`}
+                >
+                  {attachment.hasThumbnail ? (
+                    // Thumbnails come from an authenticated route, which the
+                    // image optimizer cannot fetch
+                    <Image
+                      src={`${url}/thumbnail`}
+                      alt={attachment.name}
+                      fill
+                      unoptimized
+                      className="object-cover"
+                    />
+                  ) : (
+                    <FileText className="h-8 w-8 text-gray-400" />
+                  )}
+                </a>
+                <div className="space-y-1 p-2">
+                  <p
+                    className="truncate text-xs font-medium"
+                    title={attachment.name}
+                  >
+                    {attachment.name}
+                  </p>
+                  <div className="flex items-center justify-between gap-1 text-xs text-gray-500">
+                    <span
+                      className="truncate"
+                      title={`Uploaded by ${
+                        attachment.uploadedBy?.name || "a deleted user"
+                      } ${formatDistanceToNow(new Date(attachment.createdAt), {
+                        addSuffix: true,
+                      })}`}
+                    >
+                      {formatFileSize(attachment.size)}
+                    </span>
+                    <div className="flex shrink-0 items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        asChild
+                      >
+                        <a
+                          href={`${url}?download=1`}
+                          title="Download"
+                          aria-label={`Download ${attachment.name}`}
+                        >
+                          <Download className="h-3.5 w-3.5" />
+                        </a>
+                      </Button>
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-red-600 hover:text-red-700"
+                          title="Delete"
+                          aria-label={`Delete ${attachment.name}`}
+                          onClick={() => setAttachmentToDelete(attachment)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex items-center justify-between border-t pt-4">
+          <span className="text-xs text-gray-500">
+            Images and PDFs up to {formatFileSize(MAX_ATTACHMENT_SIZE)}
+          </span>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(event) => {
+              uploadFiles(Array.from(event.target.files || []));
+              event.target.value = "";
+            }}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadCount > 0}
+          >
+            <Paperclip className="mr-2 h-4 w-4" />
+            {uploadCount > 0
+              ? `Uploading ${uploadCount} file${
+                  uploadCount === 1 ? "" : "s"
+                }...`
+              : "Attach files"}
+          </Button>
+        </div>
+      )}
+
+      {/* Delete attachment dialog */}
+      <Dialog
+        open={!!attachmentToDelete}
+        onOpenChange={(open) => !open && setAttachmentToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Attachment</DialogTitle>
+            <DialogDescription>
+              &quot;{attachmentToDelete?.name}&quot; will be deleted. This
+              cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setAttachmentToDelete(null)}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
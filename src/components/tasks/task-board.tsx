@@ -0,0 +1,497 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import {
+  AlertTriangle,
+  Calendar,
+  ListChecks,
+  Lock,
+  Pencil,
+  Repeat,
+  Settings2,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { TaskAssignees } from "@/components/tasks/task-assignees";
+import {
+  SubtaskProgress,
+  TaskAssignee,
+  TaskPriority,
+  TaskRecurrence,
+  TaskStatus,
+  WipLimits,
+} from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { describeRecurrence } from "@/lib/utils/recurrence";
+import { toast } from "sonner";
+
+interface BoardTask {
+  id: string;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate?: string | Date;
+  category?: { id: string; name: string } | null;
+  subtaskProgress?: SubtaskProgress;
+  recurrence?: TaskRecurrence | null;
+  position?: number;
+  isBlocked?: boolean;
+  assignees?: TaskAssignee[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface TaskBoardProps {
+  tasks: BoardTask[];
+  wipLimits?: WipLimits;
+  // Disables drag and drop for workspace viewers
+  readOnly?: boolean;
+  onEditTask?: (task: BoardTask) => void;
+  onTasksUpdated?: () => void;
+  // Provided only to users allowed to configure the board
+  onWipLimitChange?: (status: TaskStatus, limit: number | null) => void;
+}
+
+// Where a dragged card would land: next to another card, or at the end
+interface DropTarget {
+  status: TaskStatus;
+  overId: string | null;
+  placement: "before" | "after";
+}
+
+type Columns = Record<TaskStatus, BoardTask[]>;
+
+const COLUMNS: { status: TaskStatus; title: string }[] = [
+  { status: TaskStatus.TODO, title: "To Do" },
+  { status: TaskStatus.IN_PROGRESS, title: "In Progress" },
+  { status: TaskStatus.COMPLETED, title: "Completed" },
+];
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  [TaskPriority.LOW]: "bg-gray-100 text-gray-800",
+  [TaskPriority.MEDIUM]: "bg-blue-100 text-blue-800",
+  [TaskPriority.HIGH]: "bg-red-100 text-red-800",
+};
+
+function groupByStatus(tasks: BoardTask[]): Columns {
+  const columns: Columns = {
+    [TaskStatus.TODO]: [],
+    [TaskStatus.IN_PROGRESS]: [],
+    [TaskStatus.COMPLETED]: [],
+  };
+
+  tasks.forEach((task) => columns[task.status]?.push(task));
+
+  return columns;
+}
+
+function WipLimitEditor({
+  limit,
+  onSave,
+}: {
+  limit: number | null;
+  onSave: (limit: number | null) => void;
+}) {
+  const [value, setValue] = useState(limit ? limit.toString() : "");
+  const [isOpen, setIsOpen] = useState(false);
+
+  const save = (nextLimit: number | null) => {
+    onSave(nextLimit);
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        setValue(limit ? limit.toString() : "");
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Set WIP limit"
+        >
+          <Settings2 className="h-4 w-4 text-gray-500" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-2" align="end">
+        <p className="text-sm font-medium">WIP limit</p>
+        <Input
+          type="number"
+          min={1}
+          max={999}
+          placeholder="No limit"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" size="sm" onClick={() => save(null)}>
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              const parsed = parseInt(value, 10);
+              save(Number.isNaN(parsed) ? null : Math.max(1, parsed));
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function TaskBoard({
+  tasks,
+  wipLimits = {},
+  readOnly,
+  onEditTask,
+  onTasksUpdated,
+  onWipLimitChange,
+}: TaskBoardProps) {
+  const [columns, setColumns] = useState<Columns>(() => groupByStatus(tasks));
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  // Update local state when props change
+  useEffect(() => {
+    setColumns(groupByStatus(tasks));
+  }, [tasks]);
+
+  const handleDragStart = (e: React.DragEvent, taskId: string) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", taskId);
+    setDraggedId(taskId);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  // Hovering a card places the dragged task above or below it
+  const handleCardDragOver = (
+    e: React.DragEvent,
+    status: TaskStatus,
+    overId: string
+  ) => {
+    if (!draggedId) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const placement =
+      e.clientY < rect.top + rect.height / 2 ? "before" : "after";
+
+    if (
+      dropTarget?.status !== status ||
+      dropTarget.overId !== overId ||
+      dropTarget.placement !== placement
+    ) {
+      setDropTarget({ status, overId, placement });
+    }
+  };
+
+  // Hovering the empty part of a column appends the task to it
+  const handleColumnDragOver = (e: React.DragEvent, status: TaskStatus) => {
+    if (!draggedId) return;
+
+    e.preventDefault();
+
+    if (dropTarget?.status !== status || dropTarget.overId !== null) {
+      setDropTarget({ status, overId: null, placement: "after" });
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+
+    const taskId = draggedId;
+    const target = dropTarget;
+    setDraggedId(null);
+    setDropTarget(null);
+
+    if (!taskId || !target || target.overId === taskId) return;
+
+    const task = Object.values(columns)
+      .flat()
+      .find((item) => item.id === taskId);
+
+    if (!task) return;
+
+    // Resolve the new neighbours within the target column
+    const remaining = columns[status].filter((item) => item.id !== taskId);
+    let index = remaining.length;
+
+    if (target.overId) {
+      const overIndex = remaining.findIndex(
+        (item) => item.id === target.overId
+      );
+      if (overIndex >= 0) {
+        index = target.placement === "before" ? overIndex : overIndex + 1;
+      }
+    }
+
+    const above = remaining[index - 1] || null;
+    const below = remaining[index] || null;
+
+    // Dropped back onto its current place
+    const currentIndex = columns[status].findIndex(
+      (item) => item.id === taskId
+    );
+    if (
+      task.status === status &&
+      columns[status][currentIndex - 1]?.id === above?.id &&
+      columns[status][currentIndex + 1]?.id === below?.id
+    ) {
+      return;
+    }
+
+    // Optimistically move the card
+    const previousColumns = columns;
+    const nextColumn = [...remaining];
+    nextColumn.splice(index, 0, { ...task, status });
+
+    setColumns({
+      ...columns,
+      [task.status]: columns[task.status].filter((item) => item.id !== taskId),
+      [status]: nextColumn,
+    });
+
+    try {
+      if (task.status !== status) {
+        const { task: updatedTask } = await apiClient.updateTask(taskId, {
+          title: task.title,
+          status,
+        });
+
+        if (updatedTask.nextOccurrence?.dueDate) {
+          toast.info(
+            `Next occurrence scheduled for ${format(
+              new Date(updatedTask.nextOccurrence.dueDate),
+              "MMM d, yyyy"
+            )}`
+          );
+        }
+
+        const limit = wipLimits[status];
+        if (limit && nextColumn.length > limit) {
+          const title = COLUMNS.find((column) => column.status === status)
+            ?.title;
+          toast.warning(
+            `"${title}" is over its WIP limit (${nextColumn.length}/${limit})`
+          );
+        }
+      }
+
+      await apiClient.moveTask(taskId, {
+        afterId: above?.id ?? null,
+        beforeId: below?.id ?? null,
+      });
+
+      if (onTasksUpdated) {
+        onTasksUpdated();
+      }
+    } catch (error) {
+      console.error("Error moving task:", error);
+      setColumns(previousColumns);
+      toast.error(
+        error instanceof Error && error.message.startsWith("Task is blocked")
+          ? error.message
+          : "Failed to move task"
+      );
+    }
+  };
+
+  const renderDueDate = (dueDate?: string | Date) => {
+    if (!dueDate) return null;
+
+    const date = dueDate instanceof Date ? dueDate : new Date(dueDate);
+
+    return (
+      <span
+        className={`flex items-center ${
+          date < new Date() ? "text-red-600" : "text-gray-500"
+        }`}
+      >
+        <Calendar className="mr-1 h-3 w-3" />
+        {format(date, "MMM d")}
+      </span>
+    );
+  };
+
+  const renderDropIndicator = () => (
+    <div className="h-1 rounded-full bg-primary" />
+  );
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      {COLUMNS.map(({ status, title }) => {
+        const columnTasks = columns[status];
+        const limit = wipLimits[status] ?? null;
+        const isOverLimit = !!limit && columnTasks.length > limit;
+        const isAtLimit = !!limit && columnTasks.length === limit;
+
+        return (
+          <div
+            key={status}
+            className={`flex min-h-[300px] flex-col rounded-lg border bg-muted/30 ${
+              isOverLimit ? "border-red-300" : ""
+            }`}
+            onDragOver={(e) => handleColumnDragOver(e, status)}
+            onDrop={(e) => handleDrop(e, status)}
+          >
+            <div className="flex items-center justify-between border-b p-3">
+              <div className="flex items-center space-x-2">
+                <h2 className="font-semibold">{title}</h2>
+                <Badge
+                  variant="outline"
+                  className={
+                    isOverLimit
+                      ? "border-red-200 bg-red-50 text-red-700"
+                      : isAtLimit
+                      ? "border-amber-200 bg-amber-50 text-amber-700"
+                      : ""
+                  }
+                  title={limit ? `WIP limit: ${limit}` : undefined}
+                >
+                  {columnTasks.length}
+                  {limit ? ` / ${limit}` : ""}
+                </Badge>
+                {isOverLimit && (
+                  <span
+                    className="flex items-center text-xs text-red-600"
+                    title="This column has more tasks than its WIP limit"
+                  >
+                    <AlertTriangle className="mr-1 h-3 w-3" />
+                    Over limit
+                  </span>
+                )}
+              </div>
+              {onWipLimitChange && (
+                <WipLimitEditor
+                  limit={limit}
+                  onSave={(nextLimit) => onWipLimitChange(status, nextLimit)}
+                />
+              )}
+            </div>
+
+            <div className="flex-1 space-y-2 p-3">
+              {columnTasks.map((task) => (
+                <div key={task.id} className="space-y-2">
+                  {dropTarget?.status === status &&
+                    dropTarget.overId === task.id &&
+                    dropTarget.placement === "before" &&
+                    renderDropIndicator()}
+                  <div
+                    draggable={!readOnly}
+                    onDragStart={(e) => handleDragStart(e, task.id)}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={(e) => handleCardDragOver(e, status, task.id)}
+                    className={`rounded-md border bg-card p-3 shadow-sm ${
+                      readOnly ? "" : "cursor-grab active:cursor-grabbing"
+                    } ${draggedId === task.id ? "opacity-50" : ""}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-medium">{task.title}</p>
+                      {onEditTask && !readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="-mr-1 -mt-1 h-6 w-6 shrink-0"
+                          onClick={() => onEditTask(task)}
+                          title="Edit task"
+                        >
+                          <Pencil className="h-3 w-3 text-gray-500" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                      <span
+                        className={`inline-flex items-center rounded-full px-2 py-0.5 font-medium ${
+                          PRIORITY_STYLES[task.priority]
+                        }`}
+                      >
+                        {task.priority.charAt(0) +
+                          task.priority.slice(1).toLowerCase()}
+                      </span>
+                      {renderDueDate(task.dueDate)}
+                      {task.subtaskProgress &&
+                        task.subtaskProgress.total > 0 && (
+                          <span
+                            className="flex items-center text-gray-500"
+                            title="Completed subtasks"
+                          >
+                            <ListChecks className="mr-1 h-3 w-3" />
+                            {task.subtaskProgress.completed}/
+                            {task.subtaskProgress.total}
+                          </span>
+                        )}
+                      {task.recurrence && (
+                        <span
+                          className="flex items-center text-gray-500"
+                          title={`Repeats ${describeRecurrence(
+                            task.recurrence
+                          )}`}
+                        >
+                          <Repeat className="h-3 w-3" />
+                        </span>
+                      )}
+                      {task.isBlocked && (
+                        <span
+                          className="flex items-center text-red-600"
+                          title="Blocked by unfinished tasks"
+                        >
+                          <Lock className="mr-1 h-3 w-3" />
+                          Blocked
+                        </span>
+                      )}
+                    </div>
+                    {task.assignees && task.assignees.length > 0 && (
+                      <div className="mt-2">
+                        <TaskAssignees
+                          taskId={task.id}
+                          assignees={task.assignees}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {dropTarget?.status === status &&
+                    dropTarget.overId === task.id &&
+                    dropTarget.placement === "after" &&
+                    renderDropIndicator()}
+                </div>
+              ))}
+
+              {dropTarget?.status === status &&
+                dropTarget.overId === null &&
+                renderDropIndicator()}
+
+              {columnTasks.length === 0 && !dropTarget && (
+                <p className="py-8 text-center text-sm text-gray-500">
+                  No tasks
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
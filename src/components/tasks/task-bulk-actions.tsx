@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  BulkTaskChanges,
+  BulkTaskResult,
+  BulkTaskSelection,
+  TaskPriority,
+  TaskStatus,
+} from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toastWithUndo } from "@/utils/undo-toast";
+
+const STATUS_OPTIONS = [
+  { value: TaskStatus.TODO, label: "To Do" },
+  { value: TaskStatus.IN_PROGRESS, label: "In Progress" },
+  { value: TaskStatus.COMPLETED, label: "Completed" },
+];
+
+const PRIORITY_OPTIONS = [
+  { value: TaskPriority.LOW, label: "Low" },
+  { value: TaskPriority.MEDIUM, label: "Medium" },
+  { value: TaskPriority.HIGH, label: "High" },
+];
+
+// Offered due date shifts, in days
+const SHIFT_OPTIONS = [
+  { days: -7, label: "1 week earlier" },
+  { days: -1, label: "1 day earlier" },
+  { days: 1, label: "1 day later" },
+  { days: 7, label: "1 week later" },
+  { days: 30, label: "30 days later" },
+];
+
+interface TaskBulkActionsProps {
+  selection: BulkTaskSelection;
+  selectedCount: number;
+  // Tasks matching the current filter across all pages
+  totalMatching: number;
+  // Whether every task on the current page is selected
+  pageSelected: boolean;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+  onTasksChanged: () => void;
+  onUndone: () => void;
+}
+
+// Summarise the tasks a bulk action had to skip and why
+function describeSkipped(results: BulkTaskResult[]) {
+  const skipped = results.filter((result) => !result.success);
+  if (skipped.length === 0) return null;
+
+  const reasons = Array.from(new Set(skipped.map((result) => result.error)));
+  return `${skipped.length} task${
+    skipped.length > 1 ? "s" : ""
+  } skipped: ${reasons.join(", ")}`;
+}
+
+export function TaskBulkActions({
+  selection,
+  selectedCount,
+  totalMatching,
+  pageSelected,
+  onSelectAllMatching,
+  onClearSelection,
+  onTasksChanged,
+  onUndone,
+}: TaskBulkActionsProps) {
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>(
+    []
+  );
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Fetch categories
+  useEffect(() => {
+    async function fetchCategories() {
+      try {
+        const data = await apiClient.getCategories();
+        setCategories(data || []);
+      } catch (error) {
+        console.error("Error fetching categories:", error);
+      }
+    }
+
+    fetchCategories();
+  }, []);
+
+  const applyChanges = async (changes: BulkTaskChanges) => {
+    try {
+      setIsApplying(true);
+
+      const { results, updated, undoToken } = await apiClient.bulkUpdateTasks(
+        selection,
+        changes
+      );
+
+      if (undoToken) {
+        toastWithUndo(
+          `${updated} task${updated > 1 ? "s" : ""} updated`,
+          [undoToken],
+          onUndone
+        );
+      }
+
+      const skipped = describeSkipped(results);
+      if (skipped) {
+        toast.warning(skipped);
+      }
+
+      onClearSelection();
+      onTasksChanged();
+    } catch (error) {
+      console.error("Error updating tasks:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update tasks"
+      );
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const deleteSelected = async () => {
+    try {
+      setIsApplying(true);
+
+      const { results, deleted, undoToken } =
+        await apiClient.bulkDeleteTasks(selection);
+
+      if (undoToken) {
+        toastWithUndo(
+          `${deleted} task${deleted > 1 ? "s" : ""} moved to trash`,
+          [undoToken],
+          onUndone
+        );
+      }
+
+      const skipped = describeSkipped(results);
+      if (skipped) {
+        toast.warning(skipped);
+      }
+
+      onClearSelection();
+      onTasksChanged();
+    } catch (error) {
+      console.error("Error deleting tasks:", error);
+      toast.error("Failed to delete tasks");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const allMatchingSelected = "filter" in selection;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-gray-50 p-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">
+          {selectedCount} task{selectedCount > 1 ? "s" : ""} selected
+        </span>
+        {pageSelected &&
+          !allMatchingSelected &&
+          totalMatching > selectedCount && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={onSelectAllMatching}
+            >
+              Select all {totalMatching} matching tasks
+            </Button>
+          )}
+        {allMatchingSelected && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={onClearSelection}
+          >
+            Clear selection
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isApplying}>
+              Set status
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {STATUS_OPTIONS.map((option) => (
+              <DropdownMenuItem
+                key={option.value}
+                onSelect={() => applyChanges({ status: option.value })}
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isApplying}>
+              Set priority
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {PRIORITY_OPTIONS.map((option) => (
+              <DropdownMenuItem
+                key={option.value}
+                onSelect={() => applyChanges({ priority: option.value })}
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isApplying}>
+              Move to category
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {categories.map((category) => (
+              <DropdownMenuItem
+                key={category.id}
+                onSelect={() => applyChanges({ categoryId: category.id })}
+              >
+                {category.name}
+              </DropdownMenuItem>
+            ))}
+            {categories.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuItem
+              onSelect={() => applyChanges({ categoryId: null })}
+            >
+              No category
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isApplying}>
+              Shift due date
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {SHIFT_OPTIONS.map((option) => (
+              <DropdownMenuItem
+                key={option.days}
+                onSelect={() => applyChanges({ shiftDueDateDays: option.days })}
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={deleteSelected}
+          disabled={isApplying}
+        >
+          Delete Selected
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { format, isSameDay, isSameMonth, isToday } from "date-fns";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+
+import { TaskPriority, TaskStatus } from "@/types";
+import { isOverdue } from "@/lib/utils/due-dates";
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate?: string | Date;
+}
+
+interface TaskCalendarProps<T extends CalendarTask> {
+  days: Date[];
+  // Month being displayed; days outside it are dimmed
+  month?: Date;
+  tasks: T[];
+  readOnly?: boolean;
+  onDayClick?: (day: Date) => void;
+  onTaskClick?: (task: T) => void;
+  onTaskMove?: (task: T, day: Date) => void;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  [TaskPriority.LOW]: "border-l-gray-400",
+  [TaskPriority.MEDIUM]: "border-l-blue-500",
+  [TaskPriority.HIGH]: "border-l-red-500",
+};
+
+export function TaskCalendar<T extends CalendarTask>({
+  days,
+  month,
+  tasks,
+  readOnly,
+  onDayClick,
+  onTaskClick,
+  onTaskMove,
+}: TaskCalendarProps<T>) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<Date | null>(null);
+  const now = new Date();
+
+  const getTasksForDay = (day: Date) =>
+    tasks.filter(
+      (task) => task.dueDate && isSameDay(new Date(task.dueDate), day)
+    );
+
+  const handleDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+
+    const task = tasks.find((item) => item.id === draggedId);
+    setDraggedId(null);
+    setDropDay(null);
+
+    if (!task || !onTaskMove) return;
+    if (task.dueDate && isSameDay(new Date(task.dueDate), day)) return;
+
+    onTaskMove(task, day);
+  };
+
+  return (
+    <div className="overflow-hidden rounded-lg border">
+      <div className="grid grid-cols-7 border-b bg-muted/50">
+        {WEEKDAY_LABELS.map((label) => (
+          <div
+            key={label}
+            className="p-2 text-center text-xs font-medium text-gray-500"
+          >
+            {label}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map((day) => {
+          const dayTasks = getTasksForDay(day);
+          const isDropTarget = !!dropDay && isSameDay(dropDay, day);
+
+          return (
+            <div
+              key={day.toISOString()}
+              className={`min-h-[110px] cursor-pointer border-b border-r p-1 transition-colors hover:bg-accent/40 ${
+                month && !isSameMonth(day, month)
+                  ? "bg-muted/30 text-gray-400"
+                  : ""
+              } ${isDropTarget ? "bg-primary/10" : ""}`}
+              onClick={() => onDayClick && !readOnly && onDayClick(day)}
+              onDragOver={(e) => {
+                if (!draggedId) return;
+                e.preventDefault();
+                if (!isDropTarget) setDropDay(day);
+              }}
+              onDrop={(e) => handleDrop(e, day)}
+            >
+              <div className="mb-1 flex justify-end">
+                <span
+                  className={`flex h-6 w-6 items-center justify-center rounded-full text-xs ${
+                    isToday(day) ? "bg-primary font-semibold text-white" : ""
+                  }`}
+                >
+                  {format(day, "d")}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {dayTasks.map((task) => {
+                  const overdue = isOverdue(task, now);
+
+                  return (
+                    <div
+                      key={task.id}
+                      draggable={!readOnly}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        e.dataTransfer.setData("text/plain", task.id);
+                        setDraggedId(task.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropDay(null);
+                      }}
+                      onClick={(e) => {
+                        // Keep the click from opening the create dialog
+                        e.stopPropagation();
+                        if (onTaskClick) onTaskClick(task);
+                      }}
+                      className={`flex items-center truncate rounded border border-l-4 bg-card px-1.5 py-0.5 text-xs ${
+                        PRIORITY_STYLES[task.priority]
+                      } ${
+                        overdue ? "border-red-200 bg-red-50 text-red-700" : ""
+                      } ${
+                        task.status === TaskStatus.COMPLETED
+                          ? "text-gray-400 line-through"
+                          : ""
+                      } ${draggedId === task.id ? "opacity-50" : ""}`}
+                      title={overdue ? `${task.title} (overdue)` : task.title}
+                    >
+                      {overdue && (
+                        <AlertTriangle className="mr-1 h-3 w-3 shrink-0" />
+                      )}
+                      {task.status === TaskStatus.COMPLETED && (
+                        <CheckCircle className="mr-1 h-3 w-3 shrink-0 text-green-500" />
+                      )}
+                      <span className="truncate">{task.title}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,540 @@
+"use client";
+
+import {
+  ChangeEvent,
+  KeyboardEvent,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useSession } from "next-auth/react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { TaskComment, WorkspaceRole } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { Mentionable, matchMentions } from "@/lib/utils/mentions";
+import { MAX_COMMENT_LENGTH } from "@/lib/validations/comment";
+import { getInitials } from "@/lib/utils/initials";
+
+interface CommentMember extends Mentionable {
+  image?: string;
+}
+
+interface TaskCommentsProps {
+  taskId: string;
+  // Called after a comment is added or deleted, e.g. to refresh counts
+  onChange?: () => void;
+}
+
+// Most members suggested while typing a mention
+const MAX_SUGGESTIONS = 5;
+
+// The mention being typed just before the caret, e.g. "@ja"
+function getMentionQuery(text: string, caret: number) {
+  const match = /(?:^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  return match ? { query: match[1], start: caret - match[1].length - 1 } : null;
+}
+
+// Show the body of a comment with the members it mentions highlighted
+function renderBody(comment: TaskComment, members: CommentMember[]) {
+  const mentionedIds = new Set(comment.mentions.map((user) => user.id));
+  const nodes: ReactNode[] = [];
+  let index = 0;
+
+  for (const { start, end } of matchMentions(
+    comment.body,
+    members.filter((member) => mentionedIds.has(member.userId))
+  )) {
+    nodes.push(comment.body.slice(index, start));
+    nodes.push(
+      <span key={start} className="rounded bg-primary/10 px-0.5 text-primary">
+        {comment.body.slice(start, end)}
+      </span>
+    );
+    index = end;
+  }
+
+  nodes.push(comment.body.slice(index));
+
+  return nodes;
+}
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  members: CommentMember[];
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// A textarea suggesting workspace members after an @. Ctrl/Cmd+Enter submits.
+function MentionTextarea({
+  value,
+  onChange,
+  onSubmit,
+  members,
+  placeholder,
+  autoFocus,
+}: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{
+    query: string;
+    start: number;
+  } | null>(null);
+
+  const suggestions = mention
+    ? members
+        .filter(
+          (member) =>
+            member.name.toLowerCase().startsWith(mention.query.toLowerCase()) ||
+            member.email.toLowerCase().startsWith(mention.query.toLowerCase())
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const handleChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(event.target.value);
+    setMention(
+      getMentionQuery(event.target.value, event.target.selectionStart)
+    );
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      onSubmit();
+    } else if (event.key === "Escape" && mention) {
+      event.stopPropagation();
+      setMention(null);
+    }
+  };
+
+  const insertMention = (member: CommentMember) => {
+    if (!mention) return;
+
+    const end = mention.start + mention.query.length + 1;
+    const inserted = `@${member.name} `;
+    onChange(value.slice(0, mention.start) + inserted + value.slice(end));
+    setMention(null);
+
+    // Put the caret after the inserted mention
+    const caret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={autoFocus}
+        rows={2}
+        className="max-h-48"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-64 rounded-md border bg-popover p-1 text-sm shadow-md">
+          {suggestions.map((member) => (
+            <li key={member.userId}>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded px-2 py-1 text-left hover:bg-accent"
+                // Keep the focus in the textarea
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => insertMention(member)}
+              >
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={member.image} alt={member.name} />
+                  <AvatarFallback className="text-[10px]">
+                    {getInitials(member.name)}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="truncate">{member.name}</span>
+                <span className="ml-auto truncate text-xs text-gray-500">
+                  {member.email}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Comment thread of a task. Comments can be replied to one level deep and
+ * mention workspace members with @.
+ */
+export function TaskComments({ taskId, onChange }: TaskCommentsProps) {
+  const { data: session } = useSession();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [members, setMembers] = useState<CommentMember[]>([]);
+  const [role, setRole] = useState<WorkspaceRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [commentToDelete, setCommentToDelete] = useState<TaskComment | null>(
+    null
+  );
+
+  const userId = session?.user?.id;
+  const canComment =
+    role === WorkspaceRole.OWNER || role === WorkspaceRole.EDITOR;
+
+  const fetchComments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [commentList, workspace] = await Promise.all([
+        apiClient.getTaskComments(taskId),
+        apiClient.getCurrentWorkspace(),
+      ]);
+      setComments(commentList);
+      setMembers(workspace.members);
+      setRole(workspace.role);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      toast.error("Failed to load comments");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const postComment = async (body: string, parentId: string | null) => {
+    if (!body.trim()) return false;
+
+    try {
+      setIsSaving(true);
+      const comment = await apiClient.createComment(taskId, {
+        body,
+        parentId,
+      });
+      setComments((prev) => [...prev, comment]);
+      onChange?.();
+      return true;
+    } catch (error) {
+      console.error("Error creating comment:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to post comment"
+      );
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (await postComment(draft, null)) setDraft("");
+  };
+
+  const handleReply = async () => {
+    if (await postComment(replyDraft, replyTo)) {
+      setReplyTo(null);
+      setReplyDraft("");
+    }
+  };
+
+  const handleEdit = async () => {
+    if (!editingId || !editDraft.trim()) return;
+
+    try {
+      setIsSaving(true);
+      const updated = await apiClient.updateComment(editingId, {
+        body: editDraft,
+      });
+      setComments((prev) =>
+        prev.map((comment) => (comment.id === updated.id ? updated : comment))
+      );
+      setEditingId(null);
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update comment"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!commentToDelete) return;
+
+    try {
+      await apiClient.deleteComment(commentToDelete.id);
+      setComments((prev) =>
+        prev.filter(
+          (comment) =>
+            comment.id !== commentToDelete.id &&
+            comment.parentId !== commentToDelete.id
+        )
+      );
+      toast.success("Comment deleted");
+      onChange?.();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete comment"
+      );
+    } finally {
+      setCommentToDelete(null);
+    }
+  };
+
+  const startEditing = (comment: TaskComment) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+  };
+
+  const startReply = (comment: TaskComment) => {
+    setReplyTo(comment.parentId || comment.id);
+    setReplyDraft(
+      comment.author && comment.author.id !== userId
+        ? `@${comment.author.name} `
+        : ""
+    );
+  };
+
+  const renderComment = (comment: TaskComment) => {
+    const isAuthor = !!userId && comment.author?.id === userId;
+
+    return (
+      <div key={comment.id} className="flex gap-3">
+        <Avatar className="h-7 w-7 shrink-0">
+          <AvatarImage
+            src={comment.author?.image}
+            alt={comment.author?.name || "Deleted user"}
+          />
+          <AvatarFallback className="text-xs">
+            {getInitials(comment.author?.name)}
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-baseline gap-x-2 text-xs">
+            <span className="text-sm font-medium">
+              {comment.author?.name || "Deleted user"}
+            </span>
+            <span
+              className="text-gray-500"
+              title={new Date(comment.createdAt).toLocaleString()}
+            >
+              {formatDistanceToNow(new Date(comment.createdAt), {
+                addSuffix: true,
+              })}
+            </span>
+            {comment.editedAt && (
+              <span
+                className="text-gray-500"
+                title={`Edited ${new Date(comment.editedAt).toLocaleString()}`}
+              >
+                (edited)
+              </span>
+            )}
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="space-y-2">
+              <MentionTextarea
+                value={editDraft}
+                onChange={setEditDraft}
+                onSubmit={handleEdit}
+                members={members}
+                autoFocus
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={handleEdit}
+                  disabled={isSaving || !editDraft.trim()}
+                >
+                  Save
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditingId(null)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap break-words text-sm">
+              {renderBody(comment, members)}
+            </p>
+          )}
+
+          {editingId !== comment.id && (
+            <div className="flex gap-3 text-xs text-gray-500">
+              {canComment && (
+                <button
+                  type="button"
+                  className="hover:text-foreground"
+                  onClick={() => startReply(comment)}
+                >
+                  Reply
+                </button>
+              )}
+              {isAuthor && canComment && (
+                <button
+                  type="button"
+                  className="hover:text-foreground"
+                  onClick={() => startEditing(comment)}
+                >
+                  Edit
+                </button>
+              )}
+              {((isAuthor && canComment) || role === WorkspaceRole.OWNER) && (
+                <button
+                  type="button"
+                  className="hover:text-red-600"
+                  onClick={() => setCommentToDelete(comment)}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  const threads = comments.filter((comment) => !comment.parentId);
+
+  return (
+    <div className="space-y-4 py-2">
+      {threads.length === 0 ? (
+        <p className="text-center text-sm text-gray-500">
+          No comments yet.
+          {canComment && " Start the discussion below."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {threads.map((thread) => (
+            <div key={thread.id} className="space-y-3">
+              {renderComment(thread)}
+              <div className="ml-10 space-y-3 border-l pl-3">
+                {comments
+                  .filter((comment) => comment.parentId === thread.id)
+                  .map(renderComment)}
+                {replyTo === thread.id && (
+                  <div className="space-y-2">
+                    <MentionTextarea
+                      value={replyDraft}
+                      onChange={setReplyDraft}
+                      onSubmit={handleReply}
+                      members={members}
+                      placeholder="Write a reply"
+                      autoFocus
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={handleReply}
+                        disabled={isSaving || !replyDraft.trim()}
+                      >
+                        Reply
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setReplyTo(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canComment && (
+        <div className="space-y-2 border-t pt-4">
+          <MentionTextarea
+            value={draft}
+            onChange={setDraft}
+            onSubmit={handlePost}
+            members={members}
+            placeholder="Write a comment. Type @ to mention someone."
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">Ctrl+Enter to post</span>
+            <Button
+              size="sm"
+              onClick={handlePost}
+              disabled={isSaving || !draft.trim()}
+            >
+              {isSaving ? "Posting..." : "Comment"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Delete comment dialog */}
+      <Dialog
+        open={!!commentToDelete}
+        onOpenChange={(open) => !open && setCommentToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Comment</DialogTitle>
+            <DialogDescription>
+              {commentToDelete?.parentId
+                ? "This reply will be deleted. This cannot be undone."
+                : "This comment and its replies will be deleted. This cannot be undone."}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCommentToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { CheckCircle, Circle, Link2, Lock, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TaskReference, TaskStatus } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { toast } from "sonner";
+
+interface TaskDependenciesProps {
+  taskId: string;
+  onChange?: () => void;
+}
+
+export function TaskDependencies({ taskId, onChange }: TaskDependenciesProps) {
+  const [blockedBy, setBlockedBy] = useState<TaskReference[]>([]);
+  const [blocking, setBlocking] = useState<TaskReference[]>([]);
+  const [candidates, setCandidates] = useState<TaskReference[]>([]);
+  const [selectedBlocker, setSelectedBlocker] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDependencies = useCallback(async () => {
+    try {
+      setIsLoading(true);
+
+      const [dependencies, tasks] = await Promise.all([
+        apiClient.getTaskDependencies(taskId),
+        apiClient.getTasks(new URLSearchParams({ limit: "100" })),
+      ]);
+
+      setBlockedBy(dependencies.blockedBy);
+      setBlocking(dependencies.blocking);
+      setCandidates(
+        tasks.tasks.map((task) => ({
+          id: task.id,
+          title: task.title,
+          status: task.status,
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching dependencies:", error);
+      toast.error("Failed to load dependencies");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  const addDependency = async () => {
+    if (!selectedBlocker) return;
+
+    try {
+      await apiClient.addTaskDependency(taskId, selectedBlocker);
+      setSelectedBlocker("");
+      await fetchDependencies();
+
+      if (onChange) {
+        onChange();
+      }
+    } catch (error) {
+      console.error("Error adding dependency:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add dependency"
+      );
+    }
+  };
+
+  const removeDependency = async (blockerId: string) => {
+    try {
+      await apiClient.removeTaskDependency(taskId, blockerId);
+      setBlockedBy((prev) => prev.filter((task) => task.id !== blockerId));
+
+      if (onChange) {
+        onChange();
+      }
+    } catch (error) {
+      console.error("Error removing dependency:", error);
+      toast.error("Failed to remove dependency");
+    }
+  };
+
+  const renderStatusIcon = (status: TaskStatus) =>
+    status === TaskStatus.COMPLETED ? (
+      <CheckCircle className="mr-2 h-4 w-4 shrink-0 text-green-500" />
+    ) : (
+      <Circle className="mr-2 h-4 w-4 shrink-0 text-gray-500" />
+    );
+
+  const availableCandidates = candidates.filter(
+    (candidate) =>
+      candidate.id !== taskId &&
+      !blockedBy.some((blocker) => blocker.id === candidate.id)
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="mb-2 flex items-center text-sm font-medium">
+          <Lock className="mr-2 h-4 w-4 text-gray-500" />
+          Blocked by
+        </h3>
+        {blockedBy.length === 0 ? (
+          <p className="text-sm text-gray-500">No blocking tasks</p>
+        ) : (
+          <ul className="space-y-1">
+            {blockedBy.map((blocker) => (
+              <li key={blocker.id} className="flex items-center text-sm">
+                {renderStatusIcon(blocker.status)}
+                <span className="flex-1 truncate">{blocker.title}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => removeDependency(blocker.id)}
+                  title="Remove dependency"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-2 flex items-center gap-2">
+          <Select value={selectedBlocker} onValueChange={setSelectedBlocker}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Add a blocking task" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableCandidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={addDependency}
+            disabled={!selectedBlocker}
+          >
+            <Link2 className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {blocking.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-sm font-medium">Blocks</h3>
+          <ul className="space-y-1">
+            {blocking.map((dependent) => (
+              <li key={dependent.id} className="flex items-center text-sm">
+                {renderStatusIcon(dependent.status)}
+                <span className="truncate">{dependent.title}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { ReactNode, useMemo } from "react";
+
+import {
+  MarkdownBlock,
+  MarkdownInline,
+  parseMarkdown,
+} from "@/lib/utils/markdown";
+import { cn } from "@/lib/utils";
+
+interface TaskDescriptionProps {
+  markdown: string;
+  // Called with the source line of a task list box when it is clicked;
+  // omit to render the boxes read-only
+  onToggleCheckbox?: (line: number) => void;
+  className?: string;
+}
+
+const HEADING_CLASSES = [
+  "text-lg font-semibold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-medium",
+  "text-sm font-medium",
+  "text-sm font-medium text-gray-500",
+];
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "break":
+        return <br key={index} />;
+      case "code":
+        return (
+          <code
+            key={index}
+            className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]"
+          >
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "delete":
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(
+  blocks: MarkdownBlock[],
+  onToggleCheckbox?: (line: number) => void
+): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case "heading": {
+        const Heading = `h${block.level}` as "h1";
+        return (
+          <Heading key={index} className={HEADING_CLASSES[block.level - 1]}>
+            {renderInline(block.children)}
+          </Heading>
+        );
+      }
+      case "paragraph":
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case "code":
+        return (
+          <pre
+            key={index}
+            className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs"
+          >
+            <code data-language={block.language || undefined}>
+              {block.text}
+            </code>
+          </pre>
+        );
+      case "blockquote":
+        return (
+          <blockquote
+            key={index}
+            className="space-y-2 border-l-2 pl-3 text-gray-500"
+          >
+            {renderBlocks(block.children, onToggleCheckbox)}
+          </blockquote>
+        );
+      case "rule":
+        return <hr key={index} />;
+      case "list": {
+        const List = block.ordered ? "ol" : "ul";
+        const isTaskList = block.items.some((item) => item.checked !== null);
+
+        return (
+          <List
+            key={index}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={cn(
+              "space-y-1 pl-5",
+              block.ordered ? "list-decimal" : "list-disc",
+              isTaskList && "list-none pl-1"
+            )}
+          >
+            {block.items.map((item) => {
+              // A single paragraph is shown inline, as in a tight list
+              const content =
+                item.children.length === 1 &&
+                item.children[0].type === "paragraph"
+                  ? renderInline(item.children[0].children)
+                  : renderBlocks(item.children, onToggleCheckbox);
+
+              return (
+                <li key={item.line} className="space-y-1">
+                  {item.checked === null ? (
+                    content
+                  ) : (
+                    <div className="flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        className="mt-1 h-3.5 w-3.5 shrink-0 accent-primary"
+                        checked={item.checked}
+                        disabled={!onToggleCheckbox}
+                        onChange={() => onToggleCheckbox?.(item.line)}
+                      />
+                      <div
+                        className={cn(
+                          "min-w-0 flex-1 space-y-1",
+                          item.checked && "text-gray-500 line-through"
+                        )}
+                      >
+                        {content}
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </List>
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Renders the Markdown description of a task. The Markdown is parsed into
+ * React elements, so raw HTML in it is shown as text, and only web, mail
+ * and in-app links are kept.
+ */
+export function TaskDescription({
+  markdown,
+  onToggleCheckbox,
+  className,
+}: TaskDescriptionProps) {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+
+  return (
+    <div className={cn("space-y-2 text-sm break-words", className)}>
+      {renderBlocks(blocks, onToggleCheckbox)}
+    </div>
+  );
+}
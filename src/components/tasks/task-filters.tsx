@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { Filter } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { AssignableMember } from "@/components/tasks/task-assignees";
+import { TaskPriority, TaskStatus } from "@/types";
+
+interface TaskFiltersProps {
+  updateFilters: (params: Record<string, string | null>) => void;
+  members?: AssignableMember[];
+  showStatus?: boolean;
+  showAssignee?: boolean;
+}
+
+/**
+ * Search and filter controls backed by the URL query parameters
+ * that the useTasks hook reads
+ */
+export function TaskFilters({
+  updateFilters,
+  members = [],
+  showStatus = true,
+  showAssignee = true,
+}: TaskFiltersProps) {
+  const searchParams = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState(
+    searchParams.get("search") || ""
+  );
+
+  // Get filter values from URL
+  const status = searchParams.get("status") || "all";
+  const priority = searchParams.get("priority") || "all";
+  const assignee = searchParams.get("assignee") || "all";
+
+  // Handle search submission
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchTerm || null });
+  };
+
+  // Handle filter changes
+  const handleStatusChange = (value: string) => {
+    updateFilters({ status: value === "all" ? null : value });
+  };
+
+  const handlePriorityChange = (value: string) => {
+    updateFilters({ priority: value === "all" ? null : value });
+  };
+
+  const handleAssigneeChange = (value: string) => {
+    updateFilters({ assignee: value === "all" ? null : value });
+  };
+
+  return (
+    <div className="flex flex-col space-y-4 md:flex-row md:items-end md:space-x-4 md:space-y-0">
+      {/* Search */}
+      <div className="flex-1">
+        <form onSubmit={handleSearch} className="flex space-x-2">
+          <Input
+            placeholder="Search tasks..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-1"
+          />
+          <Button type="submit" variant="secondary">
+            <Filter className="mr-2 h-4 w-4" />
+            Filter
+          </Button>
+        </form>
+      </div>
+
+      {/* Status filter */}
+      {showStatus && (
+        <div className="w-full md:w-48">
+          <Select value={status} onValueChange={handleStatusChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Status: All" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value={TaskStatus.TODO}>To Do</SelectItem>
+              <SelectItem value={TaskStatus.IN_PROGRESS}>
+                In Progress
+              </SelectItem>
+              <SelectItem value={TaskStatus.COMPLETED}>Completed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Priority filter */}
+      <div className="w-full md:w-48">
+        <Select value={priority} onValueChange={handlePriorityChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Priority: All" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priorities</SelectItem>
+            <SelectItem value={TaskPriority.LOW}>Low</SelectItem>
+            <SelectItem value={TaskPriority.MEDIUM}>Medium</SelectItem>
+            <SelectItem value={TaskPriority.HIGH}>High</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Assignee filter */}
+      {showAssignee && (
+        <div className="w-full md:w-48">
+          <Select value={assignee} onValueChange={handleAssigneeChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Assignee: All" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Assignees</SelectItem>
+              <SelectItem value="me">Assigned to me</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.userId} value={member.userId}>
+                  {member.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
   SelectContent,
@@ -22,7 +24,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { TaskPriority, TaskStatus } from "@/types";
+import {
+  RecurrenceFrequency,
+  TaskPriority,
+  TaskRecurrence,
+  TaskStatus,
+} from "@/types";
 import { useFormValidation } from "@/hooks/use-form-validation";
 import {
   Popover,
@@ -32,6 +39,14 @@ import {
 import { Calendar } from "@/components/ui/calendar";
 import { toast } from "sonner";
 import { apiClient } from "@/utils/api-client";
+import { RecurrencePicker } from "@/components/tasks/recurrence-picker";
+import { TaskDescription } from "@/components/tasks/task-description";
+import { DurationInput } from "@/components/tasks/duration-input";
+import {
+  MAX_DESCRIPTION_LENGTH,
+  MAX_ESTIMATE_MINUTES,
+} from "@/lib/validations/task";
+import { toggleTaskListItem } from "@/lib/utils/markdown";
 
 // Task validation schema
 const taskSchema = z.object({
@@ -41,16 +56,69 @@ const taskSchema = z.object({
     .max(100, "Title cannot exceed 100 characters"),
   description: z
     .string()
-    .max(1000, "Description cannot exceed 1000 characters")
+    .max(
+      MAX_DESCRIPTION_LENGTH,
+      `Description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`
+    )
     .optional(),
   status: z.nativeEnum(TaskStatus),
   priority: z.nativeEnum(TaskPriority),
   dueDate: z.date().optional().nullable(),
   categoryId: z.string().optional().nullable(),
+  recurrence: z
+    .object({
+      frequency: z.nativeEnum(RecurrenceFrequency),
+      interval: z.number().int().min(1).max(365),
+      weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+      monthDay: z.number().int().min(1).max(31).optional().nullable(),
+      count: z.number().int().min(1).max(1000).optional().nullable(),
+      until: z.date().optional().nullable(),
+    })
+    .optional()
+    .nullable(),
+  estimateMinutes: z
+    .number({ invalid_type_error: "Enter a duration such as 1h 30m" })
+    .int()
+    .min(1, "Estimate must be at least a minute")
+    .max(MAX_ESTIMATE_MINUTES, "Estimate cannot exceed 1000 hours")
+    .optional()
+    .nullable(),
 });
 
 export type TaskFormValues = z.infer<typeof taskSchema>;
 
+// Map a task as returned by the API to the form's initial values
+export function toTaskFormValues(task: {
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate?: string | Date;
+  category?: { id: string; name: string } | null;
+  recurrence?: TaskRecurrence | null;
+  estimateMinutes?: number | null;
+}): Partial<TaskFormValues> {
+  return {
+    title: task.title,
+    description: task.description || "",
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate ? new Date(task.dueDate) : null,
+    categoryId: task.category?.id || null,
+    recurrence: task.recurrence
+      ? {
+          frequency: task.recurrence.frequency,
+          interval: task.recurrence.interval,
+          weekdays: task.recurrence.weekdays,
+          monthDay: task.recurrence.monthDay,
+          count: task.recurrence.count,
+          until: task.recurrence.until ? new Date(task.recurrence.until) : null,
+        }
+      : null,
+    estimateMinutes: task.estimateMinutes ?? null,
+  };
+}
+
 interface TaskFormProps {
   initialData?: Partial<TaskFormValues>;
   taskId?: string;
@@ -85,6 +153,8 @@ export function TaskForm({
         priority: TaskPriority.MEDIUM,
         dueDate: null,
         categoryId: null,
+        recurrence: null,
+        estimateMinutes: null,
         ...initialData,
       },
     });
@@ -109,8 +179,17 @@ export function TaskForm({
     try {
       if (isEditMode) {
         // Update existing task
-        await apiClient.updateTask(taskId, data);
+        const { task } = await apiClient.updateTask(taskId, data);
         toast.success("Task updated successfully");
+
+        if (task.nextOccurrence?.dueDate) {
+          toast.info(
+            `Next occurrence scheduled for ${format(
+              new Date(task.nextOccurrence.dueDate),
+              "MMM d, yyyy"
+            )}`
+          );
+        }
       } else {
         // Create new task
         await apiClient.createTask(data);
@@ -123,7 +202,11 @@ export function TaskForm({
     } catch (error) {
       console.error("Task save error:", error);
       toast.error(
-        isEditMode ? "Failed to update task" : "Failed to create task"
+        error instanceof Error && error.message.startsWith("Task is blocked")
+          ? error.message
+          : isEditMode
+          ? "Failed to update task"
+          : "Failed to create task"
       );
     }
   };
@@ -151,14 +234,46 @@ export function TaskForm({
           render={({ field }) => (
             <FormItem>
               <FormLabel>Description</FormLabel>
-              <FormControl>
-                <Input
-                  placeholder="Enter task description (optional)"
-                  {...field}
-                  value={field.value || ""}
-                />
-              </FormControl>
-              <FormMessage />
+              <Tabs defaultValue="write">
+                <TabsList>
+                  <TabsTrigger value="write">Write</TabsTrigger>
+                  <TabsTrigger value="preview">Preview</TabsTrigger>
+                </TabsList>
+                <TabsContent value="write">
+                  <FormControl>
+                    <Textarea
+                      placeholder="Enter task description (optional). Markdown is supported."
+                      className="max-h-64"
+                      rows={4}
+                      {...field}
+                      value={field.value || ""}
+                    />
+                  </FormControl>
+                </TabsContent>
+                <TabsContent value="preview">
+                  {field.value?.trim() ? (
+                    <TaskDescription
+                      markdown={field.value}
+                      onToggleCheckbox={(line) =>
+                        field.onChange(
+                          toggleTaskListItem(field.value || "", line)
+                        )
+                      }
+                      className="max-h-64 overflow-y-auto rounded-md border px-3 py-2"
+                    />
+                  ) : (
+                    <p className="rounded-md border px-3 py-2 text-sm text-gray-500">
+                      Nothing to preview
+                    </p>
+                  )}
+                </TabsContent>
+              </Tabs>
+              <div className="flex justify-between gap-2">
+                <FormMessage />
+                <span className="ml-auto text-xs text-gray-500">
+                  {(field.value || "").length}/{MAX_DESCRIPTION_LENGTH}
+                </span>
+              </div>
             </FormItem>
           )}
         />
@@ -290,6 +405,41 @@ export function TaskForm({
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="estimateMinutes"
+          render={({ field }) => (
+            <FormItem className="sm:w-1/2 sm:pr-2">
+              <FormLabel>Estimate</FormLabel>
+              <FormControl>
+                <DurationInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
+                  name={field.name}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="recurrence"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Repeat</FormLabel>
+              <RecurrencePicker
+                value={field.value}
+                onChange={field.onChange}
+                referenceDate={form.watch("dueDate")}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="flex justify-end space-x-2">
           {onCancel && (
             <Button type="button" variant="outline" onClick={onCancel}>
@@ -0,0 +1,539 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import { AlertCircle, FileUp } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TaskImportPreview, TaskImportRow, TaskStatus } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { parseCsv, unguardCsvCell } from "@/lib/utils/csv";
+import { MAX_IMPORT_ROWS } from "@/lib/validations/task";
+import {
+  IMPORT_ADAPTERS,
+  ImportAdapter,
+  convertImport,
+  detectImportAdapter,
+} from "@/lib/importers";
+
+type ImportField = keyof TaskImportRow;
+
+// Task fields a column can be mapped onto, with the headers that map onto
+// them automatically (compared lowercased, letters only)
+const IMPORT_FIELDS: {
+  field: ImportField;
+  label: string;
+  headers: string[];
+}[] = [
+  { field: "title", label: "Title", headers: ["title", "name", "task"] },
+  {
+    field: "description",
+    label: "Description",
+    headers: ["description", "notes", "details"],
+  },
+  { field: "status", label: "Status", headers: ["status", "state"] },
+  { field: "priority", label: "Priority", headers: ["priority"] },
+  {
+    field: "dueDate",
+    label: "Due Date",
+    headers: ["duedate", "due", "deadline"],
+  },
+  {
+    field: "category",
+    label: "Category",
+    headers: ["category", "project", "list"],
+  },
+];
+
+// Value of the column select when a field is not imported
+const SKIP_COLUMN = "skip";
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: "To Do",
+  [TaskStatus.IN_PROGRESS]: "In Progress",
+  [TaskStatus.COMPLETED]: "Completed",
+};
+
+const SOURCE_NAMES = IMPORT_ADAPTERS.map((adapter) => adapter.label).join(", ");
+
+type ColumnMapping = Record<ImportField, number | null>;
+
+interface TaskImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+// Map each field onto the first column whose header matches it
+function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((header) =>
+    header.toLowerCase().replace(/[^a-z]/g, "")
+  );
+
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ field, headers: candidates }) => {
+      const index = normalized.findIndex((header) =>
+        candidates.includes(header)
+      );
+      return [field, index === -1 ? null : index];
+    })
+  ) as ColumnMapping;
+}
+
+/**
+ * Wizard importing tasks from a CSV file: pick a file, map its columns onto
+ * task fields, check every row on the server, then import the valid ones.
+ * The JSON export of another tool is read by its adapter instead, and goes
+ * straight to the check.
+ */
+export function TaskImportDialog({
+  open,
+  onOpenChange,
+  onImported,
+}: TaskImportDialogProps) {
+  const [step, setStep] = useState<"upload" | "map" | "preview">("upload");
+  const [fileName, setFileName] = useState("");
+  const [cells, setCells] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>(guessMapping([]));
+  const [preview, setPreview] = useState<TaskImportPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  // Set when importing the export of another tool rather than a CSV file
+  const [adapter, setAdapter] = useState<ImportAdapter | null>(null);
+  const [adapterRows, setAdapterRows] = useState<TaskImportRow[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const headers = hasHeader ? cells[0] || [] : [];
+  const dataRows = hasHeader ? cells.slice(1) : cells;
+  const columnCount = Math.max(0, ...cells.map((row) => row.length));
+  // Line of the file a data row comes from, for error messages
+  const lineOf = (index: number) => index + (hasHeader ? 2 : 1);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setCells([]);
+    setHasHeader(true);
+    setMapping(guessMapping([]));
+    setPreview(null);
+    setAdapter(null);
+    setAdapterRows([]);
+    setWarnings([]);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    reset();
+
+    if (file.name.toLowerCase().endsWith(".json")) {
+      await handleExportFile(file);
+      return;
+    }
+
+    try {
+      const parsed = parseCsv(await file.text()).map((row) =>
+        row.map((cell) => unguardCsvCell(cell.trim()))
+      );
+
+      if (parsed.length < 2) {
+        toast.error("The file has no rows to import");
+        return;
+      }
+
+      setFileName(file.name);
+      setCells(parsed);
+      setHasHeader(true);
+      setMapping(guessMapping(parsed[0]));
+      setStep("map");
+    } catch (error) {
+      console.error("Error reading CSV file:", error);
+      toast.error("Failed to read the file");
+    }
+  };
+
+  // Read the JSON export of another tool with the adapter that recognizes it
+  const handleExportFile = async (file: File) => {
+    let data: unknown;
+
+    try {
+      data = JSON.parse(await file.text());
+    } catch (error) {
+      console.error("Error reading JSON file:", error);
+      toast.error("Failed to read the file");
+      return;
+    }
+
+    const detected = detectImportAdapter(data);
+    if (!detected) {
+      toast.error(`The file is not an export of ${SOURCE_NAMES}`);
+      return;
+    }
+
+    try {
+      const conversion = convertImport(detected, data);
+
+      if (conversion.rows.length === 0) {
+        toast.error("The file has no tasks to import");
+        return;
+      }
+
+      if (conversion.rows.length > MAX_IMPORT_ROWS) {
+        toast.error(
+          `The file has ${conversion.rows.length} tasks. At most ${MAX_IMPORT_ROWS} can be imported at once.`
+        );
+        return;
+      }
+
+      setFileName(file.name);
+      setAdapter(detected);
+      setAdapterRows(conversion.rows);
+      setWarnings(conversion.warnings);
+      await checkRows(conversion.rows);
+    } catch (error) {
+      console.error("Error converting export:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read the file"
+      );
+    }
+  };
+
+  const toggleHeader = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(guessMapping(checked ? cells[0] : []));
+  };
+
+  // The data rows as task fields, following the column mapping
+  const getMappedRows = (): TaskImportRow[] =>
+    dataRows.map((row) =>
+      Object.fromEntries(
+        IMPORT_FIELDS.flatMap(({ field }) => {
+          const column = mapping[field];
+          return column === null ? [] : [[field, row[column] ?? ""]];
+        })
+      )
+    );
+
+  const getRows = () => (adapter ? adapterRows : getMappedRows());
+
+  const previewRows = preview ? getRows() : [];
+
+  // Rows that will be imported, by status, to summarize an export
+  const statusCounts = Object.values(TaskStatus)
+    .map((status) => ({
+      status,
+      count: adapterRows.filter((row) => row.status === status).length,
+    }))
+    .filter(({ count }) => count > 0);
+
+  const checkRows = async (rows: TaskImportRow[]) => {
+    try {
+      setIsWorking(true);
+      setPreview(await apiClient.previewTaskImport(rows));
+      setStep("preview");
+    } catch (error) {
+      console.error("Error checking import:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to check the import"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runImport = async () => {
+    try {
+      setIsWorking(true);
+      const { imported, skipped, createdCategories } =
+        await apiClient.importTasks(getRows());
+
+      toast.success(
+        `${imported} task${imported === 1 ? "" : "s"} imported${
+          createdCategories.length > 0
+            ? `, ${createdCategories.length} new categor${
+                createdCategories.length === 1 ? "y" : "ies"
+              }`
+            : ""
+        }`
+      );
+
+      if (skipped.length > 0) {
+        toast.warning(
+          `${skipped.length} row${skipped.length === 1 ? "" : "s"} skipped`
+        );
+      }
+
+      handleOpenChange(false);
+      onImported();
+    } catch (error) {
+      console.error("Error importing tasks:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import tasks"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Import Tasks</DialogTitle>
+          <DialogDescription>
+            {step === "upload" &&
+              `Choose a CSV file with one task per row, or an export of ${SOURCE_NAMES}, up to ${MAX_IMPORT_ROWS} tasks`}
+            {step === "map" &&
+              `Choose which column of ${fileName} holds each task field`}
+            {step === "preview" &&
+              (adapter
+                ? `Review the tasks of the ${adapter.label} export ${fileName} before importing them`
+                : "Review the rows before importing them")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-8 text-sm text-gray-500 hover:bg-accent">
+              <FileUp className="h-8 w-8" />
+              <span>
+                {isWorking
+                  ? "Checking..."
+                  : "Click to choose a .csv or .json file"}
+              </span>
+              <input
+                type="file"
+                accept=".csv,text/csv,.json,application/json"
+                className="hidden"
+                onChange={handleFile}
+                disabled={isWorking}
+              />
+            </label>
+            <ul className="space-y-1 text-xs text-gray-500">
+              {IMPORT_ADAPTERS.map(({ id, label, instructions }) => (
+                <li key={id}>
+                  <span className="font-medium">{label}:</span> {instructions}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="import-has-header"
+                checked={hasHeader}
+                onCheckedChange={(checked) => toggleHeader(checked === true)}
+              />
+              <Label htmlFor="import-has-header">
+                The first row holds column names
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div
+                  key={field}
+                  className="grid items-center gap-2 sm:grid-cols-[140px_1fr]"
+                >
+                  <Label>
+                    {label}
+                    {field === "title" && (
+                      <span className="text-red-500">*</span>
+                    )}
+                  </Label>
+                  <Select
+                    value={
+                      mapping[field] === null
+                        ? SKIP_COLUMN
+                        : String(mapping[field])
+                    }
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        [field]:
+                          value === SKIP_COLUMN ? null : parseInt(value, 10),
+                      }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>Do not import</SelectItem>
+                      {Array.from({ length: columnCount }, (_, column) => (
+                        <SelectItem key={column} value={String(column)}>
+                          {headers[column] || `Column ${column + 1}`}
+                          {dataRows[0]?.[column] && (
+                            <span className="ml-2 text-gray-500">
+                              e.g. {dataRows[0][column].slice(0, 30)}
+                            </span>
+                          )}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Statuses can be written as To Do, In Progress or Done, and
+              priorities as Low, Medium or High. Categories that do not exist
+              yet are created.
+            </p>
+
+            {dataRows.length > MAX_IMPORT_ROWS && (
+              <p className="text-sm text-red-600">
+                The file has {dataRows.length} rows. Split it into files of at
+                most {MAX_IMPORT_ROWS} rows.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4 text-sm">
+            <ul className="space-y-1">
+              <li>
+                <span className="font-medium">{preview.validCount}</span> of{" "}
+                {previewRows.length} {adapter ? "tasks" : "rows"} are ready to
+                import
+              </li>
+              {adapter && statusCounts.length > 0 && (
+                <li>
+                  {statusCounts
+                    .map(
+                      ({ status, count }) =>
+                        `${STATUS_LABELS[status]}: ${count}`
+                    )
+                    .join(" · ")}
+                </li>
+              )}
+              {preview.newCategories.length > 0 && (
+                <li>New categories: {preview.newCategories.join(", ")}</li>
+              )}
+            </ul>
+
+            {warnings.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-gray-500">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            {preview.errors.length > 0 && (
+              <div className="space-y-2">
+                <p className="flex items-center gap-2 font-medium text-red-600">
+                  <AlertCircle className="h-4 w-4" />
+                  {preview.errors.length} row
+                  {preview.errors.length === 1 ? "" : "s"} will be skipped
+                </p>
+                <div className="max-h-64 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">
+                          {adapter ? "#" : "Line"}
+                        </TableHead>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.errors.map(({ index, errors }) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            {adapter ? index + 1 : lineOf(index)}
+                          </TableCell>
+                          <TableCell className="max-w-[160px] truncate">
+                            {previewRows[index]?.title}
+                          </TableCell>
+                          <TableCell className="text-red-600">
+                            {errors.join("; ")}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button
+              variant="outline"
+              onClick={() =>
+                step === "map" || adapter ? reset() : setStep("map")
+              }
+              disabled={isWorking}
+            >
+              Back
+            </Button>
+          )}
+          {step === "map" && (
+            <Button
+              onClick={() => checkRows(getMappedRows())}
+              disabled={
+                isWorking ||
+                mapping.title === null ||
+                dataRows.length > MAX_IMPORT_ROWS
+              }
+            >
+              {isWorking ? "Checking..." : "Check Rows"}
+            </Button>
+          )}
+          {step === "preview" && preview && (
+            <Button
+              onClick={runImport}
+              disabled={isWorking || preview.validCount === 0}
+            >
+              {isWorking
+                ? "Importing..."
+                : `Import ${preview.validCount} Task${
+                    preview.validCount === 1 ? "" : "s"
+                  }`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
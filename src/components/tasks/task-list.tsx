@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { Fragment, useState, useEffect, useCallback } from "react";
 import { format } from "date-fns";
 import {
   Pencil,
@@ -11,6 +11,13 @@ import {
   Clock,
   Tag,
   AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  ListChecks,
+  MessageSquare,
+  Repeat,
+  Timer,
+  Lock,
 } from "lucide-react";
 import { useSearchParams, useRouter } from "next/navigation";
 
@@ -31,10 +38,30 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { TaskStatus, TaskPriority } from "@/types";
+import {
+  TaskStatus,
+  TaskPriority,
+  SubtaskProgress,
+  TaskAssignee,
+  TaskRecurrence,
+  TaskQueryFilter,
+  TaskReference,
+} from "@/types";
 import { apiClient } from "@/utils/api-client";
+import { toastWithUndo } from "@/utils/undo-toast";
 import { toast } from "sonner";
 import { Checkbox } from "@/components/ui/checkbox";
+import { SubtaskList } from "@/components/tasks/subtask-list";
+import { TaskBulkActions } from "@/components/tasks/task-bulk-actions";
+import {
+  AssignableMember,
+  TaskAssignees,
+} from "@/components/tasks/task-assignees";
+import { Badge } from "@/components/ui/badge";
+import { describeRecurrence } from "@/lib/utils/recurrence";
+import { toggleTaskListItem } from "@/lib/utils/markdown";
+import { TaskDescription } from "@/components/tasks/task-description";
+import { formatMinutes } from "@/lib/utils/durations";
 
 interface Task {
   id: string;
@@ -47,6 +74,14 @@ interface Task {
     id: string;
     name: string;
   } | null;
+  subtaskProgress?: SubtaskProgress;
+  recurrence?: TaskRecurrence | null;
+  blockers?: TaskReference[];
+  isBlocked?: boolean;
+  assignees?: TaskAssignee[];
+  commentCount?: number;
+  estimateMinutes?: number | null;
+  trackedMinutes?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -54,9 +89,13 @@ interface Task {
 interface TaskListProps {
   status?: TaskStatus;
   category?: string;
+  // Restricts the list to a fixed assignee ("me" for the current user)
+  assignee?: string;
   onEditTask?: (task: Task) => void;
   onTasksUpdated?: () => void;
   refetchTrigger?: number;
+  // Members offered in the assignee picker; omit for read-only assignees
+  members?: AssignableMember[];
   tasks?: Task[];
   isLoading?: boolean;
   pagination?: {
@@ -70,9 +109,11 @@ interface TaskListProps {
 export function TaskList({
   status,
   category,
+  assignee,
   onEditTask,
   onTasksUpdated,
   refetchTrigger = 0,
+  members,
   tasks: propTasks,
   isLoading: propIsLoading,
   pagination: propPagination,
@@ -82,9 +123,15 @@ export function TaskList({
     propIsLoading !== undefined ? propIsLoading : true
   );
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
+  const [taskToComplete, setTaskToComplete] = useState<Task | null>(null);
+  const [expandedTasks, setExpandedTasks] = useState<Record<string, boolean>>(
+    {}
+  );
   const [selectedTasks, setSelectedTasks] = useState<Record<string, boolean>>(
     {}
   );
+  // Whether the selection extends to every task matching the filter
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
   const [pagination, setPagination] = useState(
     propPagination || {
       total: 0,
@@ -124,6 +171,7 @@ export function TaskList({
       // Set default filters
       if (status) params.set("status", status);
       if (category) params.set("categoryId", category);
+      if (assignee) params.set("assignee", assignee);
 
       // Apply overrides
       Object.entries(overrides).forEach(([key, value]) => {
@@ -136,7 +184,7 @@ export function TaskList({
 
       return params;
     },
-    [searchParams, status, category]
+    [searchParams, status, category, assignee]
   );
 
   // Fetch tasks based on filters - only used if tasks are not provided via props
@@ -180,13 +228,28 @@ export function TaskList({
     }
   }, [fetchTasks, refetchTrigger, propTasks]);
 
+  // A selection only applies to the filter and page it was made on
+  useEffect(() => {
+    setSelectedTasks({});
+    setAllMatchingSelected(false);
+  }, [searchParams]);
+
+  // Reload after a change, or after a change was undone from its toast
+  const reloadTasks = () => {
+    fetchTasks();
+
+    if (onTasksUpdated) {
+      onTasksUpdated();
+    }
+  };
+
   // Delete task handler
   const deleteTask = async () => {
     if (!taskToDelete) return;
 
     try {
-      await apiClient.deleteTask(taskToDelete);
-      toast.success("Task deleted successfully");
+      const { undoToken } = await apiClient.deleteTask(taskToDelete);
+      toastWithUndo("Task moved to trash", [undoToken], reloadTasks);
       fetchTasks();
 
       if (onTasksUpdated) {
@@ -201,36 +264,136 @@ export function TaskList({
   };
 
   // Update task status
-  const updateTaskStatus = async (taskId: string, newStatus: TaskStatus) => {
+  const updateTaskStatus = async (
+    taskId: string,
+    newStatus: TaskStatus,
+    completeSubtasks = false
+  ) => {
     try {
       const currentTask = tasks.find((task) => task.id === taskId);
       if (!currentTask) return;
 
-      await apiClient.updateTask(taskId, {
-        title: currentTask.title,
-        status: newStatus,
-      });
+      const { task: updatedTask, undoToken } = await apiClient.updateTask(
+        taskId,
+        {
+          title: currentTask.title,
+          status: newStatus,
+          completeSubtasks,
+        }
+      );
 
       // Update local state
       setTasks((prevTasks) =>
         prevTasks.map((task) =>
-          task.id === taskId ? { ...task, status: newStatus } : task
+          task.id === taskId
+            ? {
+                ...task,
+                status: newStatus,
+                subtaskProgress:
+                  completeSubtasks && task.subtaskProgress
+                    ? {
+                        ...task.subtaskProgress,
+                        completed: task.subtaskProgress.total,
+                      }
+                    : task.subtaskProgress,
+              }
+            : task
         )
       );
 
-      toast.success("Task status updated");
+      toastWithUndo("Task status updated", [undoToken], reloadTasks);
+
+      if (updatedTask.nextOccurrence?.dueDate) {
+        toast.info(
+          `Next occurrence scheduled for ${format(
+            new Date(updatedTask.nextOccurrence.dueDate),
+            "MMM d, yyyy"
+          )}`
+        );
+      }
 
       if (onTasksUpdated) {
         onTasksUpdated();
       }
     } catch (error) {
       console.error("Error updating task status:", error);
-      toast.error("Failed to update task status");
+      toast.error(
+        error instanceof Error && error.message.startsWith("Task is blocked")
+          ? error.message
+          : "Failed to update task status"
+      );
     }
   };
 
+  // Check or uncheck a task list box of a description, reverting the change
+  // if saving it fails
+  const toggleDescriptionCheckbox = async (task: Task, line: number) => {
+    if (!task.description) return;
+
+    const description = toggleTaskListItem(task.description, line);
+    const setDescription = (value: string) =>
+      setTasks((prevTasks) =>
+        prevTasks.map((item) =>
+          item.id === task.id ? { ...item, description: value } : item
+        )
+      );
+
+    setDescription(description);
+
+    try {
+      await apiClient.updateTask(task.id, { title: task.title, description });
+    } catch (error) {
+      console.error("Error updating task description:", error);
+      setDescription(task.description);
+      toast.error("Failed to update task description");
+    }
+  };
+
+  // Ask whether to complete open subtasks before completing the parent
+  const completeTask = (task: Task) => {
+    const progress = task.subtaskProgress;
+    if (progress && progress.completed < progress.total) {
+      setTaskToComplete(task);
+      return;
+    }
+
+    updateTaskStatus(task.id, TaskStatus.COMPLETED);
+  };
+
+  const confirmCompleteTask = async (completeSubtasks: boolean) => {
+    if (!taskToComplete) return;
+
+    await updateTaskStatus(
+      taskToComplete.id,
+      TaskStatus.COMPLETED,
+      completeSubtasks
+    );
+    setTaskToComplete(null);
+  };
+
+  // Subtask expansion handlers
+  const toggleExpanded = (taskId: string) => {
+    setExpandedTasks((prev) => ({
+      ...prev,
+      [taskId]: !prev[taskId],
+    }));
+  };
+
+  const handleSubtaskProgressChange = useCallback(
+    (taskId: string, progress: SubtaskProgress) => {
+      setTasks((prevTasks) =>
+        prevTasks.map((task) =>
+          task.id === taskId ? { ...task, subtaskProgress: progress } : task
+        )
+      );
+    },
+    []
+  );
+
   // Bulk selection handlers
   const handleSelectAll = (checked: boolean) => {
+    setAllMatchingSelected(false);
+
     if (checked) {
       const newSelected: Record<string, boolean> = {};
       tasks.forEach((task) => {
@@ -243,39 +406,33 @@ export function TaskList({
   };
 
   const handleSelectTask = (taskId: string, checked: boolean) => {
+    setAllMatchingSelected(false);
     setSelectedTasks((prev) => ({
       ...prev,
       [taskId]: checked,
     }));
   };
 
+  const clearSelection = () => {
+    setSelectedTasks({});
+    setAllMatchingSelected(false);
+  };
+
   const getSelectedTasksCount = () => {
     return Object.values(selectedTasks).filter(Boolean).length;
   };
 
-  const bulkDeleteTasks = async () => {
-    const tasksToDelete = Object.entries(selectedTasks)
-      .filter(([, isSelected]) => isSelected)
-      .map(([id]) => id);
-
-    if (tasksToDelete.length === 0) return;
-
-    try {
-      // In a real app, you might want to add a bulk delete API
-      // For now, we'll delete them one by one
-      await Promise.all(tasksToDelete.map((id) => apiClient.deleteTask(id)));
-
-      toast.success(`${tasksToDelete.length} tasks deleted successfully`);
-      fetchTasks();
-      setSelectedTasks({});
-
-      if (onTasksUpdated) {
-        onTasksUpdated();
-      }
-    } catch (error) {
-      console.error("Error deleting tasks:", error);
-      toast.error("Failed to delete tasks");
-    }
+  // The list filters, for bulk actions on every matching task
+  const getCurrentFilter = (): TaskQueryFilter => {
+    const params = buildQueryParams();
+
+    return {
+      status: params.get("status") || "",
+      priority: params.get("priority") || "",
+      categoryId: params.get("categoryId") || "",
+      assigneeId: params.get("assignee") || "",
+      search: params.get("search") || "",
+    };
   };
 
   // Status badge renderer
@@ -391,19 +548,32 @@ export function TaskList({
     );
   }
 
-  const selectedCount = getSelectedTasksCount();
+  const pageSelectedCount = getSelectedTasksCount();
+  const selectedCount = allMatchingSelected
+    ? pagination.total
+    : pageSelectedCount;
 
   return (
     <div className="space-y-4">
       {selectedCount > 0 && (
-        <div className="flex items-center justify-between rounded-lg bg-gray-50 p-2">
-          <span className="text-sm font-medium">
-            {selectedCount} task{selectedCount > 1 ? "s" : ""} selected
-          </span>
-          <Button variant="destructive" size="sm" onClick={bulkDeleteTasks}>
-            Delete Selected
-          </Button>
-        </div>
+        <TaskBulkActions
+          selection={
+            allMatchingSelected
+              ? { filter: getCurrentFilter() }
+              : {
+                  ids: Object.keys(selectedTasks).filter(
+                    (id) => selectedTasks[id]
+                  ),
+                }
+          }
+          selectedCount={selectedCount}
+          totalMatching={pagination.total}
+          pageSelected={pageSelectedCount === tasks.length}
+          onSelectAllMatching={() => setAllMatchingSelected(true)}
+          onClearSelection={clearSelection}
+          onTasksChanged={reloadTasks}
+          onUndone={reloadTasks}
+        />
       )}
 
       <div className="rounded-md border">
@@ -413,7 +583,7 @@ export function TaskList({
               <TableHead className="w-12">
                 <Checkbox
                   checked={
-                    tasks.length > 0 && getSelectedTasksCount() === tasks.length
+                    tasks.length > 0 && pageSelectedCount === tasks.length
                   }
                   onCheckedChange={handleSelectAll}
                 />
@@ -431,77 +601,203 @@ export function TaskList({
               <TableHead className="hidden lg:table-cell w-28">
                 Category
               </TableHead>
+              <TableHead className="hidden sm:table-cell w-28">
+                Assignees
+              </TableHead>
               <TableHead className="w-28 text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {tasks.map((task) => (
-              <TableRow key={task.id}>
-                <TableCell>
-                  <Checkbox
-                    checked={!!selectedTasks[task.id]}
-                    onCheckedChange={(checked) =>
-                      handleSelectTask(task.id, !!checked)
-                    }
-                  />
-                </TableCell>
-                <TableCell className="max-w-[200px] truncate font-medium">
-                  {task.title}
-                </TableCell>
-                <TableCell className="hidden md:table-cell">
-                  {renderStatusBadge(task.status)}
-                </TableCell>
-                <TableCell className="hidden md:table-cell">
-                  {renderPriorityBadge(task.priority)}
-                </TableCell>
-                <TableCell className="hidden lg:table-cell">
-                  {renderDueDate(task.dueDate)}
-                </TableCell>
-                <TableCell className="hidden lg:table-cell">
-                  {task.category ? (
+              <Fragment key={task.id}>
+                <TableRow>
+                  <TableCell>
+                    <Checkbox
+                      checked={!!selectedTasks[task.id]}
+                      onCheckedChange={(checked) =>
+                        handleSelectTask(task.id, !!checked)
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="max-w-[200px] font-medium">
                     <div className="flex items-center">
-                      <Tag className="mr-1 h-4 w-4 text-gray-500" />
-                      <span>{task.category.name}</span>
-                    </div>
-                  ) : (
-                    <span className="text-gray-500 text-sm">None</span>
-                  )}
-                </TableCell>
-                <TableCell className="text-right">
-                  <div className="flex justify-end space-x-2">
-                    {task.status !== TaskStatus.COMPLETED && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() =>
-                          updateTaskStatus(task.id, TaskStatus.COMPLETED)
+                      <button
+                        type="button"
+                        className="mr-1 rounded p-0.5 text-gray-500 hover:bg-accent"
+                        onClick={() => toggleExpanded(task.id)}
+                        title={
+                          expandedTasks[task.id]
+                            ? "Hide details"
+                            : "Show description and subtasks"
                         }
-                        title="Mark as completed"
                       >
-                        <CheckCircle className="h-4 w-4 text-green-500" />
-                      </Button>
+                        {expandedTasks[task.id] ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </button>
+                      <span className="truncate">{task.title}</span>
+                      {task.subtaskProgress &&
+                        task.subtaskProgress.total > 0 && (
+                          <span
+                            className="ml-2 inline-flex shrink-0 items-center text-xs text-gray-500"
+                            title="Completed subtasks"
+                          >
+                            <ListChecks className="mr-1 h-3 w-3" />
+                            {task.subtaskProgress.completed}/
+                            {task.subtaskProgress.total}
+                          </span>
+                        )}
+                      {!!task.commentCount && (
+                        <span
+                          className="ml-2 inline-flex shrink-0 items-center text-xs text-gray-500"
+                          title="Comments"
+                        >
+                          <MessageSquare className="mr-1 h-3 w-3" />
+                          {task.commentCount}
+                        </span>
+                      )}
+                      {(!!task.trackedMinutes || !!task.estimateMinutes) && (
+                        <span
+                          className={`ml-2 inline-flex shrink-0 items-center text-xs ${
+                            task.estimateMinutes &&
+                            (task.trackedMinutes || 0) > task.estimateMinutes
+                              ? "text-red-600"
+                              : "text-gray-500"
+                          }`}
+                          title={
+                            task.estimateMinutes
+                              ? "Time tracked / estimate"
+                              : "Time tracked"
+                          }
+                        >
+                          <Timer className="mr-1 h-3 w-3" />
+                          {formatMinutes(task.trackedMinutes || 0)}
+                          {task.estimateMinutes
+                            ? ` / ${formatMinutes(task.estimateMinutes)}`
+                            : ""}
+                        </span>
+                      )}
+                      {task.isBlocked && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 shrink-0 border-red-200 bg-red-50 font-normal text-red-700"
+                          title={`Blocked by: ${(task.blockers || [])
+                            .filter(
+                              (blocker) =>
+                                blocker.status !== TaskStatus.COMPLETED
+                            )
+                            .map((blocker) => blocker.title)
+                            .join(", ")}`}
+                        >
+                          <Lock className="mr-1 h-3 w-3" />
+                          Blocked
+                        </Badge>
+                      )}
+                      {task.recurrence && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 shrink-0 font-normal"
+                          title={`Repeats ${describeRecurrence(
+                            task.recurrence
+                          )}`}
+                        >
+                          <Repeat className="mr-1 h-3 w-3" />
+                          {describeRecurrence(task.recurrence)}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell">
+                    {renderStatusBadge(task.status)}
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell">
+                    {renderPriorityBadge(task.priority)}
+                  </TableCell>
+                  <TableCell className="hidden lg:table-cell">
+                    {renderDueDate(task.dueDate)}
+                  </TableCell>
+                  <TableCell className="hidden lg:table-cell">
+                    {task.category ? (
+                      <div className="flex items-center">
+                        <Tag className="mr-1 h-4 w-4 text-gray-500" />
+                        <span>{task.category.name}</span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-500 text-sm">None</span>
                     )}
-                    {onEditTask && (
+                  </TableCell>
+                  <TableCell className="hidden sm:table-cell">
+                    <TaskAssignees
+                      taskId={task.id}
+                      assignees={task.assignees || []}
+                      members={members}
+                      onChange={onTasksUpdated}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-2">
+                      {task.status !== TaskStatus.COMPLETED && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => completeTask(task)}
+                          disabled={task.isBlocked}
+                          title={
+                            task.isBlocked
+                              ? "Blocked by unfinished tasks"
+                              : "Mark as completed"
+                          }
+                        >
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                        </Button>
+                      )}
+                      {onEditTask && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onEditTask(task)}
+                          title="Edit task"
+                        >
+                          <Pencil className="h-4 w-4 text-gray-500" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="icon"
-                        onClick={() => onEditTask(task)}
-                        title="Edit task"
+                        onClick={() => setTaskToDelete(task.id)}
+                        title="Delete task"
                       >
-                        <Pencil className="h-4 w-4 text-gray-500" />
+                        <Trash2 className="h-4 w-4 text-red-500" />
                       </Button>
-                    )}
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => setTaskToDelete(task.id)}
-                      title="Delete task"
-                    >
-                      <Trash2 className="h-4 w-4 text-red-500" />
-                    </Button>
-                  </div>
-                </TableCell>
-              </TableRow>
+                    </div>
+                  </TableCell>
+                </TableRow>
+                {expandedTasks[task.id] && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="bg-muted/30">
+                      {task.description && (
+                        <TaskDescription
+                          markdown={task.description}
+                          onToggleCheckbox={
+                            onEditTask
+                              ? (line) => toggleDescriptionCheckbox(task, line)
+                              : undefined
+                          }
+                          className="mb-3 max-w-3xl whitespace-normal"
+                        />
+                      )}
+                      <SubtaskList
+                        parentId={task.id}
+                        onProgressChange={(progress) =>
+                          handleSubtaskProgressChange(task.id, progress)
+                        }
+                      />
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
             ))}
           </TableBody>
         </Table>
@@ -544,6 +840,37 @@ export function TaskList({
         </div>
       )}
 
+      {/* Complete with subtasks dialog */}
+      <Dialog
+        open={!!taskToComplete}
+        onOpenChange={(open) => !open && setTaskToComplete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Complete Task</DialogTitle>
+            <DialogDescription>
+              This task still has{" "}
+              {taskToComplete?.subtaskProgress
+                ? taskToComplete.subtaskProgress.total -
+                  taskToComplete.subtaskProgress.completed
+                : 0}{" "}
+              open subtask(s). Do you want to complete them as well?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => confirmCompleteTask(false)}
+            >
+              Only this task
+            </Button>
+            <Button onClick={() => confirmCompleteTask(true)}>
+              Complete all
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete confirmation dialog */}
       <Dialog
         open={!!taskToDelete}
@@ -553,8 +880,8 @@ export function TaskList({
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this task? This action cannot be
-              undone.
+              Are you sure you want to delete this task and its subtasks? They
+              will be moved to the trash, where they can be restored.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
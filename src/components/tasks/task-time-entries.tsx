@@ -0,0 +1,494 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { format } from "date-fns";
+import { Pencil, Play, Square, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { DurationInput } from "@/components/tasks/duration-input";
+import { TimeEntry, WorkspaceRole } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { formatMinutes } from "@/lib/utils/durations";
+import {
+  MAX_TIME_ENTRY_MINUTES,
+  MAX_TIME_ENTRY_NOTE_LENGTH,
+} from "@/lib/validations/time-entry";
+import { getInitials } from "@/lib/utils/initials";
+
+interface TaskTimeEntriesProps {
+  taskId: string;
+  estimateMinutes?: number | null;
+  // Called after time is logged, changed or deleted, e.g. to refresh totals
+  onChange?: () => void;
+}
+
+const MINUTE = 60 * 1000;
+
+// Value of a datetime-local input for a date, in local time
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+// Whole minutes of an entry, counting a running timer up to now
+const getEntryMinutes = (entry: TimeEntry, now: number) =>
+  Math.max(
+    0,
+    Math.round(
+      ((entry.endedAt ? new Date(entry.endedAt).getTime() : now) -
+        new Date(entry.startedAt).getTime()) /
+        MINUTE
+    )
+  );
+
+// Check a start and duration typed into the form
+function getEntryError(startedAt: string, minutes: number | null) {
+  if (!startedAt || Number.isNaN(new Date(startedAt).getTime())) {
+    return "Enter when the work started";
+  }
+  if (minutes === null || Number.isNaN(minutes) || minutes < 1) {
+    return "Enter a duration such as 1h 30m";
+  }
+  if (minutes > MAX_TIME_ENTRY_MINUTES) {
+    return `An entry cannot be longer than ${
+      MAX_TIME_ENTRY_MINUTES / 60
+    } hours`;
+  }
+  return null;
+}
+
+/**
+ * Time tracked on a task: a start/stop timer, time logged by hand, and the
+ * entries of every member. Members can change their own entries, and the
+ * workspace owner any entry.
+ */
+export function TaskTimeEntries({
+  taskId,
+  estimateMinutes,
+  onChange,
+}: TaskTimeEntriesProps) {
+  const { data: session } = useSession();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [role, setRole] = useState<WorkspaceRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [startedAt, setStartedAt] = useState("");
+  const [minutes, setMinutes] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editStartedAt, setEditStartedAt] = useState("");
+  const [editMinutes, setEditMinutes] = useState<number | null>(null);
+  const [editNote, setEditNote] = useState("");
+  const [entryToDelete, setEntryToDelete] = useState<TimeEntry | null>(null);
+
+  const userId = session?.user?.id;
+  const canEdit = role === WorkspaceRole.OWNER || role === WorkspaceRole.EDITOR;
+  const runningEntry = entries.find(
+    (entry) => !entry.endedAt && entry.user?.id === userId
+  );
+  const totalMinutes = entries.reduce(
+    (sum, entry) => sum + getEntryMinutes(entry, now),
+    0
+  );
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [entryList, workspace] = await Promise.all([
+        apiClient.getTaskTimeEntries(taskId),
+        apiClient.getCurrentWorkspace(),
+      ]);
+      setEntries(entryList);
+      setRole(workspace.role);
+    } catch (error) {
+      console.error("Error fetching time entries:", error);
+      toast.error("Failed to load time entries");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Keep running timers ticking
+  const hasRunningEntry = entries.some((entry) => !entry.endedAt);
+  useEffect(() => {
+    if (!hasRunningEntry) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 15 * 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningEntry]);
+
+  const handleStart = async () => {
+    try {
+      setIsSaving(true);
+      const { timer, stopped } = await apiClient.startTimer(taskId);
+      setNow(Date.now());
+      setEntries((prev) => [
+        timer,
+        ...prev.map((entry) =>
+          stopped && entry.id === stopped.id ? stopped : entry
+        ),
+      ]);
+      if (stopped && stopped.taskId !== taskId) {
+        toast.info(`Stopped the timer on "${stopped.taskTitle}"`);
+      }
+      onChange?.();
+    } catch (error) {
+      console.error("Error starting timer:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to start timer"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      setIsSaving(true);
+      const stopped = await apiClient.stopTimer();
+      setEntries((prev) =>
+        prev.map((entry) => (entry.id === stopped.id ? stopped : entry))
+      );
+      toast.success(
+        `Logged ${formatMinutes(getEntryMinutes(stopped, Date.now()))}`
+      );
+      onChange?.();
+    } catch (error) {
+      console.error("Error stopping timer:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to stop timer"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLog = async () => {
+    const error = getEntryError(startedAt, minutes);
+    if (error || minutes === null) {
+      toast.error(error);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const start = new Date(startedAt);
+      const entry = await apiClient.createTimeEntry(taskId, {
+        startedAt: start,
+        endedAt: new Date(start.getTime() + minutes * MINUTE),
+        note,
+      });
+      setEntries((prev) =>
+        [entry, ...prev].sort(
+          (a, b) =>
+            new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+        )
+      );
+      setStartedAt("");
+      setMinutes(null);
+      setNote("");
+      onChange?.();
+    } catch (error) {
+      console.error("Error logging time:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to log time"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startEditing = (entry: TimeEntry) => {
+    setEditingId(entry.id);
+    setEditStartedAt(toInputValue(new Date(entry.startedAt)));
+    setEditMinutes(entry.endedAt ? getEntryMinutes(entry, now) : null);
+    setEditNote(entry.note);
+  };
+
+  const handleSave = async (entry: TimeEntry) => {
+    // The duration of a running timer is set by stopping it
+    const error = entry.endedAt
+      ? getEntryError(editStartedAt, editMinutes)
+      : getEntryError(editStartedAt, 1);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const start = new Date(editStartedAt);
+      const updated = await apiClient.updateTimeEntry(entry.id, {
+        startedAt: start,
+        endedAt:
+          entry.endedAt && editMinutes
+            ? new Date(start.getTime() + editMinutes * MINUTE)
+            : undefined,
+        note: editNote,
+      });
+      setEntries((prev) =>
+        prev.map((item) => (item.id === updated.id ? updated : item))
+      );
+      setEditingId(null);
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating time entry:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update time entry"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entryToDelete) return;
+
+    try {
+      await apiClient.deleteTimeEntry(entryToDelete.id);
+      setEntries((prev) =>
+        prev.filter((entry) => entry.id !== entryToDelete.id)
+      );
+      toast.success("Time entry deleted");
+      onChange?.();
+    } catch (error) {
+      console.error("Error deleting time entry:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete time entry"
+      );
+    } finally {
+      setEntryToDelete(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-gray-200 border-t-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 py-2">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-2xl font-bold">{formatMinutes(totalMinutes)}</p>
+          <p
+            className={`text-xs ${
+              estimateMinutes && totalMinutes > estimateMinutes
+                ? "text-red-600"
+                : "text-gray-500"
+            }`}
+          >
+            {estimateMinutes
+              ? `tracked of a ${formatMinutes(estimateMinutes)} estimate`
+              : "tracked"}
+          </p>
+        </div>
+        {canEdit &&
+          (runningEntry ? (
+            <Button
+              variant="destructive"
+              onClick={handleStop}
+              disabled={isSaving}
+            >
+              <Square className="mr-2 h-4 w-4" />
+              Stop ({formatMinutes(getEntryMinutes(runningEntry, now))})
+            </Button>
+          ) : (
+            <Button onClick={handleStart} disabled={isSaving}>
+              <Play className="mr-2 h-4 w-4" />
+              Start timer
+            </Button>
+          ))}
+      </div>
+
+      {canEdit && (
+        <div className="grid gap-2 rounded-md border p-3 sm:grid-cols-[1fr_7rem]">
+          <Input
+            type="datetime-local"
+            value={startedAt}
+            max={toInputValue(new Date(now))}
+            onChange={(event) => setStartedAt(event.target.value)}
+            aria-label="Started at"
+          />
+          <DurationInput
+            value={minutes}
+            onChange={setMinutes}
+            aria-label="Duration"
+          />
+          <Input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            maxLength={MAX_TIME_ENTRY_NOTE_LENGTH}
+            placeholder="What did you work on? (optional)"
+            aria-label="Note"
+          />
+          <Button variant="outline" onClick={handleLog} disabled={isSaving}>
+            Log time
+          </Button>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-center text-sm text-gray-500">
+          No time tracked yet.
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {entries.map((entry) => {
+            const canChange =
+              canEdit &&
+              (entry.user?.id === userId || role === WorkspaceRole.OWNER);
+            const start = new Date(entry.startedAt);
+
+            return (
+              <li key={entry.id} className="flex gap-3 py-2">
+                <Avatar className="h-7 w-7 shrink-0">
+                  <AvatarImage
+                    src={entry.user?.image}
+                    alt={entry.user?.name || "Deleted user"}
+                  />
+                  <AvatarFallback className="text-xs">
+                    {getInitials(entry.user?.name)}
+                  </AvatarFallback>
+                </Avatar>
+
+                {editingId === entry.id ? (
+                  <div className="grid flex-1 gap-2 sm:grid-cols-[1fr_7rem]">
+                    <Input
+                      type="datetime-local"
+                      value={editStartedAt}
+                      onChange={(event) => setEditStartedAt(event.target.value)}
+                      aria-label="Started at"
+                    />
+                    <DurationInput
+                      value={editMinutes}
+                      onChange={setEditMinutes}
+                      disabled={!entry.endedAt}
+                      placeholder={entry.endedAt ? undefined : "Running"}
+                      aria-label="Duration"
+                    />
+                    <Input
+                      value={editNote}
+                      onChange={(event) => setEditNote(event.target.value)}
+                      maxLength={MAX_TIME_ENTRY_NOTE_LENGTH}
+                      placeholder="Note"
+                      aria-label="Note"
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => handleSave(entry)}
+                        disabled={isSaving}
+                      >
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditingId(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                        <span className="font-medium">
+                          {entry.user?.name || "Deleted user"}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {format(start, "MMM d, HH:mm")}
+                          {entry.endedAt
+                            ? `–${format(new Date(entry.endedAt), "HH:mm")}`
+                            : " – running"}
+                        </span>
+                      </div>
+                      {entry.note && (
+                        <p className="break-words text-sm text-gray-600">
+                          {entry.note}
+                        </p>
+                      )}
+                    </div>
+                    <span className="shrink-0 text-sm font-medium tabular-nums">
+                      {formatMinutes(getEntryMinutes(entry, now))}
+                    </span>
+                    {canChange && (
+                      <div className="flex shrink-0 items-start">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Edit"
+                          onClick={() => startEditing(entry)}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-red-600 hover:text-red-700"
+                          title="Delete"
+                          onClick={() => setEntryToDelete(entry)}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Delete time entry dialog */}
+      <Dialog
+        open={!!entryToDelete}
+        onOpenChange={(open) => !open && setEntryToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Time Entry</DialogTitle>
+            <DialogDescription>
+              {entryToDelete &&
+                `${formatMinutes(
+                  getEntryMinutes(entryToDelete, now)
+                )} logged on ${format(
+                  new Date(entryToDelete.startedAt),
+                  "MMM d"
+                )} will be deleted. This cannot be undone.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
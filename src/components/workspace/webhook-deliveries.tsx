@@ -0,0 +1,338 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Eye,
+  EyeOff,
+  RefreshCw,
+  RotateCcw,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus } from "@/types";
+import { apiClient } from "@/utils/api-client";
+
+export const DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  [WebhookDeliveryStatus.PENDING]: "Retrying",
+  [WebhookDeliveryStatus.SUCCEEDED]: "Delivered",
+  [WebhookDeliveryStatus.FAILED]: "Failed",
+};
+
+export const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  [WebhookDeliveryStatus.PENDING]: "bg-yellow-100 text-yellow-800",
+  [WebhookDeliveryStatus.SUCCEEDED]: "bg-green-100 text-green-800",
+  [WebhookDeliveryStatus.FAILED]: "bg-red-100 text-red-800",
+};
+
+interface WebhookDeliveriesProps {
+  webhook: Webhook | null;
+  onClose: () => void;
+  onWebhookChanged: (webhook: Webhook) => void;
+}
+
+// Pretty-print a stored payload for display
+function formatPayload(payload: string) {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+}
+
+/**
+ * Dialog with the signing secret of a webhook and its delivery log
+ */
+export function WebhookDeliveries({
+  webhook,
+  onClose,
+  onWebhookChanged,
+}: WebhookDeliveriesProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isSecretVisible, setIsSecretVisible] = useState(false);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const webhookId = webhook?.id;
+
+  // Fetch the delivery log of the webhook
+  const fetchDeliveries = useCallback(async () => {
+    if (!webhookId) return;
+
+    try {
+      setIsLoading(true);
+      setDeliveries(await apiClient.getWebhookDeliveries(webhookId));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      toast.error("Failed to load deliveries");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [webhookId]);
+
+  useEffect(() => {
+    setDeliveries([]);
+    setExpandedId(null);
+    setIsSecretVisible(false);
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const copySecret = async () => {
+    if (!webhook) return;
+
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      toast.success("Secret copied");
+    } catch (error) {
+      console.error("Error copying secret:", error);
+      toast.error("Failed to copy secret");
+    }
+  };
+
+  const rotateSecret = async () => {
+    if (!webhook) return;
+
+    try {
+      const { webhook: updatedWebhook } = await apiClient.rotateWebhookSecret(
+        webhook.id
+      );
+      onWebhookChanged(updatedWebhook);
+      setIsSecretVisible(true);
+      toast.success("Secret rotated. Update it on the receiving end");
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      toast.error("Failed to rotate secret");
+    }
+  };
+
+  const redeliver = async (deliveryId: string) => {
+    try {
+      setRedeliveringId(deliveryId);
+      const delivery = await apiClient.redeliverWebhookDelivery(deliveryId);
+
+      setDeliveries((prev) =>
+        prev.map((item) => (item.id === deliveryId ? delivery : item))
+      );
+
+      if (delivery.status === WebhookDeliveryStatus.SUCCEEDED) {
+        toast.success("Delivered");
+      } else {
+        toast.error("Delivery failed again");
+      }
+    } catch (error) {
+      console.error("Error redelivering webhook delivery:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to redeliver"
+      );
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Webhook Deliveries</DialogTitle>
+          <DialogDescription className="break-all">
+            {webhook?.url}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-md bg-muted p-3 text-sm">
+            <p className="mb-2 text-gray-500">
+              Signing secret. Verify the <code>X-Webhook-Signature</code> header
+              with it.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate">
+                {isSecretVisible ? webhook?.secret : "whsec_••••••••••••••••"}
+              </code>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsSecretVisible(!isSecretVisible)}
+                title={isSecretVisible ? "Hide secret" : "Show secret"}
+              >
+                {isSecretVisible ? (
+                  <EyeOff className="h-4 w-4" />
+                ) : (
+                  <Eye className="h-4 w-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={copySecret}
+                title="Copy secret"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={rotateSecret}
+                title="Rotate secret"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Recent deliveries</h4>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={fetchDeliveries}
+              disabled={isLoading}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+            </Button>
+          </div>
+
+          {isLoading && deliveries.length === 0 ? (
+            <div className="flex items-center justify-center py-4">
+              <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-200 border-t-primary"></div>
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Nothing has been delivered to this webhook yet.
+            </p>
+          ) : (
+            <ul className="max-h-[50vh] divide-y overflow-y-auto rounded-md border">
+              {deliveries.map((delivery) => {
+                const lastAttempt = delivery.attempts.at(-1);
+                const isExpanded = expandedId === delivery.id;
+
+                return (
+                  <li key={delivery.id} className="text-sm">
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-3 p-2 text-left hover:bg-accent"
+                      onClick={() =>
+                        setExpandedId(isExpanded ? null : delivery.id)
+                      }
+                    >
+                      {isExpanded ? (
+                        <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 shrink-0 text-gray-500" />
+                      )}
+                      <span
+                        className={`shrink-0 rounded px-2 py-0.5 text-xs font-medium ${
+                          DELIVERY_STATUS_STYLES[delivery.status]
+                        }`}
+                      >
+                        {DELIVERY_STATUS_LABELS[delivery.status]}
+                      </span>
+                      <code className="text-xs">{delivery.event}</code>
+                      <span className="text-xs text-gray-500">
+                        {lastAttempt?.responseStatus ??
+                          (lastAttempt ? "No response" : "")}
+                      </span>
+                      <span className="ml-auto shrink-0 text-xs text-gray-500">
+                        {formatDistanceToNow(new Date(delivery.createdAt), {
+                          addSuffix: true,
+                        })}
+                      </span>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="space-y-3 border-t bg-gray-50 p-3 dark:bg-transparent">
+                        <div className="space-y-1">
+                          <h5 className="text-xs font-medium">
+                            Attempts ({delivery.attempts.length})
+                          </h5>
+                          {delivery.attempts.length === 0 ? (
+                            <p className="text-xs text-gray-500">
+                              Not attempted, the webhook was disabled or deleted
+                            </p>
+                          ) : (
+                            <ul className="space-y-1 text-xs">
+                              {delivery.attempts.map((attempt, index) => (
+                                <li key={index} className="flex gap-3">
+                                  <span className="w-36 shrink-0 text-gray-500">
+                                    {format(
+                                      new Date(attempt.attemptedAt),
+                                      "PP p"
+                                    )}
+                                  </span>
+                                  <Badge
+                                    variant={
+                                      attempt.error ? "outline" : "secondary"
+                                    }
+                                  >
+                                    {attempt.responseStatus ?? "—"}
+                                  </Badge>
+                                  <span className="text-gray-500">
+                                    {attempt.durationMs} ms
+                                  </span>
+                                  {attempt.error && (
+                                    <span className="truncate text-red-600">
+                                      {attempt.error}
+                                    </span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {delivery.status === WebhookDeliveryStatus.PENDING &&
+                            delivery.nextAttemptAt && (
+                              <p className="text-xs text-gray-500">
+                                Next attempt{" "}
+                                {formatDistanceToNow(
+                                  new Date(delivery.nextAttemptAt),
+                                  { addSuffix: true }
+                                )}
+                              </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-1">
+                          <h5 className="text-xs font-medium">Payload</h5>
+                          <pre className="max-h-48 overflow-auto rounded-md bg-muted p-2 text-xs">
+                            {formatPayload(delivery.payload)}
+                          </pre>
+                        </div>
+
+                        {delivery.status !==
+                          WebhookDeliveryStatus.SUCCEEDED && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => redeliver(delivery.id)}
+                            disabled={redeliveringId === delivery.id}
+                          >
+                            <RefreshCw className="mr-2 h-4 w-4" />
+                            {redeliveringId === delivery.id
+                              ? "Sending..."
+                              : "Redeliver"}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
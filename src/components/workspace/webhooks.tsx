@@ -0,0 +1,445 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { z } from "zod";
+import { formatDistanceToNow } from "date-fns";
+import {
+  History,
+  Pencil,
+  Plus,
+  Send,
+  Webhook as WebhookIcon,
+  X,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Webhook, WebhookDeliveryStatus, WebhookEvent } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { useFormValidation } from "@/hooks/use-form-validation";
+import { WEBHOOK_EVENTS } from "@/lib/validations/webhook";
+import {
+  DELIVERY_STATUS_LABELS,
+  DELIVERY_STATUS_STYLES,
+  WebhookDeliveries,
+} from "@/components/workspace/webhook-deliveries";
+
+// Form validation schema
+const webhookSchema = z.object({
+  url: z.string().trim().url("Please enter a valid URL"),
+  events: z
+    .array(z.nativeEnum(WebhookEvent))
+    .min(1, "Select at least one event"),
+});
+
+type WebhookFormValues = z.infer<typeof webhookSchema>;
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  [WebhookEvent.TASK_CREATED]: "Task created",
+  [WebhookEvent.TASK_UPDATED]: "Task updated",
+  [WebhookEvent.TASK_COMPLETED]: "Task completed",
+  [WebhookEvent.TASK_DELETED]: "Task deleted",
+  [WebhookEvent.CATEGORY_CREATED]: "Category created",
+  [WebhookEvent.CATEGORY_UPDATED]: "Category updated",
+  [WebhookEvent.CATEGORY_DELETED]: "Category deleted",
+  [WebhookEvent.PING]: "Ping",
+};
+
+/**
+ * Manages the webhooks of the current workspace. Only shown to its owner.
+ */
+export function Webhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [webhookToDelete, setWebhookToDelete] = useState<Webhook | null>(null);
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const { form, isSubmitting, handleSubmit } =
+    useFormValidation<WebhookFormValues>({
+      schema: webhookSchema,
+      defaultValues: { url: "", events: [] },
+    });
+
+  // Fetch the webhooks of the workspace
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setWebhooks(await apiClient.getWebhooks());
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      toast.error("Failed to load webhooks");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const replaceWebhook = (webhook: Webhook) => {
+    setWebhooks((prev) =>
+      prev.map((item) =>
+        item.id === webhook.id
+          ? { ...webhook, lastDelivery: item.lastDelivery }
+          : item
+      )
+    );
+    setLogWebhook((prev) => (prev?.id === webhook.id ? webhook : prev));
+  };
+
+  const openCreate = () => {
+    setEditingWebhook(null);
+    form.reset({
+      url: "",
+      events: [WebhookEvent.TASK_CREATED, WebhookEvent.TASK_COMPLETED],
+    });
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (webhook: Webhook) => {
+    setEditingWebhook(webhook);
+    form.reset({ url: webhook.url, events: webhook.events });
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (data: WebhookFormValues) => {
+    try {
+      if (editingWebhook) {
+        const { webhook } = await apiClient.updateWebhook(
+          editingWebhook.id,
+          data
+        );
+        replaceWebhook(webhook);
+        toast.success("Webhook updated");
+      } else {
+        const { webhook } = await apiClient.createWebhook(data);
+        setWebhooks((prev) => [webhook, ...prev]);
+        toast.success("Webhook created");
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error("Error saving webhook:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save webhook"
+      );
+    }
+  };
+
+  const toggleActive = async (webhook: Webhook) => {
+    try {
+      const { webhook: updatedWebhook } = await apiClient.updateWebhook(
+        webhook.id,
+        { active: !webhook.active }
+      );
+      replaceWebhook(updatedWebhook);
+      toast.success(
+        updatedWebhook.active ? "Webhook enabled" : "Webhook disabled"
+      );
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      toast.error("Failed to update webhook");
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      setTestingId(webhook.id);
+      const delivery = await apiClient.testWebhook(webhook.id);
+      const lastAttempt = delivery.attempts.at(-1);
+
+      if (delivery.status === WebhookDeliveryStatus.SUCCEEDED) {
+        toast.success(`Ping delivered (${lastAttempt?.responseStatus})`);
+      } else {
+        toast.error(
+          `Ping failed: ${lastAttempt?.error || "endpoint not reached"}`
+        );
+      }
+
+      setWebhooks((prev) =>
+        prev.map((item) =>
+          item.id === webhook.id
+            ? {
+                ...item,
+                lastDelivery: {
+                  status: delivery.status,
+                  responseStatus: lastAttempt?.responseStatus ?? null,
+                  createdAt: delivery.createdAt,
+                },
+              }
+            : item
+        )
+      );
+    } catch (error) {
+      console.error("Error testing webhook:", error);
+      toast.error("Failed to test webhook");
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!webhookToDelete) return;
+
+    try {
+      await apiClient.deleteWebhook(webhookToDelete.id);
+      setWebhooks((prev) =>
+        prev.filter((webhook) => webhook.id !== webhookToDelete.id)
+      );
+      toast.success("Webhook deleted");
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      toast.error("Failed to delete webhook");
+    } finally {
+      setWebhookToDelete(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription>
+            Notify other services when tasks or categories in this workspace
+            change. Events are sent as signed JSON <code>POST</code> requests
+            and retried when the endpoint fails.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" /> New Webhook
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-gray-200 border-t-primary"></div>
+          </div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            This workspace has no webhooks yet.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {webhooks.map((webhook) => (
+              <li
+                key={webhook.id}
+                className="flex items-center gap-3 py-3 text-sm"
+              >
+                <WebhookIcon className="h-4 w-4 shrink-0 text-gray-500" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="truncate font-medium">{webhook.url}</span>
+                    {!webhook.active && (
+                      <Badge variant="secondary">Disabled</Badge>
+                    )}
+                    {webhook.lastDelivery && (
+                      <span
+                        className={`rounded px-2 py-0.5 text-xs font-medium ${
+                          DELIVERY_STATUS_STYLES[webhook.lastDelivery.status]
+                        }`}
+                      >
+                        {DELIVERY_STATUS_LABELS[webhook.lastDelivery.status]}
+                        {webhook.lastDelivery.responseStatus !== null &&
+                          ` · ${webhook.lastDelivery.responseStatus}`}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {webhook.events.join(", ")}
+                    {webhook.lastDelivery &&
+                      ` · Last delivery ${formatDistanceToNow(
+                        new Date(webhook.lastDelivery.createdAt),
+                        { addSuffix: true }
+                      )}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggleActive(webhook)}
+                >
+                  {webhook.active ? "Disable" : "Enable"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleTest(webhook)}
+                  disabled={testingId === webhook.id}
+                  title="Send test ping"
+                >
+                  <Send className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setLogWebhook(webhook)}
+                  title="Deliveries and secret"
+                >
+                  <History className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => openEdit(webhook)}
+                  title="Edit webhook"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setWebhookToDelete(webhook)}
+                  title="Delete webhook"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Create / Edit Webhook Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingWebhook ? "Edit Webhook" : "New Webhook"}
+            </DialogTitle>
+            <DialogDescription>
+              Choose where events are sent and which events to send
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={handleSubmit(handleSave)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payload URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="https://example.com/hooks/tasks"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {WEBHOOK_EVENTS.map((event) => (
+                        <label
+                          key={event}
+                          className="flex cursor-pointer items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value.includes(event)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, event]
+                                  : field.value.filter(
+                                      (value) => value !== event
+                                    )
+                              )
+                            }
+                          />
+                          {EVENT_LABELS[event]}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsFormOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {editingWebhook ? "Save" : "Create Webhook"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Webhook Dialog */}
+      <Dialog
+        open={!!webhookToDelete}
+        onOpenChange={(open) => !open && setWebhookToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Webhook</DialogTitle>
+            <DialogDescription>
+              {webhookToDelete?.url} will no longer receive events and its
+              delivery log will be deleted. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWebhookToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <WebhookDeliveries
+        webhook={logWebhook}
+        onClose={() => setLogWebhook(null)}
+        onWebhookChanged={replaceWebhook}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { z } from "zod";
+import { Check, ChevronsUpDown, Plus, Settings, Users } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { WorkspaceRole } from "@/types";
+import { apiClient } from "@/utils/api-client";
+import { useFormValidation } from "@/hooks/use-form-validation";
+import { toast } from "sonner";
+
+// Form validation schema
+const workspaceSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Workspace name must be at least 2 characters long")
+    .max(50, "Workspace name cannot exceed 50 characters")
+    .trim(),
+});
+
+type WorkspaceFormValues = z.infer<typeof workspaceSchema>;
+
+interface WorkspaceSummary {
+  id: string;
+  name: string;
+  isPersonal: boolean;
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+interface WorkspaceSwitcherProps {
+  collapsed?: boolean;
+}
+
+export function WorkspaceSwitcher({ collapsed }: WorkspaceSwitcherProps) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [currentId, setCurrentId] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { form, isSubmitting, handleSubmit } =
+    useFormValidation<WorkspaceFormValues>({
+      schema: workspaceSchema,
+      defaultValues: {
+        name: "",
+      },
+    });
+
+  useEffect(() => {
+    const fetchWorkspaces = async () => {
+      try {
+        const data = await apiClient.getWorkspaces();
+        setWorkspaces(data.workspaces);
+        setCurrentId(data.currentWorkspaceId);
+      } catch (error) {
+        console.error("Error fetching workspaces:", error);
+      }
+    };
+
+    fetchWorkspaces();
+  }, []);
+
+  const current = workspaces.find((workspace) => workspace.id === currentId);
+
+  // Reload the dashboard so every view picks up the new workspace
+  const handleSwitch = async (id: string) => {
+    if (id === currentId) return;
+
+    try {
+      await apiClient.switchWorkspace(id);
+      window.location.href = "/dashboard";
+    } catch (error) {
+      console.error("Error switching workspace:", error);
+      toast.error("Failed to switch workspace");
+    }
+  };
+
+  const onSubmit = async (data: WorkspaceFormValues) => {
+    try {
+      await apiClient.createWorkspace(data);
+      toast.success("Workspace created successfully");
+      window.location.href = "/dashboard/workspace";
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      toast.error("Failed to create workspace");
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            className={`w-full ${
+              collapsed ? "h-9 w-9 p-0" : "justify-between px-3"
+            }`}
+            title={current?.name}
+          >
+            {collapsed ? (
+              <Users className="h-4 w-4" />
+            ) : (
+              <>
+                <span className="truncate">
+                  {current?.name || "Loading..."}
+                </span>
+                <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+              </>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onClick={() => handleSwitch(workspace.id)}
+              className="cursor-pointer"
+            >
+              <span className="flex-1 truncate">{workspace.name}</span>
+              {workspace.id === currentId && <Check className="ml-2 h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem asChild>
+            <Link
+              href="/dashboard/workspace"
+              className="flex cursor-pointer items-center"
+            >
+              <Settings className="mr-2 h-4 w-4" />
+              Members & settings
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setIsDialogOpen(true)}
+            className="cursor-pointer"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Create Workspace</DialogTitle>
+            <DialogDescription>
+              Create a shared workspace and invite your team to it.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Workspace name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Creating..." : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
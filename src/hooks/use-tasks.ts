@@ -1,6 +1,13 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { TaskStatus, TaskPriority } from "@/types";
+import { useSession } from "next-auth/react";
+import {
+  TaskStatus,
+  TaskPriority,
+  SubtaskProgress,
+  TaskAssignee,
+  TaskRecurrence,
+} from "@/types";
 import { apiClient } from "@/utils/api-client";
 import { toast } from "sonner";
 
@@ -13,6 +20,12 @@ interface Task {
   priority: TaskPriority;
   dueDate?: string | Date;
   category?: { id: string; name: string } | null;
+  subtaskProgress?: SubtaskProgress;
+  recurrence?: TaskRecurrence | null;
+  position?: number;
+  isBlocked?: boolean;
+  assigneeIds?: string[];
+  assignees?: TaskAssignee[];
   createdAt: string;
   updatedAt: string;
 }
@@ -39,6 +52,10 @@ interface TaskCache {
 interface UseTasksOptions {
   status?: TaskStatus;
   category?: string;
+  assignee?: string; // a user id, "me" or "unassigned"
+  limit?: number; // page size, overriding the URL
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
   cacheDuration?: number; // in milliseconds
 }
 
@@ -48,10 +65,15 @@ const CACHE_EXPIRY = 60 * 1000; // 1 minute default cache duration
 export function useTasks({
   status,
   category,
+  assignee,
+  limit,
+  sortBy,
+  sortOrder,
   cacheDuration = CACHE_EXPIRY,
 }: UseTasksOptions = {}) {
   const searchParams = useSearchParams();
   const router = useRouter();
+  const { data: session } = useSession();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -72,6 +94,10 @@ export function useTasks({
       // Set default filters
       if (status) params.set("status", status);
       if (category) params.set("categoryId", category);
+      if (assignee) params.set("assignee", assignee);
+      if (limit) params.set("limit", limit.toString());
+      if (sortBy) params.set("sortBy", sortBy);
+      if (sortOrder) params.set("sortOrder", sortOrder);
 
       // Apply overrides
       Object.entries(overrides).forEach(([key, value]) => {
@@ -84,7 +110,7 @@ export function useTasks({
 
       return params;
     },
-    [searchParams, status, category]
+    [searchParams, status, category, assignee, limit, sortBy, sortOrder]
   );
 
   // Get the current filter values from URL
@@ -93,6 +119,7 @@ export function useTasks({
     const urlStatus = searchParams.get("status") || status || "";
     const urlPriority = searchParams.get("priority") || "";
     const urlCategoryId = searchParams.get("categoryId") || category || "";
+    const urlAssignee = assignee || searchParams.get("assignee") || "";
     const urlSearch = searchParams.get("search") || "";
     const urlPage = parseInt(searchParams.get("page") || "1", 10);
     const urlLimit = parseInt(searchParams.get("limit") || "10", 10);
@@ -101,12 +128,13 @@ export function useTasks({
       status: urlStatus,
       priority: urlPriority,
       categoryId: urlCategoryId,
+      assignee: urlAssignee,
       search: urlSearch,
       page: urlPage,
       limit: urlLimit,
       queryString: params,
     };
-  }, [searchParams, status, category]);
+  }, [searchParams, status, category, assignee]);
 
   // Function to check if data is in cache and valid
   const getFromCache = useCallback(
@@ -130,7 +158,7 @@ export function useTasks({
       return;
     }
 
-    const { status, priority, categoryId, search } = currentFilters;
+    const { status, priority, categoryId, assignee, search } = currentFilters;
 
     let filtered = [...tasks];
 
@@ -149,6 +177,16 @@ export function useTasks({
       filtered = filtered.filter((task) => task.category?.id === categoryId);
     }
 
+    // Apply assignee filter
+    if (assignee === "unassigned") {
+      filtered = filtered.filter((task) => !task.assigneeIds?.length);
+    } else if (assignee) {
+      const assigneeId = assignee === "me" ? session?.user?.id : assignee;
+      filtered = filtered.filter(
+        (task) => !!assigneeId && !!task.assigneeIds?.includes(assigneeId)
+      );
+    }
+
     // Apply search filter
     if (search) {
       const searchLower = search.toLowerCase();
@@ -168,7 +206,7 @@ export function useTasks({
       total: filtered.length,
       totalPages: Math.ceil(filtered.length / prev.limit),
     }));
-  }, [tasks, currentFilters]);
+  }, [tasks, currentFilters, session?.user?.id]);
 
   // Fetch tasks based on filters
   const fetchTasks = useCallback(
@@ -0,0 +1,66 @@
+import { Session } from "next-auth";
+import dbConnect from "@/lib/db/connect";
+import {
+  findPrefixedToken,
+  generatePrefixedToken,
+} from "@/lib/prefixed-tokens";
+import AccessToken from "@/models/access-token.model";
+import User from "@/models/user.model";
+
+// Marks a string as a personal access token, e.g. for secret scanners
+const TOKEN_PREFIX = "pat_";
+
+// The last-used time is refreshed at most this often, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Generates a new personal access token of the form `pat_<id>_<secret>`
+ */
+export function generateAccessToken() {
+  return generatePrefixedToken(TOKEN_PREFIX);
+}
+
+/**
+ * Resolves a bearer token to a session of the user who created it.
+ * The session carries the token's scope in `tokenScope`.
+ *
+ * @returns The session, or null when the token is malformed, unknown or expired
+ */
+export async function getAccessTokenSession(
+  token: string
+): Promise<Session | null> {
+  await dbConnect();
+
+  const accessToken = await findPrefixedToken(token, TOKEN_PREFIX, AccessToken);
+  const now = new Date();
+
+  if (!accessToken || accessToken.expiresAt <= now) return null;
+
+  const user = await User.findById(accessToken.userId)
+    .select("name email role image")
+    .exec();
+
+  if (!user) return null;
+
+  if (
+    !accessToken.lastUsedAt ||
+    now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await AccessToken.updateOne(
+      { _id: accessToken._id },
+      { $set: { lastUsedAt: now } }
+    ).exec();
+  }
+
+  return {
+    user: {
+      id: user._id.toString(),
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      image: user.image,
+    },
+    expires: accessToken.expiresAt.toISOString(),
+    tokenScope: accessToken.scope,
+  };
+}
@@ -0,0 +1,133 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { getSession } from "@/lib/get-session";
+import { generateAccessToken } from "@/lib/access-tokens";
+import dbConnect from "@/lib/db/connect";
+import AccessToken from "@/models/access-token.model";
+import { serializeData } from "@/lib/utils/serialize";
+import { accessTokenCreateSchema } from "@/lib/validations/access-token";
+
+// Most personal access tokens a user may hold at once
+const MAX_ACCESS_TOKENS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type AccessTokenDocument = InstanceType<typeof AccessToken>;
+
+// Resolve the signed-in user. Tokens are managed from the web app only,
+// so a request authenticated with a token cannot create or revoke tokens.
+async function getTokenOwnerId() {
+  const session = await getSession();
+
+  if (!session?.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (session.tokenScope) {
+    throw new Error("Access denied");
+  }
+
+  await dbConnect();
+
+  return session.user.id;
+}
+
+// Format an access token for the client, without its hash
+function formatAccessToken(accessToken: AccessTokenDocument) {
+  return {
+    id: accessToken._id.toString(),
+    name: accessToken.name,
+    scope: accessToken.scope,
+    prefix: accessToken.prefix,
+    expiresAt: accessToken.expiresAt,
+    lastUsedAt: accessToken.lastUsedAt,
+    createdAt: accessToken.createdAt,
+  };
+}
+
+// Get the personal access tokens of the current user, newest first
+export async function getAccessTokens() {
+  try {
+    const userId = await getTokenOwnerId();
+
+    const accessTokens = await AccessToken.find({ userId })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return serializeData(accessTokens.map(formatAccessToken));
+  } catch (error) {
+    console.error("Error fetching access tokens:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch access tokens"
+    );
+  }
+}
+
+// Create a personal access token. The token is only ever returned here.
+export async function createAccessToken(
+  data: z.infer<typeof accessTokenCreateSchema>
+) {
+  try {
+    const userId = await getTokenOwnerId();
+
+    // Validate token data
+    const result = accessTokenCreateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const tokenCount = await AccessToken.countDocuments({ userId }).exec();
+
+    if (tokenCount >= MAX_ACCESS_TOKENS) {
+      throw new Error(
+        `You can have at most ${MAX_ACCESS_TOKENS} access tokens. Revoke one first`
+      );
+    }
+
+    const { token, prefix, secretHash } = await generateAccessToken();
+    const accessToken = await AccessToken.create({
+      userId,
+      name: result.data.name,
+      scope: result.data.scope,
+      prefix,
+      secretHash,
+      expiresAt: new Date(Date.now() + result.data.expiresInDays * DAY_MS),
+    });
+
+    revalidatePath("/dashboard/profile");
+
+    return serializeData({ ...formatAccessToken(accessToken), token });
+  } catch (error) {
+    console.error("Error creating access token:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create access token"
+    );
+  }
+}
+
+// Revoke a personal access token of the current user
+export async function revokeAccessToken(id: string) {
+  try {
+    const userId = await getTokenOwnerId();
+
+    const accessToken = await AccessToken.findOneAndDelete({
+      _id: id,
+      userId,
+    }).exec();
+
+    if (!accessToken) {
+      throw new Error("Access token not found");
+    }
+
+    revalidatePath("/dashboard/profile");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking access token:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to revoke access token"
+    );
+  }
+}
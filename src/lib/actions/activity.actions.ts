@@ -0,0 +1,125 @@
+"use server";
+
+import { getWorkspaceContext } from "@/lib/workspace";
+import Activity from "@/models/activity.model";
+import Category from "@/models/category.model";
+import Task from "@/models/task.model";
+import User from "@/models/user.model";
+import { ActivityChange, TaskAssignee, WorkspaceRole } from "@/types";
+import { serializeData } from "@/lib/utils/serialize";
+
+// Most entries returned by a single activity request
+const MAX_ACTIVITY_LIMIT = 100;
+
+type ActivityDocument = InstanceType<typeof Activity>;
+
+// Format activity entries for the client, resolving the acting users and
+// replacing category ids in changes with the category names
+async function formatActivities(activities: ActivityDocument[]) {
+  const userIds = Array.from(
+    new Set(activities.map((activity) => activity.userId.toString()))
+  );
+  const categoryIds = Array.from(
+    new Set(
+      activities.flatMap((activity) =>
+        activity.changes
+          .filter((change: ActivityChange) => change.field === "categoryId")
+          .flatMap((change: ActivityChange) => [change.from, change.to])
+          .filter(Boolean)
+      )
+    )
+  );
+
+  const [users, categories] = await Promise.all([
+    userIds.length > 0
+      ? User.find({ _id: { $in: userIds } })
+          .select("_id name image")
+          .exec()
+      : [],
+    categoryIds.length > 0
+      ? Category.find({ _id: { $in: categoryIds } })
+          .select("_id name")
+          .exec()
+      : [],
+  ]);
+
+  const usersById: Record<string, TaskAssignee> = Object.fromEntries(
+    users.map((user) => [
+      user._id.toString(),
+      { id: user._id.toString(), name: user.name, image: user.image },
+    ])
+  );
+  const categoryNames: Record<string, string> = Object.fromEntries(
+    categories.map((category) => [category._id.toString(), category.name])
+  );
+  const categoryName = (id: string | number | null) =>
+    id === null ? null : categoryNames[id] || "Deleted category";
+
+  return activities.map((activity) => ({
+    id: activity._id.toString(),
+    workspaceId: activity.workspaceId.toString(),
+    entityType: activity.entityType,
+    entityId: activity.entityId.toString(),
+    entityName: activity.entityName,
+    action: activity.action,
+    changes: activity.changes.map((change: ActivityChange) =>
+      change.field === "categoryId"
+        ? {
+            field: change.field,
+            from: categoryName(change.from),
+            to: categoryName(change.to),
+          }
+        : { field: change.field, from: change.from, to: change.to }
+    ),
+    actor: usersById[activity.userId.toString()] || null,
+    createdAt: activity.createdAt,
+  }));
+}
+
+// Get the history of a task, newest first
+export async function getTaskActivity(taskId: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const task = await Task.findOne({ _id: taskId, workspaceId })
+      .select("_id")
+      .exec();
+
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    const activities = await Activity.find({ workspaceId, entityId: task._id })
+      .sort({ createdAt: -1 })
+      .limit(MAX_ACTIVITY_LIMIT)
+      .exec();
+
+    return serializeData(await formatActivities(activities));
+  } catch (error) {
+    console.error("Error fetching task activity:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch task activity"
+    );
+  }
+}
+
+// Get the latest changes across the current workspace, newest first
+export async function getRecentActivity({
+  limit = 20,
+}: { limit?: number } = {}) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const activities = await Activity.find({ workspaceId })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), MAX_ACTIVITY_LIMIT))
+      .exec();
+
+    return serializeData(await formatActivities(activities));
+  } catch (error) {
+    console.error("Error fetching recent activity:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch recent activity"
+    );
+  }
+}
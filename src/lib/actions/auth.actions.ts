@@ -5,19 +5,7 @@ import bcrypt from "bcryptjs";
 import dbConnect from "@/lib/db/connect";
 import User from "@/models/user.model";
 import { revalidatePath } from "next/cache";
-
-// Input validation schema
-const registerSchema = z.object({
-  name: z
-    .string()
-    .min(2, "Name must be at least 2 characters long")
-    .max(50, "Name cannot exceed 50 characters"),
-  email: z.string().email("Invalid email address"),
-  password: z
-    .string()
-    .min(8, "Password must be at least 8 characters long")
-    .max(100, "Password is too long"),
-});
+import { registerSchema } from "@/lib/validations/auth";
 
 export async function registerUser(data: z.infer<typeof registerSchema>) {
   try {
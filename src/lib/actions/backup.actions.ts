@@ -0,0 +1,385 @@
+"use server";
+
+import { Types } from "mongoose";
+import { revalidatePath } from "next/cache";
+import { getWorkspaceContext } from "@/lib/workspace";
+import { recordActivity } from "@/lib/activity";
+import User from "@/models/user.model";
+import Task from "@/models/task.model";
+import Category from "@/models/category.model";
+import { serializeData } from "@/lib/utils/serialize";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  MAX_BACKUP_CATEGORIES,
+  MAX_BACKUP_TASKS,
+  backupArchiveSchema,
+  backupRestoreOptionsSchema,
+} from "@/lib/validations/backup";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  BackupArchive,
+  BackupCategoryConflict,
+  BackupRestoreOptions,
+  TaskStatus,
+  WorkspaceRole,
+} from "@/types";
+
+type TaskDocument = InstanceType<typeof Task>;
+
+const toIsoDate = (date?: Date | null) => (date ? date.toISOString() : null);
+
+// Longest category name the model accepts
+const MAX_CATEGORY_NAME_LENGTH = 30;
+
+// First free "Name (n)" variant of a category name, kept within the length limit
+function getNumberedName(name: string, takenNames: Set<string>) {
+  for (let n = 2; ; n++) {
+    const suffix = ` (${n})`;
+    const candidate = `${name
+      .slice(0, MAX_CATEGORY_NAME_LENGTH - suffix.length)
+      .trim()}${suffix}`;
+
+    if (!takenNames.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+// Format a task for the archive
+function toBackupTask(task: TaskDocument) {
+  const recurrence = task.recurrence;
+
+  return {
+    id: task._id.toString(),
+    title: task.title,
+    description: task.description || undefined,
+    status: task.status,
+    priority: task.priority,
+    dueDate: toIsoDate(task.dueDate),
+    categoryId: task.categoryId?.toString() ?? null,
+    parentTaskId: task.parentTaskId?.toString() ?? null,
+    position: task.position,
+    recurrence: recurrence
+      ? {
+          frequency: recurrence.frequency,
+          interval: recurrence.interval,
+          weekdays: recurrence.weekdays?.length
+            ? [...recurrence.weekdays]
+            : undefined,
+          monthDay: recurrence.monthDay ?? null,
+          count: recurrence.count ?? null,
+          until: toIsoDate(recurrence.until),
+          timeZone: recurrence.timeZone || undefined,
+          occurrence: recurrence.occurrence,
+        }
+      : null,
+    estimateMinutes: task.estimateMinutes ?? null,
+    assigneeIds: task.assigneeIds.map((id: Types.ObjectId) => id.toString()),
+    blockedBy: task.blockedBy.map((id: Types.ObjectId) => id.toString()),
+    startedAt: toIsoDate(task.startedAt),
+    completedAt: toIsoDate(task.completedAt),
+    nextOccurrenceId: task.nextOccurrenceId?.toString() ?? null,
+    createdAt: toIsoDate(task.createdAt) ?? undefined,
+  };
+}
+
+// Build a backup of the user's profile and the categories and tasks of the
+// current workspace. Items in the trash are left out.
+export async function exportBackup(): Promise<BackupArchive> {
+  try {
+    const { userId, workspace, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.VIEWER
+    );
+
+    const user = await User.findById(userId).exec();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const [categoryCount, taskCount] = await Promise.all([
+      Category.countDocuments({ workspaceId }).exec(),
+      Task.countDocuments({ workspaceId }).exec(),
+    ]);
+
+    if (categoryCount > MAX_BACKUP_CATEGORIES || taskCount > MAX_BACKUP_TASKS) {
+      throw new Error(
+        `A backup can hold at most ${MAX_BACKUP_CATEGORIES} categories and ${MAX_BACKUP_TASKS} tasks`
+      );
+    }
+
+    const categories = await Category.find({ workspaceId })
+      .sort({ createdAt: 1 })
+      .exec();
+    const tasks = await Task.find({ workspaceId })
+      .sort({ createdAt: 1 })
+      .exec();
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      profile: {
+        name: user.name,
+        email: user.email,
+        image: user.image || null,
+      },
+      workspace: {
+        name: workspace.name,
+      },
+      categories: categories.map((category) => ({
+        id: category._id.toString(),
+        name: category.name,
+        createdAt: toIsoDate(category.createdAt) ?? undefined,
+      })),
+      tasks: tasks.map(toBackupTask),
+    };
+  } catch (error) {
+    console.error("Error exporting backup:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to export backup"
+    );
+  }
+}
+
+// Restore a backup into the current workspace, which may belong to another
+// account than the one it was taken from. Every record gets a new id, and
+// links between tasks, subtasks and categories are remapped onto them.
+export async function restoreBackup(
+  archive: unknown,
+  options: BackupRestoreOptions
+) {
+  try {
+    const { userId, workspace, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const result = backupArchiveSchema.safeParse(archive);
+    if (!result.success) {
+      const [issue] = result.error.issues;
+      throw new Error(
+        `Invalid backup: ${
+          issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""
+        }${issue.message}`
+      );
+    }
+
+    const optionsResult = backupRestoreOptionsSchema.safeParse(options);
+    if (!optionsResult.success) {
+      throw new Error(JSON.stringify(optionsResult.error.flatten()));
+    }
+
+    const backup = result.data;
+    const { categoryConflict, restoreProfile } = optionsResult.data;
+
+    // Names stay taken in the unique index while their category is in the
+    // trash, so trashed categories can only be renamed around, never merged
+    const categories = await Category.find({ workspaceId })
+      .select("name")
+      .exec();
+    const trashedCategories = await Category.find({
+      workspaceId,
+      deletedAt: { $ne: null },
+    })
+      .select("name")
+      .exec();
+
+    const liveIds = new Map<string, Types.ObjectId>(
+      categories.map((category) => [category.name.toLowerCase(), category._id])
+    );
+    const takenNames = new Set<string>([
+      ...liveIds.keys(),
+      ...trashedCategories.map((category) => category.name.toLowerCase()),
+    ]);
+
+    // New id of each archived category
+    const categoryIds = new Map<string, Types.ObjectId>();
+    const newCategories: {
+      _id: Types.ObjectId;
+      name: string;
+      createdAt?: Date;
+    }[] = [];
+    const mergedCategories: string[] = [];
+    const renamedCategories: { from: string; to: string }[] = [];
+
+    for (const category of backup.categories) {
+      const key = category.name.toLowerCase();
+      const existingId = liveIds.get(key);
+
+      if (existingId && categoryConflict === BackupCategoryConflict.MERGE) {
+        categoryIds.set(category.id, existingId);
+        mergedCategories.push(category.name);
+        continue;
+      }
+
+      const name = takenNames.has(key)
+        ? getNumberedName(category.name, takenNames)
+        : category.name;
+
+      if (name !== category.name) {
+        renamedCategories.push({ from: category.name, to: name });
+      }
+
+      const id = new Types.ObjectId();
+      categoryIds.set(category.id, id);
+      takenNames.add(name.toLowerCase());
+      liveIds.set(name.toLowerCase(), id);
+      newCategories.push({
+        _id: id,
+        name,
+        createdAt: category.createdAt
+          ? new Date(category.createdAt)
+          : undefined,
+      });
+    }
+
+    const createdCategories = await Category.insertMany(
+      newCategories.map((category) => ({ ...category, userId, workspaceId }))
+    );
+
+    // New id of each archived task
+    const taskIds = new Map<string, Types.ObjectId>(
+      backup.tasks.map((task) => [task.id, new Types.ObjectId()])
+    );
+    const archivedParents = new Map(
+      backup.tasks.map((task) => [task.id, task.parentTaskId])
+    );
+    const memberIds = new Set<string>(
+      workspace.members.map((member: { userId: Types.ObjectId }) =>
+        member.userId.toString()
+      )
+    );
+
+    // Keep a parent only if it was restored too and is itself top-level, as
+    // only one level of nesting is supported
+    const getParentKey = (task: (typeof backup.tasks)[number]) =>
+      task.parentTaskId &&
+      archivedParents.has(task.parentTaskId) &&
+      !archivedParents.get(task.parentTaskId)
+        ? task.parentTaskId
+        : null;
+
+    // Restored top-level tasks go below the tasks already on the board,
+    // keeping their order within each column
+    const topLevelTasks = backup.tasks
+      .filter((task) => !getParentKey(task))
+      .sort((a, b) => a.position - b.position);
+    const positions = new Map<string, number>();
+
+    for (const status of Object.values(TaskStatus)) {
+      const last = await Task.findOne({
+        workspaceId,
+        parentTaskId: null,
+        status,
+      })
+        .sort({ position: -1 })
+        .select("position")
+        .exec();
+      let position = last ? last.position + 1 : 0;
+
+      topLevelTasks
+        .filter((task) => task.status === status)
+        .forEach((task) => positions.set(task.id, position++));
+    }
+
+    const tasks = await Task.insertMany(
+      backup.tasks.map((task) => {
+        const parentKey = getParentKey(task);
+
+        return {
+          _id: taskIds.get(task.id),
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          priority: task.priority,
+          dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+          categoryId: task.categoryId
+            ? categoryIds.get(task.categoryId)
+            : undefined,
+          userId,
+          workspaceId,
+          parentTaskId: parentKey ? taskIds.get(parentKey) : null,
+          position: positions.get(task.id) ?? task.position,
+          recurrence: task.recurrence
+            ? {
+                ...task.recurrence,
+                until: task.recurrence.until
+                  ? new Date(task.recurrence.until)
+                  : undefined,
+              }
+            : null,
+          estimateMinutes: task.estimateMinutes ?? null,
+          // Assignees are kept only if they are members of this workspace
+          assigneeIds: task.assigneeIds.filter((id) => memberIds.has(id)),
+          blockedBy: task.blockedBy.flatMap((id) => {
+            const blockerId = taskIds.get(id);
+            return blockerId && id !== task.id ? [blockerId] : [];
+          }),
+          startedAt: task.startedAt ? new Date(task.startedAt) : null,
+          completedAt: task.completedAt ? new Date(task.completedAt) : null,
+          nextOccurrenceId: task.nextOccurrenceId
+            ? taskIds.get(task.nextOccurrenceId) ?? null
+            : null,
+          createdAt: task.createdAt ? new Date(task.createdAt) : undefined,
+        };
+      })
+    ).catch(async (error) => {
+      // Leave no categories of a failed restore behind
+      await Category.deleteMany({
+        _id: { $in: newCategories.map((category) => category._id) },
+      }).exec();
+      throw error;
+    });
+
+    let profileRestored = false;
+
+    if (restoreProfile) {
+      await User.updateOne(
+        { _id: userId },
+        {
+          $set: {
+            name: backup.profile.name,
+            image: backup.profile.image || null,
+          },
+        }
+      ).exec();
+      profileRestored = true;
+    }
+
+    await recordActivity([
+      ...createdCategories.map((category) => ({
+        workspaceId,
+        userId,
+        entityType: ActivityEntityType.CATEGORY,
+        entityId: category._id,
+        entityName: category.name,
+        action: ActivityAction.CREATED,
+      })),
+      ...tasks.map((task) => ({
+        workspaceId,
+        userId,
+        entityType: ActivityEntityType.TASK,
+        entityId: task._id,
+        entityName: task.title,
+        action: ActivityAction.CREATED,
+      })),
+    ]);
+
+    revalidatePath("/dashboard");
+    revalidatePath("/dashboard/tasks");
+    revalidatePath("/dashboard/categories");
+
+    return serializeData({
+      tasks: tasks.length,
+      createdCategories: createdCategories.map((category) => category.name),
+      mergedCategories,
+      renamedCategories,
+      profileRestored,
+    });
+  } catch (error) {
+    console.error("Error restoring backup:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to restore backup"
+    );
+  }
+}
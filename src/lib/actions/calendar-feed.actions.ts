@@ -0,0 +1,174 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { getSession } from "@/lib/get-session";
+import { getWorkspaceContext } from "@/lib/workspace";
+import { generateCalendarFeedToken } from "@/lib/calendar-feeds";
+import dbConnect from "@/lib/db/connect";
+import CalendarFeed from "@/models/calendar-feed.model";
+// Registers the model that populate resolves workspace names from
+import "@/models/workspace.model";
+import { serializeData } from "@/lib/utils/serialize";
+import { calendarFeedCreateSchema } from "@/lib/validations/calendar-feed";
+
+type CalendarFeedDocument = InstanceType<typeof CalendarFeed>;
+
+// Resolve the signed-in user. Feeds are managed from the web app only,
+// so a request authenticated with an access token cannot manage them.
+async function getFeedOwnerId() {
+  const session = await getSession();
+
+  if (!session?.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (session.tokenScope) {
+    throw new Error("Access denied");
+  }
+
+  await dbConnect();
+
+  return session.user.id;
+}
+
+// Format a feed for the client, without its hash. The workspace must be
+// populated with its name.
+function formatCalendarFeed(feed: CalendarFeedDocument) {
+  return {
+    id: feed._id.toString(),
+    workspaceId: feed.workspaceId._id.toString(),
+    workspaceName: feed.workspaceId.name,
+    prefix: feed.prefix,
+    timeZone: feed.timeZone,
+    lastUsedAt: feed.lastUsedAt,
+    createdAt: feed.createdAt,
+    updatedAt: feed.updatedAt,
+  };
+}
+
+// Get the calendar feeds of the current user, one per workspace at most
+export async function getCalendarFeeds() {
+  try {
+    const userId = await getFeedOwnerId();
+
+    const feeds = await CalendarFeed.find({ userId })
+      .sort({ createdAt: -1 })
+      .populate("workspaceId", "name")
+      .exec();
+
+    // Feeds of deleted workspaces have nothing left to show
+    return serializeData(
+      feeds
+        .filter((feed: CalendarFeedDocument) => feed.workspaceId)
+        .map(formatCalendarFeed)
+    );
+  } catch (error) {
+    console.error("Error fetching calendar feeds:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch calendar feeds"
+    );
+  }
+}
+
+// Create the calendar feed of the current workspace, or give the existing
+// one a new token. The token is only ever returned here and by
+// regenerateCalendarFeed.
+export async function createCalendarFeed(
+  data: z.infer<typeof calendarFeedCreateSchema>
+) {
+  try {
+    const { session, userId, workspaceId } = await getWorkspaceContext();
+
+    if (session.tokenScope) {
+      throw new Error("Access denied");
+    }
+
+    // Validate feed data
+    const result = calendarFeedCreateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const { token, prefix, secretHash } = await generateCalendarFeedToken();
+    const feed = await CalendarFeed.findOneAndUpdate(
+      { userId, workspaceId },
+      {
+        $set: {
+          prefix,
+          secretHash,
+          timeZone: result.data.timeZone,
+          lastUsedAt: null,
+        },
+      },
+      { upsert: true, new: true }
+    )
+      .populate("workspaceId", "name")
+      .exec();
+
+    revalidatePath("/dashboard/profile");
+
+    return serializeData({ ...formatCalendarFeed(feed), token });
+  } catch (error) {
+    console.error("Error creating calendar feed:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create calendar feed"
+    );
+  }
+}
+
+// Replace the token of a calendar feed, so the old URL stops working
+export async function regenerateCalendarFeed(id: string) {
+  try {
+    const userId = await getFeedOwnerId();
+
+    const { token, prefix, secretHash } = await generateCalendarFeedToken();
+    const feed = await CalendarFeed.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: { prefix, secretHash, lastUsedAt: null } },
+      { new: true }
+    )
+      .populate("workspaceId", "name")
+      .exec();
+
+    if (!feed) {
+      throw new Error("Calendar feed not found");
+    }
+
+    revalidatePath("/dashboard/profile");
+
+    return serializeData({ ...formatCalendarFeed(feed), token });
+  } catch (error) {
+    console.error("Error regenerating calendar feed:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Failed to regenerate calendar feed"
+    );
+  }
+}
+
+// Revoke a calendar feed of the current user
+export async function revokeCalendarFeed(id: string) {
+  try {
+    const userId = await getFeedOwnerId();
+
+    const feed = await CalendarFeed.findOneAndDelete({
+      _id: id,
+      userId,
+    }).exec();
+
+    if (!feed) {
+      throw new Error("Calendar feed not found");
+    }
+
+    revalidatePath("/dashboard/profile");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking calendar feed:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to revoke calendar feed"
+    );
+  }
+}
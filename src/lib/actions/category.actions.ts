@@ -1,33 +1,35 @@
 "use server";
 
 import { z } from "zod";
-import { getSession } from "@/lib/get-session";
-import dbConnect from "@/lib/db/connect";
+import { getWorkspaceContext } from "@/lib/workspace";
+import { diffFields, recordActivity } from "@/lib/activity";
 import Category from "@/models/category.model";
+import { ActivityAction, ActivityEntityType, WorkspaceRole } from "@/types";
 import { revalidatePath } from "next/cache";
 import { serializeData } from "@/lib/utils/serialize";
+import { categoryCreateSchema } from "@/lib/validations/category";
 
-// Category validation schema
-const categoryCreateSchema = z.object({
-  name: z
-    .string()
-    .min(2, "Category name must be at least 2 characters long")
-    .max(30, "Category name cannot exceed 30 characters")
-    .trim(),
-});
+// Category names stay taken while a category with that name is in the trash
+async function assertNameNotInTrash(name: string, workspaceId: string) {
+  const trashedCategory = await Category.findOne({
+    name,
+    workspaceId,
+    deletedAt: { $ne: null },
+  }).exec();
 
-// Get all categories for the current user
+  if (trashedCategory) {
+    throw new Error(
+      "A category with this name is in the trash. Restore it or delete it permanently first"
+    );
+  }
+}
+
+// Get all categories of the current workspace
 export async function getCategories() {
   try {
-    const session = await getSession();
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
 
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
-    await dbConnect();
-
-    const categories = await Category.find({ userId: session.user.id })
+    const categories = await Category.find({ workspaceId })
       .sort({ name: 1 })
       .exec();
 
@@ -51,17 +53,11 @@ export async function getCategories() {
 // Get a single category by ID
 export async function getCategoryById(id: string) {
   try {
-    const session = await getSession();
-
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
-    await dbConnect();
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
 
     const category = await Category.findOne({
       _id: id,
-      userId: session.user.id,
+      workspaceId,
     }).exec();
 
     if (!category) {
@@ -88,11 +84,9 @@ export async function createCategory(
   data: z.infer<typeof categoryCreateSchema>
 ) {
   try {
-    const session = await getSession();
-
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
 
     // Validate category data
     const result = categoryCreateSchema.safeParse(data);
@@ -102,22 +96,32 @@ export async function createCategory(
 
     const { name } = result.data;
 
-    await dbConnect();
-
-    // Check if category with same name already exists for this user
+    // Check if category with same name already exists in this workspace
     const existingCategory = await Category.findOne({
       name,
-      userId: session.user.id,
+      workspaceId,
     }).exec();
 
     if (existingCategory) {
       throw new Error("Category with this name already exists");
     }
 
+    await assertNameNotInTrash(name, workspaceId);
+
     // Create the category
     const newCategory = await Category.create({
       name,
-      userId: session.user.id,
+      userId,
+      workspaceId,
+    });
+
+    await recordActivity({
+      workspaceId,
+      userId,
+      entityType: ActivityEntityType.CATEGORY,
+      entityId: newCategory._id,
+      entityName: newCategory.name,
+      action: ActivityAction.CREATED,
     });
 
     revalidatePath("/dashboard/categories");
@@ -143,11 +147,9 @@ export async function updateCategory(
   data: z.infer<typeof categoryCreateSchema>
 ) {
   try {
-    const session = await getSession();
-
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
 
     // Validate update data
     const result = categoryCreateSchema.safeParse(data);
@@ -157,29 +159,48 @@ export async function updateCategory(
 
     const { name } = result.data;
 
-    await dbConnect();
-
-    // Check if category with same name already exists for this user (excluding current category)
+    // Check if category with same name already exists in this workspace (excluding current category)
     const existingCategory = await Category.findOne({
       _id: { $ne: id },
       name,
-      userId: session.user.id,
+      workspaceId,
     }).exec();
 
     if (existingCategory) {
       throw new Error("Category with this name already exists");
     }
 
+    await assertNameNotInTrash(name, workspaceId);
+
+    const previousCategory = await Category.findOne({
+      _id: id,
+      workspaceId,
+    }).exec();
+
     const updatedCategory = await Category.findOneAndUpdate(
-      { _id: id, userId: session.user.id },
+      { _id: id, workspaceId },
       { name },
       { new: true }
     ).exec();
 
-    if (!updatedCategory) {
+    if (!previousCategory || !updatedCategory) {
       throw new Error("Category not found");
     }
 
+    await recordActivity({
+      workspaceId,
+      userId,
+      entityType: ActivityEntityType.CATEGORY,
+      entityId: updatedCategory._id,
+      entityName: updatedCategory.name,
+      action: ActivityAction.UPDATED,
+      changes: diffFields(
+        previousCategory.toObject(),
+        updatedCategory.toObject(),
+        ["name"]
+      ),
+    });
+
     revalidatePath("/dashboard/categories");
 
     // Serialize response
@@ -197,26 +218,31 @@ export async function updateCategory(
   }
 }
 
-// Delete a category
+// Move a category to the trash
 export async function deleteCategory(id: string) {
   try {
-    const session = await getSession();
-
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
-    await dbConnect();
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
 
-    const deletedCategory = await Category.findOneAndDelete({
-      _id: id,
-      userId: session.user.id,
-    }).exec();
+    const deletedCategory = await Category.findOneAndUpdate(
+      { _id: id, workspaceId },
+      { $set: { deletedAt: new Date() } }
+    ).exec();
 
     if (!deletedCategory) {
       throw new Error("Category not found");
     }
 
+    await recordActivity({
+      workspaceId,
+      userId,
+      entityType: ActivityEntityType.CATEGORY,
+      entityId: deletedCategory._id,
+      entityName: deletedCategory.name,
+      action: ActivityAction.DELETED,
+    });
+
     revalidatePath("/dashboard/categories");
 
     return { success: true };
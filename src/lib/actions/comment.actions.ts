@@ -0,0 +1,267 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { getWorkspaceContext } from "@/lib/workspace";
+import Comment from "@/models/comment.model";
+import Task from "@/models/task.model";
+import User from "@/models/user.model";
+import { TaskAssignee, WorkspaceRole } from "@/types";
+import { serializeData } from "@/lib/utils/serialize";
+import { Mentionable, findMentions } from "@/lib/utils/mentions";
+import {
+  commentCreateSchema,
+  commentUpdateSchema,
+} from "@/lib/validations/comment";
+
+// Most comments returned for a single task, the latest ones
+const MAX_THREAD_COMMENTS = 1000;
+
+type CommentDocument = InstanceType<typeof Comment>;
+type WorkspaceDocument = Awaited<
+  ReturnType<typeof getWorkspaceContext>
+>["workspace"];
+
+// Verify that a task belongs to the workspace, trashed tasks excluded
+async function findCommentedTask(taskId: string, workspaceId: string) {
+  const task = await Task.findOne({ _id: taskId, workspaceId })
+    .select("_id")
+    .exec();
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  return task;
+}
+
+// Load a comment of the workspace whose task is not in the trash
+async function findWorkspaceComment(id: string, workspaceId: string) {
+  const comment = await Comment.findOne({ _id: id, workspaceId }).exec();
+
+  if (!comment) {
+    throw new Error("Comment not found");
+  }
+
+  await findCommentedTask(comment.taskId.toString(), workspaceId);
+
+  return comment;
+}
+
+// The members of a workspace, who are the users with access to its tasks
+// and so the only ones a comment can mention
+async function getMentionableMembers(
+  workspace: WorkspaceDocument
+): Promise<Mentionable[]> {
+  const users = await User.find({
+    _id: {
+      $in: workspace.members.map(
+        (member: { userId: unknown }) => member.userId
+      ),
+    },
+  })
+    .select("_id name email")
+    .exec();
+
+  return users.map((user) => ({
+    userId: user._id.toString(),
+    name: user.name,
+    email: user.email,
+  }));
+}
+
+// Format comments for the client, resolving their authors and mentions
+async function formatComments(comments: CommentDocument[]) {
+  const userIds = Array.from(
+    new Set(
+      comments.flatMap((comment) => [
+        comment.userId.toString(),
+        ...comment.mentions.map((id: { toString(): string }) => id.toString()),
+      ])
+    )
+  );
+
+  const users =
+    userIds.length > 0
+      ? await User.find({ _id: { $in: userIds } })
+          .select("_id name image")
+          .exec()
+      : [];
+  const usersById: Record<string, TaskAssignee> = Object.fromEntries(
+    users.map((user) => [
+      user._id.toString(),
+      { id: user._id.toString(), name: user.name, image: user.image },
+    ])
+  );
+
+  return comments.map((comment) => ({
+    id: comment._id.toString(),
+    taskId: comment.taskId.toString(),
+    parentId: comment.parentId ? comment.parentId.toString() : null,
+    body: comment.body,
+    author: usersById[comment.userId.toString()] || null,
+    mentions: comment.mentions
+      .map((id: { toString(): string }) => usersById[id.toString()])
+      .filter(Boolean),
+    editedAt: comment.editedAt,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+  }));
+}
+
+// Get the comments of a task, oldest first
+export async function getTaskComments(taskId: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const task = await findCommentedTask(taskId, workspaceId);
+
+    const comments = await Comment.find({ taskId: task._id })
+      .sort({ createdAt: -1 })
+      .limit(MAX_THREAD_COMMENTS)
+      .exec();
+
+    return serializeData(await formatComments(comments.reverse()));
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch comments"
+    );
+  }
+}
+
+// Comment on a task, or reply to a comment. Replies to a reply join the
+// thread of its top-level comment.
+export async function createComment(
+  taskId: string,
+  data: z.infer<typeof commentCreateSchema>
+) {
+  try {
+    const { userId, workspace, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    // Validate comment data
+    const result = commentCreateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const task = await findCommentedTask(taskId, workspaceId);
+
+    let parentId = null;
+    if (result.data.parentId) {
+      const parent = await Comment.findOne({
+        _id: result.data.parentId,
+        taskId: task._id,
+      }).exec();
+
+      if (!parent) {
+        throw new Error("Comment not found");
+      }
+
+      parentId = parent.parentId || parent._id;
+    }
+
+    const mentions = findMentions(
+      result.data.body,
+      await getMentionableMembers(workspace)
+    );
+
+    const comment = await Comment.create({
+      workspaceId,
+      taskId: task._id,
+      userId,
+      parentId,
+      body: result.data.body,
+      mentions: mentions.map((member) => member.userId),
+    });
+
+    revalidatePath("/dashboard/tasks");
+
+    const [formatted] = await formatComments([comment]);
+    return serializeData(formatted);
+  } catch (error) {
+    console.error("Error creating comment:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create comment"
+    );
+  }
+}
+
+// Edit a comment; only its author can
+export async function updateComment(
+  id: string,
+  data: z.infer<typeof commentUpdateSchema>
+) {
+  try {
+    const { userId, workspace, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    // Validate comment data
+    const result = commentUpdateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const comment = await findWorkspaceComment(id, workspaceId);
+
+    if (comment.userId.toString() !== userId) {
+      throw new Error("Only the author can edit a comment");
+    }
+
+    if (comment.body !== result.data.body) {
+      const mentions = findMentions(
+        result.data.body,
+        await getMentionableMembers(workspace)
+      );
+
+      comment.body = result.data.body;
+      comment.mentions = mentions.map((member) => member.userId);
+      comment.editedAt = new Date();
+      await comment.save();
+    }
+
+    revalidatePath("/dashboard/tasks");
+
+    const [formatted] = await formatComments([comment]);
+    return serializeData(formatted);
+  } catch (error) {
+    console.error("Error updating comment:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to update comment"
+    );
+  }
+}
+
+// Delete a comment together with its replies. Authors can delete their own
+// comments, and the workspace owner any comment.
+export async function deleteComment(id: string) {
+  try {
+    const { userId, workspaceId, role } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const comment = await findWorkspaceComment(id, workspaceId);
+
+    if (comment.userId.toString() !== userId && role !== WorkspaceRole.OWNER) {
+      throw new Error(
+        "Only the author or the workspace owner can delete a comment"
+      );
+    }
+
+    await Comment.deleteMany({
+      $or: [{ _id: comment._id }, { parentId: comment._id }],
+    }).exec();
+
+    revalidatePath("/dashboard/tasks");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to delete comment"
+    );
+  }
+}
@@ -1,51 +1,587 @@
 "use server";
 
 import { z } from "zod";
-import { getSession } from "@/lib/get-session";
-import dbConnect from "@/lib/db/connect";
+import mongoose from "mongoose";
+import { getMemberRole, getWorkspaceContext } from "@/lib/workspace";
+import { diffFields, recordActivity } from "@/lib/activity";
+import {
+  SubtaskSnapshot,
+  TaskRevision,
+  createUndoToken,
+  readUndoToken,
+} from "@/lib/undo";
 import Task from "@/models/task.model";
-import { TaskPriority, TaskStatus } from "@/types";
+import Category from "@/models/category.model";
+import User from "@/models/user.model";
+import Comment from "@/models/comment.model";
+import TimeEntry from "@/models/time-entry.model";
+import {
+  ActivityAction,
+  BulkTaskChanges,
+  BulkTaskResult,
+  BulkTaskSelection,
+  ActivityChange,
+  ActivityEntityType,
+  DailyTaskTrend,
+  DashboardStats,
+  RecurrenceFrequency,
+  SubtaskProgress,
+  TaskAnalytics,
+  TaskAssignee,
+  TaskImportRow,
+  TaskImportRowError,
+  TaskPriority,
+  TaskQueryFilter,
+  TaskReference,
+  TaskStatus,
+  WeeklyThroughput,
+  WorkspaceRole,
+} from "@/types";
 import { revalidatePath } from "next/cache";
 import { serializeData } from "@/lib/utils/serialize";
+import { getNextOccurrence } from "@/lib/utils/recurrence";
+import { DUE_SOON_DAYS } from "@/lib/utils/due-dates";
+import { CsvCell, toCsv } from "@/lib/utils/csv";
+import { isValidTimeZone, toDayKey } from "@/lib/utils/time-zones";
+import { escapeRegExp } from "@/lib/utils/regex";
+import {
+  TASK_SORT_FIELDS,
+  bulkTaskChangesSchema,
+  recurrenceSchema,
+  taskCreateSchema,
+  taskImportSchema,
+  taskUpdateSchema,
+} from "@/lib/validations/task";
+import { categoryCreateSchema } from "@/lib/validations/category";
 
-// Task validation schemas
-const taskCreateSchema = z.object({
-  title: z
-    .string()
-    .min(3, "Title must be at least 3 characters long")
-    .max(100, "Title cannot exceed 100 characters"),
-  description: z
-    .string()
-    .max(1000, "Description cannot exceed 1000 characters")
-    .optional(),
-  status: z.nativeEnum(TaskStatus).default(TaskStatus.TODO),
-  priority: z.nativeEnum(TaskPriority).default(TaskPriority.MEDIUM),
-  dueDate: z.string().optional().nullable(),
-  categoryId: z.string().optional().nullable(),
-});
-
-const taskUpdateSchema = z.object({
-  title: z
-    .string()
-    .min(3, "Title must be at least 3 characters long")
-    .max(100, "Title cannot exceed 100 characters")
-    .optional(),
-  description: z
-    .string()
-    .max(1000, "Description cannot exceed 1000 characters")
-    .optional()
-    .nullable(),
-  status: z.nativeEnum(TaskStatus).optional(),
-  priority: z.nativeEnum(TaskPriority).optional(),
-  dueDate: z.string().optional().nullable(),
-  categoryId: z.string().optional().nullable(),
-});
+type TaskDocument = InstanceType<typeof Task>;
+
+// Smallest gap between two neighbouring board positions before renumbering
+const MIN_POSITION_GAP = 1e-6;
+
+// Convert a validated recurrence rule into its stored form
+function toStoredRecurrence(
+  recurrence: z.infer<typeof recurrenceSchema> | null | undefined,
+  occurrence = 1
+) {
+  if (!recurrence) return null;
+
+  return {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval,
+    weekdays:
+      recurrence.frequency === RecurrenceFrequency.WEEKLY
+        ? recurrence.weekdays || []
+        : undefined,
+    monthDay:
+      recurrence.frequency === RecurrenceFrequency.MONTHLY
+        ? recurrence.monthDay || undefined
+        : undefined,
+    count: recurrence.count || undefined,
+    until: recurrence.until ? new Date(recurrence.until) : undefined,
+    timeZone: recurrence.timeZone,
+    occurrence,
+  };
+}
+
+// Format a task document (with populated category) for the client
+function formatTask(task: TaskDocument) {
+  return {
+    id: task._id.toString(),
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    dueDate: task.dueDate,
+    category: task.categoryId
+      ? {
+          id: task.categoryId._id.toString(),
+          name: task.categoryId.name,
+        }
+      : null,
+    userId: task.userId?.toString(),
+    parentTaskId: task.parentTaskId?.toString() || null,
+    position: task.position ?? 0,
+    recurrence: task.recurrence?.frequency
+      ? {
+          frequency: task.recurrence.frequency,
+          interval: task.recurrence.interval,
+          weekdays: task.recurrence.weekdays
+            ? [...task.recurrence.weekdays]
+            : undefined,
+          monthDay: task.recurrence.monthDay,
+          count: task.recurrence.count,
+          until: task.recurrence.until,
+          timeZone: task.recurrence.timeZone,
+          occurrence: task.recurrence.occurrence,
+        }
+      : null,
+    nextOccurrenceId: task.nextOccurrenceId?.toString() || null,
+    assigneeIds: (task.assigneeIds || []).map(
+      (assigneeId: { toString(): string }) => assigneeId.toString()
+    ),
+    blockedBy: (task.blockedBy || []).map((blockerId: { toString(): string }) =>
+      blockerId.toString()
+    ),
+    estimateMinutes: task.estimateMinutes ?? null,
+    startedAt: task.startedAt || null,
+    completedAt: task.completedAt || null,
+    createdAt: task.createdAt,
+    updatedAt: task.updatedAt,
+  };
+}
+
+// Load the tasks referenced by the given ids as lightweight references
+async function getTaskReferences(
+  ids: string[]
+): Promise<Record<string, TaskReference>> {
+  if (ids.length === 0) return {};
+
+  const tasks = await Task.find({ _id: { $in: ids } })
+    .select("_id title status")
+    .exec();
+
+  return Object.fromEntries(
+    tasks.map((task) => [
+      task._id.toString(),
+      { id: task._id.toString(), title: task.title, status: task.status },
+    ])
+  );
+}
+
+// Resolve the blockers of each task and whether any of them is still open
+async function getBlockerDetails(tasks: TaskDocument[]) {
+  const blockerIds = Array.from(
+    new Set(
+      tasks.flatMap((task) =>
+        (task.blockedBy || []).map((id: { toString(): string }) =>
+          id.toString()
+        )
+      )
+    )
+  );
+  const references = await getTaskReferences(blockerIds);
+
+  return Object.fromEntries(
+    tasks.map((task) => {
+      const blockers: TaskReference[] = (task.blockedBy || [])
+        .map((id: { toString(): string }) => references[id.toString()])
+        .filter(Boolean);
+
+      return [
+        task._id.toString(),
+        {
+          blockers,
+          isBlocked: blockers.some(
+            (blocker) => blocker.status !== TaskStatus.COMPLETED
+          ),
+        },
+      ];
+    })
+  );
+}
+
+// Resolve the assigned users of each task
+async function getAssigneeDetails(tasks: TaskDocument[]) {
+  const assigneeIds = Array.from(
+    new Set(
+      tasks.flatMap((task) =>
+        (task.assigneeIds || []).map((id: { toString(): string }) =>
+          id.toString()
+        )
+      )
+    )
+  );
+
+  const users =
+    assigneeIds.length > 0
+      ? await User.find({ _id: { $in: assigneeIds } })
+          .select("_id name image")
+          .exec()
+      : [];
+  const usersById: Record<string, TaskAssignee> = Object.fromEntries(
+    users.map((user) => [
+      user._id.toString(),
+      { id: user._id.toString(), name: user.name, image: user.image },
+    ])
+  );
+
+  return Object.fromEntries(
+    tasks.map((task) => [
+      task._id.toString(),
+      (task.assigneeIds || [])
+        .map((id: { toString(): string }) => usersById[id.toString()])
+        .filter(Boolean) as TaskAssignee[],
+    ])
+  );
+}
+
+// Start and completion timestamps to store when a task enters `status`.
+// The start time is kept from the first time the task was in progress,
+// and reopening a task clears its completion time.
+function getStatusTimestamps(
+  status: TaskStatus,
+  task?: { startedAt?: Date | null },
+  now: Date = new Date()
+): { startedAt?: Date | null; completedAt: Date | null } {
+  switch (status) {
+    case TaskStatus.TODO:
+      return { startedAt: null, completedAt: null };
+    case TaskStatus.IN_PROGRESS:
+      return { startedAt: task?.startedAt || now, completedAt: null };
+    case TaskStatus.COMPLETED:
+      return { completedAt: now };
+  }
+}
+
+// Refuse to start or complete a task while any of its blockers is still open
+async function assertNotBlocked(task: TaskDocument, status?: TaskStatus) {
+  if (status !== TaskStatus.IN_PROGRESS && status !== TaskStatus.COMPLETED) {
+    return;
+  }
+
+  if (!task.blockedBy || task.blockedBy.length === 0) return;
+
+  const openBlockers = await Task.find({
+    _id: { $in: task.blockedBy },
+    status: { $ne: TaskStatus.COMPLETED },
+  })
+    .select("title")
+    .exec();
+
+  if (openBlockers.length > 0) {
+    throw new Error(
+      `Task is blocked by: ${openBlockers
+        .map((blocker) => `"${blocker.title}"`)
+        .join(", ")}`
+    );
+  }
+}
+
+// Check whether `blockerId` already depends (directly or transitively) on
+// `taskId`, in which case adding the edge would create a cycle
+async function wouldCreateCycle(
+  taskId: string,
+  blockerId: string,
+  workspaceId: string
+) {
+  const tasksWithDependencies = await Task.find({
+    workspaceId,
+    "blockedBy.0": { $exists: true },
+  })
+    .select("_id blockedBy")
+    .exec();
+
+  const graph = new Map<string, string[]>(
+    tasksWithDependencies.map((task) => [
+      task._id.toString(),
+      task.blockedBy.map((id: { toString(): string }) => id.toString()),
+    ])
+  );
+
+  const visited = new Set<string>();
+  const queue = [blockerId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    queue.push(...(graph.get(current) || []));
+  }
+
+  return false;
+}
+
+// Create the following occurrence of a recurring task that was just completed,
+// carrying its checklist over with every item reset to to do
+async function createNextOccurrence(task: TaskDocument) {
+  if (!task.recurrence?.frequency || task.nextOccurrenceId) return null;
+
+  const nextDueDate = getNextOccurrence(
+    task.recurrence.toObject(),
+    task.dueDate || new Date()
+  );
+
+  if (!nextDueDate) return null;
+
+  const nextTask = await Task.create({
+    title: task.title,
+    description: task.description,
+    status: TaskStatus.TODO,
+    priority: task.priority,
+    dueDate: nextDueDate,
+    categoryId: task.categoryId?._id || task.categoryId,
+    userId: task.userId,
+    workspaceId: task.workspaceId,
+    assigneeIds: task.assigneeIds,
+    recurrence: {
+      ...task.recurrence.toObject(),
+      occurrence: (task.recurrence.occurrence || 1) + 1,
+    },
+  });
+
+  const subtasks = await Task.find({ parentTaskId: task._id })
+    .sort({ position: 1 })
+    .exec();
+
+  if (subtasks.length > 0) {
+    await Task.insertMany(
+      subtasks.map((subtask) => ({
+        title: subtask.title,
+        description: subtask.description,
+        status: TaskStatus.TODO,
+        priority: subtask.priority,
+        categoryId: subtask.categoryId,
+        userId: subtask.userId,
+        workspaceId: subtask.workspaceId,
+        parentTaskId: nextTask._id,
+        position: subtask.position,
+      }))
+    );
+  }
+
+  await Task.updateOne(
+    { _id: task._id },
+    { $set: { nextOccurrenceId: nextTask._id } }
+  ).exec();
+
+  return nextTask;
+}
+
+// Count completed vs total subtasks for each of the given parent tasks
+async function getSubtaskProgress(
+  parentIds: string[]
+): Promise<Record<string, SubtaskProgress>> {
+  if (parentIds.length === 0) return {};
+
+  const results = await Task.aggregate([
+    {
+      $match: {
+        parentTaskId: {
+          $in: parentIds.map((id) => new mongoose.Types.ObjectId(id)),
+        },
+      },
+    },
+    {
+      $group: {
+        _id: "$parentTaskId",
+        total: { $sum: 1 },
+        completed: {
+          $sum: {
+            $cond: [{ $eq: ["$status", TaskStatus.COMPLETED] }, 1, 0],
+          },
+        },
+      },
+    },
+  ]).exec();
+
+  return Object.fromEntries(
+    results.map((result) => [
+      result._id.toString(),
+      { completed: result.completed, total: result.total },
+    ])
+  );
+}
+
+// Count the comments of each of the given tasks
+async function getCommentCounts(
+  taskIds: string[]
+): Promise<Record<string, number>> {
+  if (taskIds.length === 0) return {};
+
+  const results = await Comment.aggregate([
+    {
+      $match: {
+        taskId: {
+          $in: taskIds.map((id) => new mongoose.Types.ObjectId(id)),
+        },
+      },
+    },
+    { $group: { _id: "$taskId", count: { $sum: 1 } } },
+  ]).exec();
+
+  return Object.fromEntries(
+    results.map((result) => [result._id.toString(), result.count])
+  );
+}
+
+// Sum the minutes tracked on each of the given tasks, counting running
+// timers up to now
+async function getTrackedMinutes(
+  taskIds: string[]
+): Promise<Record<string, number>> {
+  if (taskIds.length === 0) return {};
+
+  const results = await TimeEntry.aggregate([
+    {
+      $match: {
+        taskId: {
+          $in: taskIds.map((id) => new mongoose.Types.ObjectId(id)),
+        },
+      },
+    },
+    {
+      $group: {
+        _id: "$taskId",
+        duration: {
+          $sum: {
+            $subtract: [{ $ifNull: ["$endedAt", "$$NOW"] }, "$startedAt"],
+          },
+        },
+      },
+    },
+  ]).exec();
+
+  return Object.fromEntries(
+    results.map((result) => [
+      result._id.toString(),
+      Math.round(result.duration / (60 * 1000)),
+    ])
+  );
+}
+
+// Load a task and verify that it belongs to the given workspace
+async function findWorkspaceTask(id: string, workspaceId: string) {
+  const task = await Task.findById(id).exec();
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  if (task.workspaceId?.toString() !== workspaceId) {
+    throw new Error("Access denied");
+  }
+
+  return task;
+}
+
+// Add an entry about a task to the activity log of its workspace
+async function logTaskActivity(
+  userId: string,
+  task: TaskDocument,
+  action: ActivityAction,
+  changes: ActivityChange[] = []
+) {
+  await recordActivity({
+    workspaceId: task.workspaceId.toString(),
+    userId,
+    entityType: ActivityEntityType.TASK,
+    entityId: task._id,
+    entityName: task.title,
+    action,
+    changes,
+  });
+}
+
+// Position that places a new task at the bottom of its board column
+async function getNextColumnPosition(workspaceId: string, status: TaskStatus) {
+  const last = await Task.findOne({
+    workspaceId,
+    parentTaskId: null,
+    status,
+  })
+    .sort({ position: -1 })
+    .select("position")
+    .exec();
+
+  return last ? last.position + 1 : 0;
+}
+
+// Rewrite a board column with evenly spaced positions, placing the moved
+// task right after `afterId` (or first when no task precedes it)
+async function renumberColumn(
+  task: TaskDocument,
+  afterId: string | null
+): Promise<number> {
+  const column = await Task.find({
+    workspaceId: task.workspaceId,
+    parentTaskId: null,
+    status: task.status,
+    _id: { $ne: task._id },
+  })
+    .sort({ position: 1, createdAt: 1 })
+    .select("_id")
+    .exec();
+
+  const ordered = column.map((sibling) => sibling._id.toString());
+  const insertAt = afterId ? ordered.indexOf(afterId) + 1 : 0;
+  ordered.splice(insertAt, 0, task._id.toString());
+
+  await Task.bulkWrite(
+    ordered.map((id, position) => ({
+      updateOne: {
+        filter: { _id: id },
+        update: { $set: { position } },
+      },
+    }))
+  );
+
+  return insertAt;
+}
+
+// Verify that a category belongs to the given workspace
+async function assertWorkspaceCategory(
+  categoryId: string | null | undefined,
+  workspaceId: string
+) {
+  if (!categoryId) return;
+
+  const category = await Category.exists({ _id: categoryId, workspaceId });
+
+  if (!category) {
+    throw new Error("Category not found");
+  }
+}
+
+// Build the query for the top-level tasks of a workspace matching the list
+// filters (subtasks are listed under their parent)
+function buildTaskFilter(
+  { status, priority, categoryId, assigneeId, search }: TaskQueryFilter,
+  workspaceId: string,
+  userId: string
+) {
+  const queryFilter: Record<string, unknown> = {
+    workspaceId,
+    parentTaskId: null,
+  };
+
+  if (status) {
+    queryFilter.status = status;
+  }
+
+  if (priority) {
+    queryFilter.priority = priority;
+  }
+
+  if (categoryId) {
+    queryFilter.categoryId = categoryId;
+  }
+
+  if (assigneeId === "unassigned") {
+    queryFilter.assigneeIds = { $size: 0 };
+  } else if (assigneeId) {
+    queryFilter.assigneeIds = assigneeId === "me" ? userId : assigneeId;
+  }
+
+  if (search) {
+    // Searches match literally, so characters such as "(" are not patterns
+    const pattern = escapeRegExp(search);
+    queryFilter.$or = [
+      { title: { $regex: pattern, $options: "i" } },
+      { description: { $regex: pattern, $options: "i" } },
+    ];
+  }
+
+  return queryFilter;
+}
 
 // Get tasks with filtering, sorting, and pagination
 export async function getTasks({
   status = "",
   priority = "",
   categoryId = "",
+  assigneeId = "",
   search = "",
   page = 1,
   limit = 10,
@@ -55,6 +591,8 @@ export async function getTasks({
   status?: string;
   priority?: string;
   categoryId?: string;
+  // A user id, "me" for the current user or "unassigned"
+  assigneeId?: string;
   search?: string;
   page?: number;
   limit?: number;
@@ -62,66 +600,56 @@ export async function getTasks({
   sortOrder?: "asc" | "desc";
 }) {
   try {
-    const session = await getSession();
-
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.VIEWER
+    );
 
     const skip = (page - 1) * limit;
 
-    // Build query filters
-    const queryFilter: Record<string, unknown> = { userId: session.user.id };
-
-    if (status) {
-      queryFilter.status = status;
-    }
-
-    if (priority) {
-      queryFilter.priority = priority;
-    }
-
-    if (categoryId) {
-      queryFilter.categoryId = categoryId;
-    }
-
-    if (search) {
-      queryFilter.$or = [
-        { title: { $regex: search, $options: "i" } },
-        { description: { $regex: search, $options: "i" } },
-      ];
-    }
-
-    await dbConnect();
+    const queryFilter = buildTaskFilter(
+      { status, priority, categoryId, assigneeId, search },
+      workspaceId,
+      userId
+    );
 
     // Get total count for pagination
     const totalTasks = await Task.countDocuments(queryFilter).exec();
 
     // Get sorted tasks with pagination
     const tasks = await Task.find(queryFilter)
-      .sort({ [sortBy]: sortOrder === "asc" ? 1 : -1 })
+      .sort({
+        [sortBy]: sortOrder === "asc" ? 1 : -1,
+        createdAt: sortOrder === "asc" ? 1 : -1,
+      })
       .skip(skip)
       .limit(limit)
       .populate("categoryId", "name")
       .exec();
 
+    const progress = await getSubtaskProgress(
+      tasks.map((task) => task._id.toString())
+    );
+    const commentCounts = await getCommentCounts(
+      tasks.map((task) => task._id.toString())
+    );
+    const trackedMinutes = await getTrackedMinutes(
+      tasks.map((task) => task._id.toString())
+    );
+    const blockerDetails = await getBlockerDetails(tasks);
+    const assignees = await getAssigneeDetails(tasks);
+
     // Format and serialize response
     return serializeData({
       tasks: tasks.map((task) => ({
-        id: task._id.toString(),
-        title: task.title,
-        description: task.description,
-        status: task.status,
-        priority: task.priority,
-        dueDate: task.dueDate,
-        category: task.categoryId
-          ? {
-              id: task.categoryId._id.toString(),
-              name: task.categoryId.name,
-            }
-          : null,
-        createdAt: task.createdAt,
-        updatedAt: task.updatedAt,
+        ...formatTask(task),
+        ...blockerDetails[task._id.toString()],
+        assignees: assignees[task._id.toString()],
+        subtaskProgress: progress[task._id.toString()] || {
+          completed: 0,
+          total: 0,
+        },
+        commentCount: commentCounts[task._id.toString()] || 0,
+        trackedMinutes: trackedMinutes[task._id.toString()] || 0,
       })),
       pagination: {
         total: totalTasks,
@@ -132,20 +660,16 @@ export async function getTasks({
     });
   } catch (error) {
     console.error("Error fetching tasks:", error);
-    throw new Error("Failed to fetch tasks");
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch tasks"
+    );
   }
 }
 
 // Get a single task by ID
 export async function getTaskById(id: string) {
   try {
-    const session = await getSession();
-
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
-
-    await dbConnect();
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
 
     const task = await Task.findById(id).populate("categoryId", "name").exec();
 
@@ -153,27 +677,31 @@ export async function getTaskById(id: string) {
       throw new Error("Task not found");
     }
 
-    // Verify that the task belongs to the user
-    if (task.userId.toString() !== session.user.id) {
+    // Verify that the task belongs to the current workspace
+    if (task.workspaceId?.toString() !== workspaceId) {
       throw new Error("Access denied");
     }
 
+    const subtasks = await Task.find({ parentTaskId: task._id })
+      .sort({ position: 1, createdAt: 1 })
+      .populate("categoryId", "name")
+      .exec();
+
+    const blockerDetails = await getBlockerDetails([task]);
+    const assignees = await getAssigneeDetails([task]);
+
     // Format and serialize response
     return serializeData({
-      id: task._id.toString(),
-      title: task.title,
-      description: task.description,
-      status: task.status,
-      priority: task.priority,
-      dueDate: task.dueDate,
-      category: task.categoryId
-        ? {
-            id: task.categoryId._id.toString(),
-            name: task.categoryId.name,
-          }
-        : null,
-      createdAt: task.createdAt,
-      updatedAt: task.updatedAt,
+      ...formatTask(task),
+      ...blockerDetails[task._id.toString()],
+      assignees: assignees[task._id.toString()],
+      subtasks: subtasks.map(formatTask),
+      subtaskProgress: {
+        completed: subtasks.filter(
+          (subtask) => subtask.status === TaskStatus.COMPLETED
+        ).length,
+        total: subtasks.length,
+      },
     });
   } catch (error) {
     console.error("Error fetching task:", error);
@@ -183,14 +711,372 @@ export async function getTaskById(id: string) {
   }
 }
 
-// Create a new task
-export async function createTask(data: z.infer<typeof taskCreateSchema>) {
+// Upper bound on the tasks returned for a single calendar range
+const MAX_RANGE_TASKS = 500;
+
+// Get the tasks due within a date range (start inclusive, end exclusive)
+export async function getTasksInRange({
+  start,
+  end,
+}: {
+  start: string;
+  end: string;
+}) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new Error("Invalid date range");
+    }
+
+    if (startDate >= endDate) {
+      throw new Error("Range start must be before its end");
+    }
+
+    // Served by the { workspaceId, dueDate } index
+    const tasks = await Task.find({
+      workspaceId,
+      dueDate: { $gte: startDate, $lt: endDate },
+    })
+      .sort({ dueDate: 1 })
+      .limit(MAX_RANGE_TASKS)
+      .populate("categoryId", "name")
+      .exec();
+
+    const blockerDetails = await getBlockerDetails(tasks);
+
+    return serializeData(
+      tasks.map((task) => ({
+        ...formatTask(task),
+        ...blockerDetails[task._id.toString()],
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching tasks in range:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch tasks"
+    );
+  }
+}
+
+// Number of days covered by the dashboard trend charts
+const TREND_DAYS = 30;
+
+// Get task counts and daily trends for the dashboard of the current workspace
+export async function getDashboardStats({
+  timeZone = "UTC",
+}: { timeZone?: string } = {}) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error("Invalid time zone");
+    }
+
+    const now = new Date();
+    const dueSoonLimit = new Date(now);
+    dueSoonLimit.setDate(now.getDate() + DUE_SOON_DAYS);
+    const trendStart = new Date(now);
+    trendStart.setDate(now.getDate() - TREND_DAYS);
+
+    const dayOf = (field: string) => ({
+      $dateToString: { format: "%Y-%m-%d", date: field, timezone: timeZone },
+    });
+    const open = { status: { $ne: TaskStatus.COMPLETED } };
+
+    // Subtasks are left out, matching the task list
+    const [result] = await Task.aggregate([
+      {
+        $match: {
+          workspaceId: new mongoose.Types.ObjectId(workspaceId),
+          parentTaskId: null,
+        },
+      },
+      {
+        $facet: {
+          total: [{ $count: "count" }],
+          byStatus: [{ $group: { _id: "$status", count: { $sum: 1 } } }],
+          byPriority: [{ $group: { _id: "$priority", count: { $sum: 1 } } }],
+          byCategory: [
+            { $group: { _id: "$categoryId", count: { $sum: 1 } } },
+            {
+              $lookup: {
+                from: Category.collection.name,
+                localField: "_id",
+                foreignField: "_id",
+                // Lookups bypass the model's soft-delete filter
+                pipeline: [{ $match: { deletedAt: null } }],
+                as: "category",
+              },
+            },
+            // Tasks pointing at a deleted or trashed category count as
+            // uncategorized
+            {
+              $unwind: { path: "$category", preserveNullAndEmptyArrays: true },
+            },
+            {
+              $group: {
+                _id: "$category._id",
+                name: { $first: "$category.name" },
+                count: { $sum: "$count" },
+              },
+            },
+            { $sort: { count: -1 } },
+          ],
+          overdue: [
+            { $match: { ...open, dueDate: { $lt: now } } },
+            { $count: "count" },
+          ],
+          dueSoon: [
+            { $match: { ...open, dueDate: { $gte: now, $lte: dueSoonLimit } } },
+            { $count: "count" },
+          ],
+          created: [
+            { $match: { createdAt: { $gte: trendStart } } },
+            { $group: { _id: dayOf("$createdAt"), count: { $sum: 1 } } },
+          ],
+          completed: [
+            {
+              $match: {
+                status: TaskStatus.COMPLETED,
+                completedAt: { $gte: trendStart },
+              },
+            },
+            { $group: { _id: dayOf("$completedAt"), count: { $sum: 1 } } },
+          ],
+        },
+      },
+    ]).exec();
+
+    type Bucket = { _id: string | null; count: number };
+    const countOf = (buckets: Bucket[]) => buckets[0]?.count || 0;
+    const countsByKey = (buckets: Bucket[]) =>
+      new Map(buckets.map((bucket) => [bucket._id, bucket.count]));
+    const toRecord = <K extends string>(keys: K[], buckets: Bucket[]) => {
+      const counts = countsByKey(buckets);
+      return Object.fromEntries(
+        keys.map((key) => [key, counts.get(key) || 0])
+      ) as Record<K, number>;
+    };
+
+    // One entry per calendar day, oldest first, including days without activity
+    const created = countsByKey(result.created);
+    const completed = countsByKey(result.completed);
+    const trend: DailyTaskTrend[] = [];
+
+    for (let offset = TREND_DAYS - 1; offset >= 0; offset--) {
+      const day = new Date(now);
+      day.setDate(now.getDate() - offset);
+      const date = toDayKey(day, timeZone);
+
+      if (trend.some((entry) => entry.date === date)) continue;
+
+      trend.push({
+        date,
+        created: created.get(date) || 0,
+        completed: completed.get(date) || 0,
+      });
+    }
+
+    const stats: DashboardStats = {
+      total: countOf(result.total),
+      byStatus: toRecord(Object.values(TaskStatus), result.byStatus),
+      byPriority: toRecord(Object.values(TaskPriority), result.byPriority),
+      byCategory: result.byCategory.map(
+        (bucket: Bucket & { name?: string }) => ({
+          id: bucket._id ? bucket._id.toString() : null,
+          name: bucket.name || "Uncategorized",
+          count: bucket.count,
+        })
+      ),
+      overdue: countOf(result.overdue),
+      dueSoon: countOf(result.dueSoon),
+      trend,
+    };
+
+    return serializeData(stats);
+  } catch (error) {
+    console.error("Error fetching dashboard stats:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch dashboard stats"
+    );
+  }
+}
+
+// Periods (in weeks) the analytics page can cover
+const ANALYTICS_WEEKS = [4, 12, 26, 52];
+
+// Monday of the week containing the given YYYY-MM-DD day, in the same form
+function toWeekKey(dayKey: string) {
+  const day = new Date(`${dayKey}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+// Get lead time, cycle time and throughput for tasks completed recently in the
+// current workspace. Lead time runs from creation and cycle time from the first
+// start to completion; tasks that skipped IN_PROGRESS have no cycle time.
+export async function getTaskAnalytics({
+  weeks = 12,
+  timeZone = "UTC",
+}: { weeks?: number; timeZone?: string } = {}) {
   try {
-    const session = await getSession();
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    if (!ANALYTICS_WEEKS.includes(weeks)) {
+      throw new Error("Invalid analytics period");
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error("Invalid time zone");
+    }
+
+    // Start from the Monday that begins the first week of the period
+    const now = new Date();
+    const lastWeek = toWeekKey(toDayKey(now, timeZone));
+    const firstWeek = new Date(`${lastWeek}T00:00:00Z`);
+    firstWeek.setUTCDate(firstWeek.getUTCDate() - (weeks - 1) * 7);
+    const since = new Date(firstWeek);
+    // Widen by a day so no time zone offset cuts off the first morning
+    since.setUTCDate(since.getUTCDate() - 1);
+
+    // Durations are summed so buckets can be merged before averaging
+    const hasStarted = { $ifNull: ["$startedAt", false] };
+    const durations = {
+      count: { $sum: 1 },
+      leadTime: { $sum: { $subtract: ["$completedAt", "$createdAt"] } },
+      started: { $sum: { $cond: [hasStarted, 1, 0] } },
+      cycleTime: {
+        $sum: {
+          $cond: [hasStarted, { $subtract: ["$completedAt", "$startedAt"] }, 0],
+        },
+      },
+    };
+
+    const [result] = await Task.aggregate([
+      {
+        $match: {
+          workspaceId: new mongoose.Types.ObjectId(workspaceId),
+          parentTaskId: null,
+          status: TaskStatus.COMPLETED,
+          completedAt: { $gte: since },
+        },
+      },
+      {
+        $addFields: {
+          day: {
+            $dateToString: {
+              format: "%Y-%m-%d",
+              date: "$completedAt",
+              timezone: timeZone,
+            },
+          },
+        },
+      },
+      { $match: { day: { $gte: firstWeek.toISOString().slice(0, 10) } } },
+      {
+        $facet: {
+          summary: [{ $group: { _id: null, ...durations } }],
+          byDay: [{ $group: { _id: "$day", count: { $sum: 1 } } }],
+          byCategory: [
+            { $group: { _id: "$categoryId", ...durations } },
+            {
+              $lookup: {
+                from: Category.collection.name,
+                localField: "_id",
+                foreignField: "_id",
+                // Lookups bypass the model's soft-delete filter
+                pipeline: [{ $match: { deletedAt: null } }],
+                as: "category",
+              },
+            },
+            // Tasks pointing at a deleted or trashed category count as
+            // uncategorized
+            {
+              $unwind: { path: "$category", preserveNullAndEmptyArrays: true },
+            },
+            {
+              $group: {
+                _id: "$category._id",
+                name: { $first: "$category.name" },
+                count: { $sum: "$count" },
+                leadTime: { $sum: "$leadTime" },
+                started: { $sum: "$started" },
+                cycleTime: { $sum: "$cycleTime" },
+              },
+            },
+            { $sort: { count: -1 } },
+          ],
+        },
+      },
+    ]).exec();
+
+    type DurationBucket = {
+      count: number;
+      leadTime: number;
+      started: number;
+      cycleTime: number;
+    };
+    const toDurations = (bucket?: DurationBucket) => ({
+      completed: bucket?.count || 0,
+      leadTime: {
+        average: bucket?.count ? bucket.leadTime / bucket.count : null,
+        count: bucket?.count || 0,
+      },
+      cycleTime: {
+        average: bucket?.started ? bucket.cycleTime / bucket.started : null,
+        count: bucket?.started || 0,
+      },
+    });
 
-    if (!session?.user) {
-      throw new Error("Unauthorized");
+    // One entry per week, oldest first, including weeks without completions
+    const throughput: WeeklyThroughput[] = [];
+    for (let week = 0; week < weeks; week++) {
+      const weekStart = new Date(firstWeek);
+      weekStart.setUTCDate(weekStart.getUTCDate() + week * 7);
+      throughput.push({
+        weekStart: weekStart.toISOString().slice(0, 10),
+        completed: 0,
+      });
     }
+    for (const bucket of result.byDay as { _id: string; count: number }[]) {
+      const entry = throughput.find(
+        (week) => week.weekStart === toWeekKey(bucket._id)
+      );
+      if (entry) entry.completed += bucket.count;
+    }
+
+    const analytics: TaskAnalytics = {
+      weeks,
+      ...toDurations(result.summary[0]),
+      throughput,
+      byCategory: result.byCategory.map(
+        (bucket: DurationBucket & { _id: string | null; name?: string }) => ({
+          id: bucket._id ? bucket._id.toString() : null,
+          name: bucket.name || "Uncategorized",
+          ...toDurations(bucket),
+        })
+      ),
+    };
+
+    return serializeData(analytics);
+  } catch (error) {
+    console.error("Error fetching task analytics:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch task analytics"
+    );
+  }
+}
+
+// Create a new task
+export async function createTask(data: z.infer<typeof taskCreateSchema>) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
 
     // Validate task data
     const result = taskCreateSchema.safeParse(data);
@@ -198,22 +1084,40 @@ export async function createTask(data: z.infer<typeof taskCreateSchema>) {
       throw new Error(JSON.stringify(result.error.flatten()));
     }
 
-    const { title, description, status, priority, dueDate, categoryId } =
-      result.data;
+    const {
+      title,
+      description,
+      status,
+      priority,
+      dueDate,
+      categoryId,
+      recurrence,
+      estimateMinutes,
+    } = result.data;
 
-    await dbConnect();
+    await assertWorkspaceCategory(categoryId, workspaceId);
 
-    // Create the task
+    // Create the task at the bottom of its board column
     const newTask = await Task.create({
       title,
       description,
       status,
+      ...getStatusTimestamps(status),
+      position: await getNextColumnPosition(
+        workspaceId,
+        status || TaskStatus.TODO
+      ),
       priority,
       dueDate: dueDate ? new Date(dueDate) : undefined,
       categoryId: categoryId || undefined,
-      userId: session.user.id,
+      userId,
+      workspaceId,
+      recurrence: toStoredRecurrence(recurrence),
+      estimateMinutes: estimateMinutes ?? null,
     });
 
+    await logTaskActivity(userId, newTask, ActivityAction.CREATED);
+
     revalidatePath("/dashboard/tasks");
 
     // Serialize and return response
@@ -225,6 +1129,13 @@ export async function createTask(data: z.infer<typeof taskCreateSchema>) {
       priority: newTask.priority,
       dueDate: newTask.dueDate,
       categoryId: newTask.categoryId?.toString(),
+      userId,
+      parentTaskId: null,
+      position: newTask.position,
+      recurrence: recurrence ? { ...recurrence, occurrence: 1 } : null,
+      estimateMinutes: newTask.estimateMinutes,
+      startedAt: newTask.startedAt,
+      completedAt: newTask.completedAt,
       createdAt: newTask.createdAt,
       updatedAt: newTask.updatedAt,
     });
@@ -242,11 +1153,9 @@ export async function updateTask(
   data: Partial<z.infer<typeof taskUpdateSchema>>
 ) {
   try {
-    const session = await getSession();
-
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
 
     // Validate update data - but only for the fields that are provided
     const schemaToValidate = z.object(
@@ -260,55 +1169,158 @@ export async function updateTask(
       throw new Error(JSON.stringify(result.error.flatten()));
     }
 
-    await dbConnect();
+    // Only the validated fields are applied; anything else the caller sent,
+    // such as workspaceId or blockedBy, is dropped by the schema
+    const changes = result.data as Partial<z.infer<typeof taskUpdateSchema>>;
 
-    // First check if the task exists and belongs to the user
-    const existingTask = await Task.findById(id).exec();
+    // First check if the task exists and belongs to the workspace
+    const existingTask = await findWorkspaceTask(id, workspaceId);
 
-    if (!existingTask) {
-      throw new Error("Task not found");
+    if (changes.status && changes.status !== existingTask.status) {
+      await assertNotBlocked(existingTask, changes.status);
     }
 
-    if (existingTask.userId.toString() !== session.user.id) {
-      throw new Error("Access denied");
+    if ("categoryId" in changes) {
+      await assertWorkspaceCategory(changes.categoryId, workspaceId);
     }
 
     // Prepare update data
-    const updateData = { ...data };
+    const { completeSubtasks, ...updateData } = changes;
+    const setData: Record<string, unknown> = { ...updateData };
+
+    // Editing the rule keeps the position within the series
+    if ("recurrence" in changes) {
+      setData.recurrence = toStoredRecurrence(
+        changes.recurrence,
+        existingTask.recurrence?.occurrence || 1
+      );
+    }
+
+    if (changes.status && changes.status !== existingTask.status) {
+      Object.assign(setData, getStatusTimestamps(changes.status, existingTask));
+
+      // A task changing columns goes to the bottom of its new board column
+      if (!existingTask.parentTaskId) {
+        setData.position = await getNextColumnPosition(
+          workspaceId,
+          changes.status
+        );
+      }
+    }
 
     // Convert dueDate string to Date if present
-    if ("dueDate" in updateData && updateData.dueDate) {
-      // @ts-expect-error - MongoDB expects Date but we're handling string in API
-      updateData.dueDate = new Date(updateData.dueDate);
+    if (updateData.dueDate) {
+      setData.dueDate = new Date(updateData.dueDate);
     }
 
+    // Remember the overwritten values so the change can be undone
+    const previous: Record<string, unknown> = Object.fromEntries(
+      Object.keys(setData).map((key) => [key, existingTask.get(key) ?? null])
+    );
+    let subtaskSnapshots: SubtaskSnapshot[] = [];
+
     // Update the task
     const updatedTask = await Task.findByIdAndUpdate(
       id,
-      { $set: updateData },
+      { $set: setData },
       { new: true, runValidators: true }
     )
       .populate("categoryId", "name")
       .exec();
 
+    // Optionally complete all children together with the parent,
+    // leaving any child that is still blocked untouched
+    if (completeSubtasks && updateData.status === TaskStatus.COMPLETED) {
+      const openSubtasks = await Task.find({
+        parentTaskId: id,
+        status: { $ne: TaskStatus.COMPLETED },
+      }).exec();
+      const subtaskBlockers = await getBlockerDetails(openSubtasks);
+
+      const completable = openSubtasks.filter(
+        (subtask) => !subtaskBlockers[subtask._id.toString()].isBlocked
+      );
+      subtaskSnapshots = completable.map((subtask) => ({
+        id: subtask._id.toString(),
+        status: subtask.status,
+        startedAt: subtask.startedAt?.toISOString() || null,
+        completedAt: subtask.completedAt?.toISOString() || null,
+      }));
+
+      await Task.updateMany(
+        { _id: { $in: completable.map((subtask) => subtask._id) } },
+        {
+          $set: {
+            status: TaskStatus.COMPLETED,
+            ...getStatusTimestamps(TaskStatus.COMPLETED),
+          },
+        }
+      ).exec();
+
+      await recordActivity(
+        completable.map((subtask) => ({
+          workspaceId,
+          userId,
+          entityType: ActivityEntityType.TASK,
+          entityId: subtask._id,
+          entityName: subtask.title,
+          action: ActivityAction.UPDATED,
+          changes: [
+            { field: "status", from: subtask.status, to: TaskStatus.COMPLETED },
+          ],
+        }))
+      );
+    }
+
+    await logTaskActivity(
+      userId,
+      updatedTask,
+      ActivityAction.UPDATED,
+      diffFields(existingTask.toObject(), updatedTask.toObject())
+    );
+
+    // Completing a recurring task schedules its next occurrence
+    const nextOccurrence =
+      existingTask.status !== TaskStatus.COMPLETED &&
+      updatedTask.status === TaskStatus.COMPLETED
+        ? await createNextOccurrence(updatedTask)
+        : null;
+
+    if (nextOccurrence) {
+      await logTaskActivity(userId, nextOccurrence, ActivityAction.CREATED);
+      previous.nextOccurrenceId = null;
+    }
+
+    // Linking the next occurrence touched the task again
+    const { updatedAt } = nextOccurrence
+      ? await Task.findById(id).select("updatedAt").exec()
+      : updatedTask;
+
+    const undoToken = createUndoToken(
+      {
+        type: "revertTask",
+        taskId: id,
+        updatedAt: updatedAt.toISOString(),
+        previous: JSON.parse(JSON.stringify(previous)),
+        subtasks: subtaskSnapshots,
+        nextOccurrenceId: nextOccurrence?._id.toString() ?? null,
+      },
+      { workspaceId, userId }
+    );
+
     revalidatePath("/dashboard/tasks");
 
+    const formattedTask = formatTask(updatedTask);
+
     // Serialize and return response
     return serializeData({
-      id: updatedTask._id.toString(),
-      title: updatedTask.title,
-      description: updatedTask.description,
-      status: updatedTask.status,
-      priority: updatedTask.priority,
-      dueDate: updatedTask.dueDate,
-      category: updatedTask.categoryId
-        ? {
-            id: updatedTask.categoryId._id.toString(),
-            name: updatedTask.categoryId.name,
-          }
+      ...formattedTask,
+      nextOccurrenceId:
+        nextOccurrence?._id.toString() ?? formattedTask.nextOccurrenceId,
+      nextOccurrence: nextOccurrence
+        ? { id: nextOccurrence._id.toString(), dueDate: nextOccurrence.dueDate }
         : null,
-      createdAt: updatedTask.createdAt,
-      updatedAt: updatedTask.updatedAt,
+      undoToken,
     });
   } catch (error) {
     console.error("Error updating task:", error);
@@ -318,38 +1330,1278 @@ export async function updateTask(
   }
 }
 
-// Delete a task
+// Move a task to the trash
 export async function deleteTask(id: string) {
   try {
-    const session = await getSession();
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
 
-    if (!session?.user) {
-      throw new Error("Unauthorized");
-    }
+    // First check if the task exists and belongs to the workspace
+    const task = await findWorkspaceTask(id, workspaceId);
 
-    await dbConnect();
+    // Move the task to the trash together with its subtasks. Dependency edges
+    // are kept so a restore brings them back; trashed blockers are ignored.
+    const deletedAt = new Date();
+    await Task.updateMany(
+      { $or: [{ _id: id }, { parentTaskId: id }] },
+      { $set: { deletedAt } }
+    ).exec();
 
-    // First check if the task exists and belongs to the user
-    const existingTask = await Task.findById(id).exec();
+    await logTaskActivity(userId, task, ActivityAction.DELETED);
 
-    if (!existingTask) {
-      throw new Error("Task not found");
+    revalidatePath("/dashboard/tasks");
+
+    return {
+      success: true,
+      undoToken: createUndoToken(
+        {
+          type: "restoreTasks",
+          taskIds: [id],
+          deletedAt: deletedAt.toISOString(),
+        },
+        { workspaceId, userId }
+      ),
+    };
+  } catch (error) {
+    console.error("Error deleting task:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to delete task"
+    );
+  }
+}
+
+// Most tasks a single bulk action may change
+const MAX_BULK_TASKS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Load the tasks of a bulk selection, scoped to the workspace. Requested ids
+// that do not resolve to a task of the workspace are reported as missing.
+async function findBulkTasks(
+  selection: BulkTaskSelection,
+  workspaceId: string,
+  userId: string
+) {
+  if ("ids" in selection) {
+    const ids = Array.from(new Set(selection.ids));
+
+    if (ids.length > MAX_BULK_TASKS) {
+      throw new Error(
+        `Cannot change more than ${MAX_BULK_TASKS} tasks at once`
+      );
     }
 
-    if (existingTask.userId.toString() !== session.user.id) {
-      throw new Error("Access denied");
+    const tasks = await Task.find({
+      _id: { $in: ids.filter((id) => mongoose.isValidObjectId(id)) },
+      workspaceId,
+    }).exec();
+    const found = new Set(tasks.map((task) => task._id.toString()));
+
+    return { tasks, missing: ids.filter((id) => !found.has(id)) };
+  }
+
+  const tasks = await Task.find(
+    buildTaskFilter(selection.filter, workspaceId, userId)
+  )
+    .limit(MAX_BULK_TASKS + 1)
+    .exec();
+
+  if (tasks.length > MAX_BULK_TASKS) {
+    throw new Error(`Cannot change more than ${MAX_BULK_TASKS} tasks at once`);
+  }
+
+  return { tasks, missing: [] as string[] };
+}
+
+// Update pipeline fields for tasks moved to `status` in bulk, mirroring
+// getStatusTimestamps. Tasks that already have the status are left as is,
+// and top-level tasks that change columns go to the bottom of the new one.
+function getBulkStatusFields(status: TaskStatus, position: number) {
+  const now = new Date();
+  const changesStatus = { $ne: ["$status", status] };
+  const fields: Record<string, unknown> = {
+    completedAt: status === TaskStatus.COMPLETED ? now : null,
+  };
+
+  if (status === TaskStatus.TODO) {
+    fields.startedAt = null;
+  } else if (status === TaskStatus.IN_PROGRESS) {
+    fields.startedAt = { $ifNull: ["$startedAt", now] };
+  }
+
+  return {
+    status,
+    ...Object.fromEntries(
+      Object.entries(fields).map(([field, value]) => [
+        field,
+        { $cond: [changesStatus, value, `$${field}`] },
+      ])
+    ),
+    position: {
+      $cond: [
+        {
+          $and: [
+            changesStatus,
+            { $eq: [{ $ifNull: ["$parentTaskId", null] }, null] },
+          ],
+        },
+        position,
+        "$position",
+      ],
+    },
+  };
+}
+
+// Apply the same changes to many tasks at once
+export async function bulkUpdateTasks(
+  selection: BulkTaskSelection,
+  changes: BulkTaskChanges
+) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const result = bulkTaskChangesSchema.safeParse(changes);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const { status, priority, categoryId, dueDate, shiftDueDateDays } =
+      result.data;
+
+    if (categoryId !== undefined) {
+      await assertWorkspaceCategory(categoryId, workspaceId);
+    }
+
+    const { tasks, missing } = await findBulkTasks(
+      selection,
+      workspaceId,
+      userId
+    );
+    const blockerDetails =
+      status === TaskStatus.IN_PROGRESS || status === TaskStatus.COMPLETED
+        ? await getBlockerDetails(tasks)
+        : {};
+
+    const results: BulkTaskResult[] = missing.map((id) => ({
+      id,
+      success: false,
+      error: "Task not found",
+    }));
+    const updatable: TaskDocument[] = [];
+    let undoToken: string | null = null;
+
+    for (const task of tasks) {
+      const id = task._id.toString();
+
+      if (task.status !== status && blockerDetails[id]?.isBlocked) {
+        results.push({ id, success: false, error: "Task is blocked" });
+      } else if (shiftDueDateDays !== undefined && !task.dueDate) {
+        results.push({ id, success: false, error: "Task has no due date" });
+      } else {
+        updatable.push(task);
+      }
+    }
+
+    if (updatable.length > 0) {
+      const setData: Record<string, unknown> = {};
+
+      if (status) {
+        Object.assign(
+          setData,
+          getBulkStatusFields(
+            status,
+            await getNextColumnPosition(workspaceId, status)
+          )
+        );
+      }
+
+      if (priority) {
+        setData.priority = priority;
+      }
+
+      // Update pipelines are not cast by mongoose
+      if (categoryId !== undefined) {
+        setData.categoryId = categoryId
+          ? new mongoose.Types.ObjectId(categoryId)
+          : null;
+      }
+
+      if (dueDate !== undefined) {
+        setData.dueDate = dueDate ? new Date(dueDate) : null;
+      }
+
+      if (shiftDueDateDays) {
+        setData.dueDate = { $add: ["$dueDate", shiftDueDateDays * DAY_MS] };
+      }
+
+      await Task.updateMany(
+        { _id: { $in: updatable.map((task) => task._id) } },
+        [{ $set: setData }]
+      ).exec();
+
+      const updatedTasks = await Task.find({
+        _id: { $in: updatable.map((task) => task._id) },
+      }).exec();
+      const previousById = new Map(
+        updatable.map((task) => [task._id.toString(), task])
+      );
+
+      await recordActivity(
+        updatedTasks.map((task) => ({
+          workspaceId,
+          userId,
+          entityType: ActivityEntityType.TASK,
+          entityId: task._id,
+          entityName: task.title,
+          action: ActivityAction.UPDATED,
+          changes: diffFields(
+            previousById.get(task._id.toString())!.toObject(),
+            task.toObject()
+          ),
+        }))
+      );
+
+      // Completing recurring tasks schedules their next occurrences
+      const nextOccurrenceIds = new Map<string, string>();
+      for (const task of updatedTasks) {
+        const wasCompleted =
+          previousById.get(task._id.toString())!.status ===
+          TaskStatus.COMPLETED;
+
+        if (!wasCompleted && task.status === TaskStatus.COMPLETED) {
+          const nextOccurrence = await createNextOccurrence(task);
+
+          if (nextOccurrence) {
+            nextOccurrenceIds.set(
+              task._id.toString(),
+              nextOccurrence._id.toString()
+            );
+            await logTaskActivity(
+              userId,
+              nextOccurrence,
+              ActivityAction.CREATED
+            );
+          }
+        }
+      }
+
+      // Remember the overwritten values so the change can be undone, against
+      // the versions written last (linking an occurrence touches a task again)
+      const versions = await Task.find({
+        _id: { $in: updatable.map((task) => task._id) },
+      })
+        .select("_id updatedAt")
+        .exec();
+      const revisions: TaskRevision[] = versions.map((version) => {
+        const id = version._id.toString();
+        const task = previousById.get(id)!;
+        const nextOccurrenceId = nextOccurrenceIds.get(id) ?? null;
+        const previous: Record<string, unknown> = Object.fromEntries(
+          Object.keys(setData).map((key) => [key, task.get(key) ?? null])
+        );
+
+        if (nextOccurrenceId) {
+          previous.nextOccurrenceId = null;
+        }
+
+        return {
+          taskId: id,
+          updatedAt: version.updatedAt.toISOString(),
+          previous: JSON.parse(JSON.stringify(previous)),
+          nextOccurrenceId,
+        };
+      });
+
+      undoToken = createUndoToken(
+        { type: "revertTasks", revisions },
+        { workspaceId, userId }
+      );
+
+      results.push(
+        ...updatable.map((task) => ({
+          id: task._id.toString(),
+          success: true,
+        }))
+      );
     }
 
-    // Delete the task
-    await Task.findByIdAndDelete(id).exec();
+    revalidatePath("/dashboard/tasks");
+
+    return serializeData({
+      results,
+      updated: updatable.length,
+      undoToken,
+    });
+  } catch (error) {
+    console.error("Error updating tasks:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to update tasks"
+    );
+  }
+}
+
+// Move many tasks to the trash at once
+export async function bulkDeleteTasks(selection: BulkTaskSelection) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const { tasks, missing } = await findBulkTasks(
+      selection,
+      workspaceId,
+      userId
+    );
+    const taskIds = tasks.map((task) => task._id.toString());
+
+    const results: BulkTaskResult[] = [
+      ...missing.map((id) => ({
+        id,
+        success: false,
+        error: "Task not found",
+      })),
+      ...taskIds.map((id) => ({ id, success: true })),
+    ];
+
+    if (taskIds.length === 0) {
+      return { results, deleted: 0, undoToken: null };
+    }
+
+    // Trashed together with their subtasks, as in deleteTask
+    const deletedAt = new Date();
+    await Task.updateMany(
+      { $or: [{ _id: { $in: taskIds } }, { parentTaskId: { $in: taskIds } }] },
+      { $set: { deletedAt } }
+    ).exec();
+
+    await recordActivity(
+      tasks.map((task) => ({
+        workspaceId,
+        userId,
+        entityType: ActivityEntityType.TASK,
+        entityId: task._id,
+        entityName: task.title,
+        action: ActivityAction.DELETED,
+      }))
+    );
+
+    revalidatePath("/dashboard/tasks");
+
+    return {
+      results,
+      deleted: taskIds.length,
+      undoToken: createUndoToken(
+        {
+          type: "restoreTasks",
+          taskIds,
+          deletedAt: deletedAt.toISOString(),
+        },
+        { workspaceId, userId }
+      ),
+    };
+  } catch (error) {
+    console.error("Error deleting tasks:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to delete tasks"
+    );
+  }
+}
+
+// Most tasks a single CSV export may contain
+const MAX_EXPORT_TASKS = 10000;
+
+// Columns of an exported CSV file, with the value of each for a task
+const CSV_COLUMNS: [string, (task: TaskDocument) => CsvCell][] = [
+  ["Title", (task) => task.title],
+  ["Description", (task) => task.description],
+  ["Status", (task) => task.status],
+  ["Priority", (task) => task.priority],
+  ["Due Date", (task) => task.dueDate?.toISOString()],
+  ["Category", (task) => task.categoryId?.name],
+  ["Created At", (task) => task.createdAt?.toISOString()],
+  ["Started At", (task) => task.startedAt?.toISOString()],
+  ["Completed At", (task) => task.completedAt?.toISOString()],
+  ["Updated At", (task) => task.updatedAt?.toISOString()],
+];
+
+// Export every top-level task matching the list filters to CSV, in list order
+export async function exportTasksCsv({
+  status = "",
+  priority = "",
+  categoryId = "",
+  assigneeId = "",
+  search = "",
+  sortBy = "createdAt",
+  sortOrder = "desc",
+}: TaskQueryFilter & {
+  sortBy?: string;
+  sortOrder?: "asc" | "desc";
+}) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.VIEWER
+    );
+
+    const queryFilter = buildTaskFilter(
+      { status, priority, categoryId, assigneeId, search },
+      workspaceId,
+      userId
+    );
+
+    const total = await Task.countDocuments(queryFilter).exec();
+
+    if (total > MAX_EXPORT_TASKS) {
+      throw new Error(
+        `Cannot export more than ${MAX_EXPORT_TASKS} tasks at once. Narrow the filters first`
+      );
+    }
+
+    const sortField = (TASK_SORT_FIELDS as readonly string[]).includes(sortBy)
+      ? sortBy
+      : "createdAt";
+
+    const tasks = await Task.find(queryFilter)
+      .sort({
+        [sortField]: sortOrder === "asc" ? 1 : -1,
+        createdAt: sortOrder === "asc" ? 1 : -1,
+      })
+      .populate("categoryId", "name")
+      .exec();
+
+    return {
+      csv: toCsv([
+        CSV_COLUMNS.map(([header]) => header),
+        ...tasks.map((task) =>
+          CSV_COLUMNS.map(([, getValue]) => getValue(task))
+        ),
+      ]),
+      count: tasks.length,
+    };
+  } catch (error) {
+    console.error("Error exporting tasks:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to export tasks"
+    );
+  }
+}
+
+// Spellings of statuses and priorities accepted in imported files, after
+// lowercasing and collapsing separators to a single space
+const IMPORT_STATUSES: Record<string, TaskStatus> = {
+  todo: TaskStatus.TODO,
+  "to do": TaskStatus.TODO,
+  open: TaskStatus.TODO,
+  "in progress": TaskStatus.IN_PROGRESS,
+  doing: TaskStatus.IN_PROGRESS,
+  started: TaskStatus.IN_PROGRESS,
+  completed: TaskStatus.COMPLETED,
+  complete: TaskStatus.COMPLETED,
+  done: TaskStatus.COMPLETED,
+  closed: TaskStatus.COMPLETED,
+};
+
+const IMPORT_PRIORITIES: Record<string, TaskPriority> = {
+  low: TaskPriority.LOW,
+  medium: TaskPriority.MEDIUM,
+  normal: TaskPriority.MEDIUM,
+  high: TaskPriority.HIGH,
+  urgent: TaskPriority.HIGH,
+};
+
+const toImportKey = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+
+// Interpret the text of an imported row as task data and validate it with
+// the same schema as a task created in the app
+function parseImportRow(row: TaskImportRow) {
+  const errors: string[] = [];
+  const status = row.status?.trim()
+    ? IMPORT_STATUSES[toImportKey(row.status)]
+    : undefined;
+  const priority = row.priority?.trim()
+    ? IMPORT_PRIORITIES[toImportKey(row.priority)]
+    : undefined;
+  const dueDate = row.dueDate?.trim() ? new Date(row.dueDate.trim()) : null;
+
+  if (row.status?.trim() && !status) {
+    errors.push(`Unknown status "${row.status.trim()}"`);
+  }
+
+  if (row.priority?.trim() && !priority) {
+    errors.push(`Unknown priority "${row.priority.trim()}"`);
+  }
+
+  if (dueDate && isNaN(dueDate.getTime())) {
+    errors.push(`Invalid due date "${row.dueDate?.trim()}"`);
+  }
+
+  const result = taskCreateSchema.safeParse({
+    title: row.title?.trim() || "",
+    description: row.description?.trim() || undefined,
+    status,
+    priority,
+    dueDate:
+      dueDate && !isNaN(dueDate.getTime()) ? dueDate.toISOString() : null,
+  });
+
+  if (!result.success) {
+    errors.push(...Object.values(result.error.flatten().fieldErrors).flat());
+  }
+
+  return { data: result.success ? result.data : null, errors };
+}
+
+// Validate the rows of an import against the workspace. Rows naming a
+// category the workspace does not have yet (ignoring case) will create it.
+async function validateImportRows(rows: TaskImportRow[], workspaceId: string) {
+  const result = taskImportSchema.safeParse(rows);
+  if (!result.success) {
+    throw new Error(JSON.stringify(result.error.flatten()));
+  }
+
+  const categories = await Category.find({ workspaceId }).select("name").exec();
+  const trashedCategories = await Category.find({
+    workspaceId,
+    deletedAt: { $ne: null },
+  })
+    .select("name")
+    .exec();
+
+  const categoryIds = new Map<string, string>(
+    categories.map((category) => [
+      category.name.toLowerCase(),
+      category._id.toString(),
+    ])
+  );
+  const trashedNames = new Set(
+    trashedCategories.map((category) => category.name.toLowerCase())
+  );
+
+  // Categories to create, by lowercased name, spelled as first written
+  const newCategories = new Map<string, string>();
+  const valid: {
+    index: number;
+    data: z.infer<typeof taskCreateSchema>;
+    categoryKey: string | null;
+  }[] = [];
+  const errors: TaskImportRowError[] = [];
+
+  result.data.forEach((row, index) => {
+    const { data, errors: rowErrors } = parseImportRow(row);
+    const categoryName = row.category?.trim() || "";
+    const categoryKey = categoryName.toLowerCase() || null;
+
+    if (categoryKey && !categoryIds.has(categoryKey)) {
+      if (trashedNames.has(categoryKey)) {
+        rowErrors.push(`Category "${categoryName}" is in the trash`);
+      } else {
+        const nameResult = categoryCreateSchema.safeParse({
+          name: categoryName,
+        });
+
+        if (!nameResult.success) {
+          rowErrors.push(
+            ...(nameResult.error.flatten().fieldErrors.name || [])
+          );
+        }
+      }
+    }
+
+    if (!data || rowErrors.length > 0) {
+      errors.push({ index, errors: rowErrors });
+      return;
+    }
+
+    if (categoryKey && !categoryIds.has(categoryKey)) {
+      if (!newCategories.has(categoryKey)) {
+        newCategories.set(categoryKey, categoryName);
+      }
+    }
+
+    valid.push({ index, data, categoryKey });
+  });
+
+  return { valid, errors, categoryIds, newCategories };
+}
+
+// Check the rows of an import without importing them
+export async function previewTaskImport(rows: TaskImportRow[]) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.EDITOR);
+
+    const { valid, errors, newCategories } = await validateImportRows(
+      rows,
+      workspaceId
+    );
+
+    return {
+      validCount: valid.length,
+      errors,
+      newCategories: Array.from(newCategories.values()),
+    };
+  } catch (error) {
+    console.error("Error previewing task import:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to check the import"
+    );
+  }
+}
+
+// Import the valid rows of an import as new top-level tasks, creating the
+// categories they name, and report the rows that were skipped
+export async function importTasks(rows: TaskImportRow[]) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const { valid, errors, categoryIds, newCategories } =
+      await validateImportRows(rows, workspaceId);
+
+    if (valid.length === 0) {
+      return { imported: 0, skipped: errors, createdCategories: [] };
+    }
+
+    const createdCategories = await Category.insertMany(
+      Array.from(newCategories.values()).map((name) => ({
+        name,
+        userId,
+        workspaceId,
+      }))
+    );
+
+    createdCategories.forEach((category) =>
+      categoryIds.set(category.name.toLowerCase(), category._id.toString())
+    );
+
+    // Imported tasks go to the bottom of their board columns, in file order
+    const nextPositions = new Map<TaskStatus, number>();
+    for (const status of new Set(valid.map(({ data }) => data.status))) {
+      nextPositions.set(
+        status,
+        await getNextColumnPosition(workspaceId, status)
+      );
+    }
+
+    const now = new Date();
+    const tasks = await Task.insertMany(
+      valid.map(({ data, categoryKey }) => {
+        const position = nextPositions.get(data.status) as number;
+        nextPositions.set(data.status, position + 1);
+
+        return {
+          title: data.title,
+          description: data.description,
+          status: data.status,
+          ...getStatusTimestamps(data.status, undefined, now),
+          position,
+          priority: data.priority,
+          dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+          categoryId: categoryKey ? categoryIds.get(categoryKey) : undefined,
+          userId,
+          workspaceId,
+        };
+      })
+    );
+
+    await recordActivity([
+      ...createdCategories.map((category) => ({
+        workspaceId,
+        userId,
+        entityType: ActivityEntityType.CATEGORY,
+        entityId: category._id,
+        entityName: category.name,
+        action: ActivityAction.CREATED,
+      })),
+      ...tasks.map((task) => ({
+        workspaceId,
+        userId,
+        entityType: ActivityEntityType.TASK,
+        entityId: task._id,
+        entityName: task.title,
+        action: ActivityAction.CREATED,
+      })),
+    ]);
+
+    revalidatePath("/dashboard/tasks");
+    revalidatePath("/dashboard/categories");
+
+    return serializeData({
+      imported: tasks.length,
+      skipped: errors,
+      createdCategories: createdCategories.map((category) => category.name),
+    });
+  } catch (error) {
+    console.error("Error importing tasks:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to import tasks"
+    );
+  }
+}
+
+// Get the subtasks of a task in their manual order
+export async function getSubtasks(parentId: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    await findWorkspaceTask(parentId, workspaceId);
+
+    const subtasks = await Task.find({ parentTaskId: parentId })
+      .sort({ position: 1, createdAt: 1 })
+      .populate("categoryId", "name")
+      .exec();
+
+    return serializeData(subtasks.map(formatTask));
+  } catch (error) {
+    console.error("Error fetching subtasks:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch subtasks"
+    );
+  }
+}
+
+// Add a subtask to the end of a task's checklist
+export async function createSubtask(
+  parentId: string,
+  data: z.infer<typeof taskCreateSchema>
+) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    // Validate subtask data
+    const result = taskCreateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const { title, description, status, priority, dueDate } = result.data;
+
+    const parent = await findWorkspaceTask(parentId, workspaceId);
+
+    // Only one level of nesting is supported
+    if (parent.parentTaskId) {
+      throw new Error("Subtasks cannot have subtasks");
+    }
+
+    const lastSubtask = await Task.findOne({ parentTaskId: parentId })
+      .sort({ position: -1 })
+      .exec();
+
+    const newSubtask = await Task.create({
+      title,
+      description,
+      status,
+      ...getStatusTimestamps(status),
+      priority,
+      dueDate: dueDate ? new Date(dueDate) : undefined,
+      categoryId: parent.categoryId,
+      userId,
+      workspaceId,
+      parentTaskId: parentId,
+      position: lastSubtask ? lastSubtask.position + 1 : 0,
+    });
+
+    await newSubtask.populate("categoryId", "name");
+    await logTaskActivity(userId, newSubtask, ActivityAction.CREATED);
+
+    revalidatePath("/dashboard/tasks");
+
+    return serializeData(formatTask(newSubtask));
+  } catch (error) {
+    console.error("Error creating subtask:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create subtask"
+    );
+  }
+}
+
+// Toggle a subtask between to do and completed
+export async function toggleSubtask(id: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const subtask = await findWorkspaceTask(id, workspaceId);
+
+    if (!subtask.parentTaskId) {
+      throw new Error("Task is not a subtask");
+    }
+
+    const nextStatus =
+      subtask.status === TaskStatus.COMPLETED
+        ? TaskStatus.TODO
+        : TaskStatus.COMPLETED;
+    await assertNotBlocked(subtask, nextStatus);
+
+    const previousStatus = subtask.status;
+    subtask.set({
+      status: nextStatus,
+      ...getStatusTimestamps(nextStatus, subtask),
+    });
+    await subtask.save();
+    await subtask.populate("categoryId", "name");
+
+    await logTaskActivity(userId, subtask, ActivityAction.UPDATED, [
+      { field: "status", from: previousStatus, to: nextStatus },
+    ]);
+
+    revalidatePath("/dashboard/tasks");
+
+    return serializeData(formatTask(subtask));
+  } catch (error) {
+    console.error("Error toggling subtask:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to toggle subtask"
+    );
+  }
+}
+
+// Persist a new order for a task's subtasks
+export async function reorderSubtasks(parentId: string, orderedIds: string[]) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const parent = await findWorkspaceTask(parentId, workspaceId);
+
+    const subtasks = await Task.find({ parentTaskId: parentId })
+      .select("_id")
+      .exec();
+    const subtaskIds = new Set(
+      subtasks.map((subtask) => subtask._id.toString())
+    );
+
+    if (
+      orderedIds.length !== subtaskIds.size ||
+      orderedIds.some((id) => !subtaskIds.has(id))
+    ) {
+      throw new Error("Ordered IDs must match the task's subtasks");
+    }
+
+    await Task.bulkWrite(
+      orderedIds.map((id, index) => ({
+        updateOne: {
+          filter: { _id: id, parentTaskId: parentId },
+          update: { $set: { position: index } },
+        },
+      }))
+    );
+
+    await logTaskActivity(userId, parent, ActivityAction.UPDATED, [
+      { field: "subtaskOrder", from: null, to: null },
+    ]);
 
     revalidatePath("/dashboard/tasks");
 
     return { success: true };
   } catch (error) {
-    console.error("Error deleting task:", error);
+    console.error("Error reordering subtasks:", error);
     throw new Error(
-      error instanceof Error ? error.message : "Failed to delete task"
+      error instanceof Error ? error.message : "Failed to reorder subtasks"
+    );
+  }
+}
+
+// Get the tasks blocking a task and the tasks it blocks
+export async function getTaskDependencies(id: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const task = await findWorkspaceTask(id, workspaceId);
+    const { blockers, isBlocked } = (await getBlockerDetails([task]))[
+      task._id.toString()
+    ];
+
+    const blocking = await Task.find({ blockedBy: task._id })
+      .select("_id title status")
+      .sort({ title: 1 })
+      .exec();
+
+    return serializeData({
+      blockedBy: blockers,
+      blocking: blocking.map((dependent) => ({
+        id: dependent._id.toString(),
+        title: dependent.title,
+        status: dependent.status,
+      })),
+      isBlocked,
+    });
+  } catch (error) {
+    console.error("Error fetching task dependencies:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Failed to fetch task dependencies"
+    );
+  }
+}
+
+// Mark a task as blocked by another task
+export async function addTaskDependency(taskId: string, blockerId: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    if (taskId === blockerId) {
+      throw new Error("A task cannot block itself");
+    }
+
+    // Both ends of the edge must belong to the current workspace
+    const task = await findWorkspaceTask(taskId, workspaceId);
+    const blocker = await findWorkspaceTask(blockerId, workspaceId);
+
+    if (await wouldCreateCycle(taskId, blockerId, workspaceId)) {
+      throw new Error("This dependency would create a cycle");
+    }
+
+    await Task.updateOne(
+      { _id: taskId },
+      { $addToSet: { blockedBy: blockerId } }
+    ).exec();
+
+    await logTaskActivity(userId, task, ActivityAction.UPDATED, [
+      { field: "blockedBy", from: null, to: blocker.title },
+    ]);
+
+    revalidatePath("/dashboard/tasks");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error adding task dependency:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to add task dependency"
+    );
+  }
+}
+
+// Remove a blocking relation between two tasks
+export async function removeTaskDependency(taskId: string, blockerId: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const task = await findWorkspaceTask(taskId, workspaceId);
+    const blocker = await Task.findById(blockerId).select("title").exec();
+
+    await Task.updateOne(
+      { _id: taskId },
+      { $pull: { blockedBy: blockerId } }
+    ).exec();
+
+    await logTaskActivity(userId, task, ActivityAction.UPDATED, [
+      { field: "blockedBy", from: blocker?.title || null, to: null },
+    ]);
+
+    revalidatePath("/dashboard/tasks");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing task dependency:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Failed to remove task dependency"
+    );
+  }
+}
+
+// Assign a workspace member to a task
+export async function assignTask(taskId: string, assigneeId: string) {
+  try {
+    const { userId, workspace, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const task = await findWorkspaceTask(taskId, workspaceId);
+
+    if (getMemberRole(workspace, assigneeId) === null) {
+      throw new Error("Assignee must be a member of the workspace");
+    }
+
+    await Task.updateOne(
+      { _id: taskId },
+      { $addToSet: { assigneeIds: assigneeId } }
+    ).exec();
+
+    const assignee = await User.findById(assigneeId).select("name").exec();
+    await logTaskActivity(userId, task, ActivityAction.UPDATED, [
+      { field: "assigneeIds", from: null, to: assignee?.name || null },
+    ]);
+
+    revalidatePath("/dashboard/tasks");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error assigning task:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to assign task"
+    );
+  }
+}
+
+// Remove an assignee from a task
+export async function unassignTask(taskId: string, assigneeId: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const task = await findWorkspaceTask(taskId, workspaceId);
+
+    await Task.updateOne(
+      { _id: taskId },
+      { $pull: { assigneeIds: assigneeId } }
+    ).exec();
+
+    const assignee = await User.findById(assigneeId).select("name").exec();
+    await logTaskActivity(userId, task, ActivityAction.UPDATED, [
+      { field: "assigneeIds", from: assignee?.name || null, to: null },
+    ]);
+
+    revalidatePath("/dashboard/tasks");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error unassigning task:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to unassign task"
+    );
+  }
+}
+
+// Move a task within its board column, between the tasks directly above
+// (`afterId`) and below (`beforeId`) its new place. Only the moved task is
+// written unless its neighbours are too close together.
+export async function moveTask(
+  id: string,
+  {
+    afterId = null,
+    beforeId = null,
+  }: { afterId?: string | null; beforeId?: string | null }
+) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const task = await findWorkspaceTask(id, workspaceId);
+
+    if (task.parentTaskId) {
+      throw new Error("Subtasks are ordered within their parent task");
+    }
+
+    const above = afterId
+      ? await findWorkspaceTask(afterId, workspaceId)
+      : null;
+    const below = beforeId
+      ? await findWorkspaceTask(beforeId, workspaceId)
+      : null;
+
+    if (
+      [above, below].some(
+        (neighbour) =>
+          neighbour &&
+          (neighbour.status !== task.status || neighbour.parentTaskId)
+      )
+    ) {
+      throw new Error("Tasks can only be ordered within the same column");
+    }
+
+    let position: number;
+
+    if (above && below) {
+      position =
+        below.position - above.position > MIN_POSITION_GAP
+          ? (above.position + below.position) / 2
+          : await renumberColumn(task, afterId);
+    } else if (above) {
+      position = above.position + 1;
+    } else if (below) {
+      position = below.position - 1;
+    } else {
+      position = 0;
+    }
+
+    await Task.updateOne({ _id: id }, { $set: { position } }).exec();
+
+    await logTaskActivity(userId, task, ActivityAction.UPDATED, [
+      { field: "position", from: task.position, to: position },
+    ]);
+
+    revalidatePath("/dashboard/tasks/board");
+
+    return { success: true, position };
+  } catch (error) {
+    console.error("Error moving task:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to move task"
+    );
+  }
+}
+
+// Put the fields a change overwrote on a task back to their previous values,
+// dropping the occurrence the change scheduled and resetting the subtasks it
+// completed
+async function revertTaskRevision(
+  task: TaskDocument,
+  revision: TaskRevision,
+  subtasks: SubtaskSnapshot[],
+  workspaceId: string,
+  userId: string
+) {
+  // Drop the occurrence that completing a recurring task scheduled
+  if (revision.nextOccurrenceId) {
+    const nextOccurrence = await Task.findOne({
+      _id: revision.nextOccurrenceId,
+      workspaceId,
+    }).exec();
+
+    if (nextOccurrence) {
+      await Task.updateMany(
+        {
+          $or: [
+            { _id: nextOccurrence._id },
+            { parentTaskId: nextOccurrence._id },
+          ],
+        },
+        { $set: { deletedAt: new Date() } }
+      ).exec();
+      await logTaskActivity(userId, nextOccurrence, ActivityAction.DELETED);
+    }
+  }
+
+  if (subtasks.length > 0) {
+    await Task.bulkWrite(
+      subtasks.map(({ id, ...snapshot }) => ({
+        updateOne: {
+          filter: { _id: id, parentTaskId: task._id },
+          update: { $set: snapshot },
+        },
+      }))
+    );
+  }
+
+  const revertedTask = await Task.findByIdAndUpdate(
+    task._id,
+    { $set: revision.previous },
+    { new: true, runValidators: true }
+  ).exec();
+
+  await logTaskActivity(
+    userId,
+    revertedTask,
+    ActivityAction.UPDATED,
+    diffFields(task.toObject(), revertedTask.toObject())
+  );
+}
+
+// Replay the inverse of an earlier task change described by an undo token
+export async function undoTaskOperation(token: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const operation = readUndoToken(token, { workspaceId, userId });
+
+    if (operation.type === "restoreTasks") {
+      const deletedAt = new Date(operation.deletedAt);
+      const result = await Task.updateMany(
+        {
+          $or: [
+            { _id: { $in: operation.taskIds } },
+            { parentTaskId: { $in: operation.taskIds } },
+          ],
+          workspaceId,
+          deletedAt,
+        },
+        { $set: { deletedAt: null } }
+      ).exec();
+
+      if (result.modifiedCount === 0) {
+        throw new Error("These tasks can no longer be restored");
+      }
+
+      const restoredTasks = await Task.find({
+        _id: { $in: operation.taskIds },
+      }).exec();
+      await recordActivity(
+        restoredTasks.map((task) => ({
+          workspaceId,
+          userId,
+          entityType: ActivityEntityType.TASK,
+          entityId: task._id,
+          entityName: task.title,
+          action: ActivityAction.RESTORED,
+        }))
+      );
+    } else if (operation.type === "revertTask") {
+      const task = await findWorkspaceTask(operation.taskId, workspaceId);
+
+      if (task.updatedAt.toISOString() !== operation.updatedAt) {
+        throw new Error(
+          "This task has changed since, so the change can no longer be undone"
+        );
+      }
+
+      await revertTaskRevision(
+        task,
+        operation,
+        operation.subtasks,
+        workspaceId,
+        userId
+      );
+    } else {
+      const taskIds = operation.revisions.map((revision) => revision.taskId);
+      const tasks = await Task.find({
+        _id: { $in: taskIds },
+        workspaceId,
+      }).exec();
+      const revisionsById = new Map(
+        operation.revisions.map((revision) => [revision.taskId, revision])
+      );
+
+      // Tasks edited since the bulk change keep their newer values
+      const unchanged = tasks.filter(
+        (task) =>
+          task.updatedAt.toISOString() ===
+          revisionsById.get(task._id.toString())?.updatedAt
+      );
+
+      if (unchanged.length === 0) {
+        throw new Error(
+          "These tasks have changed since, so the change can no longer be undone"
+        );
+      }
+
+      for (const task of unchanged) {
+        const revision = revisionsById.get(task._id.toString());
+
+        if (revision) {
+          await revertTaskRevision(task, revision, [], workspaceId, userId);
+        }
+      }
+    }
+
+    revalidatePath("/dashboard/tasks");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error undoing task operation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to undo change"
     );
   }
 }
@@ -0,0 +1,532 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { getWorkspaceContext } from "@/lib/workspace";
+import TimeEntry from "@/models/time-entry.model";
+import Task from "@/models/task.model";
+import User from "@/models/user.model";
+// Registers the model that populate resolves category names from
+import "@/models/category.model";
+import {
+  TaskAssignee,
+  Timesheet,
+  TimesheetCategory,
+  WorkspaceRole,
+} from "@/types";
+import { serializeData } from "@/lib/utils/serialize";
+import { toCsv } from "@/lib/utils/csv";
+import { isValidTimeZone, toDayKey } from "@/lib/utils/time-zones";
+import {
+  MAX_TIME_ENTRY_MINUTES,
+  timeEntryCreateSchema,
+  timeEntryUpdateSchema,
+  timesheetQuerySchema,
+} from "@/lib/validations/time-entry";
+
+// Most entries returned for a single task, the latest ones
+const MAX_TASK_ENTRIES = 500;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Entries may end slightly in the future because of clock differences
+// between the browser and the server
+const CLOCK_SKEW_MS = 5 * MINUTE;
+
+const UNCATEGORIZED = "Uncategorized";
+
+type TimeEntryDocument = InstanceType<typeof TimeEntry>;
+
+// Verify that a task belongs to the workspace, trashed tasks excluded
+async function findTrackedTask(taskId: string, workspaceId: string) {
+  const task = await Task.findOne({ _id: taskId, workspaceId })
+    .select("_id title")
+    .exec();
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  return task;
+}
+
+// Load an entry of the workspace that the user may change: their own, or
+// any entry for the workspace owner
+async function findEditableEntry(
+  id: string,
+  {
+    userId,
+    workspaceId,
+    role,
+  }: { userId: string; workspaceId: string; role: WorkspaceRole }
+) {
+  const entry = await TimeEntry.findOne({ _id: id, workspaceId }).exec();
+
+  if (!entry) {
+    throw new Error("Time entry not found");
+  }
+
+  if (entry.userId.toString() !== userId && role !== WorkspaceRole.OWNER) {
+    throw new Error(
+      "Only the person who logged the time or the workspace owner can change it"
+    );
+  }
+
+  await findTrackedTask(entry.taskId.toString(), workspaceId);
+
+  return entry;
+}
+
+// Check the times of a finished entry
+function assertEntryTimes(startedAt: Date, endedAt: Date) {
+  if (endedAt <= startedAt) {
+    throw new Error("Invalid time entry: the end must come after the start");
+  }
+
+  if (endedAt.getTime() > Date.now() + CLOCK_SKEW_MS) {
+    throw new Error("Invalid time entry: it cannot end in the future");
+  }
+
+  if (
+    endedAt.getTime() - startedAt.getTime() >
+    MAX_TIME_ENTRY_MINUTES * MINUTE
+  ) {
+    throw new Error(
+      `Invalid time entry: it cannot be longer than ${
+        MAX_TIME_ENTRY_MINUTES / 60
+      } hours`
+    );
+  }
+}
+
+// Whole minutes of an entry, counting a running timer up to now
+function getEntryMinutes(entry: TimeEntryDocument, now: Date) {
+  const end: Date = entry.endedAt || now;
+  return Math.max(
+    0,
+    Math.round((end.getTime() - entry.startedAt.getTime()) / MINUTE)
+  );
+}
+
+// Format entries for the client, resolving their users and task titles
+async function formatEntries(entries: TimeEntryDocument[]) {
+  const userIds = Array.from(
+    new Set(entries.map((entry) => entry.userId.toString()))
+  );
+  const taskIds = Array.from(
+    new Set(entries.map((entry) => entry.taskId.toString()))
+  );
+
+  const [users, tasks] = await Promise.all([
+    userIds.length > 0
+      ? User.find({ _id: { $in: userIds } })
+          .select("_id name image")
+          .exec()
+      : [],
+    Task.find({ _id: { $in: taskIds } })
+      .select("_id title")
+      .exec(),
+  ]);
+  const usersById: Record<string, TaskAssignee> = Object.fromEntries(
+    users.map((user) => [
+      user._id.toString(),
+      { id: user._id.toString(), name: user.name, image: user.image },
+    ])
+  );
+  const titlesById: Record<string, string> = Object.fromEntries(
+    tasks.map((task) => [task._id.toString(), task.title])
+  );
+
+  return entries.map((entry) => ({
+    id: entry._id.toString(),
+    taskId: entry.taskId.toString(),
+    taskTitle: titlesById[entry.taskId.toString()] || "Deleted task",
+    user: usersById[entry.userId.toString()] || null,
+    startedAt: entry.startedAt,
+    endedAt: entry.endedAt,
+    note: entry.note || "",
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  }));
+}
+
+// Stop the running timer of a user, if any
+async function stopRunningTimer(userId: string) {
+  return TimeEntry.findOneAndUpdate(
+    { userId, endedAt: null },
+    { $set: { endedAt: new Date() } },
+    { new: true }
+  ).exec();
+}
+
+// Get the time logged on a task, latest first
+export async function getTaskTimeEntries(taskId: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const task = await findTrackedTask(taskId, workspaceId);
+
+    const entries = await TimeEntry.find({ taskId: task._id })
+      .sort({ startedAt: -1 })
+      .limit(MAX_TASK_ENTRIES)
+      .exec();
+
+    return serializeData(await formatEntries(entries));
+  } catch (error) {
+    console.error("Error fetching time entries:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch time entries"
+    );
+  }
+}
+
+// Get the current user's running timer, or null
+export async function getRunningTimer() {
+  try {
+    const { userId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const entry = await TimeEntry.findOne({ userId, endedAt: null }).exec();
+
+    return entry ? serializeData((await formatEntries([entry]))[0]) : null;
+  } catch (error) {
+    console.error("Error fetching running timer:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch running timer"
+    );
+  }
+}
+
+// Start a timer on a task. A user has one running timer at most, so any
+// timer they already have running is stopped first.
+export async function startTimer(taskId: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const task = await findTrackedTask(taskId, workspaceId);
+
+    const stopped = await stopRunningTimer(userId);
+
+    let entry: TimeEntryDocument;
+    try {
+      entry = await TimeEntry.create({
+        workspaceId,
+        taskId: task._id,
+        userId,
+        startedAt: new Date(),
+        endedAt: null,
+      });
+    } catch (error) {
+      // Another request started a timer in the meantime
+      if ((error as { code?: number }).code === 11000) {
+        throw new Error("A timer is already running");
+      }
+      throw error;
+    }
+
+    revalidatePath("/dashboard/tasks");
+
+    const [timer, ...previous] = await formatEntries(
+      stopped ? [entry, stopped] : [entry]
+    );
+    return serializeData({ timer, stopped: previous[0] || null });
+  } catch (error) {
+    console.error("Error starting timer:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to start timer"
+    );
+  }
+}
+
+// Stop the current user's running timer
+export async function stopTimer() {
+  try {
+    const { userId } = await getWorkspaceContext(WorkspaceRole.EDITOR);
+
+    const entry = await stopRunningTimer(userId);
+
+    if (!entry) {
+      throw new Error("No timer is running");
+    }
+
+    revalidatePath("/dashboard/tasks");
+
+    const [formatted] = await formatEntries([entry]);
+    return serializeData(formatted);
+  } catch (error) {
+    console.error("Error stopping timer:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to stop timer"
+    );
+  }
+}
+
+// Log time spent on a task by hand
+export async function createTimeEntry(
+  taskId: string,
+  data: z.infer<typeof timeEntryCreateSchema>
+) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    // Validate time entry data
+    const result = timeEntryCreateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const task = await findTrackedTask(taskId, workspaceId);
+
+    const startedAt = new Date(result.data.startedAt);
+    const endedAt = new Date(result.data.endedAt);
+    assertEntryTimes(startedAt, endedAt);
+
+    const entry = await TimeEntry.create({
+      workspaceId,
+      taskId: task._id,
+      userId,
+      startedAt,
+      endedAt,
+      note: result.data.note || "",
+    });
+
+    revalidatePath("/dashboard/tasks");
+
+    const [formatted] = await formatEntries([entry]);
+    return serializeData(formatted);
+  } catch (error) {
+    console.error("Error creating time entry:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create time entry"
+    );
+  }
+}
+
+// Change the times or note of an entry. The end of a running timer is set
+// by stopping it.
+export async function updateTimeEntry(
+  id: string,
+  data: z.infer<typeof timeEntryUpdateSchema>
+) {
+  try {
+    const context = await getWorkspaceContext(WorkspaceRole.EDITOR);
+
+    // Validate time entry data
+    const result = timeEntryUpdateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const entry = await findEditableEntry(id, context);
+
+    if (result.data.endedAt && !entry.endedAt) {
+      throw new Error("Cannot set the end of a running timer; stop it instead");
+    }
+
+    if (result.data.startedAt) {
+      entry.startedAt = new Date(result.data.startedAt);
+    }
+    if (result.data.endedAt) {
+      entry.endedAt = new Date(result.data.endedAt);
+    }
+    if (result.data.note !== undefined) {
+      entry.note = result.data.note;
+    }
+
+    if (entry.endedAt) {
+      assertEntryTimes(entry.startedAt, entry.endedAt);
+    } else if (entry.startedAt.getTime() > Date.now() + CLOCK_SKEW_MS) {
+      throw new Error("Invalid time entry: a timer cannot start in the future");
+    }
+
+    await entry.save();
+
+    revalidatePath("/dashboard/tasks");
+
+    const [formatted] = await formatEntries([entry]);
+    return serializeData(formatted);
+  } catch (error) {
+    console.error("Error updating time entry:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to update time entry"
+    );
+  }
+}
+
+// Delete a time entry
+export async function deleteTimeEntry(id: string) {
+  try {
+    const context = await getWorkspaceContext(WorkspaceRole.EDITOR);
+
+    const entry = await findEditableEntry(id, context);
+
+    await TimeEntry.deleteOne({ _id: entry._id }).exec();
+
+    revalidatePath("/dashboard/tasks");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting time entry:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to delete time entry"
+    );
+  }
+}
+
+// Sum the time logged in a week per task, grouped by category. Entries count
+// towards the day they started on in the given time zone.
+async function buildTimesheet(
+  query: z.input<typeof timesheetQuerySchema>
+): Promise<Timesheet> {
+  const { userId, workspaceId } = await getWorkspaceContext(
+    WorkspaceRole.VIEWER
+  );
+
+  const result = timesheetQuerySchema.safeParse(query);
+  if (!result.success) {
+    throw new Error(JSON.stringify(result.error.flatten()));
+  }
+
+  const { weekStart, timeZone, scope } = result.data;
+
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid time zone: ${timeZone}`);
+  }
+
+  const monday = new Date(`${weekStart}T00:00:00Z`);
+  const days = Array.from({ length: 7 }, (_, index) =>
+    new Date(monday.getTime() + index * DAY).toISOString().slice(0, 10)
+  );
+
+  // A day longer on each side covers the offset of any time zone
+  const entries = await TimeEntry.find({
+    workspaceId,
+    ...(scope === "mine" ? { userId } : {}),
+    startedAt: {
+      $gte: new Date(monday.getTime() - DAY),
+      $lt: new Date(monday.getTime() + 8 * DAY),
+    },
+  }).exec();
+
+  const tasks = await Task.find({
+    _id: { $in: entries.map((entry) => entry.taskId) },
+    workspaceId,
+  })
+    .select("_id title categoryId")
+    .populate("categoryId", "name")
+    .exec();
+  const tasksById = new Map(tasks.map((task) => [task._id.toString(), task]));
+
+  const now = new Date();
+  const categories = new Map<string, TimesheetCategory>();
+  const minutes = days.map(() => 0);
+
+  for (const entry of entries) {
+    const day = days.indexOf(toDayKey(entry.startedAt, timeZone));
+    // Entries of trashed tasks are left out
+    const task = tasksById.get(entry.taskId.toString());
+
+    if (day === -1 || !task) continue;
+
+    const categoryKey = task.categoryId?._id.toString() ?? "";
+    let category = categories.get(categoryKey);
+    if (!category) {
+      category = {
+        id: task.categoryId?._id.toString() ?? null,
+        name: task.categoryId?.name ?? UNCATEGORIZED,
+        tasks: [],
+        minutes: days.map(() => 0),
+        total: 0,
+      };
+      categories.set(categoryKey, category);
+    }
+
+    let row = category.tasks.find((row) => row.id === task._id.toString());
+    if (!row) {
+      row = {
+        id: task._id.toString(),
+        title: task.title,
+        minutes: days.map(() => 0),
+        total: 0,
+      };
+      category.tasks.push(row);
+    }
+
+    const entryMinutes = getEntryMinutes(entry, now);
+    row.minutes[day] += entryMinutes;
+    row.total += entryMinutes;
+    category.minutes[day] += entryMinutes;
+    category.total += entryMinutes;
+    minutes[day] += entryMinutes;
+  }
+
+  // Categories by name with uncategorized tasks last, tasks by title
+  const sorted = Array.from(categories.values()).sort((a, b) =>
+    a.id === null ? 1 : b.id === null ? -1 : a.name.localeCompare(b.name)
+  );
+  sorted.forEach((category) =>
+    category.tasks.sort((a, b) => a.title.localeCompare(b.title))
+  );
+
+  return {
+    days,
+    categories: sorted,
+    minutes,
+    total: minutes.reduce((sum, value) => sum + value, 0),
+  };
+}
+
+// Get the timesheet of a week
+export async function getTimesheet(
+  query: z.input<typeof timesheetQuerySchema>
+) {
+  try {
+    return serializeData(await buildTimesheet(query));
+  } catch (error) {
+    console.error("Error fetching timesheet:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch timesheet"
+    );
+  }
+}
+
+// Export the timesheet of a week as CSV, one row per task with the hours
+// of each day
+export async function exportTimesheetCsv(
+  query: z.input<typeof timesheetQuerySchema>
+) {
+  try {
+    const timesheet = await buildTimesheet(query);
+    const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+    return {
+      csv: toCsv([
+        ["Category", "Task", ...timesheet.days, "Total"],
+        ...timesheet.categories.flatMap((category) =>
+          category.tasks.map((task) => [
+            category.name,
+            task.title,
+            ...task.minutes.map(toHours),
+            toHours(task.total),
+          ])
+        ),
+        [
+          "Total",
+          "",
+          ...timesheet.minutes.map(toHours),
+          toHours(timesheet.total),
+        ],
+      ]),
+      total: timesheet.total,
+    };
+  } catch (error) {
+    console.error("Error exporting timesheet:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to export timesheet"
+    );
+  }
+}
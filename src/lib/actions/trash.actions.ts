@@ -0,0 +1,267 @@
+"use server";
+
+import { getWorkspaceContext } from "@/lib/workspace";
+import { recordActivity } from "@/lib/activity";
+import {
+  IN_TRASH,
+  getRetentionDays,
+  purgeCategories,
+  purgeTasks,
+} from "@/lib/trash";
+import Task from "@/models/task.model";
+import Category from "@/models/category.model";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  TrashedCategory,
+  TrashedTask,
+  WorkspaceRole,
+} from "@/types";
+import { revalidatePath } from "next/cache";
+import { serializeData } from "@/lib/utils/serialize";
+
+async function findTrashedTask(id: string, workspaceId: string) {
+  const task = await Task.findOne({ _id: id, workspaceId, ...IN_TRASH }).exec();
+
+  if (!task) {
+    throw new Error("Task not found in trash");
+  }
+
+  return task;
+}
+
+async function findTrashedCategory(id: string, workspaceId: string) {
+  const category = await Category.findOne({
+    _id: id,
+    workspaceId,
+    ...IN_TRASH,
+  }).exec();
+
+  if (!category) {
+    throw new Error("Category not found in trash");
+  }
+
+  return category;
+}
+
+// Get the trashed tasks and categories of the current workspace. Items past
+// the retention period are purged by a scheduled job, not here.
+export async function getTrash() {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+    const [tasks, categories] = await Promise.all([
+      Task.find({ workspaceId, ...IN_TRASH })
+        .sort({ deletedAt: -1 })
+        .select("_id title status priority parentTaskId deletedAt")
+        .exec(),
+      Category.find({ workspaceId, ...IN_TRASH })
+        .sort({ deletedAt: -1 })
+        .select("_id name deletedAt")
+        .exec(),
+    ]);
+
+    // Subtasks trashed along with their parent are restored through it
+    const trashedIds = new Set(tasks.map((task) => task._id.toString()));
+    const trashedTasks: TrashedTask[] = tasks
+      .filter(
+        (task) =>
+          !task.parentTaskId || !trashedIds.has(task.parentTaskId.toString())
+      )
+      .map((task) => ({
+        id: task._id.toString(),
+        title: task.title,
+        status: task.status,
+        priority: task.priority,
+        parentTaskId: task.parentTaskId?.toString() || null,
+        deletedAt: task.deletedAt,
+      }));
+    const trashedCategories: TrashedCategory[] = categories.map((category) => ({
+      id: category._id.toString(),
+      name: category.name,
+      deletedAt: category.deletedAt,
+    }));
+
+    return serializeData({
+      tasks: trashedTasks,
+      categories: trashedCategories,
+      retentionDays: getRetentionDays(),
+    });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch trash"
+    );
+  }
+}
+
+// Restore a task, and the subtasks trashed together with it, from the trash
+export async function restoreTask(id: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const task = await findTrashedTask(id, workspaceId);
+
+    if (task.parentTaskId && !(await Task.exists({ _id: task.parentTaskId }))) {
+      throw new Error("Restore the parent task first");
+    }
+
+    await Task.updateMany(
+      {
+        $or: [{ _id: task._id }, { parentTaskId: task._id }],
+        deletedAt: task.deletedAt,
+      },
+      { $set: { deletedAt: null } }
+    ).exec();
+
+    await recordActivity({
+      workspaceId,
+      userId,
+      entityType: ActivityEntityType.TASK,
+      entityId: task._id,
+      entityName: task.title,
+      action: ActivityAction.RESTORED,
+    });
+
+    revalidatePath("/dashboard/tasks");
+    revalidatePath("/dashboard/trash");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error restoring task:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to restore task"
+    );
+  }
+}
+
+// Restore a category from the trash
+export async function restoreCategory(id: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const category = await findTrashedCategory(id, workspaceId);
+
+    if (await Category.exists({ name: category.name, workspaceId })) {
+      throw new Error("Category with this name already exists");
+    }
+
+    await Category.updateOne(
+      { _id: category._id, ...IN_TRASH },
+      { $set: { deletedAt: null } }
+    ).exec();
+
+    await recordActivity({
+      workspaceId,
+      userId,
+      entityType: ActivityEntityType.CATEGORY,
+      entityId: category._id,
+      entityName: category.name,
+      action: ActivityAction.RESTORED,
+    });
+
+    revalidatePath("/dashboard/categories");
+    revalidatePath("/dashboard/trash");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error restoring category:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to restore category"
+    );
+  }
+}
+
+// Permanently delete a task that is in the trash
+export async function deleteTaskPermanently(id: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const task = await findTrashedTask(id, workspaceId);
+
+    await purgeTasks([task._id]);
+
+    await recordActivity({
+      workspaceId,
+      userId,
+      entityType: ActivityEntityType.TASK,
+      entityId: task._id,
+      entityName: task.title,
+      action: ActivityAction.PURGED,
+    });
+
+    revalidatePath("/dashboard/trash");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error permanently deleting task:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to delete task"
+    );
+  }
+}
+
+// Permanently delete a category that is in the trash
+export async function deleteCategoryPermanently(id: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.EDITOR
+    );
+
+    const category = await findTrashedCategory(id, workspaceId);
+
+    await purgeCategories([category._id]);
+
+    await recordActivity({
+      workspaceId,
+      userId,
+      entityType: ActivityEntityType.CATEGORY,
+      entityId: category._id,
+      entityName: category.name,
+      action: ActivityAction.PURGED,
+    });
+
+    revalidatePath("/dashboard/trash");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error permanently deleting category:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to delete category"
+    );
+  }
+}
+
+// Permanently delete everything in the trash of the current workspace
+export async function emptyTrash() {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.OWNER);
+
+    const [tasks, categories] = await Promise.all([
+      Task.find({ workspaceId, ...IN_TRASH })
+        .select("_id")
+        .exec(),
+      Category.find({ workspaceId, ...IN_TRASH })
+        .select("_id")
+        .exec(),
+    ]);
+
+    await purgeTasks(tasks.map((task) => task._id));
+    await purgeCategories(categories.map((category) => category._id));
+
+    revalidatePath("/dashboard/trash");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error emptying trash:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to empty trash"
+    );
+  }
+}
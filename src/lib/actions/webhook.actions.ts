@@ -0,0 +1,343 @@
+"use server";
+
+import { z } from "zod";
+import { revalidatePath } from "next/cache";
+import { getWorkspaceContext } from "@/lib/workspace";
+import {
+  attemptDelivery,
+  generateWebhookSecret,
+  pingWebhook,
+  processDueDeliveries,
+} from "@/lib/webhooks";
+import { assertPublicWebhookUrl } from "@/lib/webhook-targets";
+import Webhook from "@/models/webhook.model";
+import WebhookDelivery from "@/models/webhook-delivery.model";
+import { serializeData } from "@/lib/utils/serialize";
+import {
+  webhookCreateSchema,
+  webhookUpdateSchema,
+} from "@/lib/validations/webhook";
+import { WebhookDeliveryStatus, WorkspaceRole } from "@/types";
+
+// Most webhooks a workspace may have at once
+const MAX_WEBHOOKS = 10;
+
+// Deliveries shown in the log of a webhook
+const DELIVERY_LOG_SIZE = 50;
+
+type WebhookDocument = InstanceType<typeof Webhook>;
+type WebhookDeliveryDocument = InstanceType<typeof WebhookDelivery>;
+
+// Format a webhook for the client
+function formatWebhook(
+  webhook: WebhookDocument,
+  lastDelivery: WebhookDeliveryDocument | null = null
+) {
+  return {
+    id: webhook._id.toString(),
+    url: webhook.url,
+    events: [...webhook.events],
+    secret: webhook.secret,
+    active: webhook.active,
+    lastDelivery: lastDelivery
+      ? {
+          status: lastDelivery.status,
+          responseStatus: lastDelivery.attempts.at(-1)?.responseStatus ?? null,
+          createdAt: lastDelivery.createdAt,
+        }
+      : null,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt,
+  };
+}
+
+// Format a delivery for the client
+function formatDelivery(delivery: WebhookDeliveryDocument) {
+  return {
+    id: delivery._id.toString(),
+    webhookId: delivery.webhookId.toString(),
+    event: delivery.event,
+    status: delivery.status,
+    payload: delivery.payload,
+    attempts: delivery.attempts.map(
+      (attempt: WebhookDeliveryDocument["attempts"][number]) => ({
+        attemptedAt: attempt.attemptedAt,
+        responseStatus: attempt.responseStatus,
+        error: attempt.error,
+        durationMs: attempt.durationMs,
+      })
+    ),
+    nextAttemptAt: delivery.nextAttemptAt,
+    createdAt: delivery.createdAt,
+  };
+}
+
+// Load a webhook and verify that it belongs to the given workspace
+async function findWorkspaceWebhook(id: string, workspaceId: string) {
+  const webhook = await Webhook.findOne({ _id: id, workspaceId }).exec();
+
+  if (!webhook) {
+    throw new Error("Webhook not found");
+  }
+
+  return webhook;
+}
+
+// Get the webhooks of the current workspace with their latest delivery
+export async function getWebhooks() {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.OWNER);
+
+    const webhooks = await Webhook.find({ workspaceId })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    const lastDeliveries = await Promise.all(
+      webhooks.map((webhook) =>
+        WebhookDelivery.findOne({ webhookId: webhook._id })
+          .sort({ createdAt: -1 })
+          .exec()
+      )
+    );
+
+    return serializeData(
+      webhooks.map((webhook, index) =>
+        formatWebhook(webhook, lastDeliveries[index])
+      )
+    );
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch webhooks"
+    );
+  }
+}
+
+// Create a webhook in the current workspace with a new signing secret
+export async function createWebhook(data: z.infer<typeof webhookCreateSchema>) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.OWNER
+    );
+
+    // Validate webhook data
+    const result = webhookCreateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    await assertPublicWebhookUrl(result.data.url);
+
+    const webhookCount = await Webhook.countDocuments({ workspaceId }).exec();
+
+    if (webhookCount >= MAX_WEBHOOKS) {
+      throw new Error(
+        `A workspace can have at most ${MAX_WEBHOOKS} webhooks. Delete one first`
+      );
+    }
+
+    const webhook = await Webhook.create({
+      workspaceId,
+      userId,
+      url: result.data.url,
+      events: Array.from(new Set(result.data.events)),
+      secret: generateWebhookSecret(),
+    });
+
+    revalidatePath("/dashboard/workspace");
+
+    return serializeData(formatWebhook(webhook));
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create webhook"
+    );
+  }
+}
+
+// Change the URL or events of a webhook, or enable or disable it
+export async function updateWebhook(
+  id: string,
+  data: z.infer<typeof webhookUpdateSchema>
+) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.OWNER);
+
+    // Validate update data
+    const result = webhookUpdateSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const { events, ...changes } = result.data;
+
+    if (changes.url) {
+      await assertPublicWebhookUrl(changes.url);
+    }
+
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: id, workspaceId },
+      {
+        $set: {
+          ...changes,
+          ...(events ? { events: Array.from(new Set(events)) } : {}),
+        },
+      },
+      { new: true }
+    ).exec();
+
+    if (!webhook) {
+      throw new Error("Webhook not found");
+    }
+
+    revalidatePath("/dashboard/workspace");
+
+    return serializeData(formatWebhook(webhook));
+  } catch (error) {
+    console.error("Error updating webhook:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to update webhook"
+    );
+  }
+}
+
+// Replace the signing secret of a webhook
+export async function rotateWebhookSecret(id: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.OWNER);
+
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: id, workspaceId },
+      { $set: { secret: generateWebhookSecret() } },
+      { new: true }
+    ).exec();
+
+    if (!webhook) {
+      throw new Error("Webhook not found");
+    }
+
+    revalidatePath("/dashboard/workspace");
+
+    return serializeData(formatWebhook(webhook));
+  } catch (error) {
+    console.error("Error rotating webhook secret:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to rotate webhook secret"
+    );
+  }
+}
+
+// Delete a webhook together with its delivery log
+export async function deleteWebhook(id: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.OWNER);
+
+    const webhook = await Webhook.findOneAndDelete({
+      _id: id,
+      workspaceId,
+    }).exec();
+
+    if (!webhook) {
+      throw new Error("Webhook not found");
+    }
+
+    await WebhookDelivery.deleteMany({ webhookId: webhook._id }).exec();
+
+    revalidatePath("/dashboard/workspace");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to delete webhook"
+    );
+  }
+}
+
+// Get the latest deliveries of a webhook, newest first
+export async function getWebhookDeliveries(webhookId: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.OWNER);
+
+    const webhook = await findWorkspaceWebhook(webhookId, workspaceId);
+
+    // Catch up on retries that were due while nobody triggered a sweep
+    await processDueDeliveries();
+
+    const deliveries = await WebhookDelivery.find({ webhookId: webhook._id })
+      .sort({ createdAt: -1 })
+      .limit(DELIVERY_LOG_SIZE)
+      .exec();
+
+    return serializeData(deliveries.map(formatDelivery));
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Failed to fetch webhook deliveries"
+    );
+  }
+}
+
+// Send a ping event to a webhook to test its endpoint
+export async function testWebhook(id: string) {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext(
+      WorkspaceRole.OWNER
+    );
+
+    const webhook = await findWorkspaceWebhook(id, workspaceId);
+    const delivery = await pingWebhook(webhook, userId);
+
+    return serializeData(formatDelivery(delivery));
+  } catch (error) {
+    console.error("Error testing webhook:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to test webhook"
+    );
+  }
+}
+
+// Send a delivery again right away, e.g. after fixing the endpoint.
+// A delivery that fails again is retried only if it has attempts left.
+export async function redeliverWebhookDelivery(deliveryId: string) {
+  try {
+    const { workspaceId } = await getWorkspaceContext(WorkspaceRole.OWNER);
+
+    const delivery = await WebhookDelivery.findById(deliveryId).exec();
+
+    if (!delivery) {
+      throw new Error("Delivery not found");
+    }
+
+    await findWorkspaceWebhook(delivery.webhookId.toString(), workspaceId);
+
+    if (delivery.status === WebhookDeliveryStatus.SUCCEEDED) {
+      throw new Error("Cannot redeliver a delivery that succeeded");
+    }
+
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: new Date(),
+        },
+      }
+    ).exec();
+
+    await attemptDelivery(deliveryId);
+
+    const redelivered = await WebhookDelivery.findById(deliveryId).exec();
+
+    return serializeData(formatDelivery(redelivered));
+  } catch (error) {
+    console.error("Error redelivering webhook delivery:", error);
+    throw new Error(
+      error instanceof Error
+        ? error.message
+        : "Failed to redeliver webhook delivery"
+    );
+  }
+}
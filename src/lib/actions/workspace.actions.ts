@@ -0,0 +1,672 @@
+"use server";
+
+import crypto from "crypto";
+import { z } from "zod";
+import { cookies } from "next/headers";
+import { revalidatePath } from "next/cache";
+import { getSession } from "@/lib/get-session";
+import dbConnect from "@/lib/db/connect";
+import {
+  WORKSPACE_COOKIE,
+  ensurePersonalWorkspace,
+  getMemberRole,
+  getWorkspaceContext,
+  hasRole,
+} from "@/lib/workspace";
+import Workspace from "@/models/workspace.model";
+import Invitation from "@/models/invitation.model";
+import User from "@/models/user.model";
+import Task from "@/models/task.model";
+import {
+  InvitationStatus,
+  TaskStatus,
+  WipLimits,
+  WorkspaceRole,
+} from "@/types";
+import { serializeData } from "@/lib/utils/serialize";
+
+// Invitations stay valid for a week
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Workspace validation schemas
+const workspaceSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Workspace name must be at least 2 characters long")
+    .max(50, "Workspace name cannot exceed 50 characters")
+    .trim(),
+});
+
+const invitationSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  // Ownership cannot be granted through an invitation
+  role: z.enum([WorkspaceRole.EDITOR, WorkspaceRole.VIEWER]),
+});
+
+const wipLimitsSchema = z.object(
+  Object.fromEntries(
+    Object.values(TaskStatus).map((status) => [
+      status,
+      z
+        .number()
+        .int("WIP limit must be a whole number")
+        .min(1, "WIP limit must be at least 1")
+        .max(999, "WIP limit cannot exceed 999")
+        .nullable()
+        .optional(),
+    ])
+  )
+);
+
+type WorkspaceDocument = InstanceType<typeof Workspace>;
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Remember the selected workspace for subsequent requests
+async function setActiveWorkspace(workspaceId: string) {
+  const cookieStore = await cookies();
+  cookieStore.set(WORKSPACE_COOKIE, workspaceId, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365,
+  });
+}
+
+// Resolve the signed-in user for changes to workspaces and memberships.
+// Access token sessions are refused, as they are for managing access tokens,
+// so a token cannot widen what it or anyone else can reach.
+async function getSessionUser() {
+  const session = await getSession();
+
+  if (!session?.user) {
+    throw new Error("Unauthorized");
+  }
+
+  if (session.tokenScope) {
+    throw new Error("Access denied");
+  }
+
+  await dbConnect();
+
+  return session.user;
+}
+
+// Load a workspace and verify the user's role in it
+async function findWorkspaceWithRole(
+  workspaceId: string,
+  userId: string,
+  minRole: WorkspaceRole
+) {
+  const workspace = await Workspace.findById(workspaceId).exec();
+
+  if (!workspace) {
+    throw new Error("Workspace not found");
+  }
+
+  if (!hasRole(getMemberRole(workspace, userId), minRole)) {
+    throw new Error("Access denied");
+  }
+
+  return workspace;
+}
+
+// Load a pending, unexpired invitation by its token
+async function findPendingInvitation(token: string) {
+  const invitation = await Invitation.findOne({
+    tokenHash: hashToken(token),
+  }).exec();
+
+  if (!invitation) {
+    throw new Error("Invitation not found");
+  }
+
+  if (invitation.status !== InvitationStatus.PENDING) {
+    throw new Error("Invitation is no longer valid");
+  }
+
+  if (invitation.expiresAt < new Date()) {
+    throw new Error("Invitation has expired");
+  }
+
+  return invitation;
+}
+
+function formatWorkspace(workspace: WorkspaceDocument, userId: string) {
+  return {
+    id: workspace._id.toString(),
+    name: workspace.name,
+    isPersonal: workspace.isPersonal,
+    role: getMemberRole(workspace, userId),
+    memberCount: workspace.members.length,
+    wipLimits: Object.fromEntries(
+      Object.values(TaskStatus).map((status) => [
+        status,
+        workspace.wipLimits?.[status] ?? null,
+      ])
+    ) as WipLimits,
+    createdAt: workspace.createdAt,
+    updatedAt: workspace.updatedAt,
+  };
+}
+
+// Get all workspaces the current user belongs to
+export async function getWorkspaces() {
+  try {
+    const { userId, workspaceId } = await getWorkspaceContext();
+
+    const workspaces = await Workspace.find({ "members.userId": userId })
+      .sort({ isPersonal: -1, name: 1 })
+      .exec();
+
+    return serializeData({
+      currentWorkspaceId: workspaceId,
+      workspaces: workspaces.map((workspace) =>
+        formatWorkspace(workspace, userId)
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching workspaces:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch workspaces"
+    );
+  }
+}
+
+// Get the active workspace with its members
+export async function getCurrentWorkspace() {
+  try {
+    const { userId, workspace } = await getWorkspaceContext();
+
+    const users = await User.find({
+      _id: {
+        $in: workspace.members.map(
+          (member: { userId: unknown }) => member.userId
+        ),
+      },
+    })
+      .select("_id name email image")
+      .exec();
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+    return serializeData({
+      ...formatWorkspace(workspace, userId),
+      ownerId: workspace.ownerId.toString(),
+      members: workspace.members.map(
+        (member: {
+          userId: { toString(): string };
+          role: WorkspaceRole;
+          joinedAt: Date;
+        }) => {
+          const user = usersById.get(member.userId.toString());
+          return {
+            userId: member.userId.toString(),
+            name: user?.name || "Unknown user",
+            email: user?.email || "",
+            image: user?.image,
+            role: member.role,
+            joinedAt: member.joinedAt,
+          };
+        }
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching workspace:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch workspace"
+    );
+  }
+}
+
+// Create a new shared workspace owned by the current user and switch to it
+export async function createWorkspace(data: z.infer<typeof workspaceSchema>) {
+  try {
+    const user = await getSessionUser();
+
+    // Validate workspace data
+    const result = workspaceSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const newWorkspace = await Workspace.create({
+      name: result.data.name,
+      ownerId: user.id,
+      members: [{ userId: user.id, role: WorkspaceRole.OWNER }],
+    });
+
+    await setActiveWorkspace(newWorkspace._id.toString());
+
+    revalidatePath("/dashboard", "layout");
+
+    return serializeData(formatWorkspace(newWorkspace, user.id));
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create workspace"
+    );
+  }
+}
+
+// Switch the active workspace
+export async function switchWorkspace(id: string) {
+  try {
+    const user = await getSessionUser();
+
+    await findWorkspaceWithRole(id, user.id, WorkspaceRole.VIEWER);
+    await setActiveWorkspace(id);
+
+    revalidatePath("/dashboard", "layout");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error switching workspace:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to switch workspace"
+    );
+  }
+}
+
+// Rename a workspace
+export async function renameWorkspace(
+  id: string,
+  data: z.infer<typeof workspaceSchema>
+) {
+  try {
+    const user = await getSessionUser();
+
+    // Validate workspace data
+    const result = workspaceSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const workspace = await findWorkspaceWithRole(
+      id,
+      user.id,
+      WorkspaceRole.OWNER
+    );
+
+    workspace.name = result.data.name;
+    await workspace.save();
+
+    revalidatePath("/dashboard", "layout");
+
+    return serializeData(formatWorkspace(workspace, user.id));
+  } catch (error) {
+    console.error("Error renaming workspace:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to rename workspace"
+    );
+  }
+}
+
+// Set the work-in-progress limits of the workspace's board columns
+export async function updateWipLimits(id: string, limits: WipLimits) {
+  try {
+    const user = await getSessionUser();
+
+    // Validate the limits
+    const result = wipLimitsSchema.safeParse(limits);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    await findWorkspaceWithRole(id, user.id, WorkspaceRole.OWNER);
+
+    // Only touch the columns that were provided
+    const setData = Object.fromEntries(
+      Object.entries(result.data)
+        .filter(([, limit]) => limit !== undefined)
+        .map(([status, limit]) => [`wipLimits.${status}`, limit])
+    );
+
+    const workspace = await Workspace.findByIdAndUpdate(
+      id,
+      { $set: setData },
+      { new: true, runValidators: true }
+    ).exec();
+
+    revalidatePath("/dashboard/tasks/board");
+
+    return serializeData(formatWorkspace(workspace, user.id));
+  } catch (error) {
+    console.error("Error updating WIP limits:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to update WIP limits"
+    );
+  }
+}
+
+// Change the role of a workspace member
+export async function updateMemberRole(
+  workspaceId: string,
+  memberId: string,
+  role: WorkspaceRole
+) {
+  try {
+    const user = await getSessionUser();
+
+    if (!Object.values(WorkspaceRole).includes(role)) {
+      throw new Error("Invalid role");
+    }
+
+    const workspace = await findWorkspaceWithRole(
+      workspaceId,
+      user.id,
+      WorkspaceRole.OWNER
+    );
+
+    if (workspace.ownerId.toString() === memberId) {
+      throw new Error("The workspace owner's role cannot be changed");
+    }
+
+    const result = await Workspace.updateOne(
+      { _id: workspaceId, "members.userId": memberId },
+      { $set: { "members.$.role": role } }
+    ).exec();
+
+    if (result.matchedCount === 0) {
+      throw new Error("Member not found");
+    }
+
+    revalidatePath("/dashboard/workspace");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating member role:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to update member role"
+    );
+  }
+}
+
+// Remove a member from a workspace; members may also remove themselves
+export async function removeMember(workspaceId: string, memberId: string) {
+  try {
+    const user = await getSessionUser();
+
+    const isLeaving = memberId === user.id;
+    const workspace = await findWorkspaceWithRole(
+      workspaceId,
+      user.id,
+      isLeaving ? WorkspaceRole.VIEWER : WorkspaceRole.OWNER
+    );
+
+    if (workspace.ownerId.toString() === memberId) {
+      throw new Error("The workspace owner cannot be removed");
+    }
+
+    await Workspace.updateOne(
+      { _id: workspaceId },
+      { $pull: { members: { userId: memberId } } }
+    ).exec();
+
+    // Former members can no longer be responsible for workspace tasks
+    await Task.updateMany(
+      { workspaceId, assigneeIds: memberId },
+      { $pull: { assigneeIds: memberId } }
+    ).exec();
+
+    // Fall back to the personal workspace after leaving
+    if (isLeaving) {
+      const personal = await ensurePersonalWorkspace(user.id);
+      await setActiveWorkspace(personal._id.toString());
+    }
+
+    revalidatePath("/dashboard", "layout");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing member:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to remove member"
+    );
+  }
+}
+
+// Invite someone to a workspace by email address. No email is sent: the
+// invitation token is returned so the owner can share the link themselves.
+export async function inviteToWorkspace(
+  workspaceId: string,
+  data: z.infer<typeof invitationSchema>
+) {
+  try {
+    const user = await getSessionUser();
+
+    // Validate invitation data
+    const result = invitationSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error(JSON.stringify(result.error.flatten()));
+    }
+
+    const email = result.data.email.toLowerCase();
+
+    const workspace = await findWorkspaceWithRole(
+      workspaceId,
+      user.id,
+      WorkspaceRole.OWNER
+    );
+
+    if (workspace.isPersonal) {
+      throw new Error("Personal workspaces cannot be shared");
+    }
+
+    const existingUser = await User.findOne({ email }).select("_id").exec();
+    if (
+      existingUser &&
+      getMemberRole(workspace, existingUser._id.toString()) !== null
+    ) {
+      throw new Error("This user is already a member of the workspace");
+    }
+
+    // Replace any pending invitation for the same address
+    await Invitation.updateMany(
+      { workspaceId, email, status: InvitationStatus.PENDING },
+      { $set: { status: InvitationStatus.REVOKED } }
+    ).exec();
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const invitation = await Invitation.create({
+      workspaceId,
+      email,
+      role: result.data.role,
+      tokenHash: hashToken(token),
+      invitedBy: user.id,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+    });
+
+    revalidatePath("/dashboard/workspace");
+
+    return serializeData({
+      id: invitation._id.toString(),
+      email: invitation.email,
+      role: invitation.role,
+      status: invitation.status,
+      expiresAt: invitation.expiresAt,
+      token,
+    });
+  } catch (error) {
+    console.error("Error inviting to workspace:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to create invitation"
+    );
+  }
+}
+
+// List the pending invitations of a workspace
+export async function getWorkspaceInvitations(workspaceId: string) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user) {
+      throw new Error("Unauthorized");
+    }
+
+    await dbConnect();
+
+    await findWorkspaceWithRole(
+      workspaceId,
+      session.user.id,
+      WorkspaceRole.OWNER
+    );
+
+    const invitations = await Invitation.find({
+      workspaceId,
+      status: InvitationStatus.PENDING,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return serializeData(
+      invitations.map((invitation) => ({
+        id: invitation._id.toString(),
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch invitations"
+    );
+  }
+}
+
+// Revoke a pending invitation
+export async function revokeInvitation(id: string) {
+  try {
+    const user = await getSessionUser();
+
+    const invitation = await Invitation.findById(id).exec();
+
+    if (!invitation) {
+      throw new Error("Invitation not found");
+    }
+
+    await findWorkspaceWithRole(
+      invitation.workspaceId.toString(),
+      user.id,
+      WorkspaceRole.OWNER
+    );
+
+    invitation.status = InvitationStatus.REVOKED;
+    await invitation.save();
+
+    revalidatePath("/dashboard/workspace");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to revoke invitation"
+    );
+  }
+}
+
+// Get the details of an invitation for the accept/decline page
+export async function getInvitation(token: string) {
+  try {
+    const session = await getSession();
+
+    if (!session?.user) {
+      throw new Error("Unauthorized");
+    }
+
+    await dbConnect();
+
+    const invitation = await findPendingInvitation(token);
+    const workspace = await Workspace.findById(invitation.workspaceId).exec();
+    const inviter = await User.findById(invitation.invitedBy)
+      .select("name")
+      .exec();
+
+    if (!workspace) {
+      throw new Error("Workspace not found");
+    }
+
+    return serializeData({
+      workspaceName: workspace.name,
+      inviterName: inviter?.name || "Someone",
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      isForCurrentUser: invitation.email === session.user.email.toLowerCase(),
+    });
+  } catch (error) {
+    console.error("Error fetching invitation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to fetch invitation"
+    );
+  }
+}
+
+// Accept an invitation addressed to the current user and switch to its workspace
+export async function acceptInvitation(token: string) {
+  try {
+    const user = await getSessionUser();
+
+    const invitation = await findPendingInvitation(token);
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new Error("This invitation was sent to a different email address");
+    }
+
+    const workspace = await Workspace.findById(invitation.workspaceId).exec();
+
+    if (!workspace) {
+      throw new Error("Workspace not found");
+    }
+
+    if (getMemberRole(workspace, user.id) === null) {
+      workspace.members.push({
+        userId: user.id,
+        role: invitation.role,
+      });
+      await workspace.save();
+    }
+
+    invitation.status = InvitationStatus.ACCEPTED;
+    await invitation.save();
+
+    await setActiveWorkspace(workspace._id.toString());
+
+    revalidatePath("/dashboard", "layout");
+
+    return { success: true, workspaceId: workspace._id.toString() };
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to accept invitation"
+    );
+  }
+}
+
+// Decline an invitation addressed to the current user
+export async function declineInvitation(token: string) {
+  try {
+    const user = await getSessionUser();
+
+    const invitation = await findPendingInvitation(token);
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new Error("This invitation was sent to a different email address");
+    }
+
+    invitation.status = InvitationStatus.DECLINED;
+    await invitation.save();
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error declining invitation:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to decline invitation"
+    );
+  }
+}
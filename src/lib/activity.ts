@@ -0,0 +1,78 @@
+import Activity from "@/models/activity.model";
+import { dispatchWebhookEvents } from "@/lib/webhooks";
+import { ActivityAction, ActivityChange, ActivityEntityType } from "@/types";
+
+// Task fields whose old and new values are kept in the activity log
+export const TRACKED_TASK_FIELDS = [
+  "title",
+  "status",
+  "priority",
+  "dueDate",
+  "categoryId",
+];
+
+export interface ActivityEntry {
+  workspaceId: string;
+  userId: string;
+  entityType: ActivityEntityType;
+  entityId: { toString(): string };
+  entityName: string;
+  action: ActivityAction;
+  changes?: ActivityChange[];
+}
+
+// Reduce a stored value to a string or number that can be compared and logged
+function toLoggedValue(value: unknown): string | number | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number") return value;
+
+  // Populated references are logged by their id
+  if (typeof value === "object" && "_id" in value) {
+    return String((value as { _id: unknown })._id);
+  }
+
+  return String(value);
+}
+
+/**
+ * Lists the given fields whose value differs between two versions of a document
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: string[] = TRACKED_TASK_FIELDS
+): ActivityChange[] {
+  return fields
+    .map((field) => ({
+      field,
+      from: toLoggedValue(before[field]),
+      to: toLoggedValue(after[field]),
+    }))
+    .filter((change) => change.from !== change.to);
+}
+
+/**
+ * Writes one or more entries to the activity log and delivers them to the
+ * workspace's webhooks.
+ * Failures are logged instead of thrown so a change that already succeeded
+ * is never reported as failed because its history could not be written.
+ */
+export async function recordActivity(entries: ActivityEntry | ActivityEntry[]) {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+
+  try {
+    await Activity.insertMany(
+      list.map((entry) => ({
+        ...entry,
+        entityId: entry.entityId.toString(),
+        changes: entry.changes || [],
+      }))
+    );
+  } catch (error) {
+    console.error("Error recording activity:", error);
+  }
+
+  await dispatchWebhookEvents(list);
+}
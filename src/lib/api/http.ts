@@ -0,0 +1,188 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+/**
+ * An error carrying the HTTP status a REST route should answer with
+ */
+export class HttpError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message);
+    this.status = status;
+    this.details = details;
+    this.name = "HttpError";
+  }
+}
+
+// HTTP statuses for the errors thrown by the server actions, by message
+const ACTION_ERROR_STATUSES: [RegExp, number][] = [
+  [/^Unauthorized$/, 401],
+  [/^Access denied/, 403],
+  [/not found/i, 404],
+  [/already exists|is in the trash|is blocked|would create a cycle/, 409],
+  [/is too large/, 413],
+  [/^Unsupported file type/, 415],
+  [/^(Invalid|Cannot|A task cannot|Assignee must|Subtasks cannot)/, 400],
+];
+
+/**
+ * Converts an error thrown while handling a REST request into a JSON
+ * response. Validation errors thrown by the server actions (a serialized
+ * zod error) become 400 responses with their field errors as details.
+ * Unexpected errors are logged and reported without their message.
+ */
+export function toErrorResponse(error: unknown, context: string) {
+  if (error instanceof HttpError) {
+    return errorResponse(error.status, error.message, error.details);
+  }
+
+  const message = error instanceof Error ? error.message : "";
+
+  if (message.startsWith("{")) {
+    try {
+      return errorResponse(400, "Validation failed", JSON.parse(message));
+    } catch {
+      // Not a serialized validation error
+    }
+  }
+
+  const match = ACTION_ERROR_STATUSES.find(([pattern]) =>
+    pattern.test(message)
+  );
+
+  if (match) {
+    return errorResponse(match[1], message);
+  }
+
+  console.error(`${context}:`, error);
+  return errorResponse(500, "Internal server error");
+}
+
+/**
+ * Builds a JSON error response in the shape every REST route uses
+ */
+export function errorResponse(
+  status: number,
+  message: string,
+  details?: unknown
+) {
+  return NextResponse.json(
+    details === undefined ? { error: message } : { error: message, details },
+    { status }
+  );
+}
+
+// Read a request body as text, stopping as soon as it exceeds the limit
+// (the declared length can be missing or wrong)
+async function readLimitedText(request: Request, maxBytes: number) {
+  const length = Number(request.headers.get("content-length"));
+  if (length > maxBytes) {
+    throw new HttpError(413, "Request body is too large");
+  }
+
+  const reader = request.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new HttpError(413, "Request body is too large");
+    }
+
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Reads and validates a JSON request body, optionally refusing bodies of
+ * more than `maxBytes`
+ *
+ * @throws HttpError 400 when the body is not JSON or fails validation
+ * @throws HttpError 413 when the body is too large
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+  { maxBytes }: { maxBytes?: number } = {}
+): Promise<z.infer<T>> {
+  const text =
+    maxBytes === undefined
+      ? await request.text()
+      : await readLimitedText(request, maxBytes);
+
+  let body: unknown;
+
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+
+  return parseInput(body, schema);
+}
+
+/**
+ * Validates request input (body or query parameters) against a schema
+ *
+ * @throws HttpError 400 with the field errors when validation fails
+ */
+export function parseInput<T extends z.ZodTypeAny>(
+  input: unknown,
+  schema: T
+): z.infer<T> {
+  const result = schema.safeParse(input);
+
+  if (!result.success) {
+    throw new HttpError(400, "Validation failed", result.error.flatten());
+  }
+
+  return result.data;
+}
+
+/**
+ * Rejects route ids that cannot identify a document, so they are reported
+ * as missing instead of failing inside a query
+ *
+ * @throws HttpError 404 when the id is malformed
+ */
+export function assertObjectId(id: string, resource: string) {
+  if (!/^[a-f\d]{24}$/i.test(id)) {
+    throw new HttpError(404, `${resource} not found`);
+  }
+}
+
+/**
+ * Builds the response to a file download. Files are shown in the browser
+ * unless `download` asks to save them, and always as their stored type.
+ */
+export function toFileResponse(
+  file: { data: Buffer; name: string; mimeType: string },
+  { download }: { download: boolean }
+) {
+  // Plain ASCII name for older clients, and the exact one per RFC 6266
+  const asciiName = file.name.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const disposition = `${
+    download ? "attachment" : "inline"
+  }; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(
+    file.name
+  )}`;
+
+  return new NextResponse(new Uint8Array(file.data), {
+    headers: {
+      "Content-Type": file.mimeType,
+      "Content-Length": String(file.data.length),
+      "Content-Disposition": disposition,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,596 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  RecurrenceFrequency,
+  TaskPriority,
+  TaskStatus,
+  WorkspaceRole,
+} from "@/types";
+import {
+  recurrenceSchema,
+  taskCreateSchema,
+  taskListQuerySchema,
+  taskUpdateSchema,
+} from "@/lib/validations/task";
+import { categoryCreateSchema } from "@/lib/validations/category";
+import { registerSchema } from "@/lib/validations/auth";
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  THUMBNAIL_TYPES,
+} from "@/lib/validations/attachment";
+import {
+  MAX_BACKUP_SIZE,
+  backupRestoreRequestSchema,
+} from "@/lib/validations/backup";
+
+type JsonSchema = Record<string, unknown>;
+
+// Response shapes. Requests are described by the validation schemas
+// themselves, responses by these schemas mirroring what the routes return.
+const dateTime = z.string().datetime();
+
+const taskReferenceSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.nativeEnum(TaskStatus),
+});
+
+const taskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  status: z.nativeEnum(TaskStatus),
+  priority: z.nativeEnum(TaskPriority),
+  dueDate: dateTime.nullable().optional(),
+  category: z.object({ id: z.string(), name: z.string() }).nullable(),
+  userId: z.string(),
+  parentTaskId: z.string().nullable(),
+  position: z.number(),
+  recurrence: z
+    .object({
+      frequency: z.nativeEnum(RecurrenceFrequency),
+      interval: z.number().int(),
+      weekdays: z.array(z.number().int()).optional(),
+      monthDay: z.number().int().optional(),
+      count: z.number().int().optional(),
+      until: dateTime.optional(),
+      timeZone: z.string().optional(),
+      // Position of this task within its series, starting at 1
+      occurrence: z.number().int(),
+    })
+    .nullable(),
+  nextOccurrenceId: z.string().nullable(),
+  assigneeIds: z.array(z.string()),
+  blockedBy: z.array(z.string()),
+  estimateMinutes: z.number().int().nullable(),
+  startedAt: dateTime.nullable(),
+  completedAt: dateTime.nullable(),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+});
+
+const taskDetailsSchema = taskSchema.extend({
+  blockers: z.array(taskReferenceSchema),
+  isBlocked: z.boolean(),
+  assignees: z.array(
+    z.object({ id: z.string(), name: z.string(), image: z.string().optional() })
+  ),
+  subtaskProgress: z.object({ completed: z.number(), total: z.number() }),
+});
+
+const taskListSchema = z.object({
+  tasks: z.array(
+    taskDetailsSchema.extend({
+      commentCount: z.number().int(),
+      // Minutes of time logged on the task
+      trackedMinutes: z.number().int(),
+    })
+  ),
+  pagination: z.object({
+    total: z.number().int(),
+    page: z.number().int(),
+    limit: z.number().int(),
+    totalPages: z.number().int(),
+  }),
+});
+
+const attachmentSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  name: z.string(),
+  mimeType: z.enum(Object.keys(ATTACHMENT_TYPES) as [string, ...string[]]),
+  size: z.number().int(),
+  hasThumbnail: z.boolean(),
+  uploadedBy: z
+    .object({ id: z.string(), name: z.string(), image: z.string().optional() })
+    .nullable(),
+  createdAt: dateTime,
+});
+
+const categorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+});
+
+const currentUserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().email(),
+  image: z.string().nullable(),
+  workspace: z.object({
+    id: z.string(),
+    name: z.string(),
+    isPersonal: z.boolean(),
+    role: z.nativeEnum(WorkspaceRole),
+  }),
+});
+
+const backupRestoreResultSchema = z.object({
+  tasks: z.number().int(),
+  createdCategories: z.array(z.string()),
+  mergedCategories: z.array(z.string()),
+  renamedCategories: z.array(z.object({ from: z.string(), to: z.string() })),
+  profileRestored: z.boolean(),
+});
+
+const errorSchema = z.object({
+  error: z.string(),
+  // Field errors of a failed validation
+  details: z
+    .object({
+      formErrors: z.array(z.string()),
+      fieldErrors: z.record(z.array(z.string())),
+    })
+    .optional(),
+});
+
+// Convert a zod schema into an inline JSON Schema (OpenAPI 3.1 dialect)
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const jsonSchema = zodToJsonSchema(schema, {
+    target: "jsonSchema2019-09",
+    $refStrategy: "none",
+  }) as JsonSchema;
+  delete jsonSchema.$schema;
+
+  return jsonSchema;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: JsonSchema) => ({
+  content: { "application/json": { schema } },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  ...jsonContent(ref("Error")),
+});
+
+// Errors every authenticated operation can answer with
+const COMMON_ERRORS = {
+  "401": errorResponse("Missing or invalid credentials"),
+  "403": errorResponse("The user's role or token scope does not allow this"),
+  "500": errorResponse("Unexpected server error"),
+};
+
+const idParameter = (resource: string) => ({
+  name: "id",
+  in: "path",
+  required: true,
+  description: `ID of the ${resource}`,
+  schema: { type: "string", pattern: "^[a-f\\d]{24}$" },
+});
+
+// Describe each field of a query schema as a query parameter
+function toQueryParameters(schema: z.AnyZodObject) {
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, field]) => ({
+    name,
+    in: "query",
+    required: !field.isOptional(),
+    schema: toJsonSchema(
+      field instanceof z.ZodOptional ? field.unwrap() : field
+    ),
+  }));
+}
+
+/**
+ * Builds the OpenAPI 3.1 document of the REST API. Request bodies and query
+ * parameters are generated from the same zod schemas that validate them.
+ */
+export function getOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "TaskManager API",
+      version: "1.0.0",
+      description:
+        "REST API for the tasks and categories of a workspace. Authenticate with the web app session or a personal access token; requests act on the active workspace, or on the one named by the `X-Workspace-Id` header when using a token.",
+    },
+    servers: [{ url: "/api/v1" }],
+    security: [{ accessToken: [] }, { session: [] }],
+    tags: [
+      { name: "Users", description: "The authenticated user" },
+      { name: "Tasks", description: "Tasks and their subtasks" },
+      { name: "Attachments", description: "Files attached to tasks" },
+      { name: "Categories", description: "Task categories" },
+    ],
+    paths: {
+      "/me": {
+        get: {
+          tags: ["Users"],
+          operationId: "getCurrentUser",
+          summary: "Get the current user and their active workspace",
+          responses: {
+            "200": {
+              description: "The current user",
+              ...jsonContent(ref("CurrentUser")),
+            },
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/me/backup": {
+        post: {
+          tags: ["Users"],
+          operationId: "restoreBackup",
+          summary: "Restore a backup into the active workspace",
+          description: `Takes an \`archive\` downloaded from the profile page, of up to ${MAX_BACKUP_SIZE} bytes in total. Every record gets a new ID.`,
+          requestBody: {
+            required: true,
+            ...jsonContent(ref("BackupRestore")),
+          },
+          responses: {
+            "200": {
+              description: "What was restored",
+              ...jsonContent(ref("BackupRestoreResult")),
+            },
+            "400": errorResponse("The archive or the options are invalid"),
+            "413": errorResponse("The backup is too large"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/tasks": {
+        get: {
+          tags: ["Tasks"],
+          operationId: "listTasks",
+          summary: "List top-level tasks",
+          description:
+            "Filters, sorts and paginates the top-level tasks of the workspace. `assignee` accepts a user ID, `me` or `unassigned`.",
+          parameters: toQueryParameters(taskListQuerySchema),
+          responses: {
+            "200": {
+              description: "A page of tasks",
+              ...jsonContent(ref("TaskList")),
+            },
+            "400": errorResponse("Invalid query parameters"),
+            ...COMMON_ERRORS,
+          },
+        },
+        post: {
+          tags: ["Tasks"],
+          operationId: "createTask",
+          summary: "Create a task",
+          requestBody: {
+            required: true,
+            ...jsonContent(ref("TaskCreate")),
+          },
+          responses: {
+            "201": {
+              description: "The created task",
+              ...jsonContent(ref("TaskDetails")),
+            },
+            "400": errorResponse("Invalid task data"),
+            "404": errorResponse("The category does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/tasks/{id}": {
+        parameters: [idParameter("task")],
+        get: {
+          tags: ["Tasks"],
+          operationId: "getTask",
+          summary: "Get a task with its subtasks",
+          responses: {
+            "200": {
+              description: "The task",
+              ...jsonContent({
+                allOf: [
+                  ref("TaskDetails"),
+                  {
+                    type: "object",
+                    properties: {
+                      subtasks: { type: "array", items: ref("Task") },
+                    },
+                  },
+                ],
+              }),
+            },
+            "404": errorResponse("The task does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+        patch: {
+          tags: ["Tasks"],
+          operationId: "updateTask",
+          summary: "Update some fields of a task",
+          description:
+            "Completing a recurring task schedules its next occurrence, returned as `nextOccurrence`.",
+          requestBody: {
+            required: true,
+            ...jsonContent(ref("TaskUpdate")),
+          },
+          responses: {
+            "200": {
+              description: "The updated task",
+              ...jsonContent({
+                allOf: [
+                  ref("Task"),
+                  {
+                    type: "object",
+                    properties: {
+                      nextOccurrence: {
+                        type: ["object", "null"],
+                        properties: {
+                          id: { type: "string" },
+                          dueDate: { type: "string", format: "date-time" },
+                        },
+                      },
+                    },
+                  },
+                ],
+              }),
+            },
+            "400": errorResponse("Invalid task data"),
+            "404": errorResponse("The task or category does not exist"),
+            "409": errorResponse("The task is blocked by unfinished tasks"),
+            ...COMMON_ERRORS,
+          },
+        },
+        delete: {
+          tags: ["Tasks"],
+          operationId: "deleteTask",
+          summary: "Move a task and its subtasks to the trash",
+          responses: {
+            "204": { description: "The task was moved to the trash" },
+            "404": errorResponse("The task does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/tasks/{id}/attachments": {
+        parameters: [idParameter("task")],
+        get: {
+          tags: ["Attachments"],
+          operationId: "listAttachments",
+          summary: "List the files attached to a task",
+          responses: {
+            "200": {
+              description: "The attachments, oldest first",
+              ...jsonContent({ type: "array", items: ref("Attachment") }),
+            },
+            "404": errorResponse("The task does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+        post: {
+          tags: ["Attachments"],
+          operationId: "uploadAttachment",
+          summary: "Attach a file to a task",
+          description: `Accepts ${Object.keys(ATTACHMENT_TYPES).join(
+            ", "
+          )} files of up to ${MAX_ATTACHMENT_SIZE} bytes, identified by their content. Images can come with a scaled-down \`thumbnail\`.`,
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    file: { type: "string", format: "binary" },
+                    thumbnail: {
+                      type: "string",
+                      format: "binary",
+                      description: `${THUMBNAIL_TYPES.join(", ")} image`,
+                    },
+                  },
+                  required: ["file"],
+                },
+              },
+            },
+          },
+          responses: {
+            "201": {
+              description: "The created attachment",
+              ...jsonContent(ref("Attachment")),
+            },
+            "400": errorResponse(
+              "No file, or the task has the most attachments allowed"
+            ),
+            "404": errorResponse("The task does not exist"),
+            "413": errorResponse("The file is too large"),
+            "415": errorResponse("The file type is not supported"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/attachments/{id}": {
+        parameters: [idParameter("attachment")],
+        get: {
+          tags: ["Attachments"],
+          operationId: "downloadAttachment",
+          summary: "Download an attached file",
+          parameters: [
+            {
+              name: "download",
+              in: "query",
+              required: false,
+              description: "`1` to save the file instead of showing it",
+              schema: { type: "string", enum: ["1"] },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "The file",
+              content: {
+                "*/*": { schema: { type: "string", format: "binary" } },
+              },
+            },
+            "404": errorResponse("The attachment does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+        delete: {
+          tags: ["Attachments"],
+          operationId: "deleteAttachment",
+          summary: "Delete an attached file",
+          responses: {
+            "204": { description: "The attachment was deleted" },
+            "404": errorResponse("The attachment does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/attachments/{id}/thumbnail": {
+        parameters: [idParameter("attachment")],
+        get: {
+          tags: ["Attachments"],
+          operationId: "downloadAttachmentThumbnail",
+          summary: "Download the thumbnail of an attached image",
+          responses: {
+            "200": {
+              description: "The thumbnail",
+              content: {
+                "image/*": { schema: { type: "string", format: "binary" } },
+              },
+            },
+            "404": errorResponse(
+              "The attachment does not exist or has no thumbnail"
+            ),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/categories": {
+        get: {
+          tags: ["Categories"],
+          operationId: "listCategories",
+          summary: "List the categories of the workspace",
+          responses: {
+            "200": {
+              description: "The categories, sorted by name",
+              ...jsonContent({
+                type: "object",
+                properties: {
+                  categories: { type: "array", items: ref("Category") },
+                },
+                required: ["categories"],
+              }),
+            },
+            ...COMMON_ERRORS,
+          },
+        },
+        post: {
+          tags: ["Categories"],
+          operationId: "createCategory",
+          summary: "Create a category",
+          requestBody: {
+            required: true,
+            ...jsonContent(ref("CategoryCreate")),
+          },
+          responses: {
+            "201": {
+              description: "The created category",
+              ...jsonContent(ref("Category")),
+            },
+            "400": errorResponse("Invalid category data"),
+            "409": errorResponse("The name is already taken"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+      "/categories/{id}": {
+        parameters: [idParameter("category")],
+        get: {
+          tags: ["Categories"],
+          operationId: "getCategory",
+          summary: "Get a category",
+          responses: {
+            "200": {
+              description: "The category",
+              ...jsonContent(ref("Category")),
+            },
+            "404": errorResponse("The category does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+        patch: {
+          tags: ["Categories"],
+          operationId: "updateCategory",
+          summary: "Rename a category",
+          requestBody: {
+            required: true,
+            ...jsonContent(ref("CategoryCreate")),
+          },
+          responses: {
+            "200": {
+              description: "The renamed category",
+              ...jsonContent(ref("Category")),
+            },
+            "400": errorResponse("Invalid category data"),
+            "404": errorResponse("The category does not exist"),
+            "409": errorResponse("The name is already taken"),
+            ...COMMON_ERRORS,
+          },
+        },
+        delete: {
+          tags: ["Categories"],
+          operationId: "deleteCategory",
+          summary: "Move a category to the trash",
+          responses: {
+            "204": { description: "The category was moved to the trash" },
+            "404": errorResponse("The category does not exist"),
+            ...COMMON_ERRORS,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        accessToken: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "Personal access token created on the profile page. Read-only tokens cannot change data.",
+        },
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: "next-auth.session-token",
+          description: "Session cookie of the web app",
+        },
+      },
+      schemas: {
+        TaskCreate: toJsonSchema(taskCreateSchema),
+        TaskUpdate: toJsonSchema(taskUpdateSchema),
+        Recurrence: toJsonSchema(recurrenceSchema),
+        CategoryCreate: toJsonSchema(categoryCreateSchema),
+        BackupRestore: toJsonSchema(backupRestoreRequestSchema),
+        // Accepted by the sign-up form
+        UserRegistration: toJsonSchema(registerSchema),
+        Task: toJsonSchema(taskSchema),
+        TaskDetails: toJsonSchema(taskDetailsSchema),
+        TaskList: toJsonSchema(taskListSchema),
+        Attachment: toJsonSchema(attachmentSchema),
+        Category: toJsonSchema(categorySchema),
+        CurrentUser: toJsonSchema(currentUserSchema),
+        BackupRestoreResult: toJsonSchema(backupRestoreResultSchema),
+        Error: toJsonSchema(errorSchema),
+      },
+    },
+  };
+}
@@ -0,0 +1,311 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { getWorkspaceContext } from "@/lib/workspace";
+import { getStorage } from "@/lib/storage";
+import Attachment from "@/models/attachment.model";
+import Task from "@/models/task.model";
+import User from "@/models/user.model";
+import { TaskAssignee, TaskAttachment, WorkspaceRole } from "@/types";
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_NAME_LENGTH,
+  MAX_ATTACHMENT_SIZE,
+  MAX_TASK_ATTACHMENTS,
+  MAX_THUMBNAIL_SIZE,
+  THUMBNAIL_TYPES,
+  isImageType,
+} from "@/lib/validations/attachment";
+
+type AttachmentDocument = InstanceType<typeof Attachment>;
+
+// Leading bytes of the file types attachments can have, where "?" matches
+// any byte. The type a browser reports for a file is only a guess from its
+// extension, so the content is checked instead.
+const FILE_SIGNATURES: [string, string][] = [
+  ["image/png", "\x89PNG\r\n\x1a\n"],
+  ["image/jpeg", "\xff\xd8\xff"],
+  ["image/gif", "GIF8"],
+  // "RIFF", the file size, then "WEBP"
+  ["image/webp", "RIFF????WEBP"],
+  ["application/pdf", "%PDF-"],
+];
+
+/**
+ * Identifies the type of a file from its first bytes, or returns null when
+ * it is none of the types attachments can have
+ */
+export function detectFileType(data: Uint8Array): string | null {
+  const match = FILE_SIGNATURES.find(
+    ([, signature]) =>
+      data.length >= signature.length &&
+      Array.from(signature).every(
+        (char, index) => char === "?" || data[index] === char.charCodeAt(0)
+      )
+  );
+
+  return match ? match[0] : null;
+}
+
+// Verify that a task belongs to the workspace, the same way getTaskById does
+async function findAttachedTask(taskId: string, workspaceId: string) {
+  const task = await Task.findById(taskId).select("_id workspaceId").exec();
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  if (task.workspaceId?.toString() !== workspaceId) {
+    throw new Error("Access denied");
+  }
+
+  return task;
+}
+
+// Load an attachment, checking access to its task
+async function findAttachment(id: string, workspaceId: string) {
+  const attachment = await Attachment.findById(id).exec();
+
+  if (!attachment) {
+    throw new Error("Attachment not found");
+  }
+
+  await findAttachedTask(attachment.taskId.toString(), workspaceId);
+
+  return attachment;
+}
+
+// Keys of the stored file of an attachment and of its thumbnail
+function getStoredKeys(attachment: AttachmentDocument): string[] {
+  return attachment.thumbnailKey
+    ? [attachment.storageKey, attachment.thumbnailKey]
+    : [attachment.storageKey];
+}
+
+// Remove stored files. Failures are only logged, as nothing in the database
+// refers to the files anymore.
+async function deleteStoredFiles(keys: string[]) {
+  const storage = getStorage();
+
+  const results = await Promise.allSettled(
+    keys.map((key) => storage.delete(key))
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(
+        `Error deleting stored file ${keys[index]}:`,
+        result.reason
+      );
+    }
+  });
+}
+
+// Format attachments for the client, resolving who uploaded them
+async function formatAttachments(
+  attachments: AttachmentDocument[]
+): Promise<TaskAttachment[]> {
+  const userIds = Array.from(
+    new Set(attachments.map((attachment) => attachment.userId.toString()))
+  );
+
+  const users =
+    userIds.length > 0
+      ? await User.find({ _id: { $in: userIds } })
+          .select("_id name image")
+          .exec()
+      : [];
+  const usersById: Record<string, TaskAssignee> = Object.fromEntries(
+    users.map((user) => [
+      user._id.toString(),
+      { id: user._id.toString(), name: user.name, image: user.image },
+    ])
+  );
+
+  return attachments.map((attachment) => ({
+    id: attachment._id.toString(),
+    taskId: attachment.taskId.toString(),
+    name: attachment.name,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    hasThumbnail: !!attachment.thumbnailKey,
+    uploadedBy: usersById[attachment.userId.toString()] || null,
+    createdAt: attachment.createdAt,
+  }));
+}
+
+// Keep file names printable and within the length limit, preserving the
+// extension when shortening
+function cleanFileName(name: string) {
+  const cleaned = name.replace(/[\p{Cc}/\\]/gu, "_").trim() || "file";
+
+  if (cleaned.length <= MAX_ATTACHMENT_NAME_LENGTH) return cleaned;
+
+  const extension = /\.[\w]{1,10}$/.exec(cleaned)?.[0] || "";
+  return (
+    cleaned.slice(0, MAX_ATTACHMENT_NAME_LENGTH - extension.length) + extension
+  );
+}
+
+/**
+ * Lists the attachments of a task, oldest first
+ */
+export async function listAttachments(taskId: string) {
+  const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+  const task = await findAttachedTask(taskId, workspaceId);
+
+  const attachments = await Attachment.find({ taskId: task._id })
+    .sort({ createdAt: 1 })
+    .exec();
+
+  return formatAttachments(attachments);
+}
+
+/**
+ * Attaches a file to a task. Images can come with a thumbnail, which the
+ * browser scales down before uploading.
+ *
+ * @throws Error when the file is too large, of an unsupported type, or the
+ * task already has the most attachments allowed
+ */
+export async function saveAttachment(
+  taskId: string,
+  file: File,
+  thumbnail: File | null
+) {
+  const { userId, workspaceId } = await getWorkspaceContext(
+    WorkspaceRole.EDITOR
+  );
+
+  const task = await findAttachedTask(taskId, workspaceId);
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(
+      `File is too large; attachments can be up to ${Math.floor(
+        MAX_ATTACHMENT_SIZE / (1024 * 1024)
+      )} MB`
+    );
+  }
+
+  const count = await Attachment.countDocuments({ taskId: task._id }).exec();
+  if (count >= MAX_TASK_ATTACHMENTS) {
+    throw new Error(
+      `Cannot attach more than ${MAX_TASK_ATTACHMENTS} files to a task`
+    );
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const mimeType = detectFileType(data);
+
+  if (!mimeType || !(mimeType in ATTACHMENT_TYPES)) {
+    throw new Error(
+      `Unsupported file type; attach ${Object.values(ATTACHMENT_TYPES)
+        .flat()
+        .join(", ")} files`
+    );
+  }
+
+  let thumbnailData: Uint8Array | null = null;
+  let thumbnailType: string | null = null;
+
+  if (thumbnail && isImageType(mimeType)) {
+    if (thumbnail.size > MAX_THUMBNAIL_SIZE) {
+      throw new Error("Thumbnail is too large");
+    }
+
+    thumbnailData = new Uint8Array(await thumbnail.arrayBuffer());
+    thumbnailType = detectFileType(thumbnailData);
+
+    if (!thumbnailType || !THUMBNAIL_TYPES.includes(thumbnailType)) {
+      throw new Error("Invalid thumbnail type");
+    }
+  }
+
+  const storage = getStorage();
+  const storageKey = `${workspaceId}/${task._id}/${crypto.randomUUID()}`;
+  const thumbnailKey = thumbnailData ? `${storageKey}.thumb` : null;
+
+  await storage.put(storageKey, data, mimeType);
+
+  try {
+    if (thumbnailKey && thumbnailData && thumbnailType) {
+      await storage.put(thumbnailKey, thumbnailData, thumbnailType);
+    }
+
+    const attachment = await Attachment.create({
+      workspaceId,
+      taskId: task._id,
+      userId,
+      name: cleanFileName(file.name),
+      mimeType,
+      size: data.length,
+      storageKey,
+      thumbnailKey,
+    });
+
+    const [formatted] = await formatAttachments([attachment]);
+    return formatted;
+  } catch (error) {
+    // Do not leave unreferenced files behind
+    await deleteStoredFiles(
+      thumbnailKey ? [storageKey, thumbnailKey] : [storageKey]
+    );
+    throw error;
+  }
+}
+
+/**
+ * Reads the contents of an attachment, or of its thumbnail
+ *
+ * @throws Error when the attachment or its thumbnail does not exist
+ */
+export async function readAttachment(id: string, thumbnail = false) {
+  const { workspaceId } = await getWorkspaceContext(WorkspaceRole.VIEWER);
+
+  const attachment = await findAttachment(id, workspaceId);
+  const key = thumbnail ? attachment.thumbnailKey : attachment.storageKey;
+  const data = key ? await getStorage().get(key) : null;
+
+  if (!data) {
+    throw new Error(
+      thumbnail ? "Thumbnail not found" : "Attachment file not found"
+    );
+  }
+
+  return {
+    data,
+    name: attachment.name as string,
+    // Thumbnails are identified again, as they may be of another type
+    mimeType: thumbnail
+      ? detectFileType(data) || "application/octet-stream"
+      : (attachment.mimeType as string),
+  };
+}
+
+/**
+ * Deletes an attachment and its stored files
+ */
+export async function removeAttachment(id: string) {
+  const { workspaceId } = await getWorkspaceContext(WorkspaceRole.EDITOR);
+
+  const attachment = await findAttachment(id, workspaceId);
+
+  await Attachment.deleteOne({ _id: attachment._id }).exec();
+  await deleteStoredFiles(getStoredKeys(attachment));
+}
+
+/**
+ * Deletes the attachments of tasks that are removed for good
+ */
+export async function purgeTaskAttachments(taskIds: Types.ObjectId[]) {
+  const attachments = await Attachment.find({
+    taskId: { $in: taskIds },
+  }).exec();
+
+  if (attachments.length === 0) return;
+
+  await Attachment.deleteMany({
+    _id: { $in: attachments.map((attachment) => attachment._id) },
+  }).exec();
+  await deleteStoredFiles(attachments.flatMap(getStoredKeys));
+}
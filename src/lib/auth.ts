@@ -3,7 +3,7 @@ import CredentialsProvider from "next-auth/providers/credentials";
 import bcrypt from "bcryptjs";
 import dbConnect from "@/lib/db/connect";
 import User from "@/models/user.model";
-import { UserRole } from "@/types";
+import { AccessTokenScope, UserRole } from "@/types";
 
 export const authOptions: NextAuthOptions = {
   session: {
@@ -109,6 +109,8 @@ declare module "next-auth" {
       role: UserRole;
       image?: string;
     };
+    // Set when the request was authenticated with a personal access token
+    tokenScope?: AccessTokenScope;
   }
 }
 
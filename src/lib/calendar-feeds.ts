@@ -0,0 +1,173 @@
+import dbConnect from "@/lib/db/connect";
+import {
+  findPrefixedToken,
+  generatePrefixedToken,
+} from "@/lib/prefixed-tokens";
+import CalendarFeed from "@/models/calendar-feed.model";
+import Workspace from "@/models/workspace.model";
+import Task from "@/models/task.model";
+import { getMemberRole } from "@/lib/workspace";
+import {
+  IcsComponent,
+  IcsProperty,
+  escapeIcsText,
+  formatIcsDate,
+  formatIcsDateTime,
+  toIcsCalendar,
+} from "@/lib/utils/ics";
+import { CALENDAR_FEED_TYPES } from "@/lib/validations/calendar-feed";
+import { TaskPriority, TaskStatus } from "@/types";
+
+// Marks a string as a calendar feed token
+const TOKEN_PREFIX = "cal_";
+
+// The last-used time is refreshed at most this often, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const PRODUCT_ID = "-//Task Management System//Task Calendar//EN";
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const ICS_PRIORITIES: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 1,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+const ICS_TODO_STATUSES: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: "NEEDS-ACTION",
+  [TaskStatus.IN_PROGRESS]: "IN-PROCESS",
+  [TaskStatus.COMPLETED]: "COMPLETED",
+};
+
+// Events are only tentative or confirmed; a task is confirmed once started
+const ICS_EVENT_STATUSES: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: "TENTATIVE",
+  [TaskStatus.IN_PROGRESS]: "CONFIRMED",
+  [TaskStatus.COMPLETED]: "CONFIRMED",
+};
+
+type TaskDocument = InstanceType<typeof Task>;
+type CalendarFeedType = (typeof CALENDAR_FEED_TYPES)[number];
+
+/**
+ * Generates a new calendar feed token of the form `cal_<id>_<secret>`
+ */
+export function generateCalendarFeedToken() {
+  return generatePrefixedToken(TOKEN_PREFIX);
+}
+
+/**
+ * Resolves a feed token to its feed and workspace
+ *
+ * @returns The feed and workspace, or null when the token is malformed or
+ * unknown, or its owner is no longer a member of the workspace
+ */
+export async function findCalendarFeed(token: string) {
+  await dbConnect();
+
+  const feed = await findPrefixedToken(token, TOKEN_PREFIX, CalendarFeed);
+
+  if (!feed) return null;
+
+  const workspace = await Workspace.findById(feed.workspaceId).exec();
+
+  if (!workspace || !getMemberRole(workspace, feed.userId.toString())) {
+    return null;
+  }
+
+  const now = new Date();
+
+  if (
+    !feed.lastUsedAt ||
+    now.getTime() - feed.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await CalendarFeed.updateOne(
+      { _id: feed._id },
+      { $set: { lastUsedAt: now } }
+    ).exec();
+  }
+
+  return { feed, workspace };
+}
+
+// Build the calendar entry of a task, which must have a due date
+function toIcsComponent(
+  task: TaskDocument,
+  type: CalendarFeedType,
+  timeZone: string,
+  host: string
+): IcsComponent {
+  const status = task.status as TaskStatus;
+  const properties: IcsProperty[] = [
+    ["UID", `${task._id.toString()}@${host}`],
+    ["DTSTAMP", formatIcsDateTime(task.updatedAt)],
+    ["CREATED", formatIcsDateTime(task.createdAt)],
+    ["LAST-MODIFIED", formatIcsDateTime(task.updatedAt)],
+    ["SUMMARY", escapeIcsText(task.title)],
+  ];
+
+  if (task.description) {
+    properties.push(["DESCRIPTION", escapeIcsText(task.description)]);
+  }
+
+  properties.push([
+    "PRIORITY",
+    String(ICS_PRIORITIES[task.priority as TaskPriority]),
+  ]);
+
+  if (task.categoryId?.name) {
+    properties.push(["CATEGORIES", escapeIcsText(task.categoryId.name)]);
+  }
+
+  if (type === "todo") {
+    properties.push(
+      ["DUE;VALUE=DATE", formatIcsDate(task.dueDate, timeZone)],
+      ["STATUS", ICS_TODO_STATUSES[status]]
+    );
+
+    if (status === TaskStatus.COMPLETED) {
+      properties.push(
+        ["COMPLETED", formatIcsDateTime(task.completedAt || task.updatedAt)],
+        ["PERCENT-COMPLETE", "100"]
+      );
+    }
+
+    return { type: "VTODO", properties };
+  }
+
+  properties.push(
+    ["DTSTART;VALUE=DATE", formatIcsDate(task.dueDate, timeZone)],
+    ["DTEND;VALUE=DATE", formatIcsDate(task.dueDate, timeZone, 1)],
+    ["TRANSP", "TRANSPARENT"],
+    ["STATUS", ICS_EVENT_STATUSES[status]]
+  );
+
+  return { type: "VEVENT", properties };
+}
+
+/**
+ * Renders tasks with a due date as an iCalendar document of all-day events
+ * or to-dos. Due dates fall on their calendar day in the given time zone.
+ * Tasks must have their category populated.
+ */
+export function renderTaskCalendar({
+  name,
+  tasks,
+  type,
+  timeZone,
+  host,
+}: {
+  name: string;
+  tasks: TaskDocument[];
+  type: CalendarFeedType;
+  timeZone: string;
+  host: string;
+}) {
+  return toIcsCalendar({
+    productId: PRODUCT_ID,
+    name,
+    components: tasks
+      .filter((task) => task.dueDate)
+      .map((task) => toIcsComponent(task, type, timeZone, host)),
+  });
+}
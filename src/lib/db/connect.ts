@@ -1,4 +1,5 @@
 import mongoose from "mongoose";
+import { softDelete } from "@/lib/db/soft-delete";
 
 const MONGODB_URI = process.env.MONGODB_URI!;
 
@@ -72,11 +73,16 @@ async function dbConnect() {
               ref: "User",
               required: [true, "User ID is required"],
             },
+            workspaceId: {
+              type: mongoose.Schema.Types.ObjectId,
+              ref: "Workspace",
+            },
           },
           { timestamps: true }
         );
 
-        categorySchema.index({ name: 1, userId: 1 }, { unique: true });
+        categorySchema.plugin(softDelete);
+        categorySchema.index({ name: 1, workspaceId: 1 }, { unique: true });
         const Category =
           mongoose.models.Category ||
           mongoose.model("Category", categorySchema);
@@ -98,10 +104,41 @@ async function dbConnect() {
               ref: "User",
               required: [true, "User ID is required"],
             },
+            workspaceId: {
+              type: mongoose.Schema.Types.ObjectId,
+              ref: "Workspace",
+            },
+            parentTaskId: {
+              type: mongoose.Schema.Types.ObjectId,
+              ref: "Task",
+              default: null,
+            },
+            position: { type: Number, default: 0 },
+            recurrence: { type: mongoose.Schema.Types.Mixed, default: null },
+            assigneeIds: [
+              {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: "User",
+              },
+            ],
+            blockedBy: [
+              {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: "Task",
+              },
+            ],
+            startedAt: { type: Date, default: null },
+            completedAt: { type: Date, default: null },
+            nextOccurrenceId: {
+              type: mongoose.Schema.Types.ObjectId,
+              ref: "Task",
+              default: null,
+            },
           },
           { timestamps: true }
         );
 
+        taskSchema.plugin(softDelete);
         const Task = mongoose.models.Task || mongoose.model("Task", taskSchema);
 
         console.log("Models registered successfully:", {
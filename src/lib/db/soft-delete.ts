@@ -0,0 +1,50 @@
+import { MongooseQueryMiddleware, Schema } from "mongoose";
+
+// Query operations that must not see documents in the trash
+const FILTERED_OPERATIONS: MongooseQueryMiddleware[] = [
+  "countDocuments",
+  "deleteMany",
+  "deleteOne",
+  "distinct",
+  "find",
+  "findOne",
+  "findOneAndDelete",
+  "findOneAndUpdate",
+  "updateMany",
+  "updateOne",
+];
+
+/**
+ * Mongoose plugin that adds a `deletedAt` timestamp and hides documents that
+ * have one from every query and aggregation on the model.
+ * Queries that filter on `deletedAt` themselves (such as those of the trash)
+ * are left untouched, which is how trashed documents are reached.
+ */
+export function softDelete(schema: Schema) {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+  });
+
+  schema.pre(FILTERED_OPERATIONS, function () {
+    if (!("deletedAt" in this.getFilter())) {
+      this.where({ deletedAt: null });
+    }
+  });
+
+  schema.pre("aggregate", function () {
+    const [firstStage] = this.pipeline();
+
+    if (
+      firstStage &&
+      "$match" in firstStage &&
+      "deletedAt" in firstStage.$match
+    ) {
+      return;
+    }
+
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  });
+}
@@ -1,11 +1,21 @@
 "use server";
 
+import { headers } from "next/headers";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
+import { getAccessTokenSession } from "@/lib/access-tokens";
 
-// Safe wrapper for getServerSession that works in server components
+// Safe wrapper for getServerSession that works in server components.
+// Requests with an `Authorization: Bearer <token>` header are authenticated
+// with a personal access token instead of the session cookie.
 export async function getSession() {
   try {
+    const authorization = (await headers()).get("authorization");
+
+    if (authorization?.startsWith("Bearer ")) {
+      return await getAccessTokenSession(authorization.slice(7).trim());
+    }
+
     return await getServerSession(authOptions);
   } catch (error) {
     console.error("Error getting session:", error);
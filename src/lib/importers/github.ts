@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { TaskImportRow, TaskStatus } from "@/types";
+import { ImportAdapter } from "@/lib/importers/types";
+import {
+  matchPriority,
+  matchStatus,
+  pluralize,
+  toImportDueDate,
+} from "@/lib/importers/mapping";
+
+// An issue as listed by the REST API or by `gh issue list --json`, which
+// differ in the case of states and in how milestones spell their due date
+const githubIssueSchema = z.object({
+  number: z.number(),
+  title: z.string(),
+  body: z.string().nullish(),
+  state: z.string().transform((state) => state.toLowerCase()),
+  labels: z
+    .array(z.union([z.string(), z.object({ name: z.string() })]))
+    .default([])
+    .transform((labels) =>
+      labels.map((label) => (typeof label === "string" ? label : label.name))
+    ),
+  milestone: z
+    .object({
+      due_on: z.string().nullish(),
+      dueOn: z.string().nullish(),
+    })
+    .nullish(),
+  // Set on pull requests listed by the REST issues endpoint
+  pull_request: z.unknown().optional(),
+});
+
+const githubExportSchema = z.array(githubIssueSchema);
+
+/**
+ * Closed issues are completed; open issues labeled like a status (e.g.
+ * "in progress") take that status. Labels named like a priority (e.g.
+ * "priority: high", "P1") set the priority, and the first other label
+ * becomes the category. Milestone due dates become due dates.
+ */
+export const githubAdapter: ImportAdapter = {
+  id: "github",
+  label: "GitHub Issues",
+  instructions:
+    "gh issue list --state all --limit 1000 --json number,title,body,state,labels,milestone, or the JSON of the REST API issues endpoint",
+
+  detect: (data) =>
+    Array.isArray(data) &&
+    data.length > 0 &&
+    data.every(
+      (issue) =>
+        typeof issue === "object" &&
+        issue !== null &&
+        "number" in issue &&
+        "title" in issue &&
+        "state" in issue
+    ),
+
+  convert: (data) => {
+    const result = githubExportSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error("The file is not a valid GitHub Issues export");
+    }
+
+    const issues = result.data.filter((issue) => !issue.pull_request);
+    const warnings: string[] = [];
+
+    const rows = issues.map((issue): TaskImportRow => {
+      const labelStatus = issue.labels
+        .map(matchStatus)
+        .find((match) => match !== null);
+      const priority = issue.labels
+        .map(matchPriority)
+        .find((match) => match !== null);
+
+      return {
+        title: issue.title,
+        description: issue.body || undefined,
+        status:
+          issue.state === "closed"
+            ? TaskStatus.COMPLETED
+            : labelStatus || TaskStatus.TODO,
+        priority: priority || undefined,
+        dueDate: toImportDueDate(
+          issue.milestone?.due_on || issue.milestone?.dueOn
+        ),
+        category: issue.labels.find(
+          (label) => !matchStatus(label) && !matchPriority(label)
+        ),
+      };
+    });
+
+    if (result.data.length > issues.length) {
+      warnings.push(
+        `${pluralize(
+          result.data.length - issues.length,
+          "pull request",
+          "pull requests"
+        )} will be left out`
+      );
+    }
+
+    return { rows, warnings };
+  },
+};
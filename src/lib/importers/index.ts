@@ -0,0 +1,76 @@
+import { TaskImportRow } from "@/types";
+import { ImportAdapter, ImportConversion } from "@/lib/importers/types";
+import { todoistAdapter } from "@/lib/importers/todoist";
+import { trelloAdapter } from "@/lib/importers/trello";
+import { githubAdapter } from "@/lib/importers/github";
+import { pluralize } from "@/lib/importers/mapping";
+import { MAX_DESCRIPTION_LENGTH } from "@/lib/validations/task";
+
+export type { ImportAdapter, ImportConversion };
+
+// Tools whose exports can be imported. To support another tool, add its
+// adapter here.
+export const IMPORT_ADAPTERS: ImportAdapter[] = [
+  todoistAdapter,
+  trelloAdapter,
+  githubAdapter,
+];
+
+// Longest text taskCreateSchema and categoryCreateSchema accept. Longer
+// text from other tools is shortened rather than failing the task.
+const MAX_LENGTHS: Partial<Record<keyof TaskImportRow, number>> = {
+  title: 100,
+  description: MAX_DESCRIPTION_LENGTH,
+  category: 30,
+};
+
+/**
+ * Finds the adapter of the tool a parsed export file comes from
+ */
+export function detectImportAdapter(data: unknown): ImportAdapter | null {
+  return IMPORT_ADAPTERS.find((adapter) => adapter.detect(data)) ?? null;
+}
+
+/**
+ * Converts an export with an adapter, shortening text to fit a task
+ */
+export function convertImport(
+  adapter: ImportAdapter,
+  data: unknown
+): ImportConversion {
+  const { rows, warnings } = adapter.convert(data);
+  let shortenedCount = 0;
+
+  const fittedRows = rows.map((row) => {
+    const fitted = { ...row };
+
+    for (const [field, max] of Object.entries(MAX_LENGTHS)) {
+      const key = field as keyof TaskImportRow;
+      const value = fitted[key]?.trim();
+
+      if (value && value.length > max) {
+        fitted[key] = `${value.slice(0, max - 1).trimEnd()}…`;
+        shortenedCount++;
+      } else {
+        fitted[key] = value;
+      }
+    }
+
+    return fitted;
+  });
+
+  return {
+    rows: fittedRows,
+    warnings:
+      shortenedCount > 0
+        ? [
+            ...warnings,
+            `${pluralize(
+              shortenedCount,
+              "title, description or category name",
+              "titles, descriptions or category names"
+            )} will be shortened to fit`,
+          ]
+        : warnings,
+  };
+}
@@ -0,0 +1,82 @@
+import { TaskPriority, TaskStatus } from "@/types";
+
+// Names of lists, sections and labels that stand for a status or a
+// priority in other tools, after normalizing with toNameKey
+const STATUS_NAMES: Record<string, TaskStatus> = {
+  todo: TaskStatus.TODO,
+  "to do": TaskStatus.TODO,
+  backlog: TaskStatus.TODO,
+  open: TaskStatus.TODO,
+  new: TaskStatus.TODO,
+  "in progress": TaskStatus.IN_PROGRESS,
+  doing: TaskStatus.IN_PROGRESS,
+  started: TaskStatus.IN_PROGRESS,
+  wip: TaskStatus.IN_PROGRESS,
+  review: TaskStatus.IN_PROGRESS,
+  "in review": TaskStatus.IN_PROGRESS,
+  done: TaskStatus.COMPLETED,
+  complete: TaskStatus.COMPLETED,
+  completed: TaskStatus.COMPLETED,
+  closed: TaskStatus.COMPLETED,
+};
+
+const PRIORITY_NAMES: Record<string, TaskPriority> = {
+  p0: TaskPriority.HIGH,
+  p1: TaskPriority.HIGH,
+  critical: TaskPriority.HIGH,
+  urgent: TaskPriority.HIGH,
+  high: TaskPriority.HIGH,
+  p2: TaskPriority.MEDIUM,
+  medium: TaskPriority.MEDIUM,
+  normal: TaskPriority.MEDIUM,
+  p3: TaskPriority.LOW,
+  p4: TaskPriority.LOW,
+  low: TaskPriority.LOW,
+  minor: TaskPriority.LOW,
+};
+
+// Lowercase a name, keep only letters and digits, and drop a leading
+// "status" or "priority", so that e.g. "Priority: High" reads as "high"
+const toNameKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z\d]+/g, " ")
+    .trim()
+    .replace(/^(status|priority) /, "");
+
+/**
+ * Reads a list, section or label name as a task status
+ */
+export function matchStatus(name: string): TaskStatus | null {
+  return STATUS_NAMES[toNameKey(name)] ?? null;
+}
+
+/**
+ * Reads a label name as a task priority
+ */
+export function matchPriority(name: string): TaskPriority | null {
+  return PRIORITY_NAMES[toNameKey(name)] ?? null;
+}
+
+/**
+ * Converts a due date of an export to an ISO string. A date without a time
+ * is due at the start of that day where the import runs, like a date picked
+ * in the app; anything unparseable is kept so the import can report it.
+ */
+export function toImportDueDate(value?: string | null): string | undefined {
+  if (!value) return undefined;
+
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = day
+    ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]))
+    : new Date(value);
+
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Counts items for a warning, e.g. "3 archived cards"
+ */
+export function pluralize(count: number, singular: string, plural: string) {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
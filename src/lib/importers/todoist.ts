@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { TaskImportRow, TaskPriority, TaskStatus } from "@/types";
+import { ImportAdapter } from "@/lib/importers/types";
+import {
+  matchStatus,
+  pluralize,
+  toImportDueDate,
+} from "@/lib/importers/mapping";
+
+// Older exports use numeric ids and 0/1 flags
+const todoistId = z.union([z.string(), z.number()]).transform(String);
+const todoistFlag = z
+  .union([z.boolean(), z.number()])
+  .optional()
+  .transform(Boolean);
+
+// The parts of a Todoist sync response (`resource_types=["all"]`) that
+// are imported
+const todoistExportSchema = z.object({
+  projects: z.array(
+    z.object({
+      id: todoistId,
+      name: z.string(),
+    })
+  ),
+  sections: z
+    .array(
+      z.object({
+        id: todoistId,
+        name: z.string(),
+      })
+    )
+    .default([]),
+  items: z.array(
+    z.object({
+      content: z.string(),
+      description: z.string().nullish(),
+      project_id: todoistId,
+      section_id: todoistId.nullish(),
+      parent_id: todoistId.nullish(),
+      priority: z.number().int().min(1).max(4).default(1),
+      due: z.object({ date: z.string() }).nullish(),
+      labels: z.array(z.string()).default([]),
+      checked: todoistFlag,
+      is_deleted: todoistFlag,
+    })
+  ),
+});
+
+// Todoist priorities run from 1 (no priority) to 4 (p1, the most urgent)
+const TODOIST_PRIORITIES: Record<number, TaskPriority> = {
+  4: TaskPriority.HIGH,
+  3: TaskPriority.MEDIUM,
+  2: TaskPriority.LOW,
+  1: TaskPriority.LOW,
+};
+
+/**
+ * Todoist projects become categories. Board sections and labels named
+ * like a status (e.g. "In Progress") set the status of open tasks.
+ */
+export const todoistAdapter: ImportAdapter = {
+  id: "todoist",
+  label: "Todoist",
+  instructions:
+    'The JSON response of the Todoist sync API with resource_types ["all"]',
+
+  detect: (data) =>
+    typeof data === "object" &&
+    data !== null &&
+    Array.isArray((data as Record<string, unknown>).projects) &&
+    Array.isArray((data as Record<string, unknown>).items),
+
+  convert: (data) => {
+    const result = todoistExportSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error("The file is not a valid Todoist export");
+    }
+
+    const { projects, sections, items } = result.data;
+    const projectNames = new Map(projects.map(({ id, name }) => [id, name]));
+    const sectionNames = new Map(sections.map(({ id, name }) => [id, name]));
+    const warnings: string[] = [];
+
+    const activeItems = items.filter((item) => !item.is_deleted);
+    const subtaskCount = activeItems.filter((item) => item.parent_id).length;
+
+    const rows = activeItems.map((item): TaskImportRow => {
+      const sectionName = item.section_id
+        ? sectionNames.get(item.section_id)
+        : undefined;
+      const status = item.checked
+        ? TaskStatus.COMPLETED
+        : [sectionName || "", ...item.labels]
+            .map(matchStatus)
+            .find((match) => match !== null) || TaskStatus.TODO;
+
+      return {
+        title: item.content,
+        description: item.description || undefined,
+        status,
+        priority: TODOIST_PRIORITIES[item.priority],
+        dueDate: toImportDueDate(item.due?.date),
+        category: projectNames.get(item.project_id),
+      };
+    });
+
+    if (items.length > activeItems.length) {
+      warnings.push(
+        `${pluralize(
+          items.length - activeItems.length,
+          "deleted task",
+          "deleted tasks"
+        )} will be left out`
+      );
+    }
+
+    if (subtaskCount > 0) {
+      warnings.push(
+        pluralize(
+          subtaskCount,
+          "subtask will become a top-level task",
+          "subtasks will become top-level tasks"
+        )
+      );
+    }
+
+    return { rows, warnings };
+  },
+};
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { TaskImportRow, TaskStatus } from "@/types";
+import { ImportAdapter } from "@/lib/importers/types";
+import {
+  matchPriority,
+  matchStatus,
+  pluralize,
+  toImportDueDate,
+} from "@/lib/importers/mapping";
+
+// The parts of a Trello board export (Menu › Print, export and share ›
+// Export as JSON) that are imported
+const trelloExportSchema = z.object({
+  name: z.string(),
+  lists: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      closed: z.boolean().default(false),
+    })
+  ),
+  cards: z.array(
+    z.object({
+      name: z.string(),
+      desc: z.string().default(""),
+      idList: z.string(),
+      closed: z.boolean().default(false),
+      due: z.string().nullish(),
+      dueComplete: z.boolean().default(false),
+      labels: z.array(z.object({ name: z.string().default("") })).default([]),
+    })
+  ),
+});
+
+/**
+ * Lists named like a status (e.g. "Doing") set the status of their cards;
+ * other lists become categories. Cards in status lists fall back to their
+ * first label that is neither a status nor a priority, then to the board
+ * name. Labels named like a priority (e.g. "Urgent") set the priority.
+ */
+export const trelloAdapter: ImportAdapter = {
+  id: "trello",
+  label: "Trello",
+  instructions:
+    "Board menu › Print, export and share › Export as JSON, one board per file",
+
+  detect: (data) =>
+    typeof data === "object" &&
+    data !== null &&
+    Array.isArray((data as Record<string, unknown>).lists) &&
+    Array.isArray((data as Record<string, unknown>).cards),
+
+  convert: (data) => {
+    const result = trelloExportSchema.safeParse(data);
+    if (!result.success) {
+      throw new Error("The file is not a valid Trello board export");
+    }
+
+    const { name: boardName, lists, cards } = result.data;
+    const openLists = new Map(
+      lists.filter((list) => !list.closed).map((list) => [list.id, list.name])
+    );
+    const warnings: string[] = [];
+
+    const openCards = cards.filter(
+      (card) => !card.closed && openLists.has(card.idList)
+    );
+
+    const rows = openCards.map((card): TaskImportRow => {
+      const listName = openLists.get(card.idList) || "";
+      const listStatus = matchStatus(listName);
+      const labelNames = card.labels.map((label) => label.name.trim());
+      const priority = labelNames
+        .map(matchPriority)
+        .find((match) => match !== null);
+      const labelCategory = labelNames.find(
+        (label) => label && !matchStatus(label) && !matchPriority(label)
+      );
+
+      return {
+        title: card.name,
+        description: card.desc || undefined,
+        status: card.dueComplete
+          ? TaskStatus.COMPLETED
+          : listStatus || TaskStatus.TODO,
+        priority: priority || undefined,
+        dueDate: toImportDueDate(card.due),
+        category: listStatus ? labelCategory || boardName : listName,
+      };
+    });
+
+    if (cards.length > openCards.length) {
+      warnings.push(
+        `${pluralize(
+          cards.length - openCards.length,
+          "archived card",
+          "archived cards"
+        )} will be left out`
+      );
+    }
+
+    return { rows, warnings };
+  },
+};
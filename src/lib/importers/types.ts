@@ -0,0 +1,26 @@
+import { TaskImportRow } from "@/types";
+
+// Tasks read from an export, with notes on anything left out or changed
+// along the way
+export type ImportConversion = {
+  rows: TaskImportRow[];
+  warnings: string[];
+};
+
+/**
+ * Reads the JSON export of another tool as rows of a task import. Adapters
+ * run in the browser, so the rows are checked and imported the same way as
+ * the rows of a CSV file.
+ */
+export interface ImportAdapter {
+  // Identifies the source, e.g. "trello"
+  id: string;
+  // Name of the tool, as shown to the user
+  label: string;
+  // How to get an export file out of the tool
+  instructions: string;
+  // Whether parsed JSON looks like an export of the tool
+  detect: (data: unknown) => boolean;
+  // Map an export onto import rows. Throws when the export is malformed.
+  convert: (data: unknown) => ImportConversion;
+}
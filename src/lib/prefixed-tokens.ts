@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { Model } from "mongoose";
+import { escapeRegExp } from "@/lib/utils/regex";
+
+/**
+ * Generates a new secret token of the form `<prefix><id>_<secret>`, such as
+ * `pat_…` for personal access tokens. The prefix marks what the token is
+ * for, e.g. for secret scanners. The token itself is only returned here; the
+ * `prefix` identifies it and only a bcrypt hash of the secret is meant to be
+ * stored.
+ */
+export async function generatePrefixedToken(tokenPrefix: string) {
+  const prefix = `${tokenPrefix}${crypto.randomBytes(6).toString("hex")}`;
+  const secret = crypto.randomBytes(32).toString("base64url");
+
+  return {
+    token: `${prefix}_${secret}`,
+    prefix,
+    secretHash: await bcrypt.hash(secret, 10),
+  };
+}
+
+/**
+ * Looks up the stored document of a token made by `generatePrefixedToken`,
+ * checking its secret against the stored hash
+ *
+ * @returns The document, or null when the token is malformed, of another
+ * kind or unknown
+ */
+export async function findPrefixedToken<T extends { secretHash: string }>(
+  token: string,
+  tokenPrefix: string,
+  model: Model<T>
+) {
+  const match = new RegExp(
+    `^(${escapeRegExp(tokenPrefix)}[a-f\\d]{12})_([\\w-]{43})$`
+  ).exec(token);
+  if (!match) return null;
+
+  const [, prefix, secret] = match;
+
+  const document = await model.findOne({ prefix }).exec();
+
+  if (!document || !(await bcrypt.compare(secret, document.secretHash))) {
+    return null;
+  }
+
+  return document;
+}
@@ -0,0 +1,54 @@
+import path from "path";
+import { createLocalStorage } from "@/lib/storage/local";
+import { createS3Storage } from "@/lib/storage/s3";
+import { StorageAdapter } from "@/lib/storage/types";
+
+export type { StorageAdapter } from "@/lib/storage/types";
+
+let storage: StorageAdapter | null = null;
+
+// Read a required setting of the S3 backend
+function requireEnv(name: string) {
+  const value = process.env[name];
+
+  if (!value) {
+    throw new Error(`${name} must be set when ATTACHMENT_STORAGE is "s3"`);
+  }
+
+  return value;
+}
+
+/**
+ * Returns the storage backend of attachments selected by ATTACHMENT_STORAGE:
+ * "local" (the default) keeps files under ATTACHMENT_STORAGE_DIR, "s3" in
+ * the S3_BUCKET bucket of an S3-compatible service
+ */
+export function getStorage(): StorageAdapter {
+  if (storage) return storage;
+
+  const backend = process.env.ATTACHMENT_STORAGE || "local";
+
+  switch (backend) {
+    case "local":
+      storage = createLocalStorage(
+        path.resolve(
+          process.env.ATTACHMENT_STORAGE_DIR ||
+            path.join("storage", "attachments")
+        )
+      );
+      break;
+    case "s3":
+      storage = createS3Storage({
+        endpoint: process.env.S3_ENDPOINT || "https://s3.amazonaws.com",
+        region: process.env.S3_REGION || "us-east-1",
+        bucket: requireEnv("S3_BUCKET"),
+        accessKeyId: requireEnv("S3_ACCESS_KEY_ID"),
+        secretAccessKey: requireEnv("S3_SECRET_ACCESS_KEY"),
+      });
+      break;
+    default:
+      throw new Error(`Unknown attachment storage "${backend}"`);
+  }
+
+  return storage;
+}
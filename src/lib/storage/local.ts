@@ -0,0 +1,37 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { StorageAdapter, assertStorageKey } from "@/lib/storage/types";
+
+/**
+ * Keeps objects as files under a directory of the server's filesystem.
+ * Suited to a single server; use S3 storage when running several.
+ */
+export function createLocalStorage(root: string): StorageAdapter {
+  const toPath = (key: string) => {
+    assertStorageKey(key);
+    return path.join(root, ...key.split("/"));
+  };
+
+  return {
+    id: "local",
+
+    async put(key, data) {
+      const filePath = toPath(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(toPath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(toPath(key), { force: true });
+    },
+  };
+}
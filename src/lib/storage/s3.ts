@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import { StorageAdapter, assertStorageKey } from "@/lib/storage/types";
+
+export type S3StorageConfig = {
+  // Base URL of the service, e.g. "https://s3.eu-west-1.amazonaws.com" or
+  // "http://localhost:9000" for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+const sha256 = (data: string | Uint8Array) =>
+  crypto.createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) =>
+  crypto.createHmac("sha256", key).update(data).digest();
+
+// Sign a request with AWS Signature Version 4, returning the headers to send.
+// See https://docs.aws.amazon.com/IAM/latest/UserGuide/reference_sigv.html
+function signRequest(
+  config: S3StorageConfig,
+  method: string,
+  url: URL,
+  body: Uint8Array | null
+): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256(body ?? "");
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    `host:${url.host}`,
+    `x-amz-content-sha256:${payloadHash}`,
+    `x-amz-date:${amzDate}`,
+    "",
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join("\n");
+
+  const signingKey = hmac(
+    hmac(
+      hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region),
+      "s3"
+    ),
+    "aws4_request"
+  );
+  const signature = crypto
+    .createHmac("sha256", signingKey)
+    .update(stringToSign)
+    .digest("hex");
+
+  return {
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Keeps objects in a bucket of Amazon S3 or a compatible service such as
+ * MinIO. Objects are addressed path-style (`<endpoint>/<bucket>/<key>`),
+ * which every compatible service supports.
+ */
+export function createS3Storage(config: S3StorageConfig): StorageAdapter {
+  const request = async (
+    method: "PUT" | "GET" | "DELETE",
+    key: string,
+    body: Uint8Array | null = null,
+    contentType?: string
+  ) => {
+    assertStorageKey(key);
+
+    const url = new URL(
+      `${config.endpoint.replace(/\/+$/, "")}/${encodeURIComponent(
+        config.bucket
+      )}/${key}`
+    );
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...signRequest(config, method, url, body),
+        ...(contentType ? { "Content-Type": contentType } : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  };
+
+  const fail = (method: string, key: string, response: Response) =>
+    new Error(
+      `S3 ${method} of ${key} failed with HTTP ${response.status} ${response.statusText}`
+    );
+
+  return {
+    id: "s3",
+
+    async put(key, data, contentType) {
+      const response = await request("PUT", key, data, contentType);
+      if (!response.ok) throw fail("PUT", key, response);
+    },
+
+    async get(key) {
+      const response = await request("GET", key);
+      if (response.status === 404) return null;
+      if (!response.ok) throw fail("GET", key, response);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const response = await request("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        throw fail("DELETE", key, response);
+      }
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * A place to keep the contents of uploaded files. Objects are addressed by
+ * keys such as "<workspace>/<task>/<file>", made of letters, digits, "_",
+ * "-" and "." separated by "/".
+ */
+export interface StorageAdapter {
+  // Identifies the backend, e.g. "local"
+  id: string;
+  // Store an object, replacing any object with the same key
+  put: (key: string, data: Uint8Array, contentType: string) => Promise<void>;
+  // Read an object, or null when there is none with the key
+  get: (key: string) => Promise<Buffer | null>;
+  // Remove an object. Removing a missing object is not an error.
+  delete: (key: string) => Promise<void>;
+}
+
+const KEY_PATTERN = /^[\w-][\w.-]*(\/[\w-][\w.-]*)*$/;
+
+/**
+ * Rejects keys that could escape the storage root, such as "../x"
+ *
+ * @throws Error when the key is malformed
+ */
+export function assertStorageKey(key: string) {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
@@ -0,0 +1,85 @@
+import { Types } from "mongoose";
+import dbConnect from "@/lib/db/connect";
+import { purgeTaskAttachments } from "@/lib/attachments";
+import Task from "@/models/task.model";
+import Category from "@/models/category.model";
+import Comment from "@/models/comment.model";
+import TimeEntry from "@/models/time-entry.model";
+
+// Days an item stays in the trash before it is purged, unless configured
+// through the TRASH_RETENTION_DAYS environment variable
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Only documents in the trash; mentioning `deletedAt` also lifts the
+// soft-delete filter that hides them from regular queries
+export const IN_TRASH = { deletedAt: { $ne: null } };
+
+export function getRetentionDays() {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Removes trashed tasks for good, together with their trashed subtasks and
+ * every reference to them
+ */
+export async function purgeTasks(taskIds: Types.ObjectId[]) {
+  if (taskIds.length === 0) return;
+
+  const subtasks = await Task.find({
+    parentTaskId: { $in: taskIds },
+    ...IN_TRASH,
+  })
+    .select("_id")
+    .exec();
+  const ids = [...taskIds, ...subtasks.map((subtask) => subtask._id)];
+
+  // Live and trashed tasks are updated separately, since the soft-delete
+  // filter applies to any query that does not mention `deletedAt`
+  const blockedByPurged = { blockedBy: { $in: ids } };
+  const pullPurged = { $pull: { blockedBy: { $in: ids } } };
+  await Task.updateMany(blockedByPurged, pullPurged).exec();
+  await Task.updateMany({ ...blockedByPurged, ...IN_TRASH }, pullPurged).exec();
+
+  await Comment.deleteMany({ taskId: { $in: ids } }).exec();
+  await TimeEntry.deleteMany({ taskId: { $in: ids } }).exec();
+  await purgeTaskAttachments(ids);
+  await Task.deleteMany({ _id: { $in: ids }, ...IN_TRASH }).exec();
+}
+
+/**
+ * Removes trashed categories for good and unlinks their tasks
+ */
+export async function purgeCategories(ids: Types.ObjectId[]) {
+  if (ids.length === 0) return;
+
+  const linkedToPurged = { categoryId: { $in: ids } };
+  const unlink = { $set: { categoryId: null } };
+  await Task.updateMany(linkedToPurged, unlink).exec();
+  await Task.updateMany({ ...linkedToPurged, ...IN_TRASH }, unlink).exec();
+
+  await Category.deleteMany({ _id: { $in: ids }, ...IN_TRASH }).exec();
+}
+
+/**
+ * Purges the items of every workspace that have been in the trash for
+ * longer than the retention period. Runs as a scheduled job, see
+ * `/api/cron/purge-trash`, rather than on any user's request.
+ */
+export async function purgeExpiredTrash() {
+  await dbConnect();
+
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - getRetentionDays());
+  const expired = { deletedAt: { $ne: null, $lt: cutoff } };
+
+  const [tasks, categories] = await Promise.all([
+    Task.find(expired).select("_id").exec(),
+    Category.find(expired).select("_id").exec(),
+  ]);
+
+  await purgeTasks(tasks.map((task) => task._id));
+  await purgeCategories(categories.map((category) => category._id));
+
+  return { tasks: tasks.length, categories: categories.length };
+}
@@ -0,0 +1,113 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// How long after a change its undo token is accepted
+const UNDO_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+// Previous state of a subtask completed together with its parent
+export interface SubtaskSnapshot {
+  id: string;
+  status: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+// Previous values of the fields a change overwrote on one task
+export interface TaskRevision {
+  taskId: string;
+  // Version written by the change; later edits make it non-undoable
+  updatedAt: string;
+  previous: Record<string, unknown>;
+  // Occurrence created by completing a recurring task
+  nextOccurrenceId: string | null;
+}
+
+/**
+ * The inverse of a task mutation, replayed by `undoTaskOperation`
+ */
+export type UndoOperation =
+  | {
+      // Bring trashed tasks (and the subtasks trashed with them) back
+      type: "restoreTasks";
+      taskIds: string[];
+      deletedAt: string;
+    }
+  | ({
+      // Put the changed fields of a task back to their previous values
+      type: "revertTask";
+      subtasks: SubtaskSnapshot[];
+    } & TaskRevision)
+  | {
+      // Put the fields changed by a bulk update back, task by task
+      type: "revertTasks";
+      revisions: TaskRevision[];
+    };
+
+interface UndoPayload {
+  operation: UndoOperation;
+  workspaceId: string;
+  userId: string;
+  expiresAt: number;
+}
+
+function sign(data: string) {
+  const secret = process.env.NEXTAUTH_SECRET;
+
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is required to sign undo tokens");
+  }
+
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/**
+ * Creates a signed token describing how to undo a change.
+ * The token only works for the same user in the same workspace.
+ */
+export function createUndoToken(
+  operation: UndoOperation,
+  { workspaceId, userId }: { workspaceId: string; userId: string }
+): string {
+  const payload: UndoPayload = {
+    operation,
+    workspaceId,
+    userId,
+    expiresAt: Date.now() + UNDO_TOKEN_TTL_MS,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verifies an undo token and returns the operation it describes
+ */
+export function readUndoToken(
+  token: string,
+  { workspaceId, userId }: { workspaceId: string; userId: string }
+): UndoOperation {
+  const [data, signature] = token.split(".");
+  const expected = sign(data || "");
+
+  if (
+    !data ||
+    !signature ||
+    signature.length !== expected.length ||
+    !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    throw new Error("Invalid undo token");
+  }
+
+  const payload: UndoPayload = JSON.parse(
+    Buffer.from(data, "base64url").toString()
+  );
+
+  if (payload.workspaceId !== workspaceId || payload.userId !== userId) {
+    throw new Error("Invalid undo token");
+  }
+
+  if (payload.expiresAt < Date.now()) {
+    throw new Error("This change can no longer be undone");
+  }
+
+  return payload.operation;
+}
@@ -0,0 +1,100 @@
+export type CsvCell = string | number | null | undefined;
+
+// Spreadsheets evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Separators recognised when parsing, in order of preference on a tie
+const DELIMITERS = [",", ";", "\t"];
+
+// Quote a cell when needed and keep spreadsheets from running it as a formula
+function formatCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) return "";
+  if (typeof cell === "number") return String(cell);
+
+  const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+
+  return /[",\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Serializes rows to CSV (RFC 4180, CRLF line endings). Text cells that a
+ * spreadsheet would treat as a formula are prefixed with a single quote.
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(formatCell).join(",")).join("\r\n");
+}
+
+/**
+ * Reverses the formula guard added by toCsv, so exported files import back
+ * unchanged
+ */
+export function unguardCsvCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))
+    ? value.slice(1)
+    : value;
+}
+
+// Guess the separator from the first line, ignoring quoted text
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length
+      ? delimiter
+      : best
+  );
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with embedded
+ * separators, quotes and line breaks, a byte order mark, and files separated
+ * by semicolons or tabs as exported by some spreadsheet locales.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
@@ -0,0 +1,35 @@
+import { TaskStatus } from "@/types";
+
+// Number of days ahead in which an open task counts as "due soon"
+export const DUE_SOON_DAYS = 3;
+
+interface DatedTask {
+  status: TaskStatus;
+  dueDate?: string | Date | null;
+}
+
+/**
+ * Checks whether a task is past its due date and not completed
+ */
+export function isOverdue(task: DatedTask, now: Date = new Date()): boolean {
+  if (!task.dueDate || task.status === TaskStatus.COMPLETED) return false;
+
+  return new Date(task.dueDate) < now;
+}
+
+/**
+ * Checks whether an open task is due within the next few days
+ */
+export function isDueSoon(
+  task: DatedTask,
+  now: Date = new Date(),
+  days: number = DUE_SOON_DAYS
+): boolean {
+  if (!task.dueDate || task.status === TaskStatus.COMPLETED) return false;
+
+  const dueDate = new Date(task.dueDate);
+  const limit = new Date(now);
+  limit.setDate(now.getDate() + days);
+
+  return dueDate >= now && dueDate <= limit;
+}
@@ -0,0 +1,35 @@
+/**
+ * Formats a number of minutes as hours and minutes, e.g. "1h 30m" or "45m"
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Reads a duration typed by a user as minutes. Accepts hours and minutes
+ * ("1h 30m", "2h", "45m"), clock notation ("1:30") and plain hours ("1.5").
+ * Returns null when the text is not a duration.
+ */
+export function parseDuration(text: string): number | null {
+  const value = text.trim().toLowerCase();
+
+  const clock = /^(\d+):([0-5]\d)$/.exec(value);
+  if (clock) {
+    return Number(clock[1]) * 60 + Number(clock[2]);
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(Number(value) * 60);
+  }
+
+  const units = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/.exec(value);
+  if (units && (units[1] || units[2])) {
+    return Math.round(Number(units[1] || 0) * 60) + Number(units[2] || 0);
+  }
+
+  return null;
+}
@@ -0,0 +1,112 @@
+import { toDayKey } from "@/lib/utils/time-zones";
+
+// A content line of a component: the property name, with any parameters
+// (e.g. "DTSTART;VALUE=DATE"), and its already formatted value
+export type IcsProperty = [name: string, value: string];
+
+export type IcsComponent = {
+  type: "VEVENT" | "VTODO";
+  properties: IcsProperty[];
+};
+
+// Content lines longer than this many octets must be folded (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escapes text for a TEXT property value
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Formats an instant as a UTC DATE-TIME value, e.g. 20250131T093000Z
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Formats the calendar day of an instant in a time zone as a DATE value,
+ * optionally shifted by a number of days, e.g. 20250131
+ */
+export function formatIcsDate(
+  date: Date,
+  timeZone: string,
+  addDays = 0
+): string {
+  const [year, month, day] = toDayKey(date, timeZone).split("-").map(Number);
+
+  return new Date(Date.UTC(year, month - 1, day + addDays))
+    .toISOString()
+    .slice(0, 10)
+    .replace(/-/g, "");
+}
+
+// Split a content line into lines of at most 75 octets, continued with a
+// leading space, without breaking multi-byte characters
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to their leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+
+  return lines.join("\r\n ");
+}
+
+/**
+ * Serializes components into an iCalendar (RFC 5545) document
+ */
+export function toIcsCalendar({
+  productId,
+  name,
+  components,
+}: {
+  productId: string;
+  name: string;
+  components: IcsComponent[];
+}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${productId}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ...components.flatMap(({ type, properties }) => [
+      `BEGIN:${type}`,
+      ...properties.map(([property, value]) => `${property}:${value}`),
+      `END:${type}`,
+    ]),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,12 @@
+/**
+ * Initials of a user's name for avatar fallbacks, e.g. "JD" for "Jane Doe"
+ */
+export function getInitials(name?: string) {
+  if (!name) return "U";
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .substring(0, 2);
+}
@@ -0,0 +1,560 @@
+// A small Markdown parser for task descriptions. It covers headings,
+// paragraphs, emphasis, links, inline and fenced code, block quotes,
+// rules, and nested bullet, numbered and task lists. Raw HTML is kept as
+// text, and the result is a tree rendered as React elements, never as HTML.
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "break" }
+  | { type: "strong" | "emphasis" | "delete"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownListItem = {
+  // null for a plain item, or whether the task list box is checked
+  checked: boolean | null;
+  // Line of the source the item starts on, counted from 0
+  line: number;
+  children: MarkdownBlock[];
+};
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "code"; language: string; text: string }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | {
+      type: "list";
+      ordered: boolean;
+      start: number;
+      items: MarkdownListItem[];
+    }
+  | { type: "rule" };
+
+// A line of the source with its position, kept while block quotes and
+// list items strip their markers so task list boxes can be found again
+type SourceLine = { text: string; number: number };
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TASK_BOX = /^\[([ xX])\][ \t]+/;
+// The box of a task list item, after any block quote and list markers
+const TASK_LINE =
+  /^((?:[ \t]*>[ \t]?)*[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+\[)([ xX])(\])/;
+
+// Deepest nesting of block quotes, lists and emphasis that is parsed;
+// anything nested deeper is kept as text
+const MAX_NESTING = 16;
+
+const isBlank = (text: string) => text.trim() === "";
+
+const indentOf = (text: string) =>
+  (/^[ \t]*/.exec(text)?.[0] || "").replace(/\t/g, "    ").length;
+
+// Remove up to `width` columns of leading whitespace
+function dedent(text: string, width: number) {
+  let column = 0;
+  let index = 0;
+
+  while (index < text.length && column < width) {
+    if (text[index] === " ") column++;
+    else if (text[index] === "\t") column += 4;
+    else break;
+    index++;
+  }
+
+  return text.slice(index);
+}
+
+// Whether a line starts a block other than a paragraph, which ends any
+// paragraph before it
+function startsBlock(text: string) {
+  return (
+    HEADING.test(text) ||
+    FENCE.test(text) ||
+    RULE.test(text) ||
+    BLOCKQUOTE.test(text) ||
+    LIST_ITEM.test(text)
+  );
+}
+
+/**
+ * Returns a link target if it is safe to follow: web and mail links, and
+ * links within the app. Anything else, e.g. `javascript:`, returns null.
+ */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace inside a scheme
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(
+    trimmed.replace(/[\p{Cc}\s]/gu, "")
+  );
+
+  if (!scheme) {
+    return /^[/#?.]/.test(trimmed) ? trimmed : null;
+  }
+
+  return ["http", "https", "mailto"].includes(scheme[1].toLowerCase())
+    ? trimmed
+    : null;
+}
+
+// Pair every `[` with the `]` closing it, allowing nested brackets, in a
+// single pass over the text
+function matchBrackets(text: string) {
+  const closing = new Map<number, number>();
+  const open: number[] = [];
+
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === "\\") {
+      index++;
+    } else if (text[index] === "[") {
+      open.push(index);
+    } else if (text[index] === "]") {
+      const start = open.pop();
+      if (start !== undefined) closing.set(start, index);
+    }
+  }
+
+  return closing;
+}
+
+// Remove trailing punctuation a bare URL is unlikely to end with, e.g. the
+// period ending a sentence
+function trimBareUrl(url: string) {
+  let end = url.length;
+
+  while (end > 0 && /[.,:;!?'")\]]/.test(url[end - 1])) {
+    if (url[end - 1] === ")") {
+      const opened = url.slice(0, end).split("(").length - 1;
+      const closed = url.slice(0, end).split(")").length - 1;
+      if (opened >= closed) break;
+    }
+    end--;
+  }
+
+  return url.slice(0, end);
+}
+
+// Inline patterns, matched in place with matchAt
+const HARD_BREAK = / {2,}\n/y;
+const BACKTICKS = /`+/y;
+const LINK_TARGET =
+  /\(\s*<?([^\s<>()]*(?:\([^\s<>()]*\)[^\s<>()]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/y;
+const AUTOLINK = /<((?:https?|mailto):[^\s<>]+)>/iy;
+const BARE_URL = /(?:https?:\/\/|www\.)[^\s<]+/iy;
+
+// Match a sticky pattern at a position of the text
+function matchAt(pattern: RegExp, text: string, index: number) {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+const EMPHASIS_DELIMITERS: {
+  marker: string;
+  type: "strong" | "emphasis" | "delete";
+}[] = [
+  { marker: "**", type: "strong" },
+  { marker: "__", type: "strong" },
+  { marker: "~~", type: "delete" },
+  { marker: "*", type: "emphasis" },
+  { marker: "_", type: "emphasis" },
+];
+
+// Parse the inline content of a block
+function parseInline(text: string, depth = 0): MarkdownInline[] {
+  if (depth >= MAX_NESTING) return [{ type: "text", text }];
+
+  const nodes: MarkdownInline[] = [];
+  let buffer = "";
+  let brackets: Map<number, number> | null = null;
+  // Markers with no closing delimiter left in the text, so that text full
+  // of lone markers is not searched again for each of them
+  const unmatched = new Set<string>();
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    // Escaped punctuation is literal; a backslash ending a line breaks it
+    if (char === "\\" && index + 1 < text.length) {
+      const next = text[index + 1];
+      if (next === "\n") {
+        flush();
+        nodes.push({ type: "break" });
+        index += 2;
+        continue;
+      }
+      if (/[!-/:-@[-`{-~]/.test(next)) {
+        buffer += next;
+        index += 2;
+        continue;
+      }
+    }
+
+    // Two or more spaces ending a line break it
+    const hardBreak = matchAt(HARD_BREAK, text, index);
+    if (hardBreak) {
+      flush();
+      nodes.push({ type: "break" });
+      index += hardBreak[0].length;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = matchAt(BACKTICKS, text, index)?.[0] || "`";
+      const end = text.indexOf(run, index + run.length);
+
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: "code",
+          text: text
+            .slice(index + run.length, end)
+            .replace(/\n/g, " ")
+            .replace(/^ (.*) $/, "$1"),
+        });
+        index = end + run.length;
+        continue;
+      }
+
+      buffer += run;
+      index += run.length;
+      continue;
+    }
+
+    // Links, and images, which are shown as a link to the image so that a
+    // description cannot load anything by itself
+    if (char === "[" || (char === "!" && text[index + 1] === "[")) {
+      const open = char === "!" ? index + 1 : index;
+      brackets = brackets || matchBrackets(text);
+      const close = brackets.get(open) ?? -1;
+      const target =
+        close !== -1 ? matchAt(LINK_TARGET, text, close + 1) : null;
+
+      if (target) {
+        const href = sanitizeUrl(target[1]);
+        const label = text.slice(open + 1, close);
+
+        flush();
+        if (href) {
+          nodes.push({
+            type: "link",
+            href,
+            children: parseInline(label || target[1], depth + 1),
+          });
+        } else {
+          nodes.push(...parseInline(label, depth + 1));
+        }
+        index = close + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    // Autolinks, e.g. <https://example.com>
+    if (char === "<") {
+      const autolink = matchAt(AUTOLINK, text, index);
+      if (autolink) {
+        flush();
+        nodes.push({
+          type: "link",
+          href: autolink[1],
+          children: [{ type: "text", text: autolink[1] }],
+        });
+        index += autolink[0].length;
+        continue;
+      }
+    }
+
+    // Bare web addresses, not in the middle of a word
+    if (
+      (char === "h" || char === "w") &&
+      !/[\w/]/.test(text[index - 1] || "")
+    ) {
+      const bare = matchAt(BARE_URL, text, index);
+      if (bare) {
+        const url = trimBareUrl(bare[0]);
+        flush();
+        nodes.push({
+          type: "link",
+          href: url.startsWith("www.") ? `https://${url}` : url,
+          children: [{ type: "text", text: url }],
+        });
+        index += url.length;
+        continue;
+      }
+    }
+
+    const delimiter = EMPHASIS_DELIMITERS.find(({ marker }) =>
+      text.startsWith(marker, index)
+    );
+
+    if (delimiter) {
+      const { marker, type } = delimiter;
+      const intraword = marker[0] === "_" && /\w/.test(text[index - 1] || "");
+      const innerStart = index + marker.length;
+      let end =
+        intraword || unmatched.has(marker)
+          ? -1
+          : text.indexOf(marker, innerStart + 1);
+
+      // The closing delimiter must follow text, and an underscore must end
+      // a word
+      while (
+        end !== -1 &&
+        (/\s/.test(text[end - 1]) ||
+          (marker[0] === "_" && /\w/.test(text[end + marker.length] || "")))
+      ) {
+        end = text.indexOf(marker, end + 1);
+      }
+
+      if (end === -1 && !intraword) unmatched.add(marker);
+
+      if (end !== -1 && !/\s/.test(text[innerStart])) {
+        flush();
+        nodes.push({
+          type,
+          children: parseInline(text.slice(innerStart, end), depth + 1),
+        });
+        index = end + marker.length;
+        continue;
+      }
+
+      buffer += marker;
+      index += marker.length;
+      continue;
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+
+  return nodes;
+}
+
+// Parse the lines of a list starting at `start`, returning the list and
+// the index of the first line after it
+function parseList(lines: SourceLine[], start: number, depth: number) {
+  const first = LIST_ITEM.exec(lines[start].text);
+  const ordered = !!first && /\d/.test(first[2]);
+  const baseIndent = first ? indentOf(first[1]) : 0;
+  const items: MarkdownListItem[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const match = LIST_ITEM.exec(lines[index].text);
+    if (
+      !match ||
+      /\d/.test(match[2]) !== ordered ||
+      indentOf(match[1]) > baseIndent + 3
+    ) {
+      break;
+    }
+
+    const itemLine = lines[index].number;
+    let content = match[4] || "";
+    let checked: boolean | null = null;
+    const box = TASK_BOX.exec(content);
+
+    if (box) {
+      checked = box[1] !== " ";
+      content = content.slice(box[0].length);
+    }
+
+    // Lines indented past the marker belong to the item
+    const contentIndent =
+      indentOf(match[1]) +
+      match[2].length +
+      Math.min(indentOf(match[3] || " "), 4);
+    const itemLines: SourceLine[] = [{ text: content, number: itemLine }];
+    index++;
+
+    while (index < lines.length) {
+      const line = lines[index];
+
+      if (isBlank(line.text)) {
+        const next = lines
+          .slice(index + 1)
+          .find((candidate) => !isBlank(candidate.text));
+        if (!next || indentOf(next.text) < contentIndent) break;
+        itemLines.push({ text: "", number: line.number });
+      } else if (indentOf(line.text) >= contentIndent) {
+        itemLines.push({
+          text: dedent(line.text, contentIndent),
+          number: line.number,
+        });
+      } else if (startsBlock(line.text)) {
+        break;
+      } else {
+        // A lazy continuation of the item's paragraph
+        itemLines.push({ text: line.text.trim(), number: line.number });
+      }
+
+      index++;
+    }
+
+    items.push({
+      checked,
+      line: itemLine,
+      children: parseBlocks(itemLines, depth + 1),
+    });
+
+    // A blank line between items does not end the list
+    if (
+      index < lines.length &&
+      isBlank(lines[index].text) &&
+      index + 1 < lines.length &&
+      LIST_ITEM.test(lines[index + 1].text)
+    ) {
+      index++;
+    }
+  }
+
+  return {
+    list: {
+      type: "list" as const,
+      ordered,
+      start: ordered && first ? parseInt(first[2], 10) : 1,
+      items,
+    },
+    next: index,
+  };
+}
+
+function parseBlocks(lines: SourceLine[], depth = 0): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const { text } = lines[index];
+
+    if (isBlank(text)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(text);
+    if (fence) {
+      const closing = new RegExp(
+        `^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`
+      );
+      const codeLines: string[] = [];
+      index++;
+
+      while (index < lines.length && !closing.test(lines[index].text)) {
+        codeLines.push(lines[index].text);
+        index++;
+      }
+
+      blocks.push({
+        type: "code",
+        language: fence[2],
+        text: codeLines.join("\n"),
+      });
+      // Skip the closing fence
+      index++;
+      continue;
+    }
+
+    const heading = HEADING.exec(text);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2] || ""),
+      });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(text)) {
+      blocks.push({ type: "rule" });
+      index++;
+      continue;
+    }
+
+    if (depth < MAX_NESTING && BLOCKQUOTE.test(text)) {
+      const quoteLines: SourceLine[] = [];
+
+      while (index < lines.length && BLOCKQUOTE.test(lines[index].text)) {
+        quoteLines.push({
+          text: lines[index].text.replace(BLOCKQUOTE, ""),
+          number: lines[index].number,
+        });
+        index++;
+      }
+
+      blocks.push({
+        type: "blockquote",
+        children: parseBlocks(quoteLines, depth + 1),
+      });
+      continue;
+    }
+
+    if (depth < MAX_NESTING && LIST_ITEM.test(text)) {
+      const { list, next } = parseList(lines, index, depth);
+      blocks.push(list);
+      index = next;
+      continue;
+    }
+
+    const paragraph: string[] = [text.trimStart()];
+    index++;
+
+    while (
+      index < lines.length &&
+      !isBlank(lines[index].text) &&
+      !startsBlock(lines[index].text)
+    ) {
+      paragraph.push(lines[index].text.trimStart());
+      index++;
+    }
+
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n").trimEnd()),
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parses Markdown into a tree of blocks
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  return parseBlocks(
+    markdown
+      .replace(/\r\n?/g, "\n")
+      .split("\n")
+      .map((text, number) => ({ text, number }))
+  );
+}
+
+/**
+ * Checks or unchecks the task list item starting on a line of the source,
+ * counted from 0. Returns the source unchanged if the line holds no box.
+ */
+export function toggleTaskListItem(markdown: string, line: number): string {
+  const lines = markdown.split("\n");
+  const match = TASK_LINE.exec(lines[line] || "");
+
+  if (!match) return markdown;
+
+  lines[line] = lines[line].replace(
+    TASK_LINE,
+    `$1${match[2] === " " ? "x" : " "}$3`
+  );
+
+  return lines.join("\n");
+}
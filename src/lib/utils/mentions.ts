@@ -0,0 +1,72 @@
+import { escapeRegExp } from "@/lib/utils/regex";
+
+// A workspace member as far as mentions are concerned
+export interface Mentionable {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+export type MentionMatch<T extends Mentionable> = {
+  // Position of the @ and of the first character after the handle
+  start: number;
+  end: number;
+  member: T;
+};
+
+/**
+ * Lists the ways a member can be mentioned: by name, e.g. "@Jane Doe", or
+ * by the part of their email before the @, e.g. "@jane.doe"
+ */
+export function getMentionHandles(member: Mentionable): string[] {
+  return [member.name, member.email.split("@")[0]]
+    .map((handle) => handle.trim())
+    .filter((handle) => handle.length >= 2);
+}
+
+/**
+ * Finds the mentions of members in a text, in order. Longer handles win,
+ * so "@Jane Doe" mentions Jane Doe rather than a member named Jane.
+ */
+export function matchMentions<T extends Mentionable>(
+  text: string,
+  members: T[]
+): MentionMatch<T>[] {
+  const handles = members
+    .flatMap((member) =>
+      getMentionHandles(member).map((handle) => ({ handle, member }))
+    )
+    .sort((a, b) => b.handle.length - a.handle.length);
+  const matches = new Map<number, MentionMatch<T>>();
+
+  for (const { handle, member } of handles) {
+    // The @ must not follow a word, as in an email address, and the handle
+    // must not run on into a longer word
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}_.@])@${escapeRegExp(handle)}(?![\\p{L}\\p{N}_])`,
+      "giu"
+    );
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+
+      if (!matches.has(start)) {
+        matches.set(start, { start, end: start + match[0].length, member });
+      }
+    }
+  }
+
+  return Array.from(matches.values()).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Lists the members mentioned in a text, each once
+ */
+export function findMentions<T extends Mentionable>(
+  text: string,
+  members: T[]
+): T[] {
+  return Array.from(
+    new Set(matchMentions(text, members).map((match) => match.member))
+  );
+}
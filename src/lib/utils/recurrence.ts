@@ -0,0 +1,190 @@
+import { format } from "date-fns";
+import { RecurrenceFrequency, TaskRecurrence } from "@/types";
+import {
+  fromZonedTime,
+  isValidTimeZone,
+  toDayKey,
+  toZonedTime,
+} from "@/lib/utils/time-zones";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Formats a number as an English ordinal (1st, 2nd, 3rd, 4th, ...)
+ */
+export function toOrdinal(value: number): string {
+  const remainder = value % 100;
+  if (remainder >= 11 && remainder <= 13) return `${value}th`;
+
+  switch (value % 10) {
+    case 1:
+      return `${value}st`;
+    case 2:
+      return `${value}nd`;
+    case 3:
+      return `${value}rd`;
+    default:
+      return `${value}th`;
+  }
+}
+
+function joinWithAnd(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+// Shift a wall-clock time made by `toZonedTime` by whole days
+const addWallClockDays = (wallClock: Date, days: number) =>
+  new Date(wallClock.getTime() + days * DAY);
+
+/**
+ * Computes the due date of the occurrence following `from`.
+ * Returns null when the rule has ended (count reached or past `until`).
+ *
+ * Weekdays and days of the month are those of the rule's time zone, the one
+ * the user picked the due date in, rather than the server's. Rules saved
+ * without a time zone are read in UTC.
+ *
+ * @param recurrence The recurrence rule of the current occurrence
+ * @param from The due date of the current occurrence
+ */
+export function getNextOccurrence(
+  recurrence: TaskRecurrence,
+  from: Date
+): Date | null {
+  const interval = Math.max(1, recurrence.interval || 1);
+  const occurrence = recurrence.occurrence || 1;
+  const timeZone =
+    recurrence.timeZone && isValidTimeZone(recurrence.timeZone)
+      ? recurrence.timeZone
+      : "UTC";
+
+  if (recurrence.count && occurrence >= recurrence.count) {
+    return null;
+  }
+
+  const current = toZonedTime(from, timeZone);
+  let next: Date;
+
+  switch (recurrence.frequency) {
+    case RecurrenceFrequency.DAILY:
+      next = addWallClockDays(current, interval);
+      break;
+
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = [...(recurrence.weekdays || [])].sort((a, b) => a - b);
+      const weekday = current.getUTCDay();
+
+      if (weekdays.length === 0) {
+        next = addWallClockDays(current, 7 * interval);
+        break;
+      }
+
+      // Next selected weekday later in the same week, otherwise the first
+      // selected weekday of the week `interval` weeks ahead
+      const laterThisWeek = weekdays.find((day) => day > weekday);
+      next =
+        laterThisWeek !== undefined
+          ? addWallClockDays(current, laterThisWeek - weekday)
+          : addWallClockDays(current, 7 * interval + weekdays[0] - weekday);
+      break;
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      const monthDay = recurrence.monthDay || current.getUTCDate();
+      const year = current.getUTCFullYear();
+      const month = current.getUTCMonth() + interval;
+      const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      next = new Date(
+        Date.UTC(
+          year,
+          month,
+          Math.min(monthDay, daysInMonth),
+          current.getUTCHours(),
+          current.getUTCMinutes(),
+          current.getUTCSeconds(),
+          current.getUTCMilliseconds()
+        )
+      );
+      break;
+    }
+
+    default:
+      return null;
+  }
+
+  next = fromZonedTime(next, timeZone);
+
+  if (
+    recurrence.until &&
+    toDayKey(next, timeZone) > toDayKey(new Date(recurrence.until), timeZone)
+  ) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Builds a human-readable summary of a recurrence rule,
+ * e.g. "every 2nd Tuesday" or "monthly on the 15th, 6 times"
+ */
+export function describeRecurrence(recurrence: TaskRecurrence): string {
+  const interval = Math.max(1, recurrence.interval || 1);
+  let summary: string;
+
+  switch (recurrence.frequency) {
+    case RecurrenceFrequency.DAILY:
+      summary = interval === 1 ? "every day" : `every ${interval} days`;
+      break;
+
+    case RecurrenceFrequency.WEEKLY: {
+      const days = [...(recurrence.weekdays || [])]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_NAMES[day]);
+
+      if (days.length === 0) {
+        summary = interval === 1 ? "every week" : `every ${interval} weeks`;
+      } else if (interval === 1) {
+        summary = `every ${joinWithAnd(days)}`;
+      } else if (days.length === 1) {
+        summary = `every ${toOrdinal(interval)} ${days[0]}`;
+      } else {
+        summary = `every ${toOrdinal(interval)} week on ${joinWithAnd(days)}`;
+      }
+      break;
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      const onDay = recurrence.monthDay
+        ? ` on the ${toOrdinal(recurrence.monthDay)}`
+        : "";
+      summary =
+        interval === 1
+          ? `monthly${onDay}`
+          : `every ${toOrdinal(interval)} month${onDay}`;
+      break;
+    }
+
+    default:
+      return "";
+  }
+
+  if (recurrence.count) {
+    summary += `, ${recurrence.count} time${recurrence.count > 1 ? "s" : ""}`;
+  } else if (recurrence.until) {
+    summary += `, until ${format(new Date(recurrence.until), "MMM d, yyyy")}`;
+  }
+
+  return summary;
+}
@@ -0,0 +1,7 @@
+/**
+ * Escapes the characters that have a meaning in regular expressions, so
+ * user input can be matched literally
+ */
+export function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,74 @@
+/**
+ * Formats a date as YYYY-MM-DD in the given time zone, matching the keys
+ * produced by `$dateToString` in aggregations
+ */
+export function toDayKey(date: Date, timeZone: string) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Checks that a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of a time zone from UTC at a given moment, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Gives the wall-clock time of a moment in the given time zone as a date
+ * whose UTC fields (`getUTCDay()`, `getUTCDate()`, ...) hold that time, so
+ * calendar arithmetic can be done with the UTC methods
+ */
+export function toZonedTime(date: Date, timeZone: string) {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+/**
+ * Turns a wall-clock time made by `toZonedTime` back into the moment it
+ * stands for in the given time zone
+ */
+export function fromZonedTime(wallClock: Date, timeZone: string) {
+  // The offset at the result can differ from the offset at the wall-clock
+  // time itself when a daylight saving change lies between the two
+  const guess = wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(
+    wallClock.getTime() - getTimeZoneOffset(new Date(guess), timeZone)
+  );
+}
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { AccessTokenScope } from "@/types";
+
+// Lifetimes a personal access token can be created with, in days
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365];
+
+// Access token validation schema
+export const accessTokenCreateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Token name is required")
+    .max(50, "Token name cannot exceed 50 characters"),
+  scope: z.nativeEnum(AccessTokenScope),
+  expiresInDays: z
+    .number()
+    .int()
+    .refine((days) => ACCESS_TOKEN_EXPIRY_DAYS.includes(days), {
+      message: "Invalid token lifetime",
+    }),
+});
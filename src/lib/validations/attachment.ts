@@ -0,0 +1,47 @@
+const DEFAULT_MAX_ATTACHMENT_SIZE_MB = 10;
+
+// NEXT_PUBLIC_ATTACHMENT_MAX_SIZE_MB is inlined at build time, so the upload
+// panel in the browser and the server enforce the same limit
+function getMaxAttachmentSize() {
+  const megabytes = Number(process.env.NEXT_PUBLIC_ATTACHMENT_MAX_SIZE_MB);
+  return (
+    (Number.isFinite(megabytes) && megabytes > 0
+      ? megabytes
+      : DEFAULT_MAX_ATTACHMENT_SIZE_MB) *
+    1024 *
+    1024
+  );
+}
+
+// Largest attachment, in bytes
+export const MAX_ATTACHMENT_SIZE = getMaxAttachmentSize();
+
+// Most attachments a single task can have
+export const MAX_TASK_ATTACHMENTS = 20;
+
+// Longest attachment file name, in characters
+export const MAX_ATTACHMENT_NAME_LENGTH = 200;
+
+// Largest thumbnail, in bytes, and the longest side it is scaled down to
+export const MAX_THUMBNAIL_SIZE = 200 * 1024;
+export const THUMBNAIL_DIMENSION = 320;
+
+// The types files can be attached as, with the extensions the file picker
+// offers. SVG is left out as it can carry scripts.
+export const ATTACHMENT_TYPES: Record<string, string[]> = {
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/gif": [".gif"],
+  "image/webp": [".webp"],
+  "application/pdf": [".pdf"],
+};
+
+// The types a thumbnail can be uploaded as
+export const THUMBNAIL_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+/**
+ * Checks whether a MIME type is an image type that gets a thumbnail
+ */
+export function isImageType(mimeType: string) {
+  return mimeType.startsWith("image/");
+}
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+// Registration validation schema
+export const registerSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Name must be at least 2 characters long")
+    .max(50, "Name cannot exceed 50 characters"),
+  email: z.string().email("Invalid email address"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters long")
+    .max(100, "Password is too long"),
+});
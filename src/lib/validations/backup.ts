@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { BackupCategoryConflict, RecurrenceFrequency } from "@/types";
+import { taskCreateSchema } from "@/lib/validations/task";
+import { categoryCreateSchema } from "@/lib/validations/category";
+import { isValidTimeZone } from "@/lib/utils/time-zones";
+
+// Identifies backup files, and the archive layout they use
+export const BACKUP_FORMAT = "task-manager-backup";
+export const BACKUP_VERSION = 1;
+
+// Most categories and tasks a backup may hold
+export const MAX_BACKUP_CATEGORIES = 1000;
+export const MAX_BACKUP_TASKS = 10000;
+
+// Largest backup file that can be restored, in bytes
+export const MAX_BACKUP_SIZE = 20 * 1024 * 1024;
+
+const dateSchema = z
+  .string()
+  .datetime({ offset: true, message: "Invalid date" });
+
+// Ids must be unique within an archive since they link its records
+const hasUniqueIds = (records: { id: string }[]) =>
+  new Set(records.map((record) => record.id)).size === records.length;
+
+// Recurrence rule as stored on a task, including its place in the series
+const backupRecurrenceSchema = z.object({
+  frequency: z.nativeEnum(RecurrenceFrequency),
+  interval: z.number().int().min(1).max(365).default(1),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  monthDay: z.number().int().min(1).max(31).nullable().optional(),
+  count: z.number().int().min(1).max(1000).nullable().optional(),
+  until: dateSchema.nullable().optional(),
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Invalid time zone" })
+    .optional(),
+  occurrence: z.number().int().min(1).default(1),
+});
+
+const backupTaskSchema = taskCreateSchema
+  .omit({ dueDate: true, categoryId: true, recurrence: true })
+  .extend({
+    id: z.string().min(1),
+    dueDate: dateSchema.nullable().optional(),
+    categoryId: z.string().nullable().optional(),
+    parentTaskId: z.string().nullable().optional(),
+    position: z.number().default(0),
+    recurrence: backupRecurrenceSchema.nullable().optional(),
+    assigneeIds: z.array(z.string()).default([]),
+    blockedBy: z.array(z.string()).default([]),
+    startedAt: dateSchema.nullable().optional(),
+    completedAt: dateSchema.nullable().optional(),
+    nextOccurrenceId: z.string().nullable().optional(),
+    createdAt: dateSchema.optional(),
+  });
+
+// Backup archive validation schema
+export const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, {
+    errorMap: () => ({ message: "This file is not a backup" }),
+  }),
+  version: z.literal(BACKUP_VERSION, {
+    errorMap: () => ({ message: "This backup version is not supported" }),
+  }),
+  exportedAt: dateSchema,
+  profile: z.object({
+    name: z
+      .string()
+      .min(2, "Name must be at least 2 characters long")
+      .max(50, "Name cannot exceed 50 characters"),
+    email: z.string(),
+    image: z.string().nullable().optional(),
+  }),
+  workspace: z.object({
+    name: z.string(),
+  }),
+  categories: z
+    .array(
+      categoryCreateSchema.extend({
+        id: z.string().min(1),
+        createdAt: dateSchema.optional(),
+      })
+    )
+    .max(
+      MAX_BACKUP_CATEGORIES,
+      `A backup cannot hold more than ${MAX_BACKUP_CATEGORIES} categories`
+    )
+    .refine(hasUniqueIds, { message: "Category ids must be unique" }),
+  tasks: z
+    .array(backupTaskSchema)
+    .max(
+      MAX_BACKUP_TASKS,
+      `A backup cannot hold more than ${MAX_BACKUP_TASKS} tasks`
+    )
+    .refine(hasUniqueIds, { message: "Task ids must be unique" }),
+});
+
+// Restore options validation schema
+export const backupRestoreOptionsSchema = z.object({
+  categoryConflict: z
+    .nativeEnum(BackupCategoryConflict)
+    .default(BackupCategoryConflict.MERGE),
+  restoreProfile: z.boolean().default(false),
+});
+
+// Restore request validation schema; the archive is validated on restore
+export const backupRestoreRequestSchema = z.object({
+  archive: z.unknown(),
+  options: backupRestoreOptionsSchema,
+});
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { TaskStatus } from "@/types";
+import { isValidTimeZone } from "@/lib/utils/time-zones";
+
+// A calendar feed token: `cal_<id>_<secret>`
+export const CALENDAR_FEED_TOKEN_PATTERN = /^(cal_[a-f\d]{12})_([\w-]{43})$/;
+
+// Ways a feed can present tasks: as all-day events or as to-dos
+export const CALENDAR_FEED_TYPES = ["event", "todo"] as const;
+
+// Split a comma-separated query parameter into its non-empty values
+const toList = (value?: string) =>
+  value
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : [];
+
+// Calendar feed validation schema
+export const calendarFeedCreateSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, {
+    message: "Invalid time zone",
+  }),
+});
+
+// Feed query validation schema. Statuses and category ids are given as
+// comma-separated lists, e.g. `?status=TODO,IN_PROGRESS`.
+export const calendarFeedQuerySchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform(toList)
+    .pipe(z.array(z.nativeEnum(TaskStatus))),
+  categoryId: z
+    .string()
+    .optional()
+    .transform(toList)
+    .pipe(z.array(z.string().regex(/^[a-f\d]{24}$/i, "Invalid category id"))),
+  type: z.enum(CALENDAR_FEED_TYPES).default("event"),
+});
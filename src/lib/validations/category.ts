@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+// Category validation schema
+export const categoryCreateSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Category name must be at least 2 characters long")
+    .max(30, "Category name cannot exceed 30 characters")
+    .trim(),
+});
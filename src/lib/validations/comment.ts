@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+// Longest comment, in characters
+export const MAX_COMMENT_LENGTH = 5000;
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(
+    MAX_COMMENT_LENGTH,
+    `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`
+  );
+
+// Comment validation schemas
+export const commentCreateSchema = z.object({
+  body: commentBodySchema,
+  parentId: z
+    .string()
+    .regex(/^[a-f\d]{24}$/i, "Invalid comment id")
+    .nullable()
+    .optional(),
+});
+
+export const commentUpdateSchema = z.object({
+  body: commentBodySchema,
+});
@@ -0,0 +1,187 @@
+import { z } from "zod";
+import { RecurrenceFrequency, TaskPriority, TaskStatus } from "@/types";
+import { isValidTimeZone } from "@/lib/utils/time-zones";
+
+// Recurrence rule validation schema
+export const recurrenceSchema = z
+  .object({
+    frequency: z.nativeEnum(RecurrenceFrequency),
+    interval: z
+      .number()
+      .int()
+      .min(1, "Interval must be at least 1")
+      .max(365, "Interval cannot exceed 365")
+      .default(1),
+    weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+    monthDay: z.number().int().min(1).max(31).nullable().optional(),
+    count: z
+      .number()
+      .int()
+      .min(1, "Occurrence count must be at least 1")
+      .max(1000, "Occurrence count cannot exceed 1000")
+      .nullable()
+      .optional(),
+    until: z.string().nullable().optional(),
+    timeZone: z
+      .string()
+      .refine(isValidTimeZone, { message: "Invalid time zone" })
+      .optional(),
+  })
+  .refine((rule) => !(rule.count && rule.until), {
+    message: "A recurrence can end after a count or on a date, not both",
+    path: ["until"],
+  });
+
+const DEFAULT_MAX_DESCRIPTION_LENGTH = 10000;
+
+// NEXT_PUBLIC_TASK_DESCRIPTION_MAX_LENGTH is inlined at build time, so the
+// form in the browser and the server enforce the same limit
+function getMaxDescriptionLength() {
+  const length = Number(process.env.NEXT_PUBLIC_TASK_DESCRIPTION_MAX_LENGTH);
+  return Number.isInteger(length) && length > 0
+    ? length
+    : DEFAULT_MAX_DESCRIPTION_LENGTH;
+}
+
+// Longest task description, in characters of Markdown
+export const MAX_DESCRIPTION_LENGTH = getMaxDescriptionLength();
+
+// Longest estimate, in minutes (a thousand hours)
+export const MAX_ESTIMATE_MINUTES = 60000;
+
+const estimateMinutesSchema = z
+  .number()
+  .int("Estimate must be a whole number of minutes")
+  .min(1, "Estimate must be at least a minute")
+  .max(MAX_ESTIMATE_MINUTES, "Estimate cannot exceed 1000 hours");
+
+// Task validation schemas
+export const taskCreateSchema = z.object({
+  title: z
+    .string()
+    .min(3, "Title must be at least 3 characters long")
+    .max(100, "Title cannot exceed 100 characters"),
+  description: z
+    .string()
+    .max(
+      MAX_DESCRIPTION_LENGTH,
+      `Description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`
+    )
+    .optional(),
+  status: z.nativeEnum(TaskStatus).default(TaskStatus.TODO),
+  priority: z.nativeEnum(TaskPriority).default(TaskPriority.MEDIUM),
+  dueDate: z.string().nullable().optional(),
+  categoryId: z.string().nullable().optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+  estimateMinutes: estimateMinutesSchema.nullable().optional(),
+});
+
+export const taskUpdateSchema = z.object({
+  title: z
+    .string()
+    .min(3, "Title must be at least 3 characters long")
+    .max(100, "Title cannot exceed 100 characters")
+    .optional(),
+  description: z
+    .string()
+    .max(
+      MAX_DESCRIPTION_LENGTH,
+      `Description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`
+    )
+    .nullable()
+    .optional(),
+  status: z.nativeEnum(TaskStatus).optional(),
+  priority: z.nativeEnum(TaskPriority).optional(),
+  dueDate: z.string().nullable().optional(),
+  categoryId: z.string().nullable().optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+  estimateMinutes: estimateMinutesSchema.nullable().optional(),
+  completeSubtasks: z.boolean().optional(),
+});
+
+// Bulk change validation schema
+export const bulkTaskChangesSchema = z
+  .object({
+    status: z.nativeEnum(TaskStatus).optional(),
+    priority: z.nativeEnum(TaskPriority).optional(),
+    categoryId: z.string().nullable().optional(),
+    dueDate: z.string().nullable().optional(),
+    shiftDueDateDays: z
+      .number()
+      .int()
+      .min(-365, "Due dates cannot be shifted by more than a year")
+      .max(365, "Due dates cannot be shifted by more than a year")
+      .optional(),
+  })
+  .refine(
+    (changes) => Object.values(changes).some((value) => value !== undefined),
+    {
+      message: "No changes to apply",
+    }
+  )
+  .refine(
+    (changes) =>
+      changes.dueDate === undefined || changes.shiftDueDateDays === undefined,
+    {
+      message: "A due date can be set or shifted, not both",
+      path: ["shiftDueDateDays"],
+    }
+  );
+
+// Most rows a single import may contain
+export const MAX_IMPORT_ROWS = 1000;
+
+// Imported rows validation schema. Only the shape is checked here; each row's
+// values are interpreted and validated against taskCreateSchema on import.
+export const taskImportSchema = z
+  .array(
+    z.object({
+      title: z.string().optional(),
+      description: z.string().optional(),
+      status: z.string().optional(),
+      priority: z.string().optional(),
+      dueDate: z.string().optional(),
+      category: z.string().optional(),
+    })
+  )
+  .min(1, "The file has no rows to import")
+  .max(
+    MAX_IMPORT_ROWS,
+    `Cannot import more than ${MAX_IMPORT_ROWS} tasks at once`
+  );
+
+// Fields the task list can be sorted by
+export const TASK_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "dueDate",
+  "priority",
+  "status",
+  "title",
+  "position",
+] as const;
+
+// Task list query validation schema (filters, sorting and pagination)
+export const taskListQuerySchema = z.object({
+  status: z.nativeEnum(TaskStatus).optional(),
+  priority: z.nativeEnum(TaskPriority).optional(),
+  categoryId: z
+    .string()
+    .regex(/^[a-f\d]{24}$/i, "Invalid category id")
+    .optional(),
+  // A user id, "me" for the current user or "unassigned"
+  assignee: z
+    .string()
+    .regex(/^([a-fA-F\d]{24}|me|unassigned)$/, "Invalid assignee")
+    .optional(),
+  search: z.string().max(100, "Search cannot exceed 100 characters").optional(),
+  page: z.coerce.number().int().min(1, "Page must be at least 1").default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, "Limit must be at least 1")
+    .max(100, "Limit cannot exceed 100")
+    .default(10),
+  sortBy: z.enum(TASK_SORT_FIELDS).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+});
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// Longest note of a time entry, in characters
+export const MAX_TIME_ENTRY_NOTE_LENGTH = 500;
+
+// Longest entry that can be logged by hand, in minutes
+export const MAX_TIME_ENTRY_MINUTES = 24 * 60;
+
+const noteSchema = z
+  .string()
+  .trim()
+  .max(
+    MAX_TIME_ENTRY_NOTE_LENGTH,
+    `Note cannot exceed ${MAX_TIME_ENTRY_NOTE_LENGTH} characters`
+  );
+
+const instantSchema = z.string().datetime({
+  offset: true,
+  message: "Invalid date and time",
+});
+
+// Time entry validation schemas. Whether the end comes after the start is
+// checked once an update is merged with the stored entry.
+export const timeEntryCreateSchema = z.object({
+  startedAt: instantSchema,
+  endedAt: instantSchema,
+  note: noteSchema.optional(),
+});
+
+export const timeEntryUpdateSchema = z.object({
+  startedAt: instantSchema.optional(),
+  endedAt: instantSchema.optional(),
+  note: noteSchema.optional(),
+});
+
+// Timesheet validation schema. Weeks start on Monday.
+export const timesheetQuerySchema = z.object({
+  weekStart: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid week")
+    .refine(
+      (date) => new Date(`${date}T00:00:00Z`).getUTCDay() === 1,
+      "A week must start on a Monday"
+    ),
+  timeZone: z.string().default("UTC"),
+  // The current user's time, or that of every member
+  scope: z.enum(["mine", "all"]).default("mine"),
+});
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { WebhookEvent } from "@/types";
+
+// Events a webhook can subscribe to
+export const WEBHOOK_EVENTS: WebhookEvent[] = Object.values(
+  WebhookEvent
+).filter((event) => event !== WebhookEvent.PING);
+
+// Webhook validation schema
+export const webhookCreateSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url("Please enter a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), {
+      message: "The URL must start with http:// or https://",
+    }),
+  events: z
+    .array(
+      z
+        .nativeEnum(WebhookEvent)
+        .refine((event) => WEBHOOK_EVENTS.includes(event), {
+          message: "Invalid event",
+        })
+    )
+    .min(1, "Select at least one event"),
+});
+
+export const webhookUpdateSchema = webhookCreateSchema
+  .extend({ active: z.boolean() })
+  .partial();
@@ -0,0 +1,97 @@
+import dns from "dns";
+import net from "net";
+
+// Networks webhooks are not delivered to: loopback, private, link-local
+// (including cloud metadata endpoints such as 169.254.169.254), shared,
+// multicast and reserved ranges. IPv4-mapped IPv6 addresses match too.
+const PRIVATE_NETWORKS = new net.BlockList();
+PRIVATE_NETWORKS.addSubnet("0.0.0.0", 8, "ipv4");
+PRIVATE_NETWORKS.addSubnet("10.0.0.0", 8, "ipv4");
+PRIVATE_NETWORKS.addSubnet("100.64.0.0", 10, "ipv4");
+PRIVATE_NETWORKS.addSubnet("127.0.0.0", 8, "ipv4");
+PRIVATE_NETWORKS.addSubnet("169.254.0.0", 16, "ipv4");
+PRIVATE_NETWORKS.addSubnet("172.16.0.0", 12, "ipv4");
+PRIVATE_NETWORKS.addSubnet("192.0.0.0", 24, "ipv4");
+PRIVATE_NETWORKS.addSubnet("192.168.0.0", 16, "ipv4");
+PRIVATE_NETWORKS.addSubnet("198.18.0.0", 15, "ipv4");
+PRIVATE_NETWORKS.addSubnet("224.0.0.0", 3, "ipv4");
+PRIVATE_NETWORKS.addAddress("::", "ipv6");
+PRIVATE_NETWORKS.addAddress("::1", "ipv6");
+PRIVATE_NETWORKS.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_NETWORKS.addSubnet("fe80::", 10, "ipv6");
+PRIVATE_NETWORKS.addSubnet("ff00::", 8, "ipv6");
+
+const PRIVATE_TARGET_ERROR =
+  "Webhook URLs cannot point to private or local network addresses";
+
+// Private targets can be allowed for testing against a local server
+function allowsPrivateTargets() {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+}
+
+function isPrivateAddress(address: string) {
+  return PRIVATE_NETWORKS.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+/**
+ * Checks that a webhook URL points to a public address, resolving its host
+ *
+ * @throws Error when the host is, or resolves to, a private address or
+ * cannot be resolved
+ */
+export async function assertPublicWebhookUrl(url: string) {
+  if (allowsPrivateTargets()) return;
+
+  // IPv6 hosts are written in brackets
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+
+  let addresses: string[];
+
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      const records = await dns.promises.lookup(host, { all: true });
+      addresses = records.map((record) => record.address);
+    } catch {
+      throw new Error(`Cannot resolve the webhook host ${host}`);
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(PRIVATE_TARGET_ERROR);
+  }
+}
+
+/**
+ * A `lookup` for outgoing requests that refuses to connect to private
+ * addresses. Checking the address actually connected to means a host cannot
+ * pass `assertPublicWebhookUrl` and then resolve to a private address.
+ */
+export function lookupPublicAddress(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | dns.LookupAddress[],
+    family?: number
+  ) => void
+) {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error || allowsPrivateTargets()) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address)
+      ? address.map((record) => record.address)
+      : [address];
+
+    if (addresses.some(isPrivateAddress)) {
+      callback(new Error(PRIVATE_TARGET_ERROR), address, family);
+      return;
+    }
+
+    callback(null, address, family);
+  });
+}
@@ -0,0 +1,371 @@
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import mongoose from "mongoose";
+import type { ActivityEntry } from "@/lib/activity";
+import {
+  assertPublicWebhookUrl,
+  lookupPublicAddress,
+} from "@/lib/webhook-targets";
+import Webhook from "@/models/webhook.model";
+import WebhookDelivery from "@/models/webhook-delivery.model";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  TaskStatus,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "@/types";
+
+// Marks a string as a webhook signing secret, e.g. for secret scanners
+const SECRET_PREFIX = "whsec_";
+
+// A delivery is given up after this many failed attempts
+const MAX_ATTEMPTS = 6;
+
+// Delay before the first retry, doubled for every further one
+// (30 seconds, 1, 2, 4 and 8 minutes)
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// How long a claimed attempt may take before another one can be made,
+// e.g. because the server stopped in the middle of it
+const ATTEMPT_LEASE_MS = 60 * 1000;
+
+// Most due retries picked up by a single sweep
+const SWEEP_BATCH_SIZE = 20;
+
+// The webhook event each kind of activity log entry is delivered as
+const ACTIVITY_EVENTS: Record<
+  ActivityEntityType,
+  Partial<Record<ActivityAction, WebhookEvent>>
+> = {
+  [ActivityEntityType.TASK]: {
+    [ActivityAction.CREATED]: WebhookEvent.TASK_CREATED,
+    [ActivityAction.UPDATED]: WebhookEvent.TASK_UPDATED,
+    [ActivityAction.DELETED]: WebhookEvent.TASK_DELETED,
+  },
+  [ActivityEntityType.CATEGORY]: {
+    [ActivityAction.CREATED]: WebhookEvent.CATEGORY_CREATED,
+    [ActivityAction.UPDATED]: WebhookEvent.CATEGORY_UPDATED,
+    [ActivityAction.DELETED]: WebhookEvent.CATEGORY_DELETED,
+  },
+};
+
+type WebhookDocument = InstanceType<typeof Webhook>;
+type WebhookDeliveryDocument = InstanceType<typeof WebhookDelivery>;
+
+/**
+ * Generates a new secret for signing the payloads of a webhook
+ */
+export function generateWebhookSecret() {
+  return `${SECRET_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Computes the `X-Webhook-Signature` of a payload: the hex HMAC-SHA256 of
+ * `<timestamp>.<body>` keyed with the webhook secret, where the timestamp is
+ * the `X-Webhook-Timestamp` header in seconds
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+// The events an activity log entry is delivered as. Completing a task is
+// delivered both as an update and as a completion.
+function getEntryEvents(entry: ActivityEntry): WebhookEvent[] {
+  const event = ACTIVITY_EVENTS[entry.entityType][entry.action];
+  if (!event) return [];
+
+  const isCompletion =
+    event === WebhookEvent.TASK_UPDATED &&
+    (entry.changes || []).some(
+      (change) =>
+        change.field === "status" && change.to === TaskStatus.COMPLETED
+    );
+
+  return isCompletion ? [event, WebhookEvent.TASK_COMPLETED] : [event];
+}
+
+// The changed entity as described in an event payload
+function getEntryData(entry: ActivityEntry) {
+  const id = entry.entityId.toString();
+  const changes = entry.changes || [];
+
+  return entry.entityType === ActivityEntityType.TASK
+    ? { task: { id, title: entry.entityName, changes } }
+    : { category: { id, name: entry.entityName, changes } };
+}
+
+// Build a pending delivery of an event to a webhook, with its JSON body
+function buildDelivery(
+  webhook: WebhookDocument,
+  event: WebhookEvent,
+  actorId: string,
+  data: Record<string, unknown>
+) {
+  const deliveryId = new mongoose.Types.ObjectId();
+
+  return {
+    _id: deliveryId,
+    webhookId: webhook._id,
+    event,
+    payload: JSON.stringify({
+      id: deliveryId.toString(),
+      event,
+      createdAt: new Date().toISOString(),
+      workspaceId: webhook.workspaceId.toString(),
+      actorId,
+      data,
+    }),
+    status: WebhookDeliveryStatus.PENDING,
+    nextAttemptAt: new Date(),
+  };
+}
+
+// POST a body without following redirects, connecting only to public
+// addresses, and resolve to the response status
+function postPayload(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  const target = new URL(url);
+  const client = target.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: lookupPublicAddress,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (response) => {
+        // Only the status matters, the body is discarded
+        response.resume();
+        resolve(response.statusCode || 0);
+      }
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+// POST a delivery's payload to its webhook and describe the outcome
+async function sendPayload(
+  webhook: WebhookDocument,
+  delivery: WebhookDeliveryDocument
+): Promise<WebhookDeliveryAttempt> {
+  const attemptedAt = new Date();
+  const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+  const getDuration = () => Date.now() - attemptedAt.getTime();
+
+  try {
+    // Webhooks created before targets were checked, or whose host has
+    // since moved, are refused here as well
+    await assertPublicWebhookUrl(webhook.url);
+
+    const status = await postPayload(
+      webhook.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "TaskManager-Webhooks/1.0",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery._id.toString(),
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          delivery.payload
+        )}`,
+      },
+      delivery.payload
+    );
+    const ok = status >= 200 && status < 300;
+
+    return {
+      attemptedAt,
+      responseStatus: status,
+      error: ok ? null : `Endpoint answered with ${status}`,
+      durationMs: getDuration(),
+    };
+  } catch (error) {
+    return {
+      attemptedAt,
+      responseStatus: null,
+      error: error instanceof Error ? error.message : "Unreachable",
+      durationMs: getDuration(),
+    };
+  }
+}
+
+/**
+ * Makes one attempt at a pending delivery whose attempt is due, and schedules
+ * a retry with exponential backoff when it fails. Deliveries of a webhook
+ * that has since been disabled are given up.
+ * Failures are logged instead of thrown, since nobody awaits a retry.
+ */
+export async function attemptDelivery(deliveryId: string) {
+  try {
+    const now = new Date();
+
+    // Claim the attempt so concurrent sweeps do not send it twice
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      {
+        _id: deliveryId,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { $lte: now },
+      },
+      { $set: { nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS) } },
+      { new: true }
+    ).exec();
+
+    if (!delivery) return;
+
+    const webhook = await Webhook.findById(delivery.webhookId).exec();
+
+    if (!webhook || (!webhook.active && delivery.event !== WebhookEvent.PING)) {
+      await WebhookDelivery.updateOne(
+        { _id: delivery._id },
+        {
+          $set: { status: WebhookDeliveryStatus.FAILED, nextAttemptAt: null },
+        }
+      ).exec();
+      return;
+    }
+
+    const attempt = await sendPayload(webhook, delivery);
+    const attemptCount = delivery.attempts.length + 1;
+    const succeeded = attempt.error === null;
+    const retryDelay =
+      !succeeded && attemptCount < MAX_ATTEMPTS
+        ? RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1)
+        : null;
+
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $push: { attempts: attempt },
+        $set: {
+          status: succeeded
+            ? WebhookDeliveryStatus.SUCCEEDED
+            : retryDelay
+            ? WebhookDeliveryStatus.PENDING
+            : WebhookDeliveryStatus.FAILED,
+          nextAttemptAt: retryDelay ? new Date(Date.now() + retryDelay) : null,
+        },
+      }
+    ).exec();
+
+    // Retried by this process if it still runs by then, otherwise by a sweep
+    if (retryDelay) {
+      setTimeout(() => attemptDelivery(deliveryId), retryDelay);
+    }
+  } catch (error) {
+    console.error("Error delivering webhook:", error);
+  }
+}
+
+/**
+ * Attempts the pending deliveries whose retry is due. Retries are scheduled
+ * by the process that made the failed attempt; this sweep picks up those that
+ * were lost, e.g. to a restart, whenever events are dispatched or a delivery
+ * log is read.
+ */
+export async function processDueDeliveries() {
+  try {
+    const dueDeliveries = await WebhookDelivery.find({
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: { $lte: new Date() },
+    })
+      .sort({ nextAttemptAt: 1 })
+      .limit(SWEEP_BATCH_SIZE)
+      .select("_id")
+      .exec();
+
+    await Promise.all(
+      dueDeliveries.map((delivery) => attemptDelivery(delivery._id.toString()))
+    );
+  } catch (error) {
+    console.error("Error processing webhook deliveries:", error);
+  }
+}
+
+/**
+ * Delivers the events described by activity log entries to the active
+ * webhooks of their workspace that subscribe to them. Deliveries are stored
+ * and sent in the background, so the change that caused them never waits for
+ * an endpoint. Failures are logged instead of thrown.
+ */
+export async function dispatchWebhookEvents(entries: ActivityEntry[]) {
+  try {
+    const events = entries.flatMap((entry) =>
+      getEntryEvents(entry).map((event) => ({ entry, event }))
+    );
+
+    if (events.length > 0) {
+      const webhooks: WebhookDocument[] = await Webhook.find({
+        workspaceId: {
+          $in: Array.from(
+            new Set(events.map(({ entry }) => entry.workspaceId))
+          ),
+        },
+        active: true,
+        events: { $in: events.map(({ event }) => event) },
+      }).exec();
+
+      const deliveries = events.flatMap(({ entry, event }) =>
+        webhooks
+          .filter(
+            (webhook) =>
+              webhook.workspaceId.toString() === entry.workspaceId &&
+              webhook.events.includes(event)
+          )
+          .map((webhook) =>
+            buildDelivery(webhook, event, entry.userId, getEntryData(entry))
+          )
+      );
+
+      if (deliveries.length > 0) {
+        await WebhookDelivery.insertMany(deliveries);
+
+        deliveries.forEach((delivery) =>
+          attemptDelivery(delivery._id.toString())
+        );
+      }
+    }
+
+    processDueDeliveries();
+  } catch (error) {
+    console.error("Error dispatching webhook events:", error);
+  }
+}
+
+/**
+ * Sends a `ping` event to a webhook to test its endpoint, whatever events it
+ * subscribes to. Failed pings are retried like any other delivery.
+ *
+ * @returns The delivery after its first attempt
+ */
+export async function pingWebhook(webhook: WebhookDocument, actorId: string) {
+  const delivery = buildDelivery(webhook, WebhookEvent.PING, actorId, {
+    webhook: { id: webhook._id.toString(), url: webhook.url },
+  });
+
+  await WebhookDelivery.create(delivery);
+  await attemptDelivery(delivery._id.toString());
+
+  return WebhookDelivery.findById(delivery._id).exec();
+}
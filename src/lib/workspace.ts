@@ -0,0 +1,143 @@
+import { cookies, headers } from "next/headers";
+import { getSession } from "@/lib/get-session";
+import dbConnect from "@/lib/db/connect";
+import Workspace from "@/models/workspace.model";
+import Task from "@/models/task.model";
+import Category from "@/models/category.model";
+import { AccessTokenScope, WorkspaceRole } from "@/types";
+
+// Cookie holding the workspace the user is currently working in
+export const WORKSPACE_COOKIE = "workspaceId";
+
+// Header selecting the workspace for requests made with an access token
+export const WORKSPACE_HEADER = "x-workspace-id";
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  [WorkspaceRole.VIEWER]: 0,
+  [WorkspaceRole.EDITOR]: 1,
+  [WorkspaceRole.OWNER]: 2,
+};
+
+type WorkspaceDocument = InstanceType<typeof Workspace>;
+
+/**
+ * Returns the role a user holds in a workspace, or null if they are not a member
+ */
+export function getMemberRole(
+  workspace: WorkspaceDocument,
+  userId: string
+): WorkspaceRole | null {
+  const member = workspace.members.find(
+    (member: { userId: { toString(): string } }) =>
+      member.userId.toString() === userId
+  );
+
+  return member ? member.role : null;
+}
+
+/**
+ * Checks whether a role satisfies the minimum role required for an operation
+ */
+export function hasRole(role: WorkspaceRole | null, minRole: WorkspaceRole) {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+/**
+ * Finds or creates the personal workspace of a user.
+ * Tasks and categories created before workspaces existed are moved into it.
+ */
+export async function ensurePersonalWorkspace(userId: string) {
+  const personal = { ownerId: userId, isPersonal: true };
+  const existing = await Workspace.findOne(personal).exec();
+
+  if (existing) return existing;
+
+  let workspace: WorkspaceDocument;
+
+  try {
+    workspace = await Workspace.create({
+      ...personal,
+      name: "Personal",
+      members: [{ userId, role: WorkspaceRole.OWNER }],
+    });
+  } catch (error) {
+    // Another request created it in the meantime, and adopts the legacy data
+    if ((error as { code?: number }).code === 11000) {
+      const created = await Workspace.findOne(personal).exec();
+      if (created) return created;
+    }
+    throw error;
+  }
+
+  // Adopt legacy data that predates workspaces
+  await Task.updateMany(
+    { userId, workspaceId: { $exists: false } },
+    { $set: { workspaceId: workspace._id } }
+  ).exec();
+  await Category.updateMany(
+    { userId, workspaceId: { $exists: false } },
+    { $set: { workspaceId: workspace._id } }
+  ).exec();
+
+  return workspace;
+}
+
+/**
+ * Resolves the current user's active workspace and verifies their role in it.
+ * Falls back to the personal workspace when no valid workspace is selected.
+ * Requests made with a personal access token select the workspace with the
+ * `X-Workspace-Id` header, and read-only tokens are limited to viewer access.
+ *
+ * @param minRole The minimum role required for the operation
+ * @returns The session, active workspace and the user's role in it
+ */
+export async function getWorkspaceContext(
+  minRole: WorkspaceRole = WorkspaceRole.VIEWER
+) {
+  const session = await getSession();
+
+  if (!session?.user) {
+    throw new Error("Unauthorized");
+  }
+
+  await dbConnect();
+
+  const userId = session.user.id;
+  const selectedId = session.tokenScope
+    ? (await headers()).get(WORKSPACE_HEADER)
+    : (await cookies()).get(WORKSPACE_COOKIE)?.value;
+
+  let workspace: WorkspaceDocument | null = null;
+
+  if (selectedId && /^[a-f\d]{24}$/i.test(selectedId)) {
+    workspace = await Workspace.findOne({
+      _id: selectedId,
+      "members.userId": userId,
+    }).exec();
+  }
+
+  if (!workspace) {
+    workspace = await ensurePersonalWorkspace(userId);
+  }
+
+  const role = getMemberRole(workspace, userId);
+
+  if (!hasRole(role, minRole)) {
+    throw new Error("Access denied");
+  }
+
+  if (
+    session.tokenScope === AccessTokenScope.READ &&
+    minRole !== WorkspaceRole.VIEWER
+  ) {
+    throw new Error("Access denied: this access token is read-only");
+  }
+
+  return {
+    session,
+    userId,
+    workspace,
+    workspaceId: workspace._id.toString() as string,
+    role: role as WorkspaceRole,
+  };
+}
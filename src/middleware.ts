@@ -1,6 +1,13 @@
 import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
+import { CALENDAR_FEED_TOKEN_PATTERN } from "@/lib/validations/calendar-feed";
+
+// Calendar feeds live at /api/calendar/<token>
+const CALENDAR_FEED_PATH = "/api/calendar/";
+
+// Scheduled jobs, which authenticate with CRON_SECRET instead of a session
+const CRON_PATH = "/api/cron/";
 
 export async function middleware(request: NextRequest) {
   const path = request.nextUrl.pathname;
@@ -16,6 +23,46 @@ export async function middleware(request: NextRequest) {
     path.includes(".");
 
   try {
+    // Calendar apps fetch feeds without a session. The secret token in the
+    // URL is their only credential and is verified by the route handler;
+    // anything under the path that is not shaped like a token is rejected.
+    if (path.startsWith(CALENDAR_FEED_PATH)) {
+      const token = path.slice(CALENDAR_FEED_PATH.length);
+
+      if (!CALENDAR_FEED_TOKEN_PATTERN.test(token)) {
+        return new NextResponse("Not found", { status: 404 });
+      }
+
+      return NextResponse.next();
+    }
+
+    // The route handlers verify the cron secret themselves
+    if (path.startsWith(CRON_PATH)) {
+      return NextResponse.next();
+    }
+
+    // The REST API answers unauthenticated requests with a 401 instead of a
+    // redirect. Bearer tokens are verified by getSession in the route handlers.
+    // Its OpenAPI document is public so clients can be generated from it.
+    if (path.startsWith("/api/v1/") && path !== "/api/v1/openapi.json") {
+      const hasBearerToken = request.headers
+        .get("authorization")
+        ?.startsWith("Bearer ");
+
+      if (!hasBearerToken) {
+        const token = await getToken({
+          req: request,
+          secret: process.env.NEXTAUTH_SECRET,
+        });
+
+        if (!token) {
+          return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+      }
+
+      return NextResponse.next();
+    }
+
     // Only check auth for protected paths
     if (!isPublicPath) {
       const token = await getToken({
@@ -45,6 +92,10 @@ export async function middleware(request: NextRequest) {
 
     // In case of errors, allow access to public paths
     // and redirect to login for protected paths
+    if (path.startsWith("/api/v1/")) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     if (!isPublicPath) {
       return NextResponse.redirect(new URL("/login", request.url));
     }
@@ -0,0 +1,52 @@
+import mongoose, { Schema, models } from "mongoose";
+import { AccessTokenScope } from "@/types";
+
+const accessTokenSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "Token name is required"],
+      trim: true,
+      maxLength: [50, "Token name cannot exceed 50 characters"],
+    },
+    scope: {
+      type: String,
+      enum: Object.values(AccessTokenScope),
+      default: AccessTokenScope.READ,
+      required: true,
+    },
+    // Public part of the token used to look it up
+    prefix: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Only a bcrypt hash of the secret part of the token is stored
+    secretHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+accessTokenSchema.index({ userId: 1, createdAt: -1 });
+
+// Prevent model recreation during development hot reloads
+const AccessToken =
+  models.AccessToken || mongoose.model("AccessToken", accessTokenSchema);
+
+export default AccessToken;
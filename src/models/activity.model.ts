@@ -0,0 +1,69 @@
+import mongoose, { Schema, models } from "mongoose";
+import { ActivityAction, ActivityEntityType } from "@/types";
+
+// Old and new value of a changed field
+const changeSchema = new Schema(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    from: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    to: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const activitySchema = new Schema(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    // User who made the change
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    entityType: {
+      type: String,
+      enum: Object.values(ActivityEntityType),
+      required: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    // Kept so entries stay readable after the entity is renamed or deleted
+    entityName: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(ActivityAction),
+      required: true,
+    },
+    changes: {
+      type: [changeSchema],
+      default: [],
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+activitySchema.index({ workspaceId: 1, createdAt: -1 });
+activitySchema.index({ entityId: 1, createdAt: -1 });
+
+// Prevent model recreation during development hot reloads
+const Activity = models.Activity || mongoose.model("Activity", activitySchema);
+
+export default Activity;
@@ -0,0 +1,59 @@
+import mongoose, { Schema, models } from "mongoose";
+import { MAX_ATTACHMENT_NAME_LENGTH } from "@/lib/validations/attachment";
+
+const attachmentSchema = new Schema(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: [true, "Task ID is required"],
+    },
+    // User who uploaded the file
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "File name is required"],
+      trim: true,
+      maxLength: [
+        MAX_ATTACHMENT_NAME_LENGTH,
+        `File name cannot exceed ${MAX_ATTACHMENT_NAME_LENGTH} characters`,
+      ],
+    },
+    mimeType: {
+      type: String,
+      required: [true, "File type is required"],
+    },
+    size: {
+      type: Number,
+      required: [true, "File size is required"],
+      min: 0,
+    },
+    // Keys of the file and its thumbnail in the storage backend
+    storageKey: {
+      type: String,
+      required: [true, "Storage key is required"],
+    },
+    thumbnailKey: {
+      type: String,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+attachmentSchema.index({ taskId: 1, createdAt: 1 });
+
+// Prevent model recreation during development hot reloads
+const Attachment =
+  models.Attachment || mongoose.model("Attachment", attachmentSchema);
+
+export default Attachment;
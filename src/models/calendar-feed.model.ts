@@ -0,0 +1,45 @@
+import mongoose, { Schema, models } from "mongoose";
+
+const calendarFeedSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    // Public part of the feed token used to look it up
+    prefix: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // Only a bcrypt hash of the secret part of the token is stored
+    secretHash: {
+      type: String,
+      required: true,
+    },
+    timeZone: {
+      type: String,
+      default: "UTC",
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+// A user has at most one feed per workspace
+calendarFeedSchema.index({ userId: 1, workspaceId: 1 }, { unique: true });
+
+// Prevent model recreation during development hot reloads
+const CalendarFeed =
+  models.CalendarFeed || mongoose.model("CalendarFeed", calendarFeedSchema);
+
+export default CalendarFeed;
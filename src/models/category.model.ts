@@ -1,4 +1,5 @@
 import mongoose, { Schema, models } from "mongoose";
+import { softDelete } from "@/lib/db/soft-delete";
 
 const categorySchema = new Schema(
   {
@@ -9,17 +10,26 @@ const categorySchema = new Schema(
       minLength: [2, "Category name must be at least 2 characters long"],
       maxLength: [30, "Category name cannot exceed 30 characters"],
     },
+    // Creator of the category
     userId: {
       type: Schema.Types.ObjectId,
       ref: "User",
       required: [true, "User ID is required"],
     },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
   },
   { timestamps: true }
 );
 
-// Ensure uniqueness of category names per user
-categorySchema.index({ name: 1, userId: 1 }, { unique: true });
+// Deleted categories stay in the trash until restored or purged
+categorySchema.plugin(softDelete);
+
+// Ensure uniqueness of category names per workspace
+categorySchema.index({ name: 1, workspaceId: 1 }, { unique: true });
 
 // Prevent model recreation during development hot reloads
 const Category = models.Category || mongoose.model("Category", categorySchema);
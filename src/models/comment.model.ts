@@ -0,0 +1,55 @@
+import mongoose, { Schema, models } from "mongoose";
+import { MAX_COMMENT_LENGTH } from "@/lib/validations/comment";
+
+const commentSchema = new Schema(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: [true, "Task ID is required"],
+    },
+    // Author of the comment
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    // Top-level comment this one replies to
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: "Comment",
+      default: null,
+    },
+    body: {
+      type: String,
+      required: [true, "Comment cannot be empty"],
+      trim: true,
+      maxLength: [
+        MAX_COMMENT_LENGTH,
+        `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`,
+      ],
+    },
+    // Members mentioned with @ in the body
+    mentions: {
+      type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+commentSchema.index({ taskId: 1, createdAt: 1 });
+
+// Prevent model recreation during development hot reloads
+const Comment = models.Comment || mongoose.model("Comment", commentSchema);
+
+export default Comment;
@@ -0,0 +1,55 @@
+import mongoose, { Schema, models } from "mongoose";
+import { InvitationStatus, WorkspaceRole } from "@/types";
+
+const invitationSchema = new Schema(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    email: {
+      type: String,
+      required: [true, "Email is required"],
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, "Please enter a valid email address"],
+    },
+    role: {
+      type: String,
+      enum: Object.values(WorkspaceRole),
+      default: WorkspaceRole.EDITOR,
+      required: true,
+    },
+    // Only a SHA-256 hash of the invitation token is stored
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(InvitationStatus),
+      default: InvitationStatus.PENDING,
+      required: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Inviter ID is required"],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true }
+);
+
+invitationSchema.index({ workspaceId: 1, status: 1 });
+
+// Prevent model recreation during development hot reloads
+const Invitation =
+  models.Invitation || mongoose.model("Invitation", invitationSchema);
+
+export default Invitation;
@@ -1,5 +1,50 @@
 import mongoose, { Schema, models } from "mongoose";
-import { TaskStatus, TaskPriority } from "@/types";
+import { TaskStatus, TaskPriority, RecurrenceFrequency } from "@/types";
+import { softDelete } from "@/lib/db/soft-delete";
+import { MAX_DESCRIPTION_LENGTH } from "@/lib/validations/task";
+
+// Recurrence rule stored on each occurrence of a recurring task
+const recurrenceSchema = new Schema(
+  {
+    frequency: {
+      type: String,
+      enum: Object.values(RecurrenceFrequency),
+      required: [true, "Recurrence frequency is required"],
+    },
+    interval: {
+      type: Number,
+      min: [1, "Recurrence interval must be at least 1"],
+      default: 1,
+    },
+    weekdays: {
+      type: [Number],
+      default: undefined,
+    },
+    monthDay: {
+      type: Number,
+      min: [1, "Day of month must be between 1 and 31"],
+      max: [31, "Day of month must be between 1 and 31"],
+    },
+    count: {
+      type: Number,
+      min: [1, "Occurrence count must be at least 1"],
+    },
+    until: {
+      type: Date,
+    },
+    // Time zone of the user who set the rule, e.g. "Europe/Berlin"; the
+    // weekdays and days of the month of the series are counted in it
+    timeZone: {
+      type: String,
+    },
+    // 1-based index of this occurrence within the series
+    occurrence: {
+      type: Number,
+      default: 1,
+    },
+  },
+  { _id: false }
+);
 
 const taskSchema = new Schema(
   {
@@ -13,7 +58,10 @@ const taskSchema = new Schema(
     description: {
       type: String,
       trim: true,
-      maxLength: [1000, "Description cannot exceed 1000 characters"],
+      maxLength: [
+        MAX_DESCRIPTION_LENGTH,
+        `Description cannot exceed ${MAX_DESCRIPTION_LENGTH} characters`,
+      ],
     },
     status: {
       type: String,
@@ -34,19 +82,84 @@ const taskSchema = new Schema(
       type: Schema.Types.ObjectId,
       ref: "Category",
     },
+    // Creator of the task
     userId: {
       type: Schema.Types.ObjectId,
       ref: "User",
       required: [true, "User ID is required"],
     },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    // Subtasks reference their parent; top-level tasks have no parent
+    parentTaskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      default: null,
+    },
+    // Manual ordering among siblings (subtasks) or within a board column
+    position: {
+      type: Number,
+      default: 0,
+    },
+    recurrence: {
+      type: recurrenceSchema,
+      default: null,
+    },
+    // Workspace members responsible for the task (distinct from the creator)
+    assigneeIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+    },
+    // Tasks that must be completed before this one can start
+    blockedBy: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+      default: [],
+    },
+    // When the task first entered IN_PROGRESS; cleared when it goes back to TODO
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    // When the task entered COMPLETED; cleared when it is reopened
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    // Expected effort, compared with the time tracked on the task
+    estimateMinutes: {
+      type: Number,
+      min: [1, "Estimate must be at least a minute"],
+      default: null,
+    },
+    // Set once the following occurrence of a recurring task has been created
+    nextOccurrenceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      default: null,
+    },
   },
   { timestamps: true }
 );
 
+// Deleted tasks stay in the trash until restored or purged
+taskSchema.plugin(softDelete);
+
 // Create indexes for frequent queries
 taskSchema.index({ userId: 1, status: 1 });
 taskSchema.index({ userId: 1, categoryId: 1 });
 taskSchema.index({ userId: 1, dueDate: 1 });
+taskSchema.index({ workspaceId: 1, status: 1 });
+taskSchema.index({ workspaceId: 1, categoryId: 1 });
+taskSchema.index({ workspaceId: 1, dueDate: 1 });
+taskSchema.index({ workspaceId: 1, assigneeIds: 1 });
+taskSchema.index({ parentTaskId: 1, position: 1 });
+taskSchema.index({ workspaceId: 1, parentTaskId: 1, status: 1, position: 1 });
+taskSchema.index({ blockedBy: 1 });
+taskSchema.index({ workspaceId: 1, completedAt: 1 });
+taskSchema.index({ workspaceId: 1, deletedAt: 1 });
 
 // Prevent model recreation during development hot reloads
 const Task = models.Task || mongoose.model("Task", taskSchema);
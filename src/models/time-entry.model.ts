@@ -0,0 +1,57 @@
+import mongoose, { Schema, models } from "mongoose";
+import { MAX_TIME_ENTRY_NOTE_LENGTH } from "@/lib/validations/time-entry";
+
+const timeEntrySchema = new Schema(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: [true, "Task ID is required"],
+    },
+    // User whose time the entry records
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    startedAt: {
+      type: Date,
+      required: [true, "Start time is required"],
+    },
+    // null while the timer is running
+    endedAt: {
+      type: Date,
+      default: null,
+    },
+    note: {
+      type: String,
+      trim: true,
+      default: "",
+      maxLength: [
+        MAX_TIME_ENTRY_NOTE_LENGTH,
+        `Note cannot exceed ${MAX_TIME_ENTRY_NOTE_LENGTH} characters`,
+      ],
+    },
+  },
+  { timestamps: true }
+);
+
+// A user can only have one running timer at a time. Running timers store
+// an explicit null, which `$type` matches in a partial index.
+timeEntrySchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { endedAt: { $type: "null" } } }
+);
+timeEntrySchema.index({ taskId: 1, startedAt: -1 });
+timeEntrySchema.index({ workspaceId: 1, startedAt: 1 });
+
+// Prevent model recreation during development hot reloads
+const TimeEntry =
+  models.TimeEntry || mongoose.model("TimeEntry", timeEntrySchema);
+
+export default TimeEntry;
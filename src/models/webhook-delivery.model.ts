@@ -0,0 +1,78 @@
+import mongoose, { Schema, models } from "mongoose";
+import { WebhookDeliveryStatus, WebhookEvent } from "@/types";
+
+// Deliveries are removed from the log after this many days
+const DELIVERY_RETENTION_DAYS = 30;
+
+// One try at sending a delivery
+const attemptSchema = new Schema(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+    responseStatus: {
+      type: Number,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    durationMs: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const webhookDeliverySchema = new Schema(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: "Webhook",
+      required: [true, "Webhook ID is required"],
+    },
+    event: {
+      type: String,
+      enum: Object.values(WebhookEvent),
+      required: true,
+    },
+    // Stored as sent so retries deliver exactly the same signed body
+    payload: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(WebhookDeliveryStatus),
+      default: WebhookDeliveryStatus.PENDING,
+      required: true,
+    },
+    attempts: {
+      type: [attemptSchema],
+      default: [],
+    },
+    // When the next attempt is due, null once the delivery is settled
+    nextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true }
+);
+
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: DELIVERY_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+// Prevent model recreation during development hot reloads
+const WebhookDelivery =
+  models.WebhookDelivery ||
+  mongoose.model("WebhookDelivery", webhookDeliverySchema);
+
+export default WebhookDelivery;
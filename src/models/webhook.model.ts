@@ -0,0 +1,46 @@
+import mongoose, { Schema, models } from "mongoose";
+import { WebhookEvent } from "@/types";
+
+const webhookSchema = new Schema(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: [true, "Workspace ID is required"],
+    },
+    // User who created the webhook
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    url: {
+      type: String,
+      required: [true, "Webhook URL is required"],
+      trim: true,
+    },
+    // Kept in plain text since every payload is signed with it
+    secret: {
+      type: String,
+      required: true,
+    },
+    events: {
+      type: [String],
+      enum: Object.values(WebhookEvent),
+      default: [],
+    },
+    // Inactive webhooks keep their configuration but receive no events
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { timestamps: true }
+);
+
+webhookSchema.index({ workspaceId: 1, createdAt: -1 });
+
+// Prevent model recreation during development hot reloads
+const Webhook = models.Webhook || mongoose.model("Webhook", webhookSchema);
+
+export default Webhook;
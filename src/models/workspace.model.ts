@@ -0,0 +1,84 @@
+import mongoose, { Schema, models } from "mongoose";
+import { TaskStatus, WorkspaceRole } from "@/types";
+
+const memberSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    role: {
+      type: String,
+      enum: Object.values(WorkspaceRole),
+      default: WorkspaceRole.EDITOR,
+      required: true,
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+// Work-in-progress limit per board column
+const wipLimitsSchema = new Schema(
+  Object.fromEntries(
+    Object.values(TaskStatus).map((status) => [
+      status,
+      {
+        type: Number,
+        min: [1, "WIP limit must be at least 1"],
+        default: null,
+      },
+    ])
+  ),
+  { _id: false }
+);
+
+const workspaceSchema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, "Workspace name is required"],
+      trim: true,
+      minLength: [2, "Workspace name must be at least 2 characters long"],
+      maxLength: [50, "Workspace name cannot exceed 50 characters"],
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Owner ID is required"],
+    },
+    // Every user gets exactly one personal workspace that cannot be shared away
+    isPersonal: {
+      type: Boolean,
+      default: false,
+    },
+    members: {
+      type: [memberSchema],
+      default: [],
+    },
+    wipLimits: {
+      type: wipLimitsSchema,
+      default: () => ({}),
+    },
+  },
+  { timestamps: true }
+);
+
+// Look up the workspaces a user belongs to
+workspaceSchema.index({ "members.userId": 1 });
+// A user has a single personal workspace, even when their first requests
+// race to create it
+workspaceSchema.index(
+  { ownerId: 1 },
+  { unique: true, partialFilterExpression: { isPersonal: true } }
+);
+
+// Prevent model recreation during development hot reloads
+const Workspace =
+  models.Workspace || mongoose.model("Workspace", workspaceSchema);
+
+export default Workspace;
@@ -14,10 +14,144 @@ export enum UserRole {
   ADMIN = "ADMIN",
 }
 
+export enum WorkspaceRole {
+  OWNER = "OWNER",
+  EDITOR = "EDITOR",
+  VIEWER = "VIEWER",
+}
+
+export type WorkspaceMember = {
+  userId: string;
+  role: WorkspaceRole;
+  joinedAt: Date;
+};
+
+// Maximum number of tasks per board column; null means unlimited
+export type WipLimits = Partial<Record<TaskStatus, number | null>>;
+
+export type Workspace = {
+  id: string;
+  name: string;
+  ownerId: string;
+  isPersonal: boolean;
+  members: WorkspaceMember[];
+  wipLimits: WipLimits;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// What a personal access token may do: read only, or read and change data
+export enum AccessTokenScope {
+  READ = "READ",
+  WRITE = "WRITE",
+}
+
+export type AccessToken = {
+  id: string;
+  name: string;
+  scope: AccessTokenScope;
+  // Leading characters of the token, to tell tokens apart
+  prefix: string;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+// Secret-URL iCalendar feed of the tasks with a due date in a workspace
+export type CalendarFeed = {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  // Leading characters of the feed token, to tell feeds apart
+  prefix: string;
+  // Time zone in which due dates become all-day calendar entries
+  timeZone: string;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// Events a workspace webhook can subscribe to
+export enum WebhookEvent {
+  TASK_CREATED = "task.created",
+  TASK_UPDATED = "task.updated",
+  TASK_COMPLETED = "task.completed",
+  TASK_DELETED = "task.deleted",
+  CATEGORY_CREATED = "category.created",
+  CATEGORY_UPDATED = "category.updated",
+  CATEGORY_DELETED = "category.deleted",
+  // Sent on request to test an endpoint, cannot be subscribed to
+  PING = "ping",
+}
+
+export enum WebhookDeliveryStatus {
+  // Not delivered yet, another attempt is scheduled
+  PENDING = "PENDING",
+  SUCCEEDED = "SUCCEEDED",
+  // Every attempt failed
+  FAILED = "FAILED",
+}
+
+export type Webhook = {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  // Key the payloads are signed with
+  secret: string;
+  active: boolean;
+  lastDelivery: {
+    status: WebhookDeliveryStatus;
+    responseStatus: number | null;
+    createdAt: Date;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type WebhookDeliveryAttempt = {
+  attemptedAt: Date;
+  // HTTP status the endpoint answered with, null if it could not be reached
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  // The JSON body that was signed and sent
+  payload: string;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+};
+
+export enum InvitationStatus {
+  PENDING = "PENDING",
+  ACCEPTED = "ACCEPTED",
+  DECLINED = "DECLINED",
+  REVOKED = "REVOKED",
+}
+
+export type WorkspaceInvitation = {
+  id: string;
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  status: InvitationStatus;
+  invitedBy: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
 export type Category = {
   id: string;
   name: string;
   userId: string;
+  workspaceId: string;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -34,6 +168,24 @@ export enum TaskPriority {
   HIGH = "HIGH",
 }
 
+export enum RecurrenceFrequency {
+  DAILY = "DAILY",
+  WEEKLY = "WEEKLY",
+  MONTHLY = "MONTHLY",
+}
+
+export type TaskRecurrence = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: number[];
+  monthDay?: number | null;
+  count?: number | null;
+  until?: Date | string | null;
+  // IANA time zone the weekdays and days of the month are counted in
+  timeZone?: string;
+  occurrence?: number;
+};
+
 export type Task = {
   id: string;
   title: string;
@@ -43,8 +195,332 @@ export type Task = {
   dueDate?: Date;
   categoryId?: string;
   userId: string;
+  workspaceId: string;
+  assigneeIds: string[];
+  parentTaskId?: string | null;
+  position: number;
+  recurrence?: TaskRecurrence | null;
+  nextOccurrenceId?: string | null;
+  blockedBy?: string[];
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type SubtaskProgress = {
+  completed: number;
+  total: number;
+};
+
+export type TaskReference = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+};
+
+export type TaskAssignee = {
+  id: string;
+  name: string;
+  image?: string;
+};
+
+export type TaskComment = {
+  id: string;
+  taskId: string;
+  // Top-level comment the comment replies to; replies are not nested further
+  parentId: string | null;
+  body: string;
+  // null once the author's account is deleted
+  author: TaskAssignee | null;
+  mentions: TaskAssignee[];
+  // Set when the body was changed after posting
+  editedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type TaskAttachment = {
+  id: string;
+  taskId: string;
+  // Original file name
+  name: string;
+  mimeType: string;
+  // In bytes
+  size: number;
+  // Whether a thumbnail can be downloaded, which only images have
+  hasThumbnail: boolean;
+  // null once the uploader's account is deleted
+  uploadedBy: TaskAssignee | null;
+  createdAt: Date;
+};
+
+export type TimeEntry = {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  // null once the user's account is deleted
+  user: TaskAssignee | null;
+  startedAt: Date;
+  // null while the timer is running
+  endedAt: Date | null;
+  note: string;
   createdAt: Date;
   updatedAt: Date;
 };
 
+// Minutes are listed per day of the week, Monday first
+export type TimesheetTask = {
+  id: string;
+  title: string;
+  minutes: number[];
+  total: number;
+};
+
+export type TimesheetCategory = {
+  // null for tasks without a category
+  id: string | null;
+  name: string;
+  tasks: TimesheetTask[];
+  minutes: number[];
+  total: number;
+};
+
+export type Timesheet = {
+  // Dates of the days of the week, as YYYY-MM-DD
+  days: string[];
+  categories: TimesheetCategory[];
+  minutes: number[];
+  total: number;
+};
+
+// Filters of the task list, as accepted by getTasks
+export type TaskQueryFilter = {
+  status?: string;
+  priority?: string;
+  categoryId?: string;
+  // A user id, "me" for the current user or "unassigned"
+  assigneeId?: string;
+  search?: string;
+};
+
+// Tasks targeted by a bulk action: explicit ids or every match of a filter
+export type BulkTaskSelection = { ids: string[] } | { filter: TaskQueryFilter };
+
+export type BulkTaskChanges = {
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  categoryId?: string | null;
+  dueDate?: string | null;
+  // Moves existing due dates by a number of days (negative moves earlier)
+  shiftDueDateDays?: number;
+};
+
+export type BulkTaskResult = {
+  id: string;
+  success: boolean;
+  error?: string;
+};
+
+// A row of an imported file mapped onto task fields, as raw text
+export type TaskImportRow = {
+  title?: string;
+  description?: string;
+  status?: string;
+  priority?: string;
+  dueDate?: string;
+  // Category name, created when the workspace has no category by that name
+  category?: string;
+};
+
+// Why a row of an import cannot be imported; `index` is its position in
+// the submitted rows
+export type TaskImportRowError = {
+  index: number;
+  errors: string[];
+};
+
+export type TaskImportPreview = {
+  validCount: number;
+  errors: TaskImportRowError[];
+  // Categories the import will create
+  newCategories: string[];
+};
+
+export type TaskImportResult = {
+  imported: number;
+  skipped: TaskImportRowError[];
+  createdCategories: string[];
+};
+
+export type BackupCategory = {
+  id: string;
+  name: string;
+  createdAt?: string;
+};
+
+// A task as stored in a backup. Ids are those of the exported account and
+// are only used to link tasks, subtasks and categories within the archive.
+export type BackupTask = {
+  id: string;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueDate?: string | null;
+  categoryId?: string | null;
+  parentTaskId?: string | null;
+  position: number;
+  recurrence?:
+    | (Omit<TaskRecurrence, "until"> & { until?: string | null })
+    | null;
+  assigneeIds: string[];
+  blockedBy: string[];
+  startedAt?: string | null;
+  completedAt?: string | null;
+  nextOccurrenceId?: string | null;
+  createdAt?: string;
+};
+
+// Versioned JSON archive of a user's profile and the categories and tasks of
+// a workspace
+export type BackupArchive = {
+  format: string;
+  version: number;
+  exportedAt: string;
+  profile: {
+    name: string;
+    email: string;
+    image?: string | null;
+  };
+  workspace: {
+    name: string;
+  };
+  categories: BackupCategory[];
+  tasks: BackupTask[];
+};
+
+// How a restore handles a category whose name is taken in the workspace
+export enum BackupCategoryConflict {
+  // Put the restored tasks in the existing category
+  MERGE = "MERGE",
+  // Restore the category under a numbered name, e.g. "Work (2)"
+  RENAME = "RENAME",
+}
+
+export type BackupRestoreOptions = {
+  categoryConflict: BackupCategoryConflict;
+  // Also restore the name and profile image of the backup
+  restoreProfile: boolean;
+};
+
+export type BackupRestoreResult = {
+  tasks: number;
+  createdCategories: string[];
+  mergedCategories: string[];
+  renamedCategories: { from: string; to: string }[];
+  profileRestored: boolean;
+};
+
+export type DailyTaskTrend = {
+  // Calendar day in YYYY-MM-DD form
+  date: string;
+  created: number;
+  completed: number;
+};
+
+export type CategoryTaskCount = {
+  id: string | null;
+  name: string;
+  count: number;
+};
+
+export type DashboardStats = {
+  total: number;
+  byStatus: Record<TaskStatus, number>;
+  byPriority: Record<TaskPriority, number>;
+  byCategory: CategoryTaskCount[];
+  overdue: number;
+  dueSoon: number;
+  trend: DailyTaskTrend[];
+};
+
+export enum ActivityEntityType {
+  TASK = "TASK",
+  CATEGORY = "CATEGORY",
+}
+
+export enum ActivityAction {
+  CREATED = "CREATED",
+  UPDATED = "UPDATED",
+  DELETED = "DELETED",
+  RESTORED = "RESTORED",
+  // Permanently deleted from the trash
+  PURGED = "PURGED",
+}
+
+// A single field that changed, from its old to its new value
+export type ActivityChange = {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+};
+
+export type Activity = {
+  id: string;
+  workspaceId: string;
+  entityType: ActivityEntityType;
+  entityId: string;
+  // Title or name of the entity when the change was made
+  entityName: string;
+  action: ActivityAction;
+  changes: ActivityChange[];
+  actor: TaskAssignee | null;
+  createdAt: Date;
+};
+
+export type TrashedTask = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  parentTaskId: string | null;
+  deletedAt: Date;
+};
+
+export type TrashedCategory = {
+  id: string;
+  name: string;
+  deletedAt: Date;
+};
+
+export type DurationStats = {
+  // Average duration in milliseconds, or null when no task qualifies
+  average: number | null;
+  count: number;
+};
+
+export type WeeklyThroughput = {
+  // Monday starting the week, in YYYY-MM-DD form
+  weekStart: string;
+  completed: number;
+};
+
+export type CategoryAnalytics = {
+  id: string | null;
+  name: string;
+  completed: number;
+  leadTime: DurationStats;
+  cycleTime: DurationStats;
+};
+
+export type TaskAnalytics = {
+  weeks: number;
+  completed: number;
+  leadTime: DurationStats;
+  cycleTime: DurationStats;
+  throughput: WeeklyThroughput[];
+  byCategory: CategoryAnalytics[];
+};
+
 export type SafeUser = Omit<User, "password">;
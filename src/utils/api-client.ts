@@ -2,13 +2,67 @@
  * A utility for making API requests with proper error handling
  */
 
-import { TaskPriority, TaskStatus } from "@/types";
+import {
+  AccessToken,
+  AccessTokenScope,
+  Activity,
+  BackupArchive,
+  BackupRestoreOptions,
+  BackupRestoreResult,
+  BulkTaskChanges,
+  BulkTaskResult,
+  BulkTaskSelection,
+  CalendarFeed,
+  DashboardStats,
+  RecurrenceFrequency,
+  SubtaskProgress,
+  TaskAnalytics,
+  TaskAssignee,
+  TaskAttachment,
+  TaskComment,
+  TaskImportPreview,
+  TaskImportResult,
+  TaskImportRow,
+  TaskPriority,
+  TaskQueryFilter,
+  TaskRecurrence,
+  TaskReference,
+  TaskStatus,
+  TimeEntry,
+  Timesheet,
+  TrashedCategory,
+  TrashedTask,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WipLimits,
+  WorkspaceRole,
+} from "@/types";
 import {
   createTask,
   updateTask,
   deleteTask,
   getTasks,
   getTaskById,
+  getTasksInRange,
+  getDashboardStats,
+  getTaskAnalytics,
+  getSubtasks,
+  createSubtask,
+  toggleSubtask,
+  reorderSubtasks,
+  getTaskDependencies,
+  addTaskDependency,
+  removeTaskDependency,
+  assignTask,
+  unassignTask,
+  moveTask,
+  undoTaskOperation,
+  bulkUpdateTasks,
+  bulkDeleteTasks,
+  exportTasksCsv,
+  previewTaskImport,
+  importTasks,
 } from "@/lib/actions/task.actions";
 import {
   getCategories,
@@ -16,6 +70,73 @@ import {
   updateCategory,
   deleteCategory,
 } from "@/lib/actions/category.actions";
+import {
+  getWorkspaces,
+  getCurrentWorkspace,
+  createWorkspace,
+  switchWorkspace,
+  renameWorkspace,
+  updateWipLimits,
+  updateMemberRole,
+  removeMember,
+  inviteToWorkspace,
+  getWorkspaceInvitations,
+  revokeInvitation,
+  getInvitation,
+  acceptInvitation,
+  declineInvitation,
+} from "@/lib/actions/workspace.actions";
+import {
+  getTaskActivity,
+  getRecentActivity,
+} from "@/lib/actions/activity.actions";
+import {
+  getTrash,
+  restoreTask,
+  restoreCategory,
+  deleteTaskPermanently,
+  deleteCategoryPermanently,
+  emptyTrash,
+} from "@/lib/actions/trash.actions";
+import {
+  getAccessTokens,
+  createAccessToken,
+  revokeAccessToken,
+} from "@/lib/actions/access-token.actions";
+import {
+  getCalendarFeeds,
+  createCalendarFeed,
+  regenerateCalendarFeed,
+  revokeCalendarFeed,
+} from "@/lib/actions/calendar-feed.actions";
+import {
+  getWebhooks,
+  createWebhook,
+  updateWebhook,
+  rotateWebhookSecret,
+  deleteWebhook,
+  getWebhookDeliveries,
+  testWebhook,
+  redeliverWebhookDelivery,
+} from "@/lib/actions/webhook.actions";
+import {
+  getTaskComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from "@/lib/actions/comment.actions";
+import {
+  getTaskTimeEntries,
+  getRunningTimer,
+  startTimer,
+  stopTimer,
+  createTimeEntry,
+  updateTimeEntry,
+  deleteTimeEntry,
+  getTimesheet,
+  exportTimesheetCsv,
+} from "@/lib/actions/time-entry.actions";
+import { exportBackup } from "@/lib/actions/backup.actions";
 import { registerUser } from "@/lib/actions/auth.actions";
 
 type FetchOptions = Omit<RequestInit, "body"> & {
@@ -44,9 +165,12 @@ export async function fetchApi<T = unknown>(
 ): Promise<T> {
   const { body, ...customOptions } = options;
 
-  const defaultHeaders: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
+  // Form data is sent as multipart, with the boundary set by the browser
+  const isFormData = body instanceof FormData;
+
+  const defaultHeaders: Record<string, string> = isFormData
+    ? {}
+    : { "Content-Type": "application/json" };
 
   // Merge headers
   const headers = {
@@ -62,7 +186,7 @@ export async function fetchApi<T = unknown>(
 
   // Add body if provided
   if (body !== undefined) {
-    fetchOptions.body = JSON.stringify(body);
+    fetchOptions.body = isFormData ? body : JSON.stringify(body);
   }
 
   // Make the request
@@ -97,6 +221,20 @@ interface Task {
   priority: TaskPriority;
   dueDate?: string | Date;
   category?: { id: string; name: string } | null;
+  parentTaskId?: string | null;
+  position?: number;
+  subtaskProgress?: SubtaskProgress;
+  subtasks?: Task[];
+  recurrence?: TaskRecurrence | null;
+  nextOccurrenceId?: string | null;
+  nextOccurrence?: { id: string; dueDate: string | Date } | null;
+  blockedBy?: string[];
+  blockers?: TaskReference[];
+  isBlocked?: boolean;
+  assigneeIds?: string[];
+  assignees?: TaskAssignee[];
+  estimateMinutes?: number | null;
+  trackedMinutes?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -111,6 +249,12 @@ interface TasksResponse {
   };
 }
 
+interface TaskDependencies {
+  blockedBy: TaskReference[];
+  blocking: TaskReference[];
+  isBlocked: boolean;
+}
+
 interface Category {
   id: string;
   name: string;
@@ -125,12 +269,95 @@ interface TaskCreateData {
   priority?: TaskPriority;
   dueDate?: Date | null;
   categoryId?: string | null;
+  recurrence?: TaskRecurrenceData | null;
+  estimateMinutes?: number | null;
+  completeSubtasks?: boolean;
+}
+
+interface TaskRecurrenceData {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: number[];
+  monthDay?: number | null;
+  count?: number | null;
+  until?: Date | null;
+}
+
+// Convert the form's recurrence rule into the server action payload. The
+// rule keeps the browser's time zone, in which the weekdays and days of the
+// month were picked.
+function toRecurrencePayload(recurrence?: TaskRecurrenceData | null) {
+  if (!recurrence) return null;
+
+  return {
+    ...recurrence,
+    until: recurrence.until ? recurrence.until.toISOString() : null,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
 }
 
 interface CategoryData {
   name: string;
 }
 
+interface WorkspaceSummary {
+  id: string;
+  name: string;
+  isPersonal: boolean;
+  role: WorkspaceRole;
+  memberCount: number;
+  wipLimits: WipLimits;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WorkspacesResponse {
+  currentWorkspaceId: string;
+  workspaces: WorkspaceSummary[];
+}
+
+interface WorkspaceMember {
+  userId: string;
+  name: string;
+  email: string;
+  image?: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+interface WorkspaceDetails extends WorkspaceSummary {
+  ownerId: string;
+  members: WorkspaceMember[];
+}
+
+interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  status: string;
+  expiresAt: string;
+  createdAt?: string;
+  token?: string;
+}
+
+interface InvitationDetails {
+  workspaceName: string;
+  inviterName: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  isForCurrentUser: boolean;
+}
+
+interface WorkspaceData {
+  name: string;
+}
+
+interface InvitationData {
+  email: string;
+  role: WorkspaceRole.EDITOR | WorkspaceRole.VIEWER;
+}
+
 interface UserRegisterData {
   name: string;
   email: string;
@@ -148,6 +375,7 @@ export const apiClient = {
       const status = params?.get("status") || "";
       const priority = params?.get("priority") || "";
       const categoryId = params?.get("categoryId") || "";
+      const assigneeId = params?.get("assignee") || "";
       const search = params?.get("search") || "";
       const page = parseInt(params?.get("page") || "1", 10);
       const limit = parseInt(params?.get("limit") || "10", 10);
@@ -158,6 +386,7 @@ export const apiClient = {
         status,
         priority,
         categoryId,
+        assigneeId,
         search,
         page,
         limit,
@@ -188,6 +417,55 @@ export const apiClient = {
     }
   },
 
+  async getTasksInRange(start: Date, end: Date): Promise<Task[]> {
+    try {
+      const tasks = await getTasksInRange({
+        start: start.toISOString(),
+        end: end.toISOString(),
+      });
+      return tasks as unknown as Task[];
+    } catch (error) {
+      console.error("Error in getTasksInRange client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch tasks"
+      );
+    }
+  },
+
+  async getDashboardStats(): Promise<DashboardStats> {
+    try {
+      // Group daily trends by the user's local calendar days
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const stats = await getDashboardStats({ timeZone });
+      return stats as DashboardStats;
+    } catch (error) {
+      console.error("Error in getDashboardStats client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch dashboard stats"
+      );
+    }
+  },
+
+  async getTaskAnalytics(weeks: number): Promise<TaskAnalytics> {
+    try {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const analytics = await getTaskAnalytics({ weeks, timeZone });
+      return analytics as TaskAnalytics;
+    } catch (error) {
+      console.error("Error in getTaskAnalytics client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch task analytics"
+      );
+    }
+  },
+
   async createTask(
     data: TaskCreateData
   ): Promise<{ message: string; task: Task }> {
@@ -199,6 +477,8 @@ export const apiClient = {
         priority: data.priority || TaskPriority.MEDIUM,
         dueDate: data.dueDate ? data.dueDate.toISOString() : null,
         categoryId: data.categoryId,
+        recurrence: toRecurrencePayload(data.recurrence),
+        estimateMinutes: data.estimateMinutes ?? null,
       };
 
       const task = await createTask(createData);
@@ -219,7 +499,7 @@ export const apiClient = {
   async updateTask(
     id: string,
     data: TaskCreateData
-  ): Promise<{ message: string; task: Task }> {
+  ): Promise<{ message: string; task: Task; undoToken: string }> {
     try {
       const updatedData: Record<string, unknown> = {};
 
@@ -233,12 +513,19 @@ export const apiClient = {
       if (data.dueDate !== undefined) {
         updatedData.dueDate = data.dueDate ? data.dueDate.toISOString() : null;
       }
+      if (data.recurrence !== undefined)
+        updatedData.recurrence = toRecurrencePayload(data.recurrence);
+      if (data.estimateMinutes !== undefined)
+        updatedData.estimateMinutes = data.estimateMinutes;
+      if (data.completeSubtasks !== undefined)
+        updatedData.completeSubtasks = data.completeSubtasks;
 
-      const task = await updateTask(id, updatedData);
+      const { undoToken, ...task } = await updateTask(id, updatedData);
 
       return {
         message: "Task updated successfully",
         task: task as unknown as Task,
+        undoToken,
       };
     } catch (error) {
       console.error("Error in updateTask client:", error);
@@ -249,10 +536,12 @@ export const apiClient = {
     }
   },
 
-  async deleteTask(id: string): Promise<{ message: string }> {
+  async deleteTask(
+    id: string
+  ): Promise<{ message: string; undoToken: string }> {
     try {
-      await deleteTask(id);
-      return { message: "Task deleted successfully" };
+      const { undoToken } = await deleteTask(id);
+      return { message: "Task deleted successfully", undoToken };
     } catch (error) {
       console.error("Error in deleteTask client:", error);
       throw new ApiError(
@@ -262,6 +551,274 @@ export const apiClient = {
     }
   },
 
+  async bulkUpdateTasks(
+    selection: BulkTaskSelection,
+    changes: BulkTaskChanges
+  ): Promise<{
+    message: string;
+    results: BulkTaskResult[];
+    updated: number;
+    undoToken: string | null;
+  }> {
+    try {
+      const { results, updated, undoToken } = await bulkUpdateTasks(
+        selection,
+        changes
+      );
+      return {
+        message: `${updated} tasks updated`,
+        results,
+        updated,
+        undoToken,
+      };
+    } catch (error) {
+      console.error("Error in bulkUpdateTasks client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to update tasks"
+      );
+    }
+  },
+
+  async bulkDeleteTasks(selection: BulkTaskSelection): Promise<{
+    message: string;
+    results: BulkTaskResult[];
+    deleted: number;
+    undoToken: string | null;
+  }> {
+    try {
+      const { results, deleted, undoToken } = await bulkDeleteTasks(selection);
+      return {
+        message: `${deleted} tasks deleted`,
+        results,
+        deleted,
+        undoToken,
+      };
+    } catch (error) {
+      console.error("Error in bulkDeleteTasks client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to delete tasks"
+      );
+    }
+  },
+
+  async exportTasksCsv(
+    filter: TaskQueryFilter & { sortBy?: string; sortOrder?: "asc" | "desc" }
+  ): Promise<{ csv: string; count: number }> {
+    try {
+      return await exportTasksCsv(filter);
+    } catch (error) {
+      console.error("Error in exportTasksCsv client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to export tasks"
+      );
+    }
+  },
+
+  async previewTaskImport(rows: TaskImportRow[]): Promise<TaskImportPreview> {
+    try {
+      return await previewTaskImport(rows);
+    } catch (error) {
+      console.error("Error in previewTaskImport client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to check the import"
+      );
+    }
+  },
+
+  async importTasks(rows: TaskImportRow[]): Promise<TaskImportResult> {
+    try {
+      return (await importTasks(rows)) as TaskImportResult;
+    } catch (error) {
+      console.error("Error in importTasks client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to import tasks"
+      );
+    }
+  },
+
+  async undoTaskOperation(undoToken: string): Promise<{ message: string }> {
+    try {
+      await undoTaskOperation(undoToken);
+      return { message: "Change undone" };
+    } catch (error) {
+      console.error("Error in undoTaskOperation client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to undo change"
+      );
+    }
+  },
+
+  // Subtasks
+  async getSubtasks(parentId: string): Promise<Task[]> {
+    try {
+      const subtasks = await getSubtasks(parentId);
+      return subtasks as unknown as Task[];
+    } catch (error) {
+      console.error("Error in getSubtasks client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch subtasks"
+      );
+    }
+  },
+
+  async createSubtask(
+    parentId: string,
+    data: TaskCreateData
+  ): Promise<{ message: string; task: Task }> {
+    try {
+      const task = await createSubtask(parentId, {
+        title: data.title,
+        description: data.description,
+        status: data.status || TaskStatus.TODO,
+        priority: data.priority || TaskPriority.MEDIUM,
+        dueDate: data.dueDate ? data.dueDate.toISOString() : null,
+      });
+
+      return {
+        message: "Subtask created successfully",
+        task: task as unknown as Task,
+      };
+    } catch (error) {
+      console.error("Error in createSubtask client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to create subtask"
+      );
+    }
+  },
+
+  async toggleSubtask(id: string): Promise<Task> {
+    try {
+      const task = await toggleSubtask(id);
+      return task as unknown as Task;
+    } catch (error) {
+      console.error("Error in toggleSubtask client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to toggle subtask"
+      );
+    }
+  },
+
+  async reorderSubtasks(
+    parentId: string,
+    orderedIds: string[]
+  ): Promise<{ message: string }> {
+    try {
+      await reorderSubtasks(parentId, orderedIds);
+      return { message: "Subtasks reordered successfully" };
+    } catch (error) {
+      console.error("Error in reorderSubtasks client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to reorder subtasks"
+      );
+    }
+  },
+
+  // Dependencies
+  async getTaskDependencies(id: string): Promise<TaskDependencies> {
+    try {
+      const dependencies = await getTaskDependencies(id);
+      return dependencies as TaskDependencies;
+    } catch (error) {
+      console.error("Error in getTaskDependencies client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch task dependencies"
+      );
+    }
+  },
+
+  async addTaskDependency(
+    taskId: string,
+    blockerId: string
+  ): Promise<{ message: string }> {
+    try {
+      await addTaskDependency(taskId, blockerId);
+      return { message: "Dependency added successfully" };
+    } catch (error) {
+      console.error("Error in addTaskDependency client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to add dependency"
+      );
+    }
+  },
+
+  async removeTaskDependency(
+    taskId: string,
+    blockerId: string
+  ): Promise<{ message: string }> {
+    try {
+      await removeTaskDependency(taskId, blockerId);
+      return { message: "Dependency removed successfully" };
+    } catch (error) {
+      console.error("Error in removeTaskDependency client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to remove dependency"
+      );
+    }
+  },
+
+  async assignTask(
+    taskId: string,
+    assigneeId: string
+  ): Promise<{ message: string }> {
+    try {
+      await assignTask(taskId, assigneeId);
+      return { message: "Task assigned successfully" };
+    } catch (error) {
+      console.error("Error in assignTask client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to assign task"
+      );
+    }
+  },
+
+  async unassignTask(
+    taskId: string,
+    assigneeId: string
+  ): Promise<{ message: string }> {
+    try {
+      await unassignTask(taskId, assigneeId);
+      return { message: "Task unassigned successfully" };
+    } catch (error) {
+      console.error("Error in unassignTask client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to unassign task"
+      );
+    }
+  },
+
+  async moveTask(
+    id: string,
+    neighbours: { afterId?: string | null; beforeId?: string | null }
+  ): Promise<{ message: string; position: number }> {
+    try {
+      const result = await moveTask(id, neighbours);
+      return { message: "Task moved successfully", position: result.position };
+    } catch (error) {
+      console.error("Error in moveTask client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to move task"
+      );
+    }
+  },
+
   // Categories
   async getCategories(): Promise<Category[]> {
     try {
@@ -328,6 +885,858 @@ export const apiClient = {
     }
   },
 
+  // Workspaces
+  async getWorkspaces(): Promise<WorkspacesResponse> {
+    try {
+      const result = await getWorkspaces();
+      return result as WorkspacesResponse;
+    } catch (error) {
+      console.error("Error in getWorkspaces client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch workspaces"
+      );
+    }
+  },
+
+  async getCurrentWorkspace(): Promise<WorkspaceDetails> {
+    try {
+      const workspace = await getCurrentWorkspace();
+      return workspace as WorkspaceDetails;
+    } catch (error) {
+      console.error("Error in getCurrentWorkspace client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch workspace"
+      );
+    }
+  },
+
+  async createWorkspace(
+    data: WorkspaceData
+  ): Promise<{ message: string; workspace: WorkspaceSummary }> {
+    try {
+      const workspace = await createWorkspace(data);
+
+      return {
+        message: "Workspace created successfully",
+        workspace: workspace as WorkspaceSummary,
+      };
+    } catch (error) {
+      console.error("Error in createWorkspace client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to create workspace"
+      );
+    }
+  },
+
+  async switchWorkspace(id: string): Promise<{ message: string }> {
+    try {
+      await switchWorkspace(id);
+      return { message: "Workspace switched successfully" };
+    } catch (error) {
+      console.error("Error in switchWorkspace client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to switch workspace"
+      );
+    }
+  },
+
+  async renameWorkspace(
+    id: string,
+    data: WorkspaceData
+  ): Promise<{ message: string; workspace: WorkspaceSummary }> {
+    try {
+      const workspace = await renameWorkspace(id, data);
+
+      return {
+        message: "Workspace renamed successfully",
+        workspace: workspace as WorkspaceSummary,
+      };
+    } catch (error) {
+      console.error("Error in renameWorkspace client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to rename workspace"
+      );
+    }
+  },
+
+  async updateWipLimits(
+    id: string,
+    limits: WipLimits
+  ): Promise<{ message: string; workspace: WorkspaceSummary }> {
+    try {
+      const workspace = await updateWipLimits(id, limits);
+
+      return {
+        message: "WIP limits updated successfully",
+        workspace: workspace as WorkspaceSummary,
+      };
+    } catch (error) {
+      console.error("Error in updateWipLimits client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to update WIP limits"
+      );
+    }
+  },
+
+  async updateMemberRole(
+    workspaceId: string,
+    memberId: string,
+    role: WorkspaceRole
+  ): Promise<{ message: string }> {
+    try {
+      await updateMemberRole(workspaceId, memberId, role);
+      return { message: "Member role updated successfully" };
+    } catch (error) {
+      console.error("Error in updateMemberRole client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to update member role"
+      );
+    }
+  },
+
+  async removeMember(
+    workspaceId: string,
+    memberId: string
+  ): Promise<{ message: string }> {
+    try {
+      await removeMember(workspaceId, memberId);
+      return { message: "Member removed successfully" };
+    } catch (error) {
+      console.error("Error in removeMember client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to remove member"
+      );
+    }
+  },
+
+  async inviteToWorkspace(
+    workspaceId: string,
+    data: InvitationData
+  ): Promise<{ message: string; invitation: WorkspaceInvitation }> {
+    try {
+      const invitation = await inviteToWorkspace(workspaceId, data);
+
+      return {
+        message: "Invitation created successfully",
+        invitation: invitation as WorkspaceInvitation,
+      };
+    } catch (error) {
+      console.error("Error in inviteToWorkspace client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to create invitation"
+      );
+    }
+  },
+
+  async getWorkspaceInvitations(
+    workspaceId: string
+  ): Promise<WorkspaceInvitation[]> {
+    try {
+      const invitations = await getWorkspaceInvitations(workspaceId);
+      return invitations as WorkspaceInvitation[];
+    } catch (error) {
+      console.error("Error in getWorkspaceInvitations client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch invitations"
+      );
+    }
+  },
+
+  async revokeInvitation(id: string): Promise<{ message: string }> {
+    try {
+      await revokeInvitation(id);
+      return { message: "Invitation revoked successfully" };
+    } catch (error) {
+      console.error("Error in revokeInvitation client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to revoke invitation"
+      );
+    }
+  },
+
+  async getInvitation(token: string): Promise<InvitationDetails> {
+    try {
+      const invitation = await getInvitation(token);
+      return invitation as InvitationDetails;
+    } catch (error) {
+      console.error("Error in getInvitation client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch invitation"
+      );
+    }
+  },
+
+  async acceptInvitation(
+    token: string
+  ): Promise<{ message: string; workspaceId: string }> {
+    try {
+      const result = await acceptInvitation(token);
+
+      return {
+        message: "Invitation accepted",
+        workspaceId: result.workspaceId,
+      };
+    } catch (error) {
+      console.error("Error in acceptInvitation client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to accept invitation"
+      );
+    }
+  },
+
+  async declineInvitation(token: string): Promise<{ message: string }> {
+    try {
+      await declineInvitation(token);
+      return { message: "Invitation declined" };
+    } catch (error) {
+      console.error("Error in declineInvitation client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to decline invitation"
+      );
+    }
+  },
+
+  // Activity log
+  async getTaskActivity(taskId: string): Promise<Activity[]> {
+    try {
+      const activities = await getTaskActivity(taskId);
+      return activities as Activity[];
+    } catch (error) {
+      console.error("Error in getTaskActivity client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch task activity"
+      );
+    }
+  },
+
+  // Comments
+  async getTaskComments(taskId: string): Promise<TaskComment[]> {
+    try {
+      return (await getTaskComments(taskId)) as TaskComment[];
+    } catch (error) {
+      console.error("Error in getTaskComments client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch comments"
+      );
+    }
+  },
+
+  async createComment(
+    taskId: string,
+    data: { body: string; parentId?: string | null }
+  ): Promise<TaskComment> {
+    try {
+      return (await createComment(taskId, data)) as TaskComment;
+    } catch (error) {
+      console.error("Error in createComment client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to create comment"
+      );
+    }
+  },
+
+  async updateComment(
+    id: string,
+    data: { body: string }
+  ): Promise<TaskComment> {
+    try {
+      return (await updateComment(id, data)) as TaskComment;
+    } catch (error) {
+      console.error("Error in updateComment client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to update comment"
+      );
+    }
+  },
+
+  async deleteComment(id: string): Promise<{ message: string }> {
+    try {
+      await deleteComment(id);
+      return { message: "Comment deleted" };
+    } catch (error) {
+      console.error("Error in deleteComment client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to delete comment"
+      );
+    }
+  },
+
+  // Attachments
+  async getTaskAttachments(taskId: string): Promise<TaskAttachment[]> {
+    try {
+      return await fetchApi<TaskAttachment[]>(
+        `/api/v1/tasks/${taskId}/attachments`
+      );
+    } catch (error) {
+      console.error("Error in getTaskAttachments client:", error);
+      throw new ApiError(
+        error instanceof ApiError ? error.status : 500,
+        error instanceof Error ? error.message : "Failed to fetch attachments"
+      );
+    }
+  },
+
+  async uploadAttachment(
+    taskId: string,
+    file: File,
+    thumbnail?: Blob | null
+  ): Promise<TaskAttachment> {
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      if (thumbnail) {
+        form.append("thumbnail", thumbnail, "thumbnail");
+      }
+
+      return await fetchApi<TaskAttachment>(
+        `/api/v1/tasks/${taskId}/attachments`,
+        { method: "POST", body: form }
+      );
+    } catch (error) {
+      console.error("Error in uploadAttachment client:", error);
+      throw new ApiError(
+        error instanceof ApiError ? error.status : 500,
+        error instanceof Error ? error.message : "Failed to upload attachment"
+      );
+    }
+  },
+
+  async deleteAttachment(id: string): Promise<{ message: string }> {
+    try {
+      await fetchApi(`/api/v1/attachments/${id}`, { method: "DELETE" });
+      return { message: "Attachment deleted" };
+    } catch (error) {
+      console.error("Error in deleteAttachment client:", error);
+      throw new ApiError(
+        error instanceof ApiError ? error.status : 500,
+        error instanceof Error ? error.message : "Failed to delete attachment"
+      );
+    }
+  },
+
+  // Time tracking
+  async getTaskTimeEntries(taskId: string): Promise<TimeEntry[]> {
+    try {
+      return (await getTaskTimeEntries(taskId)) as TimeEntry[];
+    } catch (error) {
+      console.error("Error in getTaskTimeEntries client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch time entries"
+      );
+    }
+  },
+
+  async getRunningTimer(): Promise<TimeEntry | null> {
+    try {
+      return (await getRunningTimer()) as TimeEntry | null;
+    } catch (error) {
+      console.error("Error in getRunningTimer client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch running timer"
+      );
+    }
+  },
+
+  async startTimer(
+    taskId: string
+  ): Promise<{ timer: TimeEntry; stopped: TimeEntry | null }> {
+    try {
+      return (await startTimer(taskId)) as {
+        timer: TimeEntry;
+        stopped: TimeEntry | null;
+      };
+    } catch (error) {
+      console.error("Error in startTimer client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to start timer"
+      );
+    }
+  },
+
+  async stopTimer(): Promise<TimeEntry> {
+    try {
+      return (await stopTimer()) as TimeEntry;
+    } catch (error) {
+      console.error("Error in stopTimer client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to stop timer"
+      );
+    }
+  },
+
+  async createTimeEntry(
+    taskId: string,
+    data: { startedAt: Date; endedAt: Date; note?: string }
+  ): Promise<TimeEntry> {
+    try {
+      return (await createTimeEntry(taskId, {
+        startedAt: data.startedAt.toISOString(),
+        endedAt: data.endedAt.toISOString(),
+        note: data.note,
+      })) as TimeEntry;
+    } catch (error) {
+      console.error("Error in createTimeEntry client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to log time"
+      );
+    }
+  },
+
+  async updateTimeEntry(
+    id: string,
+    data: { startedAt?: Date; endedAt?: Date; note?: string }
+  ): Promise<TimeEntry> {
+    try {
+      return (await updateTimeEntry(id, {
+        startedAt: data.startedAt?.toISOString(),
+        endedAt: data.endedAt?.toISOString(),
+        note: data.note,
+      })) as TimeEntry;
+    } catch (error) {
+      console.error("Error in updateTimeEntry client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to update time entry"
+      );
+    }
+  },
+
+  async deleteTimeEntry(id: string): Promise<{ message: string }> {
+    try {
+      await deleteTimeEntry(id);
+      return { message: "Time entry deleted" };
+    } catch (error) {
+      console.error("Error in deleteTimeEntry client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to delete time entry"
+      );
+    }
+  },
+
+  async getTimesheet(
+    weekStart: string,
+    scope: "mine" | "all"
+  ): Promise<Timesheet> {
+    try {
+      // Entries count towards the user's local calendar days
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      return (await getTimesheet({ weekStart, timeZone, scope })) as Timesheet;
+    } catch (error) {
+      console.error("Error in getTimesheet client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch timesheet"
+      );
+    }
+  },
+
+  async exportTimesheetCsv(
+    weekStart: string,
+    scope: "mine" | "all"
+  ): Promise<{ csv: string; total: number }> {
+    try {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      return await exportTimesheetCsv({ weekStart, timeZone, scope });
+    } catch (error) {
+      console.error("Error in exportTimesheetCsv client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to export timesheet"
+      );
+    }
+  },
+
+  async getRecentActivity(limit?: number): Promise<Activity[]> {
+    try {
+      const activities = await getRecentActivity({ limit });
+      return activities as Activity[];
+    } catch (error) {
+      console.error("Error in getRecentActivity client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch recent activity"
+      );
+    }
+  },
+
+  // Trash
+  async getTrash(): Promise<{
+    tasks: TrashedTask[];
+    categories: TrashedCategory[];
+    retentionDays: number;
+  }> {
+    try {
+      const trash = await getTrash();
+      return trash as {
+        tasks: TrashedTask[];
+        categories: TrashedCategory[];
+        retentionDays: number;
+      };
+    } catch (error) {
+      console.error("Error in getTrash client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch trash"
+      );
+    }
+  },
+
+  async restoreTask(id: string): Promise<{ message: string }> {
+    try {
+      await restoreTask(id);
+      return { message: "Task restored" };
+    } catch (error) {
+      console.error("Error in restoreTask client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to restore task"
+      );
+    }
+  },
+
+  async restoreCategory(id: string): Promise<{ message: string }> {
+    try {
+      await restoreCategory(id);
+      return { message: "Category restored" };
+    } catch (error) {
+      console.error("Error in restoreCategory client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to restore category"
+      );
+    }
+  },
+
+  async deleteTaskPermanently(id: string): Promise<{ message: string }> {
+    try {
+      await deleteTaskPermanently(id);
+      return { message: "Task permanently deleted" };
+    } catch (error) {
+      console.error("Error in deleteTaskPermanently client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to delete task"
+      );
+    }
+  },
+
+  async deleteCategoryPermanently(id: string): Promise<{ message: string }> {
+    try {
+      await deleteCategoryPermanently(id);
+      return { message: "Category permanently deleted" };
+    } catch (error) {
+      console.error("Error in deleteCategoryPermanently client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to delete category"
+      );
+    }
+  },
+
+  async emptyTrash(): Promise<{ message: string }> {
+    try {
+      await emptyTrash();
+      return { message: "Trash emptied" };
+    } catch (error) {
+      console.error("Error in emptyTrash client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to empty trash"
+      );
+    }
+  },
+
+  // Personal access tokens
+  async getAccessTokens(): Promise<AccessToken[]> {
+    try {
+      const accessTokens = await getAccessTokens();
+      return accessTokens as AccessToken[];
+    } catch (error) {
+      console.error("Error in getAccessTokens client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch access tokens"
+      );
+    }
+  },
+
+  async createAccessToken(data: {
+    name: string;
+    scope: AccessTokenScope;
+    expiresInDays: number;
+  }): Promise<{ message: string; accessToken: AccessToken; token: string }> {
+    try {
+      const { token, ...accessToken } = await createAccessToken(data);
+      return {
+        message: "Access token created",
+        accessToken: accessToken as AccessToken,
+        token,
+      };
+    } catch (error) {
+      console.error("Error in createAccessToken client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to create access token"
+      );
+    }
+  },
+
+  async revokeAccessToken(id: string): Promise<{ message: string }> {
+    try {
+      await revokeAccessToken(id);
+      return { message: "Access token revoked" };
+    } catch (error) {
+      console.error("Error in revokeAccessToken client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to revoke access token"
+      );
+    }
+  },
+
+  // Calendar feeds
+  async getCalendarFeeds(): Promise<CalendarFeed[]> {
+    try {
+      const feeds = await getCalendarFeeds();
+      return feeds as CalendarFeed[];
+    } catch (error) {
+      console.error("Error in getCalendarFeeds client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch calendar feeds"
+      );
+    }
+  },
+
+  async createCalendarFeed(data: {
+    timeZone: string;
+  }): Promise<CalendarFeed & { token: string }> {
+    try {
+      const feed = await createCalendarFeed(data);
+      return feed as CalendarFeed & { token: string };
+    } catch (error) {
+      console.error("Error in createCalendarFeed client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to create calendar feed"
+      );
+    }
+  },
+
+  async regenerateCalendarFeed(
+    id: string
+  ): Promise<CalendarFeed & { token: string }> {
+    try {
+      const feed = await regenerateCalendarFeed(id);
+      return feed as CalendarFeed & { token: string };
+    } catch (error) {
+      console.error("Error in regenerateCalendarFeed client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to regenerate calendar feed"
+      );
+    }
+  },
+
+  async revokeCalendarFeed(id: string): Promise<{ message: string }> {
+    try {
+      await revokeCalendarFeed(id);
+      return { message: "Calendar feed revoked" };
+    } catch (error) {
+      console.error("Error in revokeCalendarFeed client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to revoke calendar feed"
+      );
+    }
+  },
+
+  // Webhooks
+  async getWebhooks(): Promise<Webhook[]> {
+    try {
+      const webhooks = await getWebhooks();
+      return webhooks as Webhook[];
+    } catch (error) {
+      console.error("Error in getWebhooks client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to fetch webhooks"
+      );
+    }
+  },
+
+  async createWebhook(data: {
+    url: string;
+    events: WebhookEvent[];
+  }): Promise<{ message: string; webhook: Webhook }> {
+    try {
+      const webhook = await createWebhook(data);
+      return { message: "Webhook created", webhook: webhook as Webhook };
+    } catch (error) {
+      console.error("Error in createWebhook client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to create webhook"
+      );
+    }
+  },
+
+  async updateWebhook(
+    id: string,
+    data: { url?: string; events?: WebhookEvent[]; active?: boolean }
+  ): Promise<{ message: string; webhook: Webhook }> {
+    try {
+      const webhook = await updateWebhook(id, data);
+      return { message: "Webhook updated", webhook: webhook as Webhook };
+    } catch (error) {
+      console.error("Error in updateWebhook client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to update webhook"
+      );
+    }
+  },
+
+  async rotateWebhookSecret(
+    id: string
+  ): Promise<{ message: string; webhook: Webhook }> {
+    try {
+      const webhook = await rotateWebhookSecret(id);
+      return { message: "Webhook secret rotated", webhook: webhook as Webhook };
+    } catch (error) {
+      console.error("Error in rotateWebhookSecret client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to rotate webhook secret"
+      );
+    }
+  },
+
+  async deleteWebhook(id: string): Promise<{ message: string }> {
+    try {
+      await deleteWebhook(id);
+      return { message: "Webhook deleted" };
+    } catch (error) {
+      console.error("Error in deleteWebhook client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to delete webhook"
+      );
+    }
+  },
+
+  async getWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+    try {
+      const deliveries = await getWebhookDeliveries(webhookId);
+      return deliveries as WebhookDelivery[];
+    } catch (error) {
+      console.error("Error in getWebhookDeliveries client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to fetch webhook deliveries"
+      );
+    }
+  },
+
+  async testWebhook(id: string): Promise<WebhookDelivery> {
+    try {
+      const delivery = await testWebhook(id);
+      return delivery as WebhookDelivery;
+    } catch (error) {
+      console.error("Error in testWebhook client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to test webhook"
+      );
+    }
+  },
+
+  async redeliverWebhookDelivery(deliveryId: string): Promise<WebhookDelivery> {
+    try {
+      const delivery = await redeliverWebhookDelivery(deliveryId);
+      return delivery as WebhookDelivery;
+    } catch (error) {
+      console.error("Error in redeliverWebhookDelivery client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error
+          ? error.message
+          : "Failed to redeliver webhook delivery"
+      );
+    }
+  },
+
+  // Account backup
+  async exportBackup(): Promise<BackupArchive> {
+    try {
+      return await exportBackup();
+    } catch (error) {
+      console.error("Error in exportBackup client:", error);
+      throw new ApiError(
+        500,
+        error instanceof Error ? error.message : "Failed to export backup"
+      );
+    }
+  },
+
+  async restoreBackup(
+    archive: unknown,
+    options: BackupRestoreOptions
+  ): Promise<BackupRestoreResult> {
+    try {
+      // Sent to a route handler, as backups exceed the server action limit
+      return await fetchApi<BackupRestoreResult>("/api/v1/me/backup", {
+        method: "POST",
+        body: { archive, options },
+      });
+    } catch (error) {
+      console.error("Error in restoreBackup client:", error);
+      throw new ApiError(
+        error instanceof ApiError ? error.status : 500,
+        error instanceof Error ? error.message : "Failed to restore backup"
+      );
+    }
+  },
+
   // User registration
   async register(data: UserRegisterData): Promise<{ message: string }> {
     try {
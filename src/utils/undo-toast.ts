@@ -0,0 +1,41 @@
+"use client";
+
+import { toast } from "sonner";
+import { apiClient } from "@/utils/api-client";
+
+// How long the Undo button stays available after a change
+export const UNDO_TOAST_DURATION = 8000;
+
+/**
+ * Shows a success toast with an Undo button that replays the inverse of the
+ * change(s) described by the given undo tokens
+ */
+export function toastWithUndo(
+  message: string,
+  undoTokens: string[],
+  onUndone?: () => void
+) {
+  toast.success(message, {
+    duration: UNDO_TOAST_DURATION,
+    action: {
+      label: "Undo",
+      onClick: async () => {
+        try {
+          await Promise.all(
+            undoTokens.map((token) => apiClient.undoTaskOperation(token))
+          );
+          toast.success("Change undone");
+
+          if (onUndone) {
+            onUndone();
+          }
+        } catch (error) {
+          console.error("Error undoing change:", error);
+          toast.error(
+            error instanceof Error ? error.message : "Failed to undo change"
+          );
+        }
+      },
+    },
+  });
+}